@@ -0,0 +1,180 @@
+import { test, expect, describe, beforeAll, afterAll, mock } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ensureDb, closeDb, getArticleByUrl, getNotifiedUrls } from "../../db";
+import { resetConfig } from "../../config";
+import { runNewsfeed, markArticlesNotified, type NewsfeedResult } from "../../main";
+import { createDigestEmbed } from "../../discord/discord-embed";
+import { getLlmUsage } from "../../llm/client";
+
+// Skip search index sync in tests (loads TensorFlow which is slow)
+process.env.SKIP_SEARCH_INDEX = "1";
+
+/**
+ * Fixture feeds and pages are served from disk, and LLM responses are replayed
+ * from fixtures/newsfeed/llm. The responses there are hand-written; re-record
+ * them against a real API with LLM_FIXTURES=record after changing a prompt.
+ */
+const FIXTURES_DIR = join(import.meta.dir, "../fixtures/newsfeed");
+
+const FIXTURE_ROUTES: Record<string, string> = {
+  "https://fixtures.test/blog/feed.xml": "feeds/blog.xml",
+  "https://fixtures.test/ai/feed.json": "feeds/ai.json",
+  "https://fixtures.test/blog/postgres-queues": "pages/postgres-queues.html",
+  "https://fixtures.test/blog/js-frameworks": "pages/js-frameworks.html",
+  "https://fixtures.test/ai/agent-evals": "pages/agent-evals.html",
+};
+
+const ENV_KEYS = [
+  "CONFIG_PATH",
+  "DB_PATH",
+  "LLM_FIXTURES",
+  "LLM_FIXTURES_DIR",
+  "SEARCH_INDEX_PATH",
+] as const;
+
+/**
+ * Serve fixture feeds and pages instead of the network and replay LLM responses
+ * for the enclosing describe block, on a fresh in-memory database
+ */
+function useOfflineFixtures(requested: string[] = []) {
+  const originalFetch = globalThis.fetch;
+  const originalEnv = Object.fromEntries(ENV_KEYS.map((key) => [key, process.env[key]]));
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = mkdtempSync(join(tmpdir(), "newsfeed-offline-"));
+    process.env.CONFIG_PATH = join(FIXTURES_DIR, "sources.yaml");
+    process.env.DB_PATH = ":memory:";
+    process.env.LLM_FIXTURES = "replay";
+    process.env.LLM_FIXTURES_DIR = join(FIXTURES_DIR, "llm");
+    process.env.SEARCH_INDEX_PATH = join(tempDir, "orama-index.msp");
+    resetConfig();
+
+    globalThis.fetch = mock(async (input: RequestInfo | URL) => {
+      const url = input.toString();
+      requested.push(url);
+      const route = FIXTURE_ROUTES[url];
+      if (!route) return new Response("Not Found", { status: 404 });
+      return new Response(Bun.file(join(FIXTURES_DIR, route)));
+    }) as unknown as typeof fetch;
+
+    await ensureDb(":memory:");
+  });
+
+  afterAll(() => {
+    globalThis.fetch = originalFetch;
+    for (const key of ENV_KEYS) {
+      if (originalEnv[key] === undefined) delete process.env[key];
+      else process.env[key] = originalEnv[key];
+    }
+    resetConfig();
+    closeDb();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+}
+
+function digestOf(result: NewsfeedResult, profile: string) {
+  const digest = result.digests.find((d) => d.profile.name === profile);
+  if (!digest) throw new Error(`no digest for ${profile}`);
+  return digest;
+}
+
+describe("runNewsfeed offline", () => {
+  const requested: string[] = [];
+  let result: NewsfeedResult;
+  const digestFor = (profile: string) => digestOf(result, profile);
+
+  useOfflineFixtures(requested);
+
+  beforeAll(async () => {
+    result = await runNewsfeed();
+  });
+
+  test("only reads fixture feeds and pages", () => {
+    expect(requested.every((url) => url in FIXTURE_ROUTES)).toBe(true);
+  });
+
+  test("keeps the articles the replayed filter scored, best first", () => {
+    expect(digestFor("platform").articles.map((a) => a.url)).toEqual([
+      "https://fixtures.test/blog/postgres-queues",
+      "https://fixtures.test/ai/agent-evals",
+    ]);
+  });
+
+  test("scores the same articles separately for each profile", () => {
+    const ai = digestFor("ai");
+
+    expect(result.digests.map((d) => d.profile.name)).toEqual(["platform", "ai"]);
+    expect(ai.profile.channel_id).toBe("200000000000000002");
+    // Only the ai category, and the summary is shared with the platform digest
+    expect(ai.articles).toEqual([digestFor("platform").articles[1]!]);
+    expect(getLlmUsage().find((u) => u.stage === "filter")?.calls).toBe(2);
+  });
+
+  test("merges the repost into the original and summarizes in Japanese", () => {
+    const [queues, evals] = digestFor("platform").articles;
+
+    expect(queues?.also_discussed).toEqual([
+      {
+        source: "Fixture AI News",
+        url: "https://fixtures.test/ai/postgres-queues",
+        title: "Durable Postgres queues in production | Fixture AI News",
+      },
+    ]);
+    expect(queues?.summary).toContain("SKIP LOCKED");
+    expect(evals?.summary).toContain("1,200回");
+  });
+
+  test("stores detailed summaries from the replayed responses", async () => {
+    const stored = await getArticleByUrl("https://fixtures.test/blog/postgres-queues");
+
+    expect(stored?.detailed_summary).toContain("毎秒4,000件");
+    expect(JSON.parse(stored?.key_points ?? "[]")).toHaveLength(3);
+  });
+
+  test("builds the digest", async () => {
+    const [digest] = await createDigestEmbed(digestFor("platform").articles);
+    const body = digest?.fields?.map((f) => f.value).join("\n");
+
+    // Linked by their Japanese summaries
+    expect(body).toContain("(https://fixtures.test/blog/postgres-queues)");
+    expect(body).toContain("[コーディングエージェント1,200回の実行");
+    expect(body).not.toContain("js-frameworks");
+  });
+
+  test("tracks notified articles per profile", async () => {
+    const urls = digestFor("platform").articles.map((a) => a.url);
+
+    await markArticlesNotified(digestFor("ai"));
+
+    expect(await getNotifiedUrls("ai", urls)).toEqual(
+      new Set(["https://fixtures.test/ai/agent-evals"])
+    );
+    expect(await getNotifiedUrls("platform", urls)).toEqual(new Set());
+  });
+
+  test("reports the recorded token usage per stage", () => {
+    expect(getLlmUsage().map((u) => u.stage)).toEqual(["filter", "summarize", "detailed_summary"]);
+  });
+});
+
+describe("runNewsfeed on a later run", () => {
+  useOfflineFixtures();
+
+  test("sends a profile the articles another profile posted first", async () => {
+    const first = await runNewsfeed();
+    // Only the platform digest went out
+    await markArticlesNotified(digestOf(first, "platform"));
+
+    // The feeds are unchanged, so nothing new is collected
+    const second = await runNewsfeed();
+
+    const [evals] = digestOf(second, "ai").articles;
+    expect(evals?.url).toBe("https://fixtures.test/ai/agent-evals");
+    // The summary from the first run is reused
+    expect(evals?.summary).toBe(digestOf(first, "ai").articles[0]?.summary);
+    expect(digestOf(second, "platform").articles).toEqual([]);
+  });
+});
@@ -4,10 +4,16 @@ import { filterArticles, type ArticleToFilter } from "../../filter";
 import { summarizeArticles, type ArticleToSummarize } from "../../summarize/summarize";
 import { createCategoryEmbeds } from "../../discord/discord-embed";
 import type { NotifyArticle } from "../../discord/notify";
+import { createLlmClient } from "../../llm/providers";
+import { resolveLlmSettings } from "../../llm/stages";
 
 // Skip search index sync in tests (loads TensorFlow which is slow)
 process.env.SKIP_SEARCH_INDEX = "1";
 
+const env = { GROQ_API_KEY: "test-key" };
+const filterLlm = createLlmClient("filter", resolveLlmSettings("filter", {}, env));
+const summarizeLlm = createLlmClient("summarize", resolveLlmSettings("summarize", {}, env));
+
 describe("Filter → Summarize Pipeline", () => {
   const originalFetch = globalThis.fetch;
 
@@ -92,12 +98,12 @@ describe("Filter → Summarize Pipeline", () => {
     }) as unknown as typeof fetch;
 
     // Run filter
-    const filtered = await filterArticles(testArticles, "test-key");
+    const filtered = await filterArticles(testArticles, filterLlm);
     expect(filtered.length).toBe(2);
     expect(filtered[0].title).toContain("Claude");
 
     // Run summarize
-    const summarized = await summarizeArticles(filtered, "test-key");
+    const summarized = await summarizeArticles(filtered, summarizeLlm);
     expect(summarized.length).toBe(2);
     expect(summarized[0].summary).toContain("Claude 4");
     expect(summarized[1].summary).toContain("XYZ");
@@ -109,12 +115,12 @@ describe("Filter → Summarize Pipeline", () => {
     }) as unknown as typeof fetch;
 
     // Filter should return all with default score
-    const filtered = await filterArticles(testArticles, "test-key");
+    const filtered = await filterArticles(testArticles, filterLlm);
     expect(filtered.length).toBe(3);
     expect(filtered.every((a) => a.reason === "api error")).toBe(true);
 
     // Summarize should return all with original titles as fallback
-    const summarized = await summarizeArticles(filtered, "test-key");
+    const summarized = await summarizeArticles(filtered, summarizeLlm);
     expect(summarized.length).toBe(3);
     // On API error, fallback to original titles
     expect(summarized[0].summary).toBe("Claude 4 Released with AGI Capabilities");
@@ -184,11 +190,11 @@ describe("Full Pipeline: Source → Filter → Summarize → Embed", () => {
     ];
 
     // Step 1: Filter
-    const filtered = await filterArticles(sourceArticles, "test-key");
+    const filtered = await filterArticles(sourceArticles, filterLlm);
     expect(filtered.length).toBe(1);
 
     // Step 2: Summarize
-    const summarized = await summarizeArticles(filtered, "test-key");
+    const summarized = await summarizeArticles(filtered, summarizeLlm);
     expect(summarized[0].summary).toBe("テスト要約");
 
     // Step 3: Convert to NotifyArticle
@@ -291,7 +297,7 @@ describe("Full Pipeline: Source → Filter → Summarize → Embed", () => {
       },
     ];
 
-    const summarized = await summarizeArticles(mixedArticles, "test-key");
+    const summarized = await summarizeArticles(mixedArticles, summarizeLlm);
 
     // English article gets summary
     const enArticle = summarized.find((a) => a.category === "tech");
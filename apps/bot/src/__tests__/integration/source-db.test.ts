@@ -1,4 +1,4 @@
-import { test, expect, describe, beforeEach, afterEach, mock } from "bun:test";
+import { test, expect, describe, beforeEach, afterEach, mock, setSystemTime } from "bun:test";
 import {
   ensureDb,
   closeDb,
@@ -6,10 +6,14 @@ import {
   saveArticle,
   markAsNotified,
   getRecentArticles,
+  getSourceHealthReport,
+  getArticleByUrl,
 } from "../../db";
 import type { FeedItem } from "../../sources/rss";
 import type { HNItem } from "../../sources/hackernews";
 import type { TrendingRepo } from "../../sources/github-trending";
+import { collectArticles } from "../../sources/registry";
+import { createDigestEmbed } from "../../discord/discord-embed";
 
 // Skip search index sync in tests (loads TensorFlow which is slow)
 process.env.SKIP_SEARCH_INDEX = "1";
@@ -111,15 +115,19 @@ describe("Source → DB Integration", () => {
   describe("HackerNews → DB flow", () => {
     const mockHNItems: HNItem[] = [
       {
+        id: 12344,
         title: "Show HN: My new AI project",
         url: "https://github.com/user/ai-project",
+        discussionUrl: "https://news.ycombinator.com/item?id=12344",
         score: 150,
         comments: 42,
         published: new Date(),
       },
       {
+        id: 12345,
         title: "Ask HN: Best practices for testing?",
         url: "https://news.ycombinator.com/item?id=12345",
+        discussionUrl: "https://news.ycombinator.com/item?id=12345",
         score: 89,
         comments: 23,
         published: new Date(),
@@ -145,6 +153,23 @@ describe("Source → DB Integration", () => {
       const aiProject = recent.find((a) => a.url.includes("ai-project"));
       expect(aiProject?.score).toBe(1.5);
     });
+
+    test("stores the HN item id and thread URL", async () => {
+      const [item] = mockHNItems;
+      await saveArticle({
+        url: item!.url,
+        title: item!.title,
+        source: "Hacker News",
+        category: "tech",
+        hn_id: item!.id,
+        discussion_url: item!.discussionUrl,
+        notified: false,
+      });
+
+      const [saved] = await getRecentArticles(24);
+      expect(saved?.hn_id).toBe(12344);
+      expect(saved?.discussion_url).toBe("https://news.ycombinator.com/item?id=12344");
+    });
   });
 
   describe("GitHub Trending → DB flow", () => {
@@ -154,6 +179,9 @@ describe("Source → DB Integration", () => {
         url: "https://github.com/microsoft/typescript",
         description: "TypeScript is a superset of JavaScript",
         stars: 234,
+        totalStars: 102345,
+        forks: 12500,
+        builtBy: ["ahejlsberg"],
         language: "typescript",
       },
       {
@@ -161,6 +189,9 @@ describe("Source → DB Integration", () => {
         url: "https://github.com/rust-lang/rust",
         description: "Empowering everyone to build reliable software",
         stars: 456,
+        totalStars: 98000,
+        forks: 12700,
+        builtBy: [],
         language: "rust",
       },
     ];
@@ -184,6 +215,124 @@ describe("Source → DB Integration", () => {
       expect(tsRepo?.source).toBe("GitHub (typescript)");
       expect(tsRepo?.summary).toContain("★234");
     });
+
+    const trendingHtml = `<article class="Box-row">
+      <h2 class="h3 lh-condensed"><a href="/oven-sh/bun">oven-sh / bun</a></h2>
+      <p class="col-9">Incredibly fast JavaScript runtime</p>
+      <span class="d-inline-block float-sm-right">1,234 stars today</span>
+    </article>`;
+    const trendingSource = {
+      type: "github-trending" as const,
+      name: "GitHub Trending",
+      languages: ["typescript"],
+      category: "repos",
+      enabled: true,
+    };
+    const DAY_MS = 24 * 60 * 60 * 1000;
+
+    test("reposts a trending streak only when it reaches a milestone", async () => {
+      const originalFetch = globalThis.fetch;
+      globalThis.fetch = mock(async () => new Response(trendingHtml)) as unknown as typeof fetch;
+      const collect = () => collectArticles([trendingSource], { recordAttempt: async () => false });
+
+      try {
+        setSystemTime(new Date(Date.now() - 2 * DAY_MS));
+        const { articles: dayOne } = await collect();
+        for (const { url, title, source: name, category, badge } of dayOne) {
+          await saveArticle({ url, title, source: name, category, badge, notified: true });
+        }
+
+        // Two days in a row only updates the badge of the stored repo
+        setSystemTime(new Date(Date.now() + DAY_MS));
+        const { articles: dayTwo } = await collect();
+        const stored = await getArticleByUrl("https://github.com/oven-sh/bun");
+        setSystemTime();
+
+        const { articles: dayThree } = await collect();
+        // A later run on the same day does not post the repo again
+        const { articles: sameDay } = await collect();
+
+        expect(dayOne.map((a) => a.badge)).toEqual(["🆕 初登場"]);
+        expect(dayTwo).toEqual([]);
+        expect(stored?.badge).toBe("🔥 2日連続");
+        expect(dayThree).toMatchObject([
+          { url: "https://github.com/oven-sh/bun", badge: "🔥 3日連続", resurfaced: true },
+        ]);
+        expect(sameDay).toEqual([]);
+
+        const [digest] = await createDigestEmbed(dayThree);
+        expect(JSON.stringify(digest)).toContain("🔥 3日連続");
+      } finally {
+        setSystemTime();
+        globalThis.fetch = originalFetch;
+      }
+    });
+
+    test("does not track streaks for weekly trending", async () => {
+      const originalFetch = globalThis.fetch;
+      globalThis.fetch = mock(async () => new Response(trendingHtml)) as unknown as typeof fetch;
+
+      try {
+        const { articles } = await collectArticles([{ ...trendingSource, since: "weekly" }], {
+          recordAttempt: async () => false,
+        });
+
+        expect(articles).toHaveLength(1);
+        expect(articles[0]?.badge).toBeUndefined();
+      } finally {
+        globalThis.fetch = originalFetch;
+      }
+    });
+  });
+
+  describe("GitHub Trending → source health", () => {
+    const source = {
+      type: "github-trending" as const,
+      name: "GitHub Trending",
+      languages: ["typescript", "rust"],
+      category: "repos",
+      enabled: true,
+    };
+    const originalFetch = globalThis.fetch;
+
+    afterEach(() => {
+      globalThis.fetch = originalFetch;
+    });
+
+    test("records a failure when every language fails", async () => {
+      globalThis.fetch = mock(
+        async () => new Response("Service Unavailable", { status: 503 })
+      ) as unknown as typeof fetch;
+
+      const { failedSources } = await collectArticles([source]);
+
+      expect(failedSources).toEqual(["GitHub Trending"]);
+      const [health] = await getSourceHealthReport();
+      expect(health).toMatchObject({
+        source: "GitHub Trending",
+        source_type: "github-trending",
+        last_status: "error",
+        last_error: "Status code 503",
+        consecutive_failures: 1,
+      });
+    });
+
+    test("keeps the repos of the languages that did not fail", async () => {
+      globalThis.fetch = mock(async (input: RequestInfo | URL) =>
+        input.toString().includes("/rust")
+          ? new Response("Service Unavailable", { status: 503 })
+          : new Response(`<article class="Box-row">
+              <h2 class="h3 lh-condensed"><a href="/oven-sh/bun">oven-sh / bun</a></h2>
+            </article>`)
+      ) as unknown as typeof fetch;
+
+      const { articles, failedSources } = await collectArticles([source]);
+
+      expect(articles.map((a) => a.url)).toEqual(["https://github.com/oven-sh/bun"]);
+      expect(failedSources).toEqual([]);
+      const [health] = await getSourceHealthReport();
+      expect(health).toMatchObject({ last_status: "ok", consecutive_failures: 0 });
+    });
   });
 
   describe("Notification flow", () => {
@@ -1,20 +1,28 @@
 import { pluginEmbeddings } from "@orama/plugin-embeddings";
+import { load, type UniversalSentenceEncoder } from "@tensorflow-models/universal-sentence-encoder";
 
 let embeddingsPlugin: Awaited<ReturnType<typeof pluginEmbeddings>> | null = null;
+let encoder: Promise<UniversalSentenceEncoder> | null = null;
 
 /**
- * Create the embeddings plugin with TensorFlow.js
- * Lazy initialization to avoid import issues
+ * Import TensorFlow.js dynamically to avoid issues on startup
  */
-export async function createEmbeddingsPlugin() {
-  if (embeddingsPlugin) return embeddingsPlugin;
-
-  // Import TensorFlow.js dynamically to avoid issues on startup
+async function loadTensorFlow(): Promise<void> {
   try {
     await import("@tensorflow/tfjs-node");
   } catch {
     console.warn("[embeddings] TensorFlow.js node bindings not available, using default");
   }
+}
+
+/**
+ * Create the embeddings plugin with TensorFlow.js
+ * Lazy initialization to avoid import issues
+ */
+export async function createEmbeddingsPlugin() {
+  if (embeddingsPlugin) return embeddingsPlugin;
+
+  await loadTensorFlow();
 
   embeddingsPlugin = await pluginEmbeddings({
     embeddings: {
@@ -36,4 +44,34 @@ export async function createEmbeddingsPlugin() {
  */
 export function resetEmbeddingsPlugin(): void {
   embeddingsPlugin = null;
+  encoder = null;
+}
+
+/**
+ * Scale a vector to unit length, as the plugin does before storing it
+ */
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return vector.map((value) => value / norm);
+}
+
+/**
+ * Embed texts with the sentence encoder the plugin uses (normalized 512-dim vectors),
+ * so they are comparable with the vectors stored in the search index
+ */
+export async function embedTexts(texts: string[]): Promise<number[][]> {
+  if (texts.length === 0) return [];
+  encoder ??= loadTensorFlow()
+    .then(() => load())
+    .catch((error: unknown) => {
+      // Don't cache the failure: the next call loads the model again
+      encoder = null;
+      throw error;
+    });
+  const embeddings = await (await encoder).embed(texts);
+  try {
+    return (await embeddings.array()).map(normalize);
+  } finally {
+    embeddings.dispose();
+  }
 }
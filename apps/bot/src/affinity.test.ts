@@ -0,0 +1,170 @@
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import {
+  ensureDb,
+  closeDb,
+  saveArticle,
+  saveArticleFeedback,
+  recordArticleClick,
+  getRankingWeights,
+  type RankingSignal,
+} from "./db";
+import {
+  computeRankingWeights,
+  explainScore,
+  formatRankingWeights,
+  learnRankingWeights,
+  matchRankingWeights,
+} from "./affinity";
+
+process.env.SKIP_SEARCH_INDEX = "1";
+
+const now = new Date("2026-03-01T00:00:00Z");
+
+function signal(
+  source: string,
+  kind: RankingSignal["kind"],
+  created_at = "2026-03-01 00:00:00",
+  category = "ai"
+): RankingSignal {
+  return { url: `https://example.com/${source}`, source, category, kind, created_at };
+}
+
+function weightOf(weights: ReturnType<typeof computeRankingWeights>, key: string) {
+  return weights.find((w) => w.dimension === "source" && w.key === key)?.weight;
+}
+
+describe("computeRankingWeights", () => {
+  test("boosts liked sources and penalizes disliked ones within bounds", () => {
+    const weights = computeRankingWeights(
+      [
+        ...Array.from({ length: 8 }, () => signal("Simon Willison", "up")),
+        ...Array.from({ length: 8 }, () => signal("PR Wire", "down")),
+      ],
+      now
+    );
+
+    expect(weightOf(weights, "Simon Willison")).toBeGreaterThan(1);
+    expect(weightOf(weights, "PR Wire")).toBeLessThan(1);
+    for (const w of weights) {
+      expect(w.weight).toBeGreaterThanOrEqual(0.7);
+      expect(w.weight).toBeLessThanOrEqual(1.3);
+    }
+    expect(weights.find((w) => w.dimension === "category")).toMatchObject({
+      key: "ai",
+      positive: 8,
+      negative: 8,
+    });
+  });
+
+  test("moves sources with little evidence less", () => {
+    const weights = computeRankingWeights(
+      [
+        signal("Few", "down"),
+        ...Array.from({ length: 10 }, () => signal("Many", "down")),
+        ...Array.from({ length: 10 }, () => signal("Other", "up")),
+      ],
+      now
+    );
+
+    expect(weightOf(weights, "Few")!).toBeGreaterThan(weightOf(weights, "Many")!);
+    expect(weightOf(weights, "Few")!).toBeLessThan(1);
+  });
+
+  test("decays old evidence and weighs clicks less than 👍", () => {
+    const weights = computeRankingWeights(
+      [
+        signal("Recent", "up"),
+        signal("Old", "up", "2025-11-01 00:00:00"),
+        signal("Clicked", "click"),
+        signal("Noise", "down"),
+      ],
+      now
+    );
+
+    const byKey = new Map(weights.filter((w) => w.dimension === "source").map((w) => [w.key, w]));
+    expect(byKey.get("Recent")?.positive).toBe(1);
+    expect(byKey.get("Old")?.positive).toBeLessThan(0.25);
+    expect(byKey.get("Clicked")?.positive).toBe(0.3);
+    expect(byKey.get("Recent")!.weight).toBeGreaterThan(byKey.get("Clicked")!.weight);
+    expect(byKey.get("Clicked")!.weight).toBeGreaterThan(byKey.get("Old")!.weight);
+  });
+
+  test("returns nothing without signals", () => {
+    expect(computeRankingWeights([], now)).toEqual([]);
+  });
+});
+
+describe("explainScore", () => {
+  test("lists every factor between the LLM score and the final score", () => {
+    const adjustments = matchRankingWeights({ source: "Zenn", category: "frontend" }, [
+      { dimension: "source", key: "Zenn", weight: 0.9, positive: 1, negative: 2.25 },
+      { dimension: "source", key: "Qiita", weight: 1.1, positive: 3, negative: 0 },
+      { dimension: "category", key: "frontend", weight: 1.05, positive: 2, negative: 1 },
+    ]);
+
+    expect(explainScore({ score: 0.68, llmScore: 0.8, freshnessFactor: 0.9, adjustments })).toBe(
+      "0.68 = LLM 0.80 × freshness 0.90 × source Zenn 0.90 (+1.0 / -2.3) × category frontend 1.05 (+2.0 / -1.0)"
+    );
+    expect(explainScore({ score: 0.7, llmScore: 0.7, freshnessFactor: 1 })).toBe("0.70 = LLM 0.70");
+  });
+});
+
+describe("formatRankingWeights", () => {
+  test("lists the strongest adjustments first per dimension", () => {
+    const message = formatRankingWeights([
+      { dimension: "source", key: "Zenn", weight: 1.02, positive: 1, negative: 0 },
+      { dimension: "source", key: "PR Wire", weight: 0.75, positive: 0, negative: 6 },
+      { dimension: "category", key: "ai", weight: 1.1, positive: 5, negative: 1 },
+    ]);
+
+    expect(message).toContain("**source**\n🔽 PR Wire ×0.75 (+0.0 / -6.0)\n🔼 Zenn ×1.02");
+    expect(message).toContain("**category**\n🔼 ai ×1.10");
+    expect(formatRankingWeights([])).toContain("No ranking weights yet");
+  });
+});
+
+describe("learnRankingWeights", () => {
+  beforeEach(async () => {
+    await ensureDb(":memory:");
+  });
+
+  afterEach(() => {
+    closeDb();
+  });
+
+  test("learns from stored reactions and clicks and replaces the stored weights", async () => {
+    await saveArticle({
+      url: "https://example.com/agents",
+      title: "Agents",
+      source: "Simon Willison",
+      category: "ai",
+      notified: true,
+    });
+    await saveArticle({
+      url: "https://example.com/launch",
+      title: "Launch",
+      source: "PR Wire",
+      category: "tech",
+      notified: true,
+    });
+    await saveArticleFeedback({ url: "https://example.com/agents", user_id: "u1", signal: "up" });
+    await saveArticleFeedback({ url: "https://example.com/launch", user_id: "u1", signal: "down" });
+    await recordArticleClick("https://example.com/agents");
+    // Feedback on articles that are no longer stored is ignored
+    await saveArticleFeedback({ url: "https://example.com/gone", user_id: "u1", signal: "down" });
+
+    const learned = await learnRankingWeights();
+    const stored = await getRankingWeights();
+
+    expect(stored).toHaveLength(4);
+    expect(stored).toEqual(expect.arrayContaining(learned.map((w) => expect.objectContaining(w))));
+    const agents = stored.find((w) => w.key === "Simon Willison");
+    expect(agents).toMatchObject({ dimension: "source", positive: 1.3, negative: 0 });
+    expect(agents!.weight).toBeGreaterThan(1);
+    expect(stored.find((w) => w.key === "PR Wire")!.weight).toBeLessThan(1);
+
+    // Re-learning replaces the previous set
+    await learnRankingWeights();
+    expect(await getRankingWeights()).toHaveLength(4);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Source and category affinity
+ * 👍/👎 reactions and detail page clicks are turned into a score multiplier per
+ * source and per category. Evidence decays with age, and every key is smoothed
+ * towards the overall approval rate, so a source with two reactions moves far
+ * less than one with twenty. The multipliers are stored so each adjustment can
+ * be traced back to the evidence behind it.
+ */
+
+import {
+  getRankingSignals,
+  saveRankingWeights,
+  type RankingDimension,
+  type RankingSignal,
+  type RankingWeight,
+} from "./db";
+
+/** A learned multiplier applied to one article, with the evidence behind it */
+export type ScoreAdjustment = Omit<RankingWeight, "updated_at">;
+
+// Signals older than this are ignored entirely
+const LOOKBACK_DAYS = 180;
+// Evidence loses half its weight every HALF_LIFE_DAYS
+const HALF_LIFE_DAYS = 30;
+// A click is weaker evidence than an explicit 👍
+const CLICK_WEIGHT = 0.3;
+// Pseudo-observations at the overall approval rate added to every key
+const PRIOR_STRENGTH = 5;
+// Multipliers stay within 1 ± MAX_ADJUSTMENT per dimension
+const MAX_ADJUSTMENT = 0.3;
+
+const DIMENSIONS: RankingDimension[] = ["source", "category"];
+
+function parseTimestamp(value: string): number {
+  return Date.parse(/^\d{4}-\d{2}-\d{2} /.test(value) ? `${value.replace(" ", "T")}Z` : value);
+}
+
+/**
+ * Positive/negative evidence of one signal after time decay
+ */
+function signalEvidence(signal: RankingSignal, now: Date): { positive: number; negative: number } {
+  const ageInDays = Math.max(0, (now.getTime() - parseTimestamp(signal.created_at)) / 86_400_000);
+  const decay = 0.5 ** (ageInDays / HALF_LIFE_DAYS);
+  if (signal.kind === "down") return { positive: 0, negative: decay };
+  return { positive: (signal.kind === "click" ? CLICK_WEIGHT : 1) * decay, negative: 0 };
+}
+
+/**
+ * Compute per-source and per-category multipliers from reactions and clicks
+ * Each key's approval rate is a Beta posterior centred on the overall rate;
+ * its distance from that rate, scaled to [-1, 1], moves the multiplier up to
+ * MAX_ADJUSTMENT either way.
+ */
+export function computeRankingWeights(
+  signals: RankingSignal[],
+  now: Date = new Date()
+): ScoreAdjustment[] {
+  if (signals.length === 0) return [];
+
+  const evidence = signals.map((signal) => ({ signal, ...signalEvidence(signal, now) }));
+  const totalPositive = evidence.reduce((sum, e) => sum + e.positive, 0);
+  const totalNegative = evidence.reduce((sum, e) => sum + e.negative, 0);
+  // Laplace-smoothed so a history of only 👍 (or only 👎) still leaves room to move
+  const priorRate = (totalPositive + 1) / (totalPositive + totalNegative + 2);
+
+  const weights: ScoreAdjustment[] = [];
+  for (const dimension of DIMENSIONS) {
+    const byKey = new Map<string, { positive: number; negative: number }>();
+    for (const e of evidence) {
+      const key = e.signal[dimension];
+      const totals = byKey.get(key) ?? { positive: 0, negative: 0 };
+      totals.positive += e.positive;
+      totals.negative += e.negative;
+      byKey.set(key, totals);
+    }
+
+    for (const [key, { positive, negative }] of byKey) {
+      const rate = (positive + PRIOR_STRENGTH * priorRate) / (positive + negative + PRIOR_STRENGTH);
+      const relative =
+        rate >= priorRate ? (rate - priorRate) / (1 - priorRate) : (rate - priorRate) / priorRate;
+      weights.push({
+        dimension,
+        key,
+        weight: round(1 + MAX_ADJUSTMENT * relative, 3),
+        positive: round(positive, 2),
+        negative: round(negative, 2),
+      });
+    }
+  }
+  return weights;
+}
+
+/**
+ * Recompute the weights from the stored signals and save them
+ */
+export async function learnRankingWeights(now: Date = new Date()): Promise<ScoreAdjustment[]> {
+  const signals = await getRankingSignals(LOOKBACK_DAYS);
+  const weights = computeRankingWeights(signals, now);
+  await saveRankingWeights(weights);
+  return weights;
+}
+
+/**
+ * Weights that apply to an article (at most one per dimension)
+ */
+export function matchRankingWeights(
+  article: { source: string; category: string },
+  weights: ScoreAdjustment[]
+): ScoreAdjustment[] {
+  return weights.filter((w) => w.key === article[w.dimension]);
+}
+
+/**
+ * Explain how an article's final score was derived from its LLM score
+ * e.g. "0.68 = LLM 0.80 × freshness 0.90 × source Zenn 0.95 (+1.0 / -2.3)", where
+ * +/- is the decayed positive (👍, clicks) and negative (👎) evidence
+ */
+export function explainScore(article: {
+  score: number;
+  llmScore?: number;
+  freshnessFactor?: number;
+  adjustments?: ScoreAdjustment[];
+}): string {
+  const factors = [`LLM ${(article.llmScore ?? article.score).toFixed(2)}`];
+  if (article.freshnessFactor !== undefined && article.freshnessFactor !== 1) {
+    factors.push(`freshness ${article.freshnessFactor.toFixed(2)}`);
+  }
+  for (const w of article.adjustments ?? []) {
+    factors.push(
+      `${w.dimension} ${w.key} ${w.weight.toFixed(2)} (+${w.positive.toFixed(1)} / -${w.negative.toFixed(1)})`
+    );
+  }
+  return `${article.score.toFixed(2)} = ${factors.join(" × ")}`;
+}
+
+const DISCORD_MAX_MESSAGE_LENGTH = 2000;
+
+/**
+ * Discord message listing the stored weights, strongest boosts and penalties first
+ */
+export function formatRankingWeights(weights: ScoreAdjustment[]): string {
+  if (weights.length === 0) {
+    return "⚖️ No ranking weights yet. React with 👍/👎 on posted articles to train them.";
+  }
+
+  const lines = ["⚖️ **Ranking weights** (+/- = decayed positive / negative evidence)"];
+  for (const dimension of DIMENSIONS) {
+    const entries = weights
+      .filter((w) => w.dimension === dimension)
+      .toSorted((a, b) => Math.abs(b.weight - 1) - Math.abs(a.weight - 1));
+    if (entries.length === 0) continue;
+    lines.push("", `**${dimension}**`);
+    for (const w of entries) {
+      lines.push(
+        `${w.weight >= 1 ? "🔼" : "🔽"} ${w.key} ×${w.weight.toFixed(2)} (+${w.positive.toFixed(1)} / -${w.negative.toFixed(1)})`
+      );
+    }
+  }
+
+  const message = lines.join("\n");
+  return message.length > DISCORD_MAX_MESSAGE_LENGTH
+    ? message.slice(0, DISCORD_MAX_MESSAGE_LENGTH - 3) + "..."
+    : message;
+}
+
+function round(value: number, digits: number): number {
+  const scale = 10 ** digits;
+  return Math.round(value * scale) / scale;
+}
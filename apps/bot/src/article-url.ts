@@ -14,3 +14,12 @@ export function getArticleDetailUrl(articleUrl: string): string {
   const encoded = encodeURIComponent(articleUrl);
   return `${BASE_URL}/article/${encoded}`;
 }
+
+/**
+ * Generate the story timeline page URL for Discord links
+ * Returns empty string if ARTICLE_SERVER_URL is not configured
+ */
+export function getStoryUrl(storyId: number): string {
+  if (!BASE_URL) return "";
+  return `${BASE_URL}/story/${storyId}`;
+}
@@ -2,26 +2,57 @@ import {
   Client,
   GatewayIntentBits,
   Events,
+  Partials,
   TextChannel,
   REST,
   Routes,
   SlashCommandBuilder,
   ChatInputCommandInteraction,
+  Message,
+  MessageReaction,
+  PartialMessage,
+  PartialMessageReaction,
+  PermissionFlagsBits,
+  User,
+  PartialUser,
 } from "discord.js";
-import { ensureDb } from "./db";
-import { runNewsfeed, markArticlesNotified } from "./main";
+import {
+  ensureDb,
+  getSourceHealthReport,
+  enableSource,
+  cleanupOldSourceFetchLogs,
+  getRankingWeights,
+} from "./db";
+import { runNewsfeed, markArticlesNotified, EMBED_FORMAT } from "./main";
 import { sendEmbedsViaBot } from "./discord/discord-embed";
+import { postArticleMessages, recordReactionFeedback } from "./discord/reactions";
 import { runFeedbackAgent, type FeedbackResult } from "./agent-feedback";
 import { watchTask, checkPendingTasks, cleanup, type TaskCompletionInfo } from "./task-monitor";
 import { generateMissingSummaries } from "./summarize/generate-missing-summaries";
-import { logError } from "./context-extractor";
+import { logError, logWarn } from "./context-extractor";
+import { formatHealthReport } from "./sources/health";
+import { formatRankingWeights } from "./affinity";
+import {
+  APPROVE_EMOJI,
+  REJECT_EMOJI,
+  formatInterests,
+  getActiveInterests,
+  postInterestSuggestion,
+  reviewInterestSuggestion,
+  suggestInterestChanges,
+} from "./interest-profile";
+import { getProfiles } from "./config";
+import { getLlmClient } from "./llm/stages";
 
 const client = new Client({
   intents: [
     GatewayIntentBits.Guilds,
     GatewayIntentBits.GuildMessages,
     GatewayIntentBits.MessageContent,
+    GatewayIntentBits.GuildMessageReactions,
   ],
+  // Reactions on messages posted before a restart arrive as partials
+  partials: [Partials.Message, Partials.Channel, Partials.Reaction],
 });
 
 const CHANNEL_ID = process.env.DISCORD_CHANNEL_ID || "";
@@ -35,6 +66,8 @@ const SUMMARY_GENERATION_INTERVAL_MS = 15 * 60 * 1000;
 // Schedule times (JST hours -> UTC hours)
 // JST 8:00 = UTC 23:00 (previous day)
 const SCHEDULE_HOURS_UTC = [23]; // 8:00 JST
+// Interest profile review after the Sunday UTC run (Monday 8:00 JST)
+const INTEREST_REVIEW_DAY_UTC = 0;
 
 let lastRunDate = "";
 
@@ -43,6 +76,34 @@ const commands = [
   new SlashCommandBuilder().setName("ping").setDescription("Check if the bot is responding"),
   new SlashCommandBuilder().setName("status").setDescription("Show bot uptime and status"),
   new SlashCommandBuilder().setName("run").setDescription("Manually trigger the newsfeed"),
+  new SlashCommandBuilder()
+    .setName("sources")
+    .setDescription("Source health report and re-enabling of disabled sources")
+    .addSubcommand((sub) =>
+      sub.setName("report").setDescription("Show failing and auto-disabled sources")
+    )
+    .addSubcommand((sub) =>
+      sub
+        .setName("enable")
+        .setDescription("Re-enable an auto-disabled source")
+        .addStringOption((option) =>
+          option.setName("name").setDescription("Source name as in sources.yaml").setRequired(true)
+        )
+    ),
+  new SlashCommandBuilder()
+    .setName("weights")
+    .setDescription("Show source/category weights learned from reactions and clicks"),
+  new SlashCommandBuilder()
+    .setName("interests")
+    .setDescription("Interest profiles and behavior-based updates")
+    .addSubcommand((sub) =>
+      sub.setName("show").setDescription("Show the interests each profile is scored against")
+    )
+    .addSubcommand((sub) =>
+      sub
+        .setName("suggest")
+        .setDescription("Suggest interest updates from reactions, clicks and searches now")
+    ),
   new SlashCommandBuilder()
     .setName("feedback")
     .setDescription("Submit feedback to create a task in vibe-kanban")
@@ -82,23 +143,85 @@ async function runScheduledNewsfeed() {
 
   try {
     const result = await runNewsfeed();
-    if (!result || result.articles.length === 0) {
-      console.log("No articles to post");
-      return;
+    if (result.disabledSources.length > 0) {
+      await channel.send(
+        `⛔ Auto-disabled after repeated fetch failures: ${result.disabledSources.join(", ")}\n` +
+          "Check `/sources report` and re-enable with `/sources enable`."
+      );
     }
+    await result.digests.reduce<Promise<void>>(async (previous, digest) => {
+      await previous;
+      const { profile, articles } = digest;
+      if (articles.length === 0) {
+        console.log(`No articles to post for ${profile.name}`);
+        return;
+      }
+
+      // Profiles without their own channel post to the default one
+      const target = profile.channel_id
+        ? (client.channels.cache.get(profile.channel_id) as TextChannel | undefined)
+        : channel;
+      if (!target) {
+        console.error(`Channel ${profile.channel_id} for profile ${profile.name} not found`);
+        return;
+      }
+
+      const success = digest.perArticle
+        ? await postArticleMessages(target, digest)
+        : await sendEmbedsViaBot(target, digest.embeds);
+      if (success) {
+        await markArticlesNotified(digest);
+        console.log(`✅ Posted ${articles.length} articles for ${profile.name} to Discord`);
+      }
+    }, Promise.resolve());
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logError(`Scheduled newsfeed failed: ${errMsg}`, {
+      source: "bot",
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+  }
+}
 
-    const success = await sendEmbedsViaBot(channel, result.embeds);
-    if (success) {
-      await markArticlesNotified(result.articles);
-      console.log(`✅ Posted ${result.articles.length} articles to Discord`);
+/**
+ * Suggest interest updates for every profile and post them for approval
+ * @returns number of suggestions posted
+ */
+async function runInterestReview(): Promise<number> {
+  console.log(`\n🧭 Reviewing interest profiles...`);
+
+  let posted = 0;
+  try {
+    const llm = await getLlmClient("interests");
+    if (!llm) {
+      console.log("No LLM configured for interest suggestions");
+      return 0;
     }
+
+    const profiles = await getProfiles();
+    await profiles.reduce<Promise<void>>(async (previous, profile) => {
+      await previous;
+      const suggestion = await suggestInterestChanges(profile, llm);
+      if (!suggestion) return;
+
+      // Suggestions go where the profile's digest is posted
+      const channelId = profile.channel_id ?? CHANNEL_ID;
+      const target = client.channels.cache.get(channelId) as TextChannel | undefined;
+      if (!target) {
+        console.error(`Channel ${channelId} for profile ${profile.name} not found`);
+        return;
+      }
+      await postInterestSuggestion(target, suggestion);
+      posted++;
+    }, Promise.resolve());
   } catch (error) {
     const errMsg = error instanceof Error ? error.message : String(error);
-    logError(`Scheduled newsfeed failed: ${errMsg}`, {
+    logError(`Interest review failed: ${errMsg}`, {
       source: "bot",
       stack: error instanceof Error ? error.stack : undefined,
     });
   }
+  return posted;
 }
 
 /**
@@ -117,7 +240,17 @@ function checkSchedule() {
     lastRunDate !== todayKey
   ) {
     lastRunDate = todayKey;
-    runScheduledNewsfeed();
+    runScheduledNewsfeed()
+      .then(() => {
+        if (now.getUTCDay() === INTEREST_REVIEW_DAY_UTC) return runInterestReview();
+      })
+      .catch((error) => {
+        const errMsg = error instanceof Error ? error.message : String(error);
+        logError(`Scheduled run failed: ${errMsg}`, {
+          source: "bot",
+          stack: error instanceof Error ? error.stack : undefined,
+        });
+      });
   }
 }
 
@@ -175,6 +308,13 @@ client.once(Events.ClientReady, async (c) => {
   console.log(`✅ Bot ready: ${c.user.tag}`);
   console.log(`📅 Scheduled hours (UTC): ${SCHEDULE_HOURS_UTC.join(", ")}`);
   console.log(`📺 Channel ID: ${CHANNEL_ID}`);
+  if (EMBED_FORMAT !== "article") {
+    // Reactions can only be traced back to an article on one-article messages
+    logWarn(
+      `EMBED_FORMAT=${EMBED_FORMAT} posts several articles per message, so 👍/👎 feedback is not collected; use EMBED_FORMAT=article to enable it`,
+      { source: "bot" }
+    );
+  }
 
   // Register slash commands
   const token = process.env.DISCORD_BOT_TOKEN;
@@ -188,10 +328,11 @@ client.once(Events.ClientReady, async (c) => {
   // Check pending tasks every 30 seconds
   setInterval(checkAndNotifyTasks, TASK_CHECK_INTERVAL_MS);
 
-  // Cleanup old task notifications daily
+  // Cleanup old task notifications and fetch logs daily
   setInterval(
     () => {
       cleanup(7).catch(console.error);
+      cleanupOldSourceFetchLogs(30).catch(console.error);
     },
     24 * 60 * 60 * 1000
   );
@@ -224,12 +365,113 @@ client.on(Events.InteractionCreate, async (interaction) => {
   } else if (commandName === "run") {
     await interaction.reply("Running newsfeed now...");
     await runScheduledNewsfeed();
+  } else if (commandName === "sources") {
+    await handleSourcesInteraction(interaction);
+  } else if (commandName === "interests") {
+    await handleInterestsInteraction(interaction);
+  } else if (commandName === "weights") {
+    await interaction.reply(formatRankingWeights(await getRankingWeights()));
   } else if (commandName === "feedback") {
     const feedbackText = interaction.options.getString("request", true);
     await handleFeedbackInteraction(interaction, feedbackText);
   }
 });
 
+/**
+ * Handle the interests slash command - show active interests or suggest updates now
+ */
+async function handleInterestsInteraction(interaction: ChatInputCommandInteraction) {
+  if (interaction.options.getSubcommand() === "suggest") {
+    await interaction.deferReply();
+    const posted = await runInterestReview();
+    await interaction.editReply(
+      posted > 0
+        ? `🧭 Posted ${posted} interest update(s) for review`
+        : "🧭 No interest updates to suggest"
+    );
+    return;
+  }
+
+  const sections = await Promise.all(
+    (await getProfiles()).map(async (profile) => {
+      const { version, interests } = await getActiveInterests(profile);
+      const label = version > 0 ? `v${version}` : "sources.yaml";
+      return `**${profile.name}** (${label})\n${formatInterests(interests)}`;
+    })
+  );
+  await interaction.reply(sections.join("\n\n").slice(0, 2000));
+}
+
+/**
+ * Whether a user may decide on interest suggestions (Manage Server permission)
+ */
+async function canReviewInterests(message: Message | PartialMessage, userId: string) {
+  const member = await message.guild?.members.fetch(userId).catch(() => null);
+  return member?.permissions.has(PermissionFlagsBits.ManageGuild) ?? false;
+}
+
+/**
+ * Record a 👍/👎 reaction on a posted article as feedback, or a ✅/❌ decision
+ * on an interest suggestion
+ */
+async function handleReaction(
+  reaction: MessageReaction | PartialMessageReaction,
+  user: User | PartialUser,
+  action: "add" | "remove"
+) {
+  if (user.bot) return;
+  try {
+    const full = reaction.partial ? await reaction.fetch() : reaction;
+    const emoji = full.emoji.name;
+    if (action === "add" && (emoji === APPROVE_EMOJI || emoji === REJECT_EMOJI)) {
+      if (!(await canReviewInterests(full.message, user.id))) {
+        console.log(`🧭 Ignored ${emoji} by ${user.id}: missing Manage Server permission`);
+        return;
+      }
+      const reply = await reviewInterestSuggestion({
+        messageId: full.message.id,
+        userId: user.id,
+        emoji,
+      });
+      if (reply) await full.message.reply(reply);
+      return;
+    }
+
+    const recorded = await recordReactionFeedback({
+      messageId: full.message.id,
+      userId: user.id,
+      emoji: full.emoji.name,
+      action,
+    });
+    if (recorded) {
+      console.log(`📊 Feedback ${action}: ${full.emoji.name} by ${user.id} on ${full.message.id}`);
+    }
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logError(`Failed to record reaction feedback: ${errMsg}`, { source: "bot" });
+  }
+}
+
+client.on(Events.MessageReactionAdd, (reaction, user) => handleReaction(reaction, user, "add"));
+client.on(Events.MessageReactionRemove, (reaction, user) =>
+  handleReaction(reaction, user, "remove")
+);
+
+/**
+ * Handle the sources slash command - health report or re-enable a source
+ */
+async function handleSourcesInteraction(interaction: ChatInputCommandInteraction) {
+  if (interaction.options.getSubcommand() === "enable") {
+    const name = interaction.options.getString("name", true);
+    const enabled = await enableSource(name);
+    await interaction.reply(enabled ? `✅ Re-enabled ${name}` : `${name} is not disabled`);
+    return;
+  }
+
+  const report = await getSourceHealthReport(7);
+  await interaction.reply(formatHealthReport(report, 7));
+}
+
 /**
  * Handle the feedback slash command - creates task and starts execution via vibe-kanban
  */
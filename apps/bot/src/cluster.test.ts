@@ -0,0 +1,109 @@
+import { test, expect, describe } from "bun:test";
+import { clusterArticles, estimateSimilarity, minHashSignature, tokenize } from "./cluster";
+import type { ArticleToFilter } from "./filter";
+
+const announcement =
+  "Today we are releasing Bun 1.2, the biggest update yet. It adds a built-in Postgres client, " +
+  "an S3 API, a text-based lockfile and much better Node.js compatibility, passing over 90% " +
+  "of the Node.js test suite. Upgrade with bun upgrade to try it out.";
+
+function article(overrides: Partial<ArticleToFilter>): ArticleToFilter {
+  return {
+    title: "Untitled",
+    url: `https://example.com/${Math.random().toString(36).slice(2)}`,
+    source: "Test",
+    category: "tech",
+    ...overrides,
+  };
+}
+
+describe("tokenize", () => {
+  test("lowercases words, keeps version numbers and drops stop words", () => {
+    expect(tokenize("Show HN: The Release of Bun v1.2.")).toEqual(["release", "bun", "1.2"]);
+  });
+
+  test("splits Japanese text into character bigrams", () => {
+    expect(tokenize("Bun 1.2がリリース")).toEqual(["bun", "1.2", "がリ", "リリ", "リー", "ース"]);
+  });
+});
+
+describe("minHashSignature", () => {
+  test("estimates identical sets as fully similar and disjoint sets as dissimilar", () => {
+    const a = minHashSignature(new Set(["postgres", "queue", "durable"]))!;
+    const b = minHashSignature(new Set(["postgres", "queue", "durable"]))!;
+    const c = minHashSignature(new Set(["react", "compiler", "hooks"]))!;
+
+    expect(estimateSimilarity(a, b)).toBe(1);
+    expect(estimateSimilarity(a, c)).toBeLessThan(0.2);
+  });
+
+  test("returns null for empty input", () => {
+    expect(minHashSignature(new Set())).toBeNull();
+  });
+});
+
+describe("clusterArticles", () => {
+  test("merges the same announcement from several sources", () => {
+    const hn = article({
+      title: "Bun 1.2",
+      source: "Hacker News",
+      content: "HN Score: 812点、402コメント",
+      discussion_url: "https://news.ycombinator.com/item?id=1",
+    });
+    const blog = article({
+      title: "Bun 1.2 | Bun Blog",
+      source: "Bun Blog",
+      content: announcement,
+    });
+    const lobsters = article({
+      title: "Bun v1.2 released",
+      source: "Lobsters",
+      content: `${announcement} Discussion on lobste.rs.`,
+    });
+    const unrelated = article({ title: "React Compiler beta", source: "React Blog" });
+
+    const result = clusterArticles([hn, unrelated, blog, lobsters]);
+
+    expect(result).toHaveLength(2);
+    // The copy with the most text represents the story, in the cluster's original position
+    expect(result[0]?.url).toBe(lobsters.url);
+    expect(result[0]?.also_discussed).toEqual([
+      {
+        source: "Hacker News",
+        url: hn.url,
+        title: "Bun 1.2",
+        discussion_url: "https://news.ycombinator.com/item?id=1",
+      },
+      { source: "Bun Blog", url: blog.url, title: "Bun 1.2 | Bun Blog" },
+    ]);
+    expect(result[1]).toBe(unrelated);
+  });
+
+  test("keeps different releases of the same project apart", () => {
+    const articles = [
+      article({ title: "Announcing TypeScript 5.5" }),
+      article({ title: "Announcing TypeScript 5.6" }),
+    ];
+
+    expect(clusterArticles(articles)).toEqual(articles);
+  });
+
+  test("merges Japanese articles with near-identical titles", () => {
+    const result = clusterArticles([
+      article({ title: "Bun 1.2がリリース：Postgresクライアントを内蔵", source: "Zenn" }),
+      article({ title: "Bun 1.2がリリース、Postgresクライアントを内蔵", source: "Qiita" }),
+    ]);
+
+    expect(result).toHaveLength(1);
+    expect(result[0]?.also_discussed?.map((a) => a.source)).toEqual(["Qiita"]);
+  });
+
+  test("does not treat short metadata content as similar", () => {
+    const articles = [
+      article({ title: "A tiny database", content: "HN Score: 100点" }),
+      article({ title: "Rust in the kernel", content: "HN Score: 100点" }),
+    ];
+
+    expect(clusterArticles(articles)).toHaveLength(2);
+  });
+});
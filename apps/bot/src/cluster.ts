@@ -0,0 +1,223 @@
+/**
+ * Cross-source near-duplicate clustering
+ * The same announcement often arrives from several sources in one run (HN,
+ * Lobsters, Zenn, the vendor blog) under different URLs. Candidates are grouped
+ * by MinHash similarity of their titles and text, and only one representative
+ * per cluster goes on to scoring and summarization; the other copies are kept
+ * as "also discussed on" links.
+ */
+
+import type { AlsoDiscussedLink } from "./db";
+import type { ArticleToFilter } from "./filter";
+
+const NUM_HASHES = 64;
+// Content shorter than this (e.g. "HN Score: 120点") says nothing about the story
+const MIN_CONTENT_LENGTH = 200;
+// Only the opening of the text is compared; it carries the announcement itself
+const MAX_CONTENT_LENGTH = 2000;
+
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "by",
+  "for",
+  "from",
+  "how",
+  "in",
+  "is",
+  "it",
+  "its",
+  "of",
+  "on",
+  "or",
+  "the",
+  "this",
+  "to",
+  "what",
+  "why",
+  "with",
+  "you",
+  "your",
+  // HN/Lobsters title prefixes
+  "show",
+  "ask",
+  "hn",
+]);
+
+// Latin words/version numbers, or runs of Japanese/Chinese characters
+const TOKEN_PATTERN =
+  /([\p{Script=Latin}\p{N}][\p{Script=Latin}\p{N}.+#]*)|([\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー]+)/gu;
+
+export interface ClusterOptions {
+  /** Estimated title similarity (0-1) above which two articles are the same story */
+  titleThreshold?: number;
+  /** Estimated text similarity (0-1) above which two articles are the same story */
+  contentThreshold?: number;
+}
+
+/**
+ * Split text into comparable tokens: lowercase words (stop words dropped) and
+ * character bigrams for CJK runs, which have no word boundaries
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const match of text.normalize("NFKC").toLowerCase().matchAll(TOKEN_PATTERN)) {
+    if (match[1]) {
+      // "v1.2" and "1.2" are the same version
+      const word = match[1].replace(/\.+$/, "").replace(/^v(?=\d)/, "");
+      if (word && !STOP_WORDS.has(word)) tokens.push(word);
+    } else if (match[2]) {
+      const run = match[2];
+      if (run.length === 1) tokens.push(run);
+      for (let i = 0; i < run.length - 1; i++) tokens.push(run.slice(i, i + 2));
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Overlapping token n-grams, so that text similarity reflects phrasing and
+ * not just shared vocabulary
+ */
+function shingles(tokens: string[], size: number): Set<string> {
+  if (tokens.length <= size) return new Set(tokens.length > 0 ? [tokens.join(" ")] : []);
+  const result = new Set<string>();
+  for (let i = 0; i <= tokens.length - size; i++) {
+    result.add(tokens.slice(i, i + size).join(" "));
+  }
+  return result;
+}
+
+/**
+ * MinHash signature: for each seeded hash, the minimum over all shingles.
+ * The share of equal slots between two signatures estimates their Jaccard similarity.
+ */
+export function minHashSignature(items: Set<string>): Uint32Array | null {
+  if (items.size === 0) return null;
+  const signature = new Uint32Array(NUM_HASHES).fill(0xffffffff);
+  for (const item of items) {
+    for (let seed = 0; seed < NUM_HASHES; seed++) {
+      const hash = Bun.hash.murmur32v3(item, seed);
+      if (hash < signature[seed]!) signature[seed] = hash;
+    }
+  }
+  return signature;
+}
+
+export function estimateSimilarity(a: Uint32Array, b: Uint32Array): number {
+  let equal = 0;
+  for (let i = 0; i < NUM_HASHES; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return equal / NUM_HASHES;
+}
+
+interface Fingerprint {
+  title: Uint32Array | null;
+  content: Uint32Array | null;
+}
+
+/**
+ * Drop a trailing site name ("Bun 1.2 | Bun Blog"), which differs between copies
+ */
+function stripSiteName(title: string): string {
+  return title.replace(/\s+[|｜]\s+[^|｜]+$/, "");
+}
+
+function fingerprint(article: ArticleToFilter): Fingerprint {
+  const content = article.content?.trim() ?? "";
+  return {
+    title: minHashSignature(new Set(tokenize(stripSiteName(article.title)))),
+    content:
+      content.length >= MIN_CONTENT_LENGTH
+        ? minHashSignature(shingles(tokenize(content.slice(0, MAX_CONTENT_LENGTH)), 3))
+        : null,
+  };
+}
+
+function isSameStory(
+  a: Fingerprint,
+  b: Fingerprint,
+  thresholds: Required<ClusterOptions>
+): boolean {
+  if (a.title && b.title && estimateSimilarity(a.title, b.title) >= thresholds.titleThreshold) {
+    return true;
+  }
+  return (
+    !!a.content &&
+    !!b.content &&
+    estimateSimilarity(a.content, b.content) >= thresholds.contentThreshold
+  );
+}
+
+/**
+ * Prefer the copy with the most text to summarize; the earliest on ties
+ */
+function pickRepresentative<T extends ArticleToFilter>(members: T[]): T {
+  return members.reduce((best, article) =>
+    (article.content?.length ?? 0) > (best.content?.length ?? 0) ? article : best
+  );
+}
+
+function toAlsoDiscussed(article: ArticleToFilter): AlsoDiscussedLink {
+  const link: AlsoDiscussedLink = {
+    source: article.source,
+    url: article.url,
+    title: article.title,
+  };
+  if (article.discussion_url) link.discussion_url = article.discussion_url;
+  return link;
+}
+
+function withAlsoDiscussed<T extends ArticleToFilter>(representative: T, others: T[]): T {
+  return { ...representative, also_discussed: others.map(toAlsoDiscussed) };
+}
+
+/**
+ * Group near-duplicate articles and keep one representative per cluster
+ * Representatives keep the input order of their cluster's first article, and
+ * carry the other members in `also_discussed`.
+ */
+export function clusterArticles<T extends ArticleToFilter>(
+  articles: T[],
+  options: ClusterOptions = {}
+): T[] {
+  const thresholds = {
+    titleThreshold: options.titleThreshold ?? 0.7,
+    contentThreshold: options.contentThreshold ?? 0.5,
+  };
+  const fingerprints = articles.map(fingerprint);
+
+  // Single-link clustering; runs have a few hundred candidates at most
+  const clusterOf = articles.map((_, i) => i);
+  const find = (i: number): number => {
+    while (clusterOf[i] !== i) i = clusterOf[i]!;
+    return i;
+  };
+  for (let i = 0; i < articles.length; i++) {
+    for (let j = i + 1; j < articles.length; j++) {
+      if (find(i) === find(j)) continue;
+      if (isSameStory(fingerprints[i]!, fingerprints[j]!, thresholds)) {
+        clusterOf[find(j)] = find(i);
+      }
+    }
+  }
+
+  const clusters = new Map<number, T[]>();
+  articles.forEach((article, i) => {
+    const root = find(i);
+    const members = clusters.get(root) ?? [];
+    members.push(article);
+    clusters.set(root, members);
+  });
+
+  return [...clusters.values()].map((members) => {
+    const representative = pickRepresentative(members);
+    const others = members.filter((m) => m !== representative);
+    return others.length === 0 ? representative : withAlsoDiscussed(representative, others);
+  });
+}
@@ -1,36 +1,48 @@
-// Default config path (relative to monorepo root)
-const DEFAULT_CONFIG_PATH = "./config/sources.yaml";
-
-export interface RssSource {
-  name: string;
-  type: "rss";
-  url: string;
-  category: string;
-  enabled: boolean;
-}
-
-export interface HackerNewsSource {
-  name: string;
-  type: "hackernews";
-  category: string;
-  enabled: boolean;
-}
+import type {
+  Config,
+  Source,
+  RssSource,
+  JsonFeedSource,
+  HackerNewsSource,
+  HackerNewsList,
+  GitHubTrendingSource,
+  GitHubTrendingSince,
+  GitHubReleasesSource,
+  ArxivSource,
+  LlmProvider,
+  LlmStage,
+  LlmStageConfig,
+  LlmConfig,
+  ScoringConfig,
+  ScoringPolicy,
+  InterestProfile,
+} from "@newsfeed-ai/core/config";
+import { resolveProfiles, resolveScoringPolicy } from "@newsfeed-ai/core/config";
 
-export interface GitHubTrendingSource {
-  name: string;
-  type: "github-trending";
-  languages: string[];
-  category: string;
-  enabled: boolean;
-}
+export { DEFAULT_PROFILE_NAME, renderScoringPrompt } from "@newsfeed-ai/core/config";
 
-export type Source = RssSource | HackerNewsSource | GitHubTrendingSource;
+export type {
+  Config,
+  Source,
+  RssSource,
+  JsonFeedSource,
+  HackerNewsSource,
+  HackerNewsList,
+  GitHubTrendingSource,
+  GitHubTrendingSince,
+  GitHubReleasesSource,
+  ArxivSource,
+  LlmProvider,
+  LlmStage,
+  LlmStageConfig,
+  LlmConfig,
+  ScoringConfig,
+  ScoringPolicy,
+  InterestProfile,
+};
 
-export interface Config {
-  sources: Source[];
-  interests: string[];
-  categories: Record<string, string>;
-}
+// Default config path (relative to monorepo root)
+const DEFAULT_CONFIG_PATH = "./config/sources.yaml";
 
 let config: Config | null = null;
 
@@ -43,6 +55,14 @@ export async function loadConfig(): Promise<Config> {
   return config;
 }
 
+/**
+ * Get all enabled sources, in config order
+ */
+export async function getEnabledSources(): Promise<Source[]> {
+  const cfg = await loadConfig();
+  return cfg.sources.filter((s) => s.enabled);
+}
+
 export async function getRssSources(): Promise<RssSource[]> {
   const cfg = await loadConfig();
   return cfg.sources.filter((s): s is RssSource => s.type === "rss" && s.enabled);
@@ -69,3 +89,28 @@ export async function getCategoryEmoji(category: string): Promise<string> {
   const cfg = await loadConfig();
   return cfg.categories[category] || `📌 ${category}`;
 }
+
+export async function getLlmConfig(): Promise<LlmConfig> {
+  const cfg = await loadConfig();
+  return cfg.llm ?? {};
+}
+
+export async function getScoringPolicy(): Promise<ScoringPolicy> {
+  const cfg = await loadConfig();
+  return resolveScoringPolicy(cfg.scoring);
+}
+
+/**
+ * Interest profiles to build digests for (a single default profile when none are configured)
+ */
+export async function getProfiles(): Promise<InterestProfile[]> {
+  const cfg = await loadConfig();
+  return resolveProfiles(cfg);
+}
+
+/**
+ * Forget the loaded config so the next call reads CONFIG_PATH again (for testing)
+ */
+export function resetConfig(): void {
+  config = null;
+}
@@ -1,12 +1,27 @@
 import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import {
   ensureDb,
   closeDb,
+  getDb,
   isArticleSeen,
   saveArticle,
   markAsNotified,
+  getNotifiedUrls,
+  markDismissed,
+  getUnsentArticles,
   getRecentArticles,
   getArticleByUrl,
+  getAllArticlesForIndexing,
+  getArticleContent,
+  saveArticleContent,
+  recordArticleMessage,
+  getArticleMessage,
+  saveArticleFeedback,
+  removeArticleFeedback,
+  getArticleFeedback,
 } from "./db";
 
 // Skip search index sync in tests (loads TensorFlow which is slow)
@@ -37,6 +52,33 @@ describe("Database Operations", () => {
 
       expect(await isArticleSeen("https://seen-article.com")).toBe(true);
     });
+
+    test("matches variants of a seen URL by canonical form", async () => {
+      await saveArticle({
+        url: "https://example.com/posts/hello?utm_source=rss",
+        title: "Hello",
+        source: "Test",
+        category: "tech",
+        notified: false,
+      });
+
+      expect(await isArticleSeen("http://example.com/posts/hello/")).toBe(true);
+      expect(await isArticleSeen("https://example.com/posts/hello#comments")).toBe(true);
+      expect(await isArticleSeen("https://example.com/posts/other")).toBe(false);
+    });
+
+    test("matches the canonical URL declared by the page", async () => {
+      await saveArticle({
+        url: "https://news.ycombinator.example/item?id=1",
+        canonical_url: "https://blog.example.com/post/",
+        title: "Post",
+        source: "Test",
+        category: "tech",
+        notified: false,
+      });
+
+      expect(await isArticleSeen("https://blog.example.com/post?utm_medium=social")).toBe(true);
+    });
   });
 
   describe("saveArticle", () => {
@@ -95,6 +137,53 @@ describe("Database Operations", () => {
       expect(article?.published_at).toBe("2025-01-01T00:00:00Z");
       expect(article?.score).toBe(8);
     });
+
+    test("stores the canonical URL and only replaces it with an explicit one", async () => {
+      const url = "https://example.com/posts/42/amp/?utm_source=feed";
+      await saveArticle({ url, title: "Story", source: "Test", category: "tech", notified: false });
+      expect((await getArticleByUrl(url))?.canonical_url).toBe("https://example.com/posts/42");
+
+      await saveArticle({
+        url,
+        canonical_url: "https://example.com/2024/story",
+        title: "Story",
+        source: "Test",
+        category: "tech",
+        notified: false,
+      });
+      await saveArticle({ url, title: "Story", source: "Test", category: "tech", notified: false });
+
+      expect((await getArticleByUrl(url))?.canonical_url).toBe("https://example.com/2024/story");
+    });
+  });
+
+  describe("canonical URL migration", () => {
+    test("backfills canonical_url for existing articles", async () => {
+      closeDb();
+      const dir = mkdtempSync(join(tmpdir(), "newsfeed-db-"));
+      const dbPath = join(dir, "history.db");
+      try {
+        await ensureDb(dbPath);
+        await saveArticle({
+          url: "http://example.com/old-post/?fbclid=abc",
+          title: "Old",
+          source: "Test",
+          category: "tech",
+          notified: false,
+        });
+        // Simulate a row saved before canonical_url existed
+        await (await getDb()).execute("UPDATE articles SET canonical_url = NULL");
+        closeDb();
+
+        await ensureDb(dbPath);
+
+        const article = await getArticleByUrl("http://example.com/old-post/?fbclid=abc");
+        expect(article?.canonical_url).toBe("https://example.com/old-post");
+      } finally {
+        closeDb();
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
   });
 
   describe("markAsNotified", () => {
@@ -139,6 +228,62 @@ describe("Database Operations", () => {
       // Should not throw
       await markAsNotified(["https://nonexistent.com"]);
     });
+
+    test("tracks notified state per profile", async () => {
+      const urls = ["https://example.com/agents", "https://example.com/react"];
+      for (const url of urls) {
+        await saveArticle({
+          url,
+          title: "Test",
+          source: "Test",
+          category: "tech",
+          notified: false,
+        });
+      }
+
+      await markAsNotified(["https://example.com/agents"], "ai");
+      await markAsNotified(urls, "frontend");
+      await markAsNotified(["https://example.com/agents"], "ai");
+
+      expect(await getNotifiedUrls("ai", urls)).toEqual(new Set(["https://example.com/agents"]));
+      expect(await getNotifiedUrls("frontend", urls)).toEqual(new Set(urls));
+      expect(await getNotifiedUrls("default", urls)).toEqual(new Set());
+      expect(await getNotifiedUrls("ai", [])).toEqual(new Set());
+    });
+
+    test("keeps articles a profile was neither sent nor dismissed", async () => {
+      const urls = [
+        "https://example.com/agents",
+        "https://example.com/react",
+        "https://example.com/go",
+      ];
+      for (const url of urls) {
+        await saveArticle({
+          url,
+          title: "Test",
+          source: "Test",
+          category: "tech",
+          notified: false,
+        });
+      }
+
+      await markAsNotified(["https://example.com/agents"], "ai");
+      await markDismissed(["https://example.com/react"], "ai");
+      // Sent before notifications were tracked per profile
+      await saveArticle({
+        url: "https://example.com/legacy",
+        title: "Test",
+        source: "Test",
+        category: "tech",
+        notified: false,
+      });
+      await markAsNotified(["https://example.com/legacy"]);
+
+      const unsent = (profile: string) =>
+        getUnsentArticles(profile, 3).then((articles) => articles.map((a) => a.url).sort());
+      expect(await unsent("ai")).toEqual(["https://example.com/go"]);
+      expect(await unsent("frontend")).toEqual([...urls].sort());
+    });
   });
 
   describe("getRecentArticles", () => {
@@ -161,4 +306,155 @@ describe("Database Operations", () => {
       expect(recent).toEqual([]);
     });
   });
+
+  describe("article contents", () => {
+    test("returns null for URLs that were never fetched", async () => {
+      expect(await getArticleContent("https://example.com/unknown")).toBeNull();
+    });
+
+    test("stores and refreshes extracted text", async () => {
+      await saveArticleContent("https://example.com/post", {
+        content: null,
+        contentHash: null,
+        status: "error",
+        error: "HTTP 503",
+      });
+      await saveArticleContent("https://example.com/post", {
+        content: "Full text",
+        contentHash: "abc123",
+        ogImage: "https://example.com/og.png",
+        status: "ok",
+      });
+
+      const stored = await getArticleContent("https://example.com/post");
+      expect(stored?.content).toBe("Full text");
+      expect(stored?.content_hash).toBe("abc123");
+      expect(stored?.og_image).toBe("https://example.com/og.png");
+      expect(stored?.status).toBe("ok");
+      expect(stored?.error).toBeNull();
+      expect(stored?.fetched_at).toBeTruthy();
+    });
+
+    test("includes successfully stored text when indexing", async () => {
+      for (const url of ["https://example.com/a", "https://example.com/b"]) {
+        await saveArticle({ url, title: url, source: "Test", category: "tech", notified: false });
+      }
+      await saveArticleContent("https://example.com/a", {
+        content: "Body of A",
+        contentHash: "hash-a",
+        status: "ok",
+      });
+      await saveArticleContent("https://example.com/b", {
+        content: "Blocked page",
+        contentHash: "hash-b",
+        status: "error",
+      });
+
+      const articles = await getAllArticlesForIndexing();
+      const byUrl = new Map(articles.map((a) => [a.url, a]));
+      expect(byUrl.get("https://example.com/a")?.content).toBe("Body of A");
+      expect(byUrl.get("https://example.com/b")?.content).toBeNull();
+    });
+
+    test("indexes a paper with the text stored under its PDF URL", async () => {
+      await saveArticle({
+        url: "https://arxiv.org/abs/2410.01234",
+        title: "Agent evals",
+        source: "arXiv",
+        category: "ai",
+        notified: false,
+        pdf_url: "https://arxiv.org/pdf/2410.01234v1",
+      });
+      await saveArticleContent("https://arxiv.org/pdf/2410.01234v1", {
+        content: "Full paper text",
+        contentHash: "hash-pdf",
+        status: "ok",
+      });
+
+      const [paper] = await getAllArticlesForIndexing();
+      expect(paper?.content).toBe("Full paper text");
+    });
+  });
+
+  describe("article feedback", () => {
+    beforeEach(async () => {
+      await saveArticle({
+        url: "https://example.com/agents",
+        title: "Agents",
+        source: "Simon Willison",
+        category: "ai",
+        notified: true,
+      });
+      await saveArticle({
+        url: "https://example.com/react",
+        title: "React",
+        source: "Zenn",
+        category: "frontend",
+        notified: true,
+      });
+    });
+
+    test("maps posted messages to articles", async () => {
+      await recordArticleMessage({
+        message_id: "m1",
+        channel_id: "c1",
+        url: "https://example.com/agents",
+        profile: "ai",
+      });
+
+      const message = await getArticleMessage("m1");
+      expect(message?.url).toBe("https://example.com/agents");
+      expect(message?.profile).toBe("ai");
+      expect(await getArticleMessage("unknown")).toBeNull();
+    });
+
+    test("queries feedback by article, source and user", async () => {
+      await saveArticleFeedback({ url: "https://example.com/agents", user_id: "u1", signal: "up" });
+      await saveArticleFeedback({
+        url: "https://example.com/agents",
+        user_id: "u2",
+        signal: "down",
+      });
+      await saveArticleFeedback({
+        url: "https://example.com/react",
+        user_id: "u1",
+        signal: "down",
+      });
+
+      expect(await getArticleFeedback()).toHaveLength(3);
+      expect(
+        (await getArticleFeedback({ url: "https://example.com/agents" }))
+          .map((f) => f.user_id)
+          .sort()
+      ).toEqual(["u1", "u2"]);
+
+      const bySource = await getArticleFeedback({ source: "Zenn" });
+      expect(bySource).toHaveLength(1);
+      expect(bySource[0]).toMatchObject({
+        url: "https://example.com/react",
+        user_id: "u1",
+        signal: "down",
+        source: "Zenn",
+      });
+      expect(bySource[0]?.created_at).toBeTruthy();
+
+      expect((await getArticleFeedback({ user_id: "u1" })).map((f) => f.url).sort()).toEqual([
+        "https://example.com/agents",
+        "https://example.com/react",
+      ]);
+    });
+
+    test("keeps one row per reaction and drops removed ones", async () => {
+      const feedback = { url: "https://example.com/agents", user_id: "u1", signal: "up" } as const;
+      await saveArticleFeedback(feedback);
+      await saveArticleFeedback({ ...feedback, message_id: "m2" });
+
+      const rows = await getArticleFeedback({ user_id: "u1" });
+      expect(rows).toHaveLength(1);
+      expect(rows[0]?.message_id).toBe("m2");
+
+      await removeArticleFeedback(feedback);
+      expect(await getArticleFeedback({ user_id: "u1" })).toEqual([]);
+    });
+  });
 });
@@ -9,30 +9,100 @@ import * as db from "@newsfeed-ai/core/db";
 const DEFAULT_DB_PATH = "./data/history.db";
 
 // Re-export types
-export type { Article, PendingTaskNotification, DbConfig } from "@newsfeed-ai/core/db";
+export type {
+  Article,
+  AlsoDiscussedLink,
+  Story,
+  ArticleMessage,
+  FeedbackSignal,
+  ArticleFeedback,
+  RankingSignal,
+  RankingDimension,
+  RankingWeight,
+  EngagedArticle,
+  SearchQueryStat,
+  InterestProfileVersion,
+  InterestSuggestionStatus,
+  InterestSuggestion,
+  ArticleContent,
+  ArticleContentStatus,
+  PendingTaskNotification,
+  FeedCacheEntry,
+  SourceFetchStatus,
+  SourceFetchLogStatus,
+  SourceHealth,
+  DbConfig,
+} from "@newsfeed-ai/core/db";
 
 // Re-export operations (they use getDb internally)
 export {
   isArticleSeen,
   saveArticle,
   markAsNotified,
+  getNotifiedUrls,
+  markDismissed,
+  getUnsentArticles,
   getRecentArticles,
+  getRecentNotifiedArticles,
   getArticlesWithDetailedSummary,
   getArticlesWithoutDetailedSummary,
   getArticleByUrl,
   getAllArticlesForIndexing,
   updateArticleDetailedSummary,
+  updateArticleDiscussionSummary,
+  updateArticleBadge,
   updateArticleOgImage,
+  getArticleContent,
+  saveArticleContent,
   registerTaskNotification,
   getPendingTaskNotifications,
   markTaskNotified,
   getTaskNotification,
   cleanupOldTaskNotifications,
+  getFeedCache,
+  saveFeedCache,
+  touchFeedCache,
+  recordSourceFetch,
+  getConsecutiveFailures,
+  getSourceHealthReport,
+  disableSource,
+  enableSource,
+  getDisabledSources,
+  cleanupOldSourceFetchLogs,
+  recordTrendingRepos,
+  getTrendingDates,
+  createStory,
+  setArticleStory,
+  getStory,
+  getStoryArticles,
+  recordArticleMessage,
+  getArticleMessage,
+  saveArticleFeedback,
+  removeArticleFeedback,
+  getArticleFeedback,
+  recordArticleClick,
+  getRankingSignals,
+  saveRankingWeights,
+  getRankingWeights,
+  recordSearchQuery,
+  getRecentSearchQueries,
+  getEngagedArticles,
+  getLatestInterestVersion,
+  getInterestVersions,
+  createInterestSuggestion,
+  setInterestSuggestionMessage,
+  getInterestSuggestionByMessage,
+  getPendingInterestSuggestions,
+  closeInterestSuggestion,
+  approveInterestSuggestion,
 } from "@newsfeed-ai/core/db";
 
 // Re-export closeDb
 export { closeDb } from "@newsfeed-ai/core/db";
 
+// Re-export URL canonicalization (dedup key)
+export { canonicalizeUrl } from "@newsfeed-ai/core/db";
+
 /**
  * Initialize database with bot-specific defaults
  * Uses DB_PATH env var or default path
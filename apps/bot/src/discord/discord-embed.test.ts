@@ -7,6 +7,51 @@ import {
 } from "./discord-embed";
 import type { NotifyArticle } from "./notify";
 
+const hnArticle: NotifyArticle = {
+  title: "Show HN: A tiny database",
+  url: "https://github.com/example/tinydb",
+  summary: "小さなデータベース",
+  category: "tech",
+  source: "Hacker News",
+  discussion_url: "https://news.ycombinator.com/item?id=42",
+};
+
+const paper: NotifyArticle = {
+  title: "Scaling Agents",
+  url: "https://arxiv.org/abs/2410.01234",
+  summary: "エージェントのスケーリング則",
+  category: "ai",
+  source: "arXiv AI/CL",
+  authors: ["Alice", "Bob", "Carol", "Dave"],
+  pdf_url: "https://arxiv.org/pdf/2410.01234v2",
+};
+
+const clusteredArticle: NotifyArticle = {
+  title: "Bun 1.2 released",
+  url: "https://bun.sh/blog/bun-v1.2",
+  summary: "Bun 1.2 がリリース",
+  category: "tech",
+  source: "Bun Blog",
+  also_discussed: [
+    {
+      source: "Hacker News",
+      url: "https://bun.sh/blog/bun-v1.2?ref=hn",
+      title: "Bun 1.2",
+      discussion_url: "https://news.ycombinator.com/item?id=7",
+    },
+    { source: "Zenn", url: "https://zenn.dev/a/articles/bun12", title: "Bun 1.2 まとめ" },
+  ],
+};
+
+const followUpArticle: NotifyArticle = {
+  title: "Llama 4 benchmarks don't match the announcement",
+  url: "https://example.com/llama-4-benchmarks",
+  summary: "Llama 4 のベンチマーク検証",
+  category: "ai",
+  source: "AI News",
+  follow_up_to: { story_id: 3, title: "Meta releases Llama 4", url: "https://example.com/llama-4" },
+};
+
 // Test data
 const sampleArticles: NotifyArticle[] = [
   {
@@ -77,6 +122,34 @@ describe("createCategoryEmbeds", () => {
     const hasUrls = embeds.some((e) => e.description?.includes("https://example.com"));
     expect(hasUrls).toBe(true);
   });
+
+  test("links the comment thread when there is one", async () => {
+    const embeds = await createCategoryEmbeds([hnArticle]);
+
+    expect(embeds[1]?.description).toContain("[💬](https://news.ycombinator.com/item?id=42)");
+  });
+
+  test("links the PDF for papers", async () => {
+    const embeds = await createCategoryEmbeds([paper]);
+
+    expect(embeds[1]?.description).toContain("[📄](https://arxiv.org/pdf/2410.01234v2)");
+  });
+
+  test("marks follow-ups to earlier stories", async () => {
+    const embeds = await createCategoryEmbeds([followUpArticle]);
+
+    expect(embeds[1]?.description).toContain(
+      "└ ↪️ 続報: [Meta releases Llama 4](https://example.com/llama-4)"
+    );
+  });
+
+  test("links the other sources of a clustered story", async () => {
+    const embeds = await createCategoryEmbeds([clusteredArticle]);
+
+    expect(embeds[1]?.description).toContain(
+      "└ 🔗 [Hacker News](https://news.ycombinator.com/item?id=7) · [Zenn](https://zenn.dev/a/articles/bun12)"
+    );
+  });
 });
 
 describe("createArticleEmbeds", () => {
@@ -128,6 +201,45 @@ describe("createArticleEmbeds", () => {
     // Without ARTICLE_SERVER_URL env, description is undefined for empty summary
     expect(embeds[0].description).toBeUndefined();
   });
+
+  test("adds the comment thread link", async () => {
+    const embeds = await createArticleEmbeds([hnArticle]);
+
+    expect(embeds[0]?.description).toBe(
+      "小さなデータベース\n[💬 コメントスレッド](https://news.ycombinator.com/item?id=42)"
+    );
+  });
+
+  test("omits the thread link when the article is the thread", async () => {
+    const askHn = { ...hnArticle, url: hnArticle.discussion_url!, summary: "" };
+    const embeds = await createArticleEmbeds([askHn]);
+
+    expect(embeds[0]?.description).toBeUndefined();
+  });
+
+  test("adds authors and the PDF link for papers", async () => {
+    const embeds = await createArticleEmbeds([paper]);
+
+    expect(embeds[0]?.description).toBe(
+      "エージェントのスケーリング則\n👤 Alice, Bob, Carol et al. • [📄 PDF](https://arxiv.org/pdf/2410.01234v2)"
+    );
+  });
+
+  test("starts with the follow-up marker", async () => {
+    const embeds = await createArticleEmbeds([followUpArticle]);
+
+    expect(embeds[0]?.description).toBe(
+      "↪️ 続報: [Meta releases Llama 4](https://example.com/llama-4)\nLlama 4 のベンチマーク検証"
+    );
+  });
+
+  test("adds the other sources of a clustered story", async () => {
+    const embeds = await createArticleEmbeds([clusteredArticle]);
+
+    expect(embeds[0]?.description).toBe(
+      "Bun 1.2 がリリース\n🔗 他の掲載: [Hacker News](https://news.ycombinator.com/item?id=7) · [Zenn](https://zenn.dev/a/articles/bun12)"
+    );
+  });
 });
 
 describe("createDigestEmbed", () => {
@@ -178,4 +290,32 @@ describe("createDigestEmbed", () => {
     // Format: • [truncated_text](url) (detail link only if ARTICLE_SERVER_URL is set)
     expect(field?.value).toContain("...");
   });
+
+  test("adds a community reaction field for summarized threads", async () => {
+    const embeds = await createDigestEmbed([
+      ...sampleArticles,
+      { ...hnArticle, discussion_summary: "主な意見: 軽量さが好評。\n反論: 耐久性に疑問。" },
+    ]);
+    const fields = embeds[0]?.fields ?? [];
+    const reaction = fields[fields.length - 1];
+
+    expect(reaction?.name).toBe("💬 コミュニティの反応");
+    expect(reaction?.value).toBe(
+      "**[Show HN: A tiny database](https://news.ycombinator.com/item?id=42)**\n" +
+        "主な意見: 軽量さが好評。 反論: 耐久性に疑問。"
+    );
+  });
+
+  test("has no reaction field without discussion summaries", async () => {
+    const embeds = await createDigestEmbed(sampleArticles);
+    expect(embeds[0]?.fields?.some((f) => f.name.includes("反応"))).toBe(false);
+  });
+
+  test("links the comment thread next to the article", async () => {
+    const embeds = await createDigestEmbed([hnArticle]);
+
+    expect(embeds[0]?.fields?.[0]?.value).toContain(
+      "[[💬]](https://news.ycombinator.com/item?id=42)"
+    );
+  });
 });
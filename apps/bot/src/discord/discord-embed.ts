@@ -1,7 +1,8 @@
 import { getCategoryEmoji } from "../config";
 import type { NotifyArticle } from "./notify";
 import type { TextChannel } from "discord.js";
-import { getArticleDetailUrl } from "../article-url";
+import { getArticleDetailUrl, getStoryUrl } from "../article-url";
+import type { AlsoDiscussedLink } from "../db";
 
 // Discord Embed colors by category
 const categoryColors: Record<string, number> = {
@@ -55,6 +56,40 @@ function formatRelativeDate(date?: Date): string {
   return `${date.getMonth() + 1}/${date.getDate()}`;
 }
 
+/**
+ * Comment thread URL, omitted when the article is the thread itself (Ask HN)
+ */
+function getDiscussionUrl(article: NotifyArticle): string | undefined {
+  if (!article.discussion_url || article.discussion_url === article.url) return undefined;
+  return article.discussion_url;
+}
+
+/**
+ * Paper authors for embeds, shortened to the first three
+ */
+export function formatAuthors(authors: string[]): string {
+  if (authors.length <= 3) return authors.join(", ");
+  return `${authors.slice(0, 3).join(", ")} et al.`;
+}
+
+/**
+ * "Also discussed on" links, pointing at each copy's comment thread when it has one
+ */
+export function formatAlsoDiscussed(links: AlsoDiscussedLink[]): string {
+  return links.map((link) => `[${link.source}](${link.discussion_url ?? link.url})`).join(" · ");
+}
+
+/**
+ * "Follow-up to X" marker, linking the story timeline when the web app is configured
+ */
+export function formatFollowUp(article: NotifyArticle): string {
+  const followUp = article.follow_up_to;
+  if (!followUp) return "";
+  const title = followUp.title.length > 50 ? followUp.title.slice(0, 47) + "..." : followUp.title;
+  const link = getStoryUrl(followUp.story_id) || followUp.url;
+  return `↪️ 続報: [${title}](${link})`;
+}
+
 /**
  * Helper to get category emojis in parallel
  */
@@ -119,8 +154,17 @@ export async function createCategoryEmbeds(articles: NotifyArticle[]): Promise<D
       const datePart = dateLabel ? ` • ${dateLabel}` : "";
       const detailUrl = getArticleDetailUrl(item.url);
       const summaryPart = detailUrl ? ` • [詳細](${detailUrl})` : "";
-      description += `**[${displayText}](${item.url})**\n`;
-      description += `└ \`${item.source}\`${summaryPart}${datePart}\n\n`;
+      const discussionUrl = getDiscussionUrl(item);
+      const threadPart = discussionUrl ? ` • [💬](${discussionUrl})` : "";
+      const pdfPart = item.pdf_url ? ` • [📄](${item.pdf_url})` : "";
+      const badgePart = item.badge ? ` ${item.badge}` : "";
+      description += `**[${displayText}](${item.url})**${badgePart}\n`;
+      if (item.follow_up_to) description += `└ ${formatFollowUp(item)}\n`;
+      description += `└ \`${item.source}\`${summaryPart}${threadPart}${pdfPart}${datePart}\n`;
+      if (item.also_discussed?.length) {
+        description += `└ 🔗 ${formatAlsoDiscussed(item.also_discussed)}\n`;
+      }
+      description += "\n";
     }
 
     embeds.push({
@@ -156,13 +200,42 @@ export async function createArticleEmbeds(articles: NotifyArticle[]): Promise<Di
       description = `[詳細要旨を見る](${detailUrl})`;
     }
 
+    const discussionUrl = getDiscussionUrl(article);
+    if (discussionUrl) {
+      const threadLink = `[💬 コメントスレッド](${discussionUrl})`;
+      description = description ? `${description}\n${threadLink}` : threadLink;
+    }
+
+    if (article.authors?.length || article.pdf_url) {
+      const paperLine = [
+        article.authors?.length ? `👤 ${formatAuthors(article.authors)}` : "",
+        article.pdf_url ? `[📄 PDF](${article.pdf_url})` : "",
+      ]
+        .filter(Boolean)
+        .join(" • ");
+      description = description ? `${description}\n${paperLine}` : paperLine;
+    }
+
+    if (article.also_discussed?.length) {
+      const alsoLine = `🔗 他の掲載: ${formatAlsoDiscussed(article.also_discussed)}`;
+      description = description ? `${description}\n${alsoLine}` : alsoLine;
+    }
+
+    if (article.follow_up_to) {
+      // Shown first so the item does not read as fresh news
+      const followUpLine = formatFollowUp(article);
+      description = description ? `${followUpLine}\n${description}` : followUpLine;
+    }
+
     return {
       title: article.title.slice(0, 256), // Discord limit
       url: article.url,
       description,
       color,
       footer: {
-        text: `${emoji} • ${article.source}`,
+        text: article.badge
+          ? `${emoji} • ${article.source} • ${article.badge}`
+          : `${emoji} • ${article.source}`,
       },
     };
   });
@@ -200,7 +273,11 @@ export async function createDigestEmbed(articles: NotifyArticle[]): Promise<Disc
       const shortText = displayText.length > 50 ? displayText.slice(0, 47) + "..." : displayText;
       const detailUrl = getArticleDetailUrl(item.url);
       const detailPart = detailUrl ? ` [[+]](${detailUrl})` : "";
-      value += `• [${shortText}](${item.url})${detailPart}\n`;
+      const discussionUrl = getDiscussionUrl(item);
+      const threadPart = discussionUrl ? ` [[💬]](${discussionUrl})` : "";
+      const badgePart = item.badge ? ` ${item.badge}` : "";
+      const followUpPart = item.follow_up_to ? "↪️ " : "";
+      value += `• ${followUpPart}[${shortText}](${item.url})${badgePart}${detailPart}${threadPart}\n`;
     }
 
     if (items.length > 3) {
@@ -214,6 +291,24 @@ export async function createDigestEmbed(articles: NotifyArticle[]): Promise<Disc
     });
   }
 
+  // Community reaction from HN threads, one line per story
+  const reactions = articles.filter((a) => a.discussion_summary).slice(0, 3);
+  if (reactions.length > 0) {
+    const value = reactions
+      .map((item) => {
+        const shortTitle = item.title.length > 40 ? item.title.slice(0, 37) + "..." : item.title;
+        const link = item.discussion_url ?? item.url;
+        const summary = item.discussion_summary!.replace(/\s*\n\s*/g, " ");
+        return `**[${shortTitle}](${link})**\n${summary}`;
+      })
+      .join("\n\n");
+    fields.push({
+      name: "💬 コミュニティの反応",
+      value: value.length > 1024 ? value.slice(0, 1021) + "..." : value,
+      inline: false,
+    });
+  }
+
   return [
     {
       title: `📰 Today's Tech Digest`,
@@ -1,4 +1,6 @@
 import { getCategoryEmoji } from "../config";
+import type { AlsoDiscussedLink } from "../db";
+import type { FollowUp } from "../story";
 
 export interface NotifyArticle {
   title: string;
@@ -7,6 +9,19 @@ export interface NotifyArticle {
   category: string;
   source: string;
   published?: Date;
+  /** Comment thread (e.g. Hacker News), linked next to the article */
+  discussion_url?: string;
+  /** Japanese summary of the comment thread */
+  discussion_summary?: string;
+  /** Short label shown next to the title (e.g. trending streak) */
+  badge?: string;
+  /** Paper authors and PDF link (arXiv) */
+  authors?: string[];
+  pdf_url?: string;
+  /** The same story from other sources */
+  also_discussed?: AlsoDiscussedLink[];
+  /** Earlier notified article this one follows up on (developing story) */
+  follow_up_to?: FollowUp;
 }
 
 const DISCORD_RATE_LIMIT_MS = 500;
@@ -105,7 +120,8 @@ export async function sendToDiscord(
       // Max 5 per category
       const isJapanese = category === "tech-jp";
       const displayText = isJapanese ? item.title : item.summary || item.title;
-      content += `• ${displayText} [${item.source}]\n  <${item.url}>\n`;
+      const followUpPart = item.follow_up_to ? ` ↪️ 続報: ${item.follow_up_to.title}` : "";
+      content += `• ${displayText} [${item.source}]${followUpPart}\n  <${item.url}>\n`;
     }
     content += "\n";
   }
@@ -0,0 +1,104 @@
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import type { TextChannel } from "discord.js";
+import { ensureDb, closeDb, getArticleFeedback, getArticleMessage } from "../db";
+import type { ProfileDigest } from "../main";
+import { feedbackSignal, postArticleMessages, recordReactionFeedback } from "./reactions";
+
+process.env.SKIP_SEARCH_INDEX = "1";
+
+/** Channel that hands out sequential message ids and keeps what was sent */
+function fakeChannel() {
+  const sent: Array<{ embeds: unknown[]; reactions: string[] }> = [];
+  const channel = {
+    async send(payload: { embeds: unknown[] }) {
+      const entry = { embeds: payload.embeds, reactions: [] as string[] };
+      sent.push(entry);
+      return {
+        id: `message-${sent.length}`,
+        channelId: "channel-1",
+        async react(emoji: string) {
+          entry.reactions.push(emoji);
+        },
+      };
+    },
+  };
+  return { channel: channel as unknown as TextChannel, sent };
+}
+
+const digest: ProfileDigest = {
+  profile: { name: "ai", interests: ["AI agents"] },
+  articles: [
+    { title: "Agents", url: "https://example.com/agents", category: "ai", source: "Blog" },
+    { title: "Evals", url: "https://example.com/evals", category: "ai", source: "Blog" },
+  ],
+  embeds: [
+    { title: "Agents", url: "https://example.com/agents" },
+    { title: "Evals", url: "https://example.com/evals" },
+  ],
+  perArticle: true,
+};
+
+describe("feedbackSignal", () => {
+  test("maps thumbs to signals and ignores other emojis", () => {
+    expect(feedbackSignal("👍")).toBe("up");
+    expect(feedbackSignal("👎")).toBe("down");
+    expect(feedbackSignal("🎉")).toBeNull();
+    expect(feedbackSignal(null)).toBeNull();
+  });
+});
+
+describe("article messages", () => {
+  beforeEach(async () => {
+    await ensureDb(":memory:");
+  });
+
+  afterEach(() => {
+    closeDb();
+  });
+
+  test("posts one reacted message per article and records it", async () => {
+    const { channel, sent } = fakeChannel();
+
+    expect(await postArticleMessages(channel, digest)).toBe(true);
+
+    expect(sent.map((m) => m.embeds)).toEqual([[digest.embeds[0]], [digest.embeds[1]]]);
+    expect(sent[0]?.reactions).toEqual(["👍", "👎"]);
+    expect(await getArticleMessage("message-2")).toMatchObject({
+      channel_id: "channel-1",
+      url: "https://example.com/evals",
+      profile: "ai",
+    });
+  });
+
+  test("stores and removes feedback from reactions on recorded messages", async () => {
+    const { channel } = fakeChannel();
+    await postArticleMessages(channel, digest);
+
+    const reaction = { messageId: "message-1", userId: "u1", emoji: "👍" };
+    expect(await recordReactionFeedback({ ...reaction, action: "add" })).toBe(true);
+    expect(await getArticleFeedback({ user_id: "u1" })).toMatchObject([
+      { url: "https://example.com/agents", signal: "up", message_id: "message-1" },
+    ]);
+
+    expect(await recordReactionFeedback({ ...reaction, action: "remove" })).toBe(true);
+    expect(await getArticleFeedback({ user_id: "u1" })).toEqual([]);
+  });
+
+  test("ignores other emojis and unknown messages", async () => {
+    const { channel } = fakeChannel();
+    await postArticleMessages(channel, digest);
+
+    expect(
+      await recordReactionFeedback({
+        messageId: "message-1",
+        userId: "u1",
+        emoji: "🎉",
+        action: "add",
+      })
+    ).toBe(false);
+    expect(
+      await recordReactionFeedback({ messageId: "other", userId: "u1", emoji: "👍", action: "add" })
+    ).toBe(false);
+    expect(await getArticleFeedback()).toEqual([]);
+  });
+});
@@ -0,0 +1,91 @@
+import type { TextChannel } from "discord.js";
+import {
+  getArticleMessage,
+  recordArticleMessage,
+  removeArticleFeedback,
+  saveArticleFeedback,
+  type FeedbackSignal,
+} from "../db";
+import type { ProfileDigest } from "../main";
+
+/** Reactions that count as feedback on a posted article */
+export const FEEDBACK_EMOJIS: Record<string, FeedbackSignal> = {
+  "👍": "up",
+  "👎": "down",
+};
+
+const DISCORD_RATE_LIMIT_MS = 500;
+
+/**
+ * Feedback signal for a reaction emoji, or null for any other emoji
+ */
+export function feedbackSignal(emoji: string | null): FeedbackSignal | null {
+  return (emoji && FEEDBACK_EMOJIS[emoji]) || null;
+}
+
+/**
+ * Post each article of a digest as its own message with 👍/👎 reactions
+ * Each message is recorded so reactions on it can be traced back to the article.
+ * Expects one embed per article (EMBED_FORMAT=article).
+ */
+export async function postArticleMessages(
+  channel: TextChannel,
+  digest: ProfileDigest
+): Promise<boolean> {
+  try {
+    const articles = digest.articles.slice(0, digest.embeds.length);
+    await articles.reduce<Promise<void>>(async (prevPromise, article, index) => {
+      await prevPromise;
+      if (index > 0) {
+        await new Promise((r) => setTimeout(r, DISCORD_RATE_LIMIT_MS));
+      }
+
+      const message = await channel.send({ embeds: [digest.embeds[index]!] });
+      await recordArticleMessage({
+        message_id: message.id,
+        channel_id: message.channelId,
+        url: article.url,
+        profile: digest.profile.name,
+      });
+      // Reacted in order, so 👍 always comes first
+      await Object.keys(FEEDBACK_EMOJIS).reduce<Promise<unknown>>(
+        (prev, emoji) => prev.then(() => message.react(emoji)),
+        Promise.resolve()
+      );
+    }, Promise.resolve());
+    console.log(`Posted ${digest.articles.length} article messages via bot`);
+    return true;
+  } catch (error) {
+    console.error("Failed to post article messages", error);
+    return false;
+  }
+}
+
+/**
+ * Store or remove the feedback behind a reaction on a posted article
+ * @returns false when the message is not a recorded article or the emoji is not a feedback emoji
+ */
+export async function recordReactionFeedback(reaction: {
+  messageId: string;
+  userId: string;
+  emoji: string | null;
+  action: "add" | "remove";
+}): Promise<boolean> {
+  const signal = feedbackSignal(reaction.emoji);
+  if (!signal) return false;
+
+  const message = await getArticleMessage(reaction.messageId);
+  if (!message) return false;
+
+  if (reaction.action === "add") {
+    await saveArticleFeedback({
+      url: message.url,
+      user_id: reaction.userId,
+      signal,
+      message_id: reaction.messageId,
+    });
+  } else {
+    await removeArticleFeedback({ url: message.url, user_id: reaction.userId, signal });
+  }
+  return true;
+}
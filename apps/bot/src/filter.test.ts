@@ -1,5 +1,12 @@
 import { test, expect, describe, mock, beforeEach, afterEach } from "bun:test";
 import { filterArticles, type ArticleToFilter } from "./filter";
+import { createLlmClient } from "./llm/providers";
+import { resolveLlmSettings } from "./llm/stages";
+
+const llm = createLlmClient(
+  "filter",
+  resolveLlmSettings("filter", {}, { GROQ_API_KEY: "test-api-key" })
+);
 
 // Use today's date so freshness factor is 1.0
 const today = new Date();
@@ -39,7 +46,7 @@ describe("filterArticles", () => {
   });
 
   test("returns all articles unfiltered when no API key", async () => {
-    const result = await filterArticles(sampleArticles, "");
+    const result = await filterArticles(sampleArticles, null);
 
     expect(result.length).toBe(sampleArticles.length);
     for (const article of result) {
@@ -49,7 +56,7 @@ describe("filterArticles", () => {
   });
 
   test("returns empty array for empty input", async () => {
-    const result = await filterArticles([], "fake-key");
+    const result = await filterArticles([], llm);
     expect(result).toEqual([]);
   });
 
@@ -74,7 +81,7 @@ describe("filterArticles", () => {
       );
     }) as unknown as typeof fetch;
 
-    const result = await filterArticles(sampleArticles, "test-api-key");
+    const result = await filterArticles(sampleArticles, llm);
 
     expect(result.length).toBe(2);
     expect(result[0].score).toBeCloseTo(0.9, 2);
@@ -102,7 +109,7 @@ describe("filterArticles", () => {
       );
     }) as unknown as typeof fetch;
 
-    const result = await filterArticles(sampleArticles, "test-api-key");
+    const result = await filterArticles(sampleArticles, llm);
 
     // Should be sorted by score descending (with freshness applied)
     expect(result[0].score).toBeCloseTo(0.9, 2);
@@ -115,7 +122,7 @@ describe("filterArticles", () => {
       return new Response("Internal Server Error", { status: 500 });
     }) as unknown as typeof fetch;
 
-    const result = await filterArticles(sampleArticles, "test-api-key");
+    const result = await filterArticles(sampleArticles, llm);
 
     // Should return all articles with default score on error (with freshness applied)
     expect(result.length).toBe(sampleArticles.length);
@@ -141,7 +148,7 @@ describe("filterArticles", () => {
       );
     }) as unknown as typeof fetch;
 
-    const result = await filterArticles(sampleArticles, "test-api-key");
+    const result = await filterArticles(sampleArticles, llm);
 
     // No valid JSON array found, so no articles pass
     expect(result.length).toBe(0);
@@ -152,7 +159,7 @@ describe("filterArticles", () => {
       throw new Error("Network error");
     }) as unknown as typeof fetch;
 
-    const result = await filterArticles(sampleArticles, "test-api-key");
+    const result = await filterArticles(sampleArticles, llm);
 
     // Should return all articles with error reason
     expect(result.length).toBe(sampleArticles.length);
@@ -178,7 +185,7 @@ describe("filterArticles", () => {
       );
     }) as unknown as typeof fetch;
 
-    const result = await filterArticles(sampleArticles, "test-api-key");
+    const result = await filterArticles(sampleArticles, llm);
 
     expect(result.length).toBe(1);
     expect(result[0].score).toBeCloseTo(0.8, 2);
@@ -212,7 +219,7 @@ describe("filterArticles", () => {
       );
     }) as unknown as typeof fetch;
 
-    const result = await filterArticles(oldArticles, "test-api-key");
+    const result = await filterArticles(oldArticles, llm);
 
     expect(result.length).toBe(1);
     // Score should be reduced by ~30% (3 days * 10% per day)
@@ -248,7 +255,7 @@ describe("filterArticles", () => {
       );
     }) as unknown as typeof fetch;
 
-    const result = await filterArticles(veryOldArticles, "test-api-key");
+    const result = await filterArticles(veryOldArticles, llm);
 
     // Article should be excluded because it's older than 14 days
     expect(result.length).toBe(0);
@@ -295,7 +302,7 @@ describe("filterArticles", () => {
       );
     }) as unknown as typeof fetch;
 
-    const result = await filterArticles(mixedArticles, "test-api-key");
+    const result = await filterArticles(mixedArticles, llm);
 
     expect(result.length).toBe(2);
     // New article (0.7 * 1.0 = 0.7) should rank higher than
@@ -303,4 +310,40 @@ describe("filterArticles", () => {
     expect(result[0].title).toBe("New Medium Relevance");
     expect(result[1].title).toBe("Old High Relevance");
   });
+
+  test("applies learned source and category weights on top of freshness", async () => {
+    globalThis.fetch = mock(async () => {
+      return new Response(
+        JSON.stringify({
+          choices: [
+            {
+              message: {
+                content: JSON.stringify([
+                  { index: 0, score: 0.8, reason: "AI model release" },
+                  { index: 1, score: 0.7, reason: "React update" },
+                ]),
+              },
+            },
+          ],
+        }),
+        { status: 200 }
+      );
+    }) as unknown as typeof fetch;
+
+    const result = await filterArticles(sampleArticles, llm, {
+      weights: [
+        { dimension: "source", key: "AI News", weight: 0.8, positive: 0, negative: 4 },
+        { dimension: "category", key: "frontend", weight: 1.2, positive: 5, negative: 0 },
+      ],
+    });
+
+    // 0.7 * 1.2 = 0.84 now ranks above 0.8 * 0.8 = 0.64
+    expect(result[0]).toMatchObject({ title: "React 20 Features", llmScore: 0.7 });
+    expect(result[0].score).toBeCloseTo(0.84, 2);
+    expect(result[0].adjustments).toEqual([
+      { dimension: "category", key: "frontend", weight: 1.2, positive: 5, negative: 0 },
+    ]);
+    expect(result[1].score).toBeCloseTo(0.64, 2);
+    expect(result[1].adjustments?.[0]?.key).toBe("AI News");
+  });
 });
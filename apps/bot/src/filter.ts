@@ -1,4 +1,16 @@
-import { getInterests } from "./config";
+import {
+  getScoringPolicy,
+  renderScoringPrompt,
+  type InterestProfile,
+  type ScoringPolicy,
+} from "./config";
+import type { AlsoDiscussedLink } from "./db";
+import { matchRankingWeights, type ScoreAdjustment } from "./affinity";
+import { getInterestsPrompt } from "./interest-profile";
+import { LlmError, type LlmClient } from "./llm/client";
+import { filterResultSchema } from "./llm/schemas";
+import { LlmSchemaError, completeStructured } from "./llm/structured";
+import { RateLimitError } from "./utils/retry";
 
 export interface ArticleToFilter {
   title: string;
@@ -8,6 +20,24 @@ export interface ArticleToFilter {
   content?: string;
   published?: Date;
   og_image?: string;
+  hn_id?: number;
+  discussion_url?: string;
+  /** Short label shown next to the title in Discord */
+  badge?: string;
+  /** Stored before but collected again on purpose, so it may be sent again (see SourceItem.resurface) */
+  resurfaced?: boolean;
+  /** "owner/repo" and tag for GitHub release notes */
+  release_repo?: string;
+  release_version?: string;
+  /** arXiv paper metadata */
+  arxiv_id?: string;
+  arxiv_version?: number;
+  authors?: string[];
+  pdf_url?: string;
+  /** Canonical URL declared by the page (rel=canonical), set once its content is fetched */
+  canonical_url?: string;
+  /** The same story from other sources in this run (see clusterArticles) */
+  also_discussed?: AlsoDiscussedLink[];
 }
 
 export type OriginalityLevel = "high" | "medium" | "low";
@@ -18,6 +48,11 @@ export interface FilteredArticle extends ArticleToFilter {
   reason: string;
   originality?: OriginalityLevel;
   novelty?: NoveltyLevel;
+  /** Score the LLM gave, before freshness and learned weights (see explainScore) */
+  llmScore?: number;
+  freshnessFactor?: number;
+  /** Learned source/category weights the score was multiplied by */
+  adjustments?: ScoreAdjustment[];
 }
 
 // Freshness decay settings
@@ -51,109 +86,32 @@ function calculateFreshnessFactor(published?: Date): number {
   return factor;
 }
 
-async function getInterestsPrompt(): Promise<string> {
-  const interests = await getInterests();
-  return interests.map((i) => `- ${i}`).join("\n");
-}
-
 const RATE_LIMIT_DELAY_MS = 6000; // 6 seconds between batches (Groq free tier: 12k TPM)
 
 async function processBatch(
   batch: ArticleToFilter[],
-  apiKey: string,
-  interestsPrompt: string
+  llm: LlmClient,
+  interestsPrompt: string,
+  policy: ScoringPolicy
 ): Promise<FilteredArticle[]> {
-  const prompt = `You are filtering news articles for a developer focused on AI agents, LLMOps, and production deployment.
-
-## Scoring Priorities (in order of importance):
-1. **Practical production experience** (highest value): "how we built", "lessons learned", production post-mortems, real metrics from deployments, trial-and-error stories
-2. **Self-improving agents**: recursive improvement, meta-learning, agent evolution, Gödel Agent, SICA, self-evolving systems
-3. **Agent metrics & observability**: evaluation frameworks, monitoring in production, tracing, task completion rates, LLM-as-judge
-4. **Last-mile problems**: prototype-to-production challenges, deployment failures, cost optimization, context pollution fixes
-
-## Originality & Novelty Evaluation (CRITICAL for blog posts):
-**Originality** (独自性): Does the article provide unique insights, original analysis, or first-hand experience?
-- HIGH: Author's own experiments, unique data, original research, proprietary insights
-- MEDIUM: Synthesis of multiple sources with new perspective
-- LOW: Rehashing well-known information, summarizing others' work without adding value
-
-**Novelty** (新規性): Does the article cover new developments, recent findings, or emerging topics?
-- HIGH: Breaking news, new techniques, recent discoveries, cutting-edge approaches
-- MEDIUM: Updates to existing knowledge, new applications of known methods
-- LOW: Already widely covered topics, basic tutorials without new angles
-
-Articles lacking BOTH originality AND novelty impose cognitive load without providing value - score them LOW.
-
-## Score Boosters (+0.15 each):
-- Contains specific metrics/numbers from real production use
-- Describes failures, debugging, or trial-and-error process
-- From practitioner blog (Simon Willison, Latent Space, etc.) vs news site
-- Discusses agent evaluation methodology or metrics design
-- Deep technical content about agent internals or LLMOps
-- **Original research or first-hand experimental results**
-- **Novel technique or approach not widely documented**
-
-## Score Reducers (-0.15 each):
-- Generic product announcement without technical depth
-- Marketing content, listicles, or superficial overviews
-- Game/entertainment releases (unless AI/agent related)
-- Cryptocurrency price/market news (keep DeFi tech only)
-- **Rehashing commonly known information without new insights**
-- **Content that duplicates what's already widely available**
-- **Basic explanations of well-established concepts**
-
-## User Interests:
-${interestsPrompt}
-
-## Articles to evaluate:
-${batch.map((a, idx) => `[${idx}] ${a.title} (${a.source}) - ${a.content?.slice(0, 300) || "no description"}`).join("\n")}
-
-Respond with JSON array only:
-[{"index": 0, "score": 0.8, "originality": "high", "novelty": "medium", "reason": "practical production experience with metrics"}, ...]
-
-originality/novelty values: "high", "medium", or "low"
-Only include articles with score >= 0.5`;
+  const prompt = renderScoringPrompt(policy, {
+    interests: interestsPrompt,
+    articles: batch
+      .map(
+        (a, idx) =>
+          `[${idx}] ${a.title} (${a.source}) - ${a.content?.slice(0, 300) || "no description"}`
+      )
+      .join("\n"),
+  });
 
   try {
-    const res = await fetch("https://api.groq.com/openai/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: "llama-3.3-70b-versatile",
-        max_tokens: 2048,
-        temperature: 0.1,
-        messages: [{ role: "user", content: prompt }],
-      }),
-    });
-
-    if (!res.ok) {
-      const errorText = await res.text();
-      console.error(`Groq API error: ${res.status}`, errorText);
-      return batch.map((a) => ({ ...a, score: 0.5, reason: "api error" }));
-    }
-
-    const data = (await res.json()) as {
-      choices?: { message?: { content?: string } }[];
-    };
-    const content = data.choices?.[0]?.message?.content || "[]";
-
-    const jsonMatch = content.match(/\[.*\]/s);
-    if (!jsonMatch) {
-      return [];
-    }
-
-    const scored: {
-      index: number;
-      score: number;
-      reason: string;
-      originality?: OriginalityLevel;
-      novelty?: NoveltyLevel;
-    }[] = JSON.parse(jsonMatch[0]);
+    const scored = await completeStructured(
+      llm,
+      { messages: [{ role: "user", content: prompt }] },
+      filterResultSchema(batch.length)
+    );
     return scored
-      .filter((s): s is typeof s & { index: number } => batch[s.index] !== undefined && s.score >= 0.5)
+      .filter((s) => s.score >= policy.threshold)
       .map((s) => {
         const article = batch[s.index]!;
         return {
@@ -164,6 +122,18 @@ Only include articles with score >= 0.5`;
           content: article.content,
           published: article.published,
           og_image: article.og_image,
+          hn_id: article.hn_id,
+          discussion_url: article.discussion_url,
+          badge: article.badge,
+          resurfaced: article.resurfaced,
+          release_repo: article.release_repo,
+          release_version: article.release_version,
+          arxiv_id: article.arxiv_id,
+          arxiv_version: article.arxiv_version,
+          authors: article.authors,
+          pdf_url: article.pdf_url,
+          canonical_url: article.canonical_url,
+          also_discussed: article.also_discussed,
           score: s.score,
           reason: s.reason,
           originality: s.originality,
@@ -171,6 +141,14 @@ Only include articles with score >= 0.5`;
         };
       });
   } catch (error) {
+    if (error instanceof LlmSchemaError) {
+      console.error(error.message);
+      return [];
+    }
+    if (error instanceof LlmError || error instanceof RateLimitError) {
+      console.error(`Filter ${error.message}`);
+      return batch.map((a) => ({ ...a, score: 0.5, reason: "api error" }));
+    }
     console.error("Filter error", error);
     return batch.map((a) => ({ ...a, score: 0.5, reason: "error" }));
   }
@@ -199,34 +177,52 @@ async function processWithRateLimit<T, R>(
   return results;
 }
 
+export interface FilterOptions {
+  /** Profile to score for, using its latest approved interests (default: the configured interests) */
+  profile?: InterestProfile;
+  /** Overrides the scoring threshold */
+  threshold?: number;
+  /** Learned source/category weights applied after freshness (see learnRankingWeights) */
+  weights?: ScoreAdjustment[];
+}
+
 export async function filterArticles(
   articles: ArticleToFilter[],
-  apiKey: string
+  llm: LlmClient | null,
+  options: FilterOptions = {}
 ): Promise<FilteredArticle[]> {
-  if (!apiKey) {
-    console.log("No Groq API key, returning all articles unfiltered");
+  if (!llm) {
+    console.log("No LLM configured for filtering, returning all articles unfiltered");
     return articles.map((a) => ({ ...a, score: 0.5, reason: "unfiltered" }));
   }
 
   if (articles.length === 0) return [];
 
-  const interestsPrompt = await getInterestsPrompt();
+  const interestsPrompt = await getInterestsPrompt(options.profile);
+  const scoring = await getScoringPolicy();
+  const policy = { ...scoring, threshold: options.threshold ?? scoring.threshold };
 
-  const results = await processWithRateLimit(articles, 10, RATE_LIMIT_DELAY_MS, (batch) =>
-    processBatch(batch, apiKey, interestsPrompt)
+  const results = await processWithRateLimit(
+    articles,
+    policy.batchSize,
+    RATE_LIMIT_DELAY_MS,
+    (batch) => processBatch(batch, llm, interestsPrompt, policy)
   );
 
-  // Apply freshness factor
-  const withFreshness = results.map((article) => {
+  // Apply freshness factor, then the learned source/category weights
+  const adjusted = results.map((article) => {
     const freshnessFactor = calculateFreshnessFactor(article.published);
+    const adjustments = matchRankingWeights(article, options.weights ?? []);
+    const weight = adjustments.reduce((product, w) => product * w.weight, 1);
     return {
       ...article,
-      score: article.score * freshnessFactor,
-      originalScore: article.score,
+      score: article.score * freshnessFactor * weight,
+      llmScore: article.score,
       freshnessFactor,
+      adjustments: adjustments.length > 0 ? adjustments : undefined,
     };
   });
 
   // Filter out articles that are too old and sort by adjusted score
-  return withFreshness.filter((a) => a.freshnessFactor > 0).toSorted((a, b) => b.score - a.score);
+  return adjusted.filter((a) => a.freshnessFactor > 0).toSorted((a, b) => b.score - a.score);
 }
@@ -0,0 +1,225 @@
+import { test, expect, describe, beforeEach, afterEach, beforeAll, afterAll } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { TextChannel } from "discord.js";
+import {
+  ensureDb,
+  closeDb,
+  saveArticle,
+  saveArticleFeedback,
+  recordArticleClick,
+  recordSearchQuery,
+  getInterestVersions,
+  getPendingInterestSuggestions,
+} from "./db";
+import { resetConfig, type InterestProfile } from "./config";
+import type { LlmClient, LlmRequest } from "./llm/client";
+import {
+  applyInterestDiff,
+  diffInterests,
+  getInterestsPrompt,
+  postInterestSuggestion,
+  reviewInterestSuggestion,
+  suggestInterestChanges,
+} from "./interest-profile";
+
+process.env.SKIP_SEARCH_INDEX = "1";
+
+// reviewInterestSuggestion looks the profile up in the config, so both must agree
+const profile: InterestProfile = {
+  name: "default",
+  interests: ["AI agents and LLMOps", "Crypto trading"],
+};
+let configDir: string;
+const originalConfigPath = process.env.CONFIG_PATH;
+
+beforeAll(() => {
+  configDir = mkdtempSync(join(tmpdir(), "interest-profile-"));
+  const configPath = join(configDir, "sources.yaml");
+  writeFileSync(
+    configPath,
+    `sources: []\ninterests:\n${profile.interests.map((i) => `  - ${i}\n`).join("")}`
+  );
+  process.env.CONFIG_PATH = configPath;
+  resetConfig();
+});
+
+afterAll(() => {
+  if (originalConfigPath === undefined) delete process.env.CONFIG_PATH;
+  else process.env.CONFIG_PATH = originalConfigPath;
+  resetConfig();
+  rmSync(configDir, { recursive: true, force: true });
+});
+
+/** Client that answers every request with the given response and keeps the requests */
+function scriptedClient(response: object) {
+  const requests: LlmRequest[] = [];
+  const llm: LlmClient = {
+    stage: "interests",
+    provider: "groq",
+    model: "llama-3.3-70b-versatile",
+    maxRepairs: 0,
+    async complete(request) {
+      requests.push(request);
+      return { content: JSON.stringify(response), usage: { inputTokens: 0, outputTokens: 0 } };
+    },
+  };
+  return { llm, requests };
+}
+
+/** Channel that hands out one message id and keeps what was sent */
+function fakeChannel() {
+  const sent: Array<{ content: string; reactions: string[] }> = [];
+  const channel = {
+    async send(content: string) {
+      const entry = { content, reactions: [] as string[] };
+      sent.push(entry);
+      return {
+        id: "suggestion-message",
+        channelId: "channel-1",
+        async react(emoji: string) {
+          entry.reactions.push(emoji);
+        },
+      };
+    },
+  };
+  return { channel: channel as unknown as TextChannel, sent };
+}
+
+async function seedBehavior() {
+  for (const [index, title] of [
+    "Evals for agents",
+    "Tracing agent runs",
+    "Agent evals at scale",
+  ].entries()) {
+    const url = `https://example.com/evals-${index}`;
+    await saveArticle({ url, title, source: "Blog", category: "ai", notified: true });
+    await saveArticleFeedback({ url, user_id: "u1", signal: "up" });
+    await recordArticleClick(url);
+  }
+  await saveArticle({
+    url: "https://example.com/btc",
+    title: "Bitcoin hits new high",
+    source: "Crypto News",
+    category: "crypto",
+    notified: true,
+  });
+  await saveArticleFeedback({ url: "https://example.com/btc", user_id: "u1", signal: "down" });
+  await recordSearchQuery("agent evaluation", 4);
+  await recordSearchQuery("Agent Evaluation", 2);
+}
+
+describe("diffInterests", () => {
+  test("finds additions and removals regardless of case and spacing", () => {
+    expect(
+      diffInterests(
+        ["AI agents and LLMOps", "Crypto trading"],
+        ["ai agents  and LLMOps", "Agent evaluation", "agent evaluation"]
+      )
+    ).toEqual({ additions: ["Agent evaluation"], removals: ["Crypto trading"] });
+  });
+
+  test("applies a diff keeping the current order", () => {
+    expect(applyInterestDiff(["A", "B", "C"], { additions: ["D", "a"], removals: ["b"] })).toEqual([
+      "A",
+      "C",
+      "D",
+    ]);
+  });
+});
+
+describe("interest suggestions", () => {
+  beforeEach(async () => {
+    await ensureDb(":memory:");
+  });
+
+  afterEach(() => {
+    closeDb();
+  });
+
+  test("skips profiles with too little behavior", async () => {
+    const { llm, requests } = scriptedClient({ interests: ["x"], reason: "" });
+
+    expect(await suggestInterestChanges(profile, llm)).toBeNull();
+    expect(requests).toHaveLength(0);
+  });
+
+  test("suggests changes from liked, clicked and searched articles", async () => {
+    await seedBehavior();
+    const { llm, requests } = scriptedClient({
+      interests: ["AI agents and LLMOps", "Agent evaluation and tracing"],
+      reason: "Evals and tracing are read and searched often; crypto is disliked",
+    });
+
+    const suggestion = await suggestInterestChanges(profile, llm);
+
+    expect(suggestion).toMatchObject({
+      profile: "default",
+      base_version: 0,
+      additions: ["Agent evaluation and tracing"],
+      removals: ["Crypto trading"],
+      status: "pending",
+    });
+    const prompt = requests[0]?.messages[0]?.content ?? "";
+    expect(prompt).toContain("- Crypto trading");
+    expect(prompt).toContain("[👍1 opened 1×] Evals for agents (Blog, ai)");
+    expect(prompt).toContain("[👎1] Bitcoin hits new high");
+    // Searches are grouped case-insensitively
+    expect(prompt).toContain('"Agent Evaluation" (2×)');
+
+    // One open suggestion per profile at a time
+    expect(await suggestInterestChanges(profile, llm)).toBeNull();
+    expect(requests).toHaveLength(1);
+  });
+
+  test("stores an approved suggestion as the next version used for scoring", async () => {
+    await seedBehavior();
+    const { llm } = scriptedClient({
+      interests: ["AI agents and LLMOps", "Agent evaluation and tracing"],
+      reason: "Evals are popular",
+    });
+    const suggestion = (await suggestInterestChanges(profile, llm))!;
+    const { channel, sent } = fakeChannel();
+    await postInterestSuggestion(channel, suggestion);
+
+    expect(sent[0]?.content).toContain("v0 → v1");
+    expect(sent[0]?.content).toContain("➕ Agent evaluation and tracing\n➖ Crypto trading");
+    expect(sent[0]?.reactions).toEqual(["✅", "❌"]);
+
+    const reply = await reviewInterestSuggestion({
+      messageId: "suggestion-message",
+      userId: "u1",
+      emoji: "✅",
+    });
+
+    expect(reply).toBe("✅ Interests for default updated to v1");
+    const [version] = await getInterestVersions("default");
+    expect(version).toMatchObject({
+      version: 1,
+      interests: ["AI agents and LLMOps", "Agent evaluation and tracing"],
+      suggestion_id: suggestion.id,
+    });
+    expect(await getInterestsPrompt(profile)).toBe(
+      "- AI agents and LLMOps\n- Agent evaluation and tracing"
+    );
+    // Decided suggestions ignore further reactions
+    expect(
+      await reviewInterestSuggestion({ messageId: "suggestion-message", userId: "u2", emoji: "❌" })
+    ).toBeNull();
+  });
+
+  test("rejects with ❌ and keeps the configured interests", async () => {
+    await seedBehavior();
+    const { llm } = scriptedClient({ interests: ["AI agents and LLMOps"], reason: "No crypto" });
+    const suggestion = (await suggestInterestChanges(profile, llm))!;
+    await postInterestSuggestion(fakeChannel().channel, suggestion);
+
+    expect(
+      await reviewInterestSuggestion({ messageId: "suggestion-message", userId: "u1", emoji: "❌" })
+    ).toBe("❌ Interest update for default discarded");
+    expect(await getPendingInterestSuggestions()).toEqual([]);
+    expect(await getInterestVersions("default")).toEqual([]);
+    expect(await getInterestsPrompt(profile)).toBe("- AI agents and LLMOps\n- Crypto trading");
+  });
+});
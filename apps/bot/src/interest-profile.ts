@@ -0,0 +1,299 @@
+/**
+ * Interest profiles that follow reader behavior
+ * A periodic job shows the LLM what was liked, disliked, opened and searched
+ * and asks for an updated interest list. The difference to the current list
+ * is posted to Discord; once approved with ✅ it becomes the profile's next
+ * version, which the filter scores against instead of the list in sources.yaml.
+ */
+
+import type { TextChannel } from "discord.js";
+import { getInterests, getProfiles, type InterestProfile } from "./config";
+import {
+  approveInterestSuggestion,
+  closeInterestSuggestion,
+  createInterestSuggestion,
+  getEngagedArticles,
+  getInterestSuggestionByMessage,
+  getLatestInterestVersion,
+  getPendingInterestSuggestions,
+  getRecentSearchQueries,
+  setInterestSuggestionMessage,
+  type EngagedArticle,
+  type InterestSuggestion,
+  type SearchQueryStat,
+} from "./db";
+import { LlmError, type LlmClient } from "./llm/client";
+import { interestSuggestionSchema } from "./llm/schemas";
+import { LlmSchemaError, completeStructured } from "./llm/structured";
+import { RateLimitError } from "./utils/retry";
+
+// Behavior considered for a suggestion
+const SIGNAL_WINDOW_DAYS = 30;
+// Reactions, clicks and searches needed before the LLM is asked at all
+const MIN_SIGNALS = 5;
+const MAX_ARTICLES_IN_PROMPT = 30;
+const MAX_SEARCHES_IN_PROMPT = 20;
+
+export const APPROVE_EMOJI = "✅";
+export const REJECT_EMOJI = "❌";
+
+const DISCORD_MAX_MESSAGE_LENGTH = 2000;
+
+export interface ActiveInterests {
+  /** 0 while the configured list is in use */
+  version: number;
+  interests: string[];
+}
+
+/**
+ * Latest approved interest list of a profile, falling back to the configured one
+ */
+export async function getActiveInterests(profile: InterestProfile): Promise<ActiveInterests> {
+  const latest = await getLatestInterestVersion(profile.name);
+  return latest
+    ? { version: latest.version, interests: latest.interests }
+    : { version: 0, interests: profile.interests };
+}
+
+export function formatInterests(interests: string[]): string {
+  return interests.map((i) => `- ${i}`).join("\n");
+}
+
+/**
+ * Interest list for the scoring prompt
+ * With a profile, its latest approved version is used; without one, the
+ * configured top-level interests.
+ */
+export async function getInterestsPrompt(profile?: InterestProfile): Promise<string> {
+  const interests = profile ? (await getActiveInterests(profile)).interests : await getInterests();
+  return formatInterests(interests);
+}
+
+function normalizeInterest(interest: string): string {
+  return interest.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Statements to add and remove to turn the current list into the suggested one
+ * Compared case- and whitespace-insensitively, so rewording only in case is no change.
+ */
+export function diffInterests(
+  current: string[],
+  suggested: string[]
+): { additions: string[]; removals: string[] } {
+  const currentKeys = new Set(current.map(normalizeInterest));
+  const suggestedKeys = new Set(suggested.map(normalizeInterest));
+  const additions = suggested
+    .map((i) => i.trim())
+    .filter((i, index, all) => {
+      const key = normalizeInterest(i);
+      return !currentKeys.has(key) && all.findIndex((o) => normalizeInterest(o) === key) === index;
+    });
+  const removals = current.filter((i) => !suggestedKeys.has(normalizeInterest(i)));
+  return { additions, removals };
+}
+
+/**
+ * Apply approved additions and removals, keeping the order of the current list
+ */
+export function applyInterestDiff(
+  current: string[],
+  diff: { additions: string[]; removals: string[] }
+): string[] {
+  const removed = new Set(diff.removals.map(normalizeInterest));
+  const kept = current.filter((i) => !removed.has(normalizeInterest(i)));
+  const keptKeys = new Set(kept.map(normalizeInterest));
+  return [...kept, ...diff.additions.filter((i) => !keptKeys.has(normalizeInterest(i)))];
+}
+
+function formatEngagement(article: EngagedArticle): string {
+  const counts = [
+    article.up ? `👍${article.up}` : "",
+    article.down ? `👎${article.down}` : "",
+    article.clicks ? `opened ${article.clicks}×` : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+  const summary = article.summary ? ` - ${article.summary.slice(0, 120)}` : "";
+  return `- [${counts}] ${article.title} (${article.source}, ${article.category})${summary}`;
+}
+
+function formatSection(lines: string[]): string {
+  return lines.length > 0 ? lines.join("\n") : "(none)";
+}
+
+function buildSuggestionPrompt(
+  interests: string[],
+  articles: EngagedArticle[],
+  searches: SearchQueryStat[]
+): string {
+  const liked = articles.filter((a) => a.up + a.clicks > a.down);
+  const disliked = articles.filter((a) => a.down > 0 && a.down >= a.up);
+
+  return `You maintain the interest list used to score tech news articles for a reader.
+
+## Current interests:
+${formatInterests(interests)}
+
+## Articles the reader liked or opened (last ${SIGNAL_WINDOW_DAYS} days):
+${formatSection(liked.map(formatEngagement))}
+
+## Articles the reader disliked:
+${formatSection(disliked.map(formatEngagement))}
+
+## Recent searches:
+${formatSection(searches.map((s) => `- "${s.query}" (${s.searches}×)`))}
+
+Update the interest list so it reflects what the reader actually engages with:
+- Keep current statements word for word unless the behavior clearly contradicts them
+- Add a short statement, in the style of the current ones, only for a theme that recurs across several articles or searches
+- Remove a statement only when the reader consistently dislikes that topic
+- Keep the list at 20 statements or fewer
+
+Respond with JSON only:
+{"interests": ["...", "..."], "reason": "one sentence on what changed and why"}`;
+}
+
+/**
+ * Ask the LLM for an updated interest list and store the difference as a pending suggestion
+ * @returns null when a suggestion is already awaiting review, there is too
+ *   little behavior to go on, the LLM call fails or nothing would change
+ */
+export async function suggestInterestChanges(
+  profile: InterestProfile,
+  llm: LlmClient
+): Promise<InterestSuggestion | null> {
+  if ((await getPendingInterestSuggestions(profile.name)).length > 0) {
+    console.log(`  ${profile.name}: previous suggestion still awaiting review`);
+    return null;
+  }
+
+  const articles = (await getEngagedArticles(SIGNAL_WINDOW_DAYS, MAX_ARTICLES_IN_PROMPT)).filter(
+    (a) => !profile.categories || profile.categories.includes(a.category)
+  );
+  const searches = await getRecentSearchQueries(SIGNAL_WINDOW_DAYS, MAX_SEARCHES_IN_PROMPT);
+  const signals =
+    articles.reduce((sum, a) => sum + a.up + a.down + a.clicks, 0) +
+    searches.reduce((sum, s) => sum + s.searches, 0);
+  if (signals < MIN_SIGNALS) {
+    console.log(`  ${profile.name}: only ${signals} signals, skipping`);
+    return null;
+  }
+
+  const current = await getActiveInterests(profile);
+  let result;
+  try {
+    result = await completeStructured(
+      llm,
+      {
+        messages: [
+          {
+            role: "user",
+            content: buildSuggestionPrompt(current.interests, articles, searches),
+          },
+        ],
+      },
+      interestSuggestionSchema
+    );
+  } catch (error) {
+    if (
+      error instanceof LlmSchemaError ||
+      error instanceof LlmError ||
+      error instanceof RateLimitError
+    ) {
+      console.error(`[interests] ${error.message}`);
+      return null;
+    }
+    throw error;
+  }
+
+  const { additions, removals } = diffInterests(current.interests, result.interests);
+  if (additions.length === 0 && removals.length === 0) {
+    console.log(`  ${profile.name}: no changes suggested`);
+    return null;
+  }
+
+  const suggestion = {
+    profile: profile.name,
+    base_version: current.version,
+    additions,
+    removals,
+    reason: result.reason,
+  };
+  const id = await createInterestSuggestion(suggestion);
+  return {
+    ...suggestion,
+    id,
+    status: "pending",
+    channel_id: null,
+    message_id: null,
+    decided_by: null,
+    decided_at: null,
+    created_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Discord message presenting a suggestion for review
+ */
+export function formatInterestSuggestion(suggestion: InterestSuggestion): string {
+  const lines = [
+    `🧭 **Interest update for ${suggestion.profile}** (v${suggestion.base_version} → v${suggestion.base_version + 1})`,
+    suggestion.reason,
+    "",
+    ...suggestion.additions.map((i) => `➕ ${i}`),
+    ...suggestion.removals.map((i) => `➖ ${i}`),
+    "",
+    `${APPROVE_EMOJI} to apply, ${REJECT_EMOJI} to discard`,
+  ];
+  const message = lines.join("\n");
+  return message.length > DISCORD_MAX_MESSAGE_LENGTH
+    ? message.slice(0, DISCORD_MAX_MESSAGE_LENGTH - 3) + "..."
+    : message;
+}
+
+/**
+ * Post a suggestion with ✅/❌ reactions for approval
+ */
+export async function postInterestSuggestion(channel: TextChannel, suggestion: InterestSuggestion) {
+  const message = await channel.send(formatInterestSuggestion(suggestion));
+  await setInterestSuggestionMessage(suggestion.id, message.channelId, message.id);
+  await message.react(APPROVE_EMOJI);
+  await message.react(REJECT_EMOJI);
+}
+
+/**
+ * Approve or reject a suggestion from a ✅/❌ reaction on its message
+ * @returns a reply for the channel, or null if the reaction is not a decision on a pending suggestion
+ */
+export async function reviewInterestSuggestion(reaction: {
+  messageId: string;
+  userId: string;
+  emoji: string | null;
+}): Promise<string | null> {
+  if (reaction.emoji !== APPROVE_EMOJI && reaction.emoji !== REJECT_EMOJI) return null;
+
+  const suggestion = await getInterestSuggestionByMessage(reaction.messageId);
+  if (!suggestion || suggestion.status !== "pending") return null;
+
+  if (reaction.emoji === REJECT_EMOJI) {
+    const closed = await closeInterestSuggestion(suggestion.id, "rejected", reaction.userId);
+    return closed ? `${REJECT_EMOJI} Interest update for ${suggestion.profile} discarded` : null;
+  }
+
+  const profile = (await getProfiles()).find((p) => p.name === suggestion.profile);
+  if (!profile) {
+    await closeInterestSuggestion(suggestion.id, "stale");
+    return `⚠️ Profile ${suggestion.profile} no longer exists; suggestion discarded`;
+  }
+
+  const current = await getActiveInterests(profile);
+  const version = await approveInterestSuggestion(
+    suggestion,
+    applyInterestDiff(current.interests, suggestion),
+    reaction.userId
+  );
+  return version === null
+    ? `⚠️ Interests for ${suggestion.profile} changed since this suggestion; discarded`
+    : `${APPROVE_EMOJI} Interests for ${suggestion.profile} updated to v${version}`;
+}
@@ -0,0 +1,133 @@
+/**
+ * LLM client
+ * Every pipeline stage talks to its model through an LlmClient, so the
+ * backend (Groq, an OpenAI-compatible server, a local Ollama, Anthropic) and
+ * the model can be switched per stage in config. Token usage of every call
+ * is recorded per stage and model.
+ */
+
+import type { LlmProvider, LlmStage } from "../config";
+
+export interface LlmMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LlmRequest {
+  messages: LlmMessage[];
+  /** Ask the backend for a JSON object response, where supported */
+  json?: boolean;
+}
+
+export interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LlmResponse {
+  content: string;
+  usage: LlmUsage;
+}
+
+/** Fully resolved settings for one stage */
+export interface LlmSettings {
+  provider: LlmProvider;
+  model: string;
+  baseUrl: string;
+  apiKey?: string;
+  temperature: number;
+  maxTokens: number;
+  /** Re-asks after a response that fails its schema */
+  maxRepairs: number;
+}
+
+export interface LlmClient {
+  stage: LlmStage;
+  provider: LlmProvider;
+  model: string;
+  maxRepairs: number;
+  /**
+   * Run a chat completion
+   * @throws RateLimitError on HTTP 429, LlmError on other API errors
+   */
+  complete(request: LlmRequest): Promise<LlmResponse>;
+}
+
+/**
+ * Sends one request to a provider's API
+ */
+export type LlmTransport = (settings: LlmSettings, request: LlmRequest) => Promise<LlmResponse>;
+
+/**
+ * Non-429 error response from an LLM API
+ */
+export class LlmError extends Error {
+  status: number;
+
+  constructor(provider: LlmProvider, status: number, body: string) {
+    super(`${provider} API error: ${status}${body ? ` ${body.slice(0, 200)}` : ""}`);
+    this.name = "LlmError";
+    this.status = status;
+  }
+}
+
+export interface LlmUsageReport extends LlmUsage {
+  stage: LlmStage;
+  provider: LlmProvider;
+  model: string;
+  calls: number;
+  /** Responses that failed their schema (each one triggers a repair re-ask) */
+  schemaViolations: number;
+}
+
+const usageByStage = new Map<string, LlmUsageReport>();
+
+function getReport(client: LlmClient): LlmUsageReport {
+  const key = `${client.stage}:${client.provider}:${client.model}`;
+  let report = usageByStage.get(key);
+  if (!report) {
+    report = {
+      stage: client.stage,
+      provider: client.provider,
+      model: client.model,
+      calls: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      schemaViolations: 0,
+    };
+    usageByStage.set(key, report);
+  }
+  return report;
+}
+
+export function recordLlmUsage(client: LlmClient, usage: LlmUsage): void {
+  const report = getReport(client);
+  report.calls++;
+  report.inputTokens += usage.inputTokens;
+  report.outputTokens += usage.outputTokens;
+}
+
+export function recordSchemaViolation(client: LlmClient): void {
+  getReport(client).schemaViolations++;
+}
+
+/**
+ * Token usage since the last reset, per stage and model
+ */
+export function getLlmUsage(): LlmUsageReport[] {
+  return [...usageByStage.values()];
+}
+
+export function resetLlmUsage(): void {
+  usageByStage.clear();
+}
+
+/**
+ * One line per stage, e.g. "filter: groq/llama-3.3-70b-versatile 3 calls, 4210 in / 380 out tokens"
+ */
+export function formatLlmUsage(reports: LlmUsageReport[] = getLlmUsage()): string[] {
+  return reports.map((r) => {
+    const line = `${r.stage}: ${r.provider}/${r.model} ${r.calls} calls, ${r.inputTokens} in / ${r.outputTokens} out tokens`;
+    return r.schemaViolations > 0 ? `${line}, ${r.schemaViolations} schema violations` : line;
+  });
+}
@@ -0,0 +1,88 @@
+import { test, expect, describe, mock, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { LlmSettings, LlmTransport } from "./client";
+import { LlmFixtureMissingError, fixtureKey, getFixtureOptions, withFixtures } from "./fixtures";
+
+const settings: LlmSettings = {
+  provider: "groq",
+  model: "llama-3.3-70b-versatile",
+  baseUrl: "https://api.groq.com/openai/v1",
+  apiKey: "test-key",
+  temperature: 0.3,
+  maxTokens: 512,
+  maxRepairs: 2,
+};
+
+const request = { messages: [{ role: "user" as const, content: "Summarize:\n  Bun 1.2" }] };
+
+describe("fixtureKey", () => {
+  test("ignores whitespace differences but not content or stage", () => {
+    const key = fixtureKey("summarize", request);
+
+    expect(key).toMatch(/^summarize-[0-9a-f]{16}$/);
+    expect(
+      fixtureKey("summarize", { messages: [{ role: "user", content: "Summarize: Bun 1.2\n" }] })
+    ).toBe(key);
+    expect(
+      fixtureKey("summarize", { messages: [{ role: "user", content: "Summarize: Bun 1.3" }] })
+    ).not.toBe(key);
+    expect(fixtureKey("filter", request)).not.toBe(key);
+  });
+});
+
+describe("getFixtureOptions", () => {
+  test("reads the mode and directory from the environment", () => {
+    expect(getFixtureOptions({})).toBeNull();
+    expect(getFixtureOptions({ LLM_FIXTURES: "replay" })).toEqual({
+      mode: "replay",
+      dir: "./data/llm-fixtures",
+    });
+    expect(getFixtureOptions({ LLM_FIXTURES: "record", LLM_FIXTURES_DIR: "/tmp/llm" })).toEqual({
+      mode: "record",
+      dir: "/tmp/llm",
+    });
+  });
+});
+
+describe("withFixtures", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "llm-fixtures-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("records responses and replays them without calling the API", async () => {
+    const api = mock<LlmTransport>(async () => ({
+      content: "Bun 1.2の要約",
+      usage: { inputTokens: 10, outputTokens: 5 },
+    }));
+
+    const recorded = await withFixtures("summarize", api, { mode: "record", dir })(
+      settings,
+      request
+    );
+    const replayed = await withFixtures("summarize", api, { mode: "replay", dir })(
+      settings,
+      request
+    );
+
+    expect(api).toHaveBeenCalledTimes(1);
+    expect(replayed).toEqual(recorded);
+    expect(readdirSync(dir)).toEqual([`${fixtureKey("summarize", request)}.json`]);
+  });
+
+  test("fails on requests that were never recorded", async () => {
+    const api = mock<LlmTransport>();
+
+    const replay = withFixtures("summarize", api, { mode: "replay", dir })(settings, request);
+
+    await expect(replay).rejects.toBeInstanceOf(LlmFixtureMissingError);
+    expect(api).not.toHaveBeenCalled();
+  });
+});
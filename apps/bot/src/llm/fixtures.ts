@@ -0,0 +1,114 @@
+/**
+ * Record/replay of LLM calls
+ * With LLM_FIXTURES=record every request/response pair is written to
+ * LLM_FIXTURES_DIR, keyed by a hash of the normalized prompt. With
+ * LLM_FIXTURES=replay responses are served from those files and no API is
+ * called, so the whole pipeline can run offline and deterministically.
+ */
+
+import { join } from "node:path";
+import type { LlmProvider, LlmStage } from "../config";
+import type { LlmRequest, LlmResponse, LlmSettings, LlmTransport } from "./client";
+
+export type LlmFixtureMode = "record" | "replay";
+
+export interface LlmFixtureOptions {
+  mode: LlmFixtureMode;
+  dir: string;
+}
+
+/** One recorded call, stored as <dir>/<key>.json */
+export interface LlmFixture {
+  key: string;
+  stage: LlmStage;
+  /** Backend and model the response was recorded with (informational) */
+  provider: LlmProvider;
+  model: string;
+  request: LlmRequest;
+  response: LlmResponse;
+}
+
+// Default fixture directory (relative to monorepo root)
+const DEFAULT_FIXTURES_DIR = "./data/llm-fixtures";
+
+/**
+ * Thrown in replay mode when no response was recorded for a request
+ */
+export class LlmFixtureMissingError extends Error {
+  key: string;
+
+  constructor(key: string, dir: string) {
+    super(`No recorded LLM response ${key} in ${dir}; record it with LLM_FIXTURES=record`);
+    this.name = "LlmFixtureMissingError";
+    this.key = key;
+  }
+}
+
+/**
+ * Fixture mode from LLM_FIXTURES / LLM_FIXTURES_DIR
+ * @returns null when calls go to the API as usual
+ */
+export function getFixtureOptions(
+  env: Record<string, string | undefined> = process.env
+): LlmFixtureOptions | null {
+  const mode = env.LLM_FIXTURES;
+  if (mode !== "record" && mode !== "replay") return null;
+  return { mode, dir: env.LLM_FIXTURES_DIR || DEFAULT_FIXTURES_DIR };
+}
+
+/**
+ * Whitespace differences (indentation of template literals, trailing
+ * newlines) do not change the key
+ */
+function normalizeRequest(request: LlmRequest): string {
+  return JSON.stringify({
+    json: request.json ?? false,
+    messages: request.messages.map((m) => ({
+      role: m.role,
+      content: m.content.replace(/\s+/g, " ").trim(),
+    })),
+  });
+}
+
+/**
+ * Fixture key: stage plus a hash of the normalized prompt. The model is left
+ * out, so recordings keep working after switching models.
+ */
+export function fixtureKey(stage: LlmStage, request: LlmRequest): string {
+  const hash = new Bun.CryptoHasher("sha256").update(normalizeRequest(request)).digest("hex");
+  return `${stage}-${hash.slice(0, 16)}`;
+}
+
+/**
+ * Wrap a provider transport to record its calls or replay recorded ones
+ */
+export function withFixtures(
+  stage: LlmStage,
+  transport: LlmTransport,
+  options: LlmFixtureOptions
+): LlmTransport {
+  return async (settings: LlmSettings, request: LlmRequest): Promise<LlmResponse> => {
+    const key = fixtureKey(stage, request);
+    const file = Bun.file(join(options.dir, `${key}.json`));
+
+    if (options.mode === "replay") {
+      if (!(await file.exists())) {
+        throw new LlmFixtureMissingError(key, options.dir);
+      }
+      const fixture = (await file.json()) as LlmFixture;
+      return fixture.response;
+    }
+
+    const response = await transport(settings, request);
+    const fixture: LlmFixture = {
+      key,
+      stage,
+      provider: settings.provider,
+      model: settings.model,
+      request,
+      response,
+    };
+    await Bun.write(file, `${JSON.stringify(fixture, null, 2)}\n`);
+    return response;
+  };
+}
@@ -0,0 +1,196 @@
+import { test, expect, describe, mock, afterEach, beforeEach } from "bun:test";
+import { RateLimitError } from "../utils/retry";
+import { LlmError, formatLlmUsage, getLlmUsage, resetLlmUsage, type LlmSettings } from "./client";
+import { createLlmClient } from "./providers";
+
+const messages = [
+  { role: "system" as const, content: "日本語で答えてください" },
+  { role: "user" as const, content: "Summarize this" },
+];
+
+function settings(overrides: Partial<LlmSettings>): LlmSettings {
+  return {
+    provider: "groq",
+    model: "llama-3.3-70b-versatile",
+    baseUrl: "https://api.groq.com/openai/v1",
+    apiKey: "test-key",
+    temperature: 0.3,
+    maxTokens: 512,
+    maxRepairs: 2,
+    ...overrides,
+  };
+}
+
+interface Captured {
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+}
+
+describe("createLlmClient", () => {
+  const originalFetch = globalThis.fetch;
+  let captured: Captured[];
+
+  function mockReply(reply: () => Response) {
+    globalThis.fetch = mock(async (input: RequestInfo | URL, init?: RequestInit) => {
+      captured.push({
+        url: input.toString(),
+        headers: init?.headers as Record<string, string>,
+        body: JSON.parse(init?.body as string),
+      });
+      return reply();
+    }) as unknown as typeof fetch;
+  }
+
+  beforeEach(() => {
+    captured = [];
+    resetLlmUsage();
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("calls OpenAI-compatible chat completions and reports usage", async () => {
+    mockReply(() =>
+      Response.json({
+        choices: [{ message: { content: "要約" } }],
+        usage: { prompt_tokens: 120, completion_tokens: 30 },
+      })
+    );
+    const llm = createLlmClient("summarize", settings({}));
+
+    const response = await llm.complete({ messages, json: true });
+
+    expect(response).toEqual({ content: "要約", usage: { inputTokens: 120, outputTokens: 30 } });
+    expect(captured[0]?.url).toBe("https://api.groq.com/openai/v1/chat/completions");
+    expect(captured[0]?.headers.Authorization).toBe("Bearer test-key");
+    expect(captured[0]?.body).toEqual({
+      model: "llama-3.3-70b-versatile",
+      max_tokens: 512,
+      temperature: 0.3,
+      messages,
+      response_format: { type: "json_object" },
+    });
+  });
+
+  test("sends no Authorization header to keyless OpenAI-compatible servers", async () => {
+    mockReply(() => Response.json({ choices: [{ message: { content: "ok" } }] }));
+    const llm = createLlmClient(
+      "summarize",
+      settings({ provider: "openai", baseUrl: "http://localhost:8000/v1", apiKey: undefined })
+    );
+
+    const response = await llm.complete({ messages });
+
+    expect(captured[0]?.url).toBe("http://localhost:8000/v1/chat/completions");
+    expect(captured[0]?.headers.Authorization).toBeUndefined();
+    // Servers that omit usage count as zero tokens
+    expect(response.usage).toEqual({ inputTokens: 0, outputTokens: 0 });
+  });
+
+  test("calls the Ollama chat API", async () => {
+    mockReply(() =>
+      Response.json({ message: { content: "ok" }, prompt_eval_count: 80, eval_count: 12 })
+    );
+    const llm = createLlmClient(
+      "filter",
+      settings({ provider: "ollama", model: "qwen2.5:14b", baseUrl: "http://localhost:11434" })
+    );
+
+    const response = await llm.complete({ messages, json: true });
+
+    expect(response.usage).toEqual({ inputTokens: 80, outputTokens: 12 });
+    expect(captured[0]?.url).toBe("http://localhost:11434/api/chat");
+    expect(captured[0]?.body).toEqual({
+      model: "qwen2.5:14b",
+      messages,
+      stream: false,
+      format: "json",
+      options: { temperature: 0.3, num_predict: 512 },
+    });
+  });
+
+  test("calls the Anthropic Messages API with the system prompt separated", async () => {
+    mockReply(() =>
+      Response.json({
+        content: [{ type: "text", text: "要約" }],
+        usage: { input_tokens: 100, output_tokens: 20 },
+      })
+    );
+    const llm = createLlmClient(
+      "detailed_summary",
+      settings({ provider: "anthropic", model: "test-model", baseUrl: "https://api.anthropic.com" })
+    );
+
+    const response = await llm.complete({ messages });
+
+    expect(response).toEqual({ content: "要約", usage: { inputTokens: 100, outputTokens: 20 } });
+    expect(captured[0]?.url).toBe("https://api.anthropic.com/v1/messages");
+    expect(captured[0]?.headers["x-api-key"]).toBe("test-key");
+    expect(captured[0]?.body).toEqual({
+      model: "test-model",
+      max_tokens: 512,
+      temperature: 0.3,
+      system: "日本語で答えてください",
+      messages: [{ role: "user", content: "Summarize this" }],
+    });
+  });
+
+  test("throws RateLimitError on 429 and LlmError on other errors", async () => {
+    const llm = createLlmClient("filter", settings({}));
+
+    mockReply(() => new Response("", { status: 429, headers: { "Retry-After": "5" } }));
+    const rateLimited = await llm.complete({ messages }).catch((error) => error);
+    expect(rateLimited).toBeInstanceOf(RateLimitError);
+    expect(rateLimited.retryAfterMs).toBe(5000);
+
+    mockReply(() => new Response("model not found", { status: 404 }));
+    const failed = await llm.complete({ messages }).catch((error) => error);
+    expect(failed).toBeInstanceOf(LlmError);
+    expect(failed.status).toBe(404);
+    expect(failed.message).toBe("groq API error: 404 model not found");
+  });
+
+  test("totals usage per stage and model", async () => {
+    mockReply(() =>
+      Response.json({
+        choices: [{ message: { content: "ok" } }],
+        usage: { prompt_tokens: 100, completion_tokens: 10 },
+      })
+    );
+    const filter = createLlmClient("filter", settings({}));
+    const prDescription = createLlmClient(
+      "pr_description",
+      settings({ model: "llama-3.1-8b-instant" })
+    );
+
+    await filter.complete({ messages });
+    await filter.complete({ messages });
+    await prDescription.complete({ messages });
+
+    expect(getLlmUsage()).toEqual([
+      {
+        stage: "filter",
+        provider: "groq",
+        model: "llama-3.3-70b-versatile",
+        calls: 2,
+        inputTokens: 200,
+        outputTokens: 20,
+        schemaViolations: 0,
+      },
+      {
+        stage: "pr_description",
+        provider: "groq",
+        model: "llama-3.1-8b-instant",
+        calls: 1,
+        inputTokens: 100,
+        outputTokens: 10,
+        schemaViolations: 0,
+      },
+    ]);
+    expect(formatLlmUsage()[0]).toBe(
+      "filter: groq/llama-3.3-70b-versatile 2 calls, 200 in / 20 out tokens"
+    );
+  });
+});
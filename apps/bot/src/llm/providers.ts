@@ -0,0 +1,172 @@
+/**
+ * LLM provider backends
+ * Groq and any OpenAI-compatible server share the chat completions API;
+ * Ollama and Anthropic have their own request and usage formats.
+ */
+
+import type { LlmProvider, LlmStage } from "../config";
+import { checkRateLimit } from "../utils/retry";
+import {
+  LlmError,
+  recordLlmUsage,
+  type LlmClient,
+  type LlmRequest,
+  type LlmResponse,
+  type LlmSettings,
+  type LlmTransport,
+} from "./client";
+import { getFixtureOptions, withFixtures, type LlmFixtureOptions } from "./fixtures";
+
+export const DEFAULT_BASE_URLS: Record<LlmProvider, string> = {
+  groq: "https://api.groq.com/openai/v1",
+  openai: "https://api.openai.com/v1",
+  ollama: "http://localhost:11434",
+  anthropic: "https://api.anthropic.com",
+};
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+async function throwForStatus(provider: LlmProvider, res: Response): Promise<void> {
+  if (res.ok) return;
+  checkRateLimit(res);
+  throw new LlmError(provider, res.status, await res.text().catch(() => ""));
+}
+
+/**
+ * Groq, OpenAI, vLLM, LM Studio and other /chat/completions servers
+ */
+export const completeOpenAiCompatible: LlmTransport = async (settings, request) => {
+  const res = await fetch(`${settings.baseUrl}/chat/completions`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+    },
+    body: JSON.stringify({
+      model: settings.model,
+      max_tokens: settings.maxTokens,
+      temperature: settings.temperature,
+      messages: request.messages,
+      ...(request.json ? { response_format: { type: "json_object" } } : {}),
+    }),
+  });
+  await throwForStatus(settings.provider, res);
+
+  const data = (await res.json()) as {
+    choices?: { message?: { content?: string } }[];
+    usage?: { prompt_tokens?: number; completion_tokens?: number };
+  };
+  return {
+    content: data.choices?.[0]?.message?.content || "",
+    usage: {
+      inputTokens: data.usage?.prompt_tokens ?? 0,
+      outputTokens: data.usage?.completion_tokens ?? 0,
+    },
+  };
+};
+
+/**
+ * Local (or remote) Ollama through its native chat API
+ */
+export const completeOllama: LlmTransport = async (settings, request) => {
+  const res = await fetch(`${settings.baseUrl}/api/chat`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      model: settings.model,
+      messages: request.messages,
+      stream: false,
+      ...(request.json ? { format: "json" } : {}),
+      options: { temperature: settings.temperature, num_predict: settings.maxTokens },
+    }),
+  });
+  await throwForStatus(settings.provider, res);
+
+  const data = (await res.json()) as {
+    message?: { content?: string };
+    prompt_eval_count?: number;
+    eval_count?: number;
+  };
+  return {
+    content: data.message?.content || "",
+    usage: {
+      inputTokens: data.prompt_eval_count ?? 0,
+      outputTokens: data.eval_count ?? 0,
+    },
+  };
+};
+
+/**
+ * Anthropic Messages API. System prompts go in a separate field, and there is
+ * no JSON mode; prompts already ask for JSON only.
+ */
+export const completeAnthropic: LlmTransport = async (settings, request) => {
+  const system = request.messages
+    .filter((m) => m.role === "system")
+    .map((m) => m.content)
+    .join("\n\n");
+  const res = await fetch(`${settings.baseUrl}/v1/messages`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-api-key": settings.apiKey ?? "",
+      "anthropic-version": ANTHROPIC_VERSION,
+    },
+    body: JSON.stringify({
+      model: settings.model,
+      max_tokens: settings.maxTokens,
+      temperature: settings.temperature,
+      ...(system ? { system } : {}),
+      messages: request.messages.filter((m) => m.role !== "system"),
+    }),
+  });
+  await throwForStatus(settings.provider, res);
+
+  const data = (await res.json()) as {
+    content?: { type: string; text?: string }[];
+    usage?: { input_tokens?: number; output_tokens?: number };
+  };
+  return {
+    content: (data.content ?? [])
+      .filter((block) => block.type === "text")
+      .map((block) => block.text ?? "")
+      .join(""),
+    usage: {
+      inputTokens: data.usage?.input_tokens ?? 0,
+      outputTokens: data.usage?.output_tokens ?? 0,
+    },
+  };
+};
+
+export const providerTransports: Record<LlmProvider, LlmTransport> = {
+  groq: completeOpenAiCompatible,
+  openai: completeOpenAiCompatible,
+  ollama: completeOllama,
+  anthropic: completeAnthropic,
+};
+
+/**
+ * Client for one stage, recording the usage of each call
+ * Calls are recorded to or replayed from disk when LLM_FIXTURES is set.
+ */
+export function createLlmClient(
+  stage: LlmStage,
+  settings: LlmSettings,
+  fixtures: LlmFixtureOptions | null = getFixtureOptions()
+): LlmClient {
+  const transport = fixtures
+    ? withFixtures(stage, providerTransports[settings.provider], fixtures)
+    : providerTransports[settings.provider];
+  const client: LlmClient = {
+    stage,
+    provider: settings.provider,
+    model: settings.model,
+    maxRepairs: settings.maxRepairs,
+    async complete(request: LlmRequest): Promise<LlmResponse> {
+      const response = await transport(settings, request);
+      recordLlmUsage(client, response.usage);
+      return response;
+    },
+  };
+  return client;
+}
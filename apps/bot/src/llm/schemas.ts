@@ -0,0 +1,65 @@
+/**
+ * Response schemas for the structured LLM stages
+ * Batch prompts number their articles [0]..[count-1], so the schemas that
+ * refer back to them take the batch size to reject out-of-range indexes.
+ */
+
+import { z } from "zod";
+
+const levelSchema = z.enum(["high", "medium", "low"]);
+
+function indexSchema(count: number) {
+  return z
+    .number()
+    .int()
+    .min(0)
+    .max(count - 1);
+}
+
+/** Relevance scores for a batch of articles (filter stage) */
+export function filterResultSchema(count: number) {
+  return z.array(
+    z.object({
+      index: indexSchema(count),
+      score: z.number().min(0).max(1),
+      reason: z.string(),
+      originality: levelSchema.optional(),
+      novelty: levelSchema.optional(),
+    })
+  );
+}
+
+/** One Japanese line per article: title translations and short summaries (summarize stage) */
+export function summaryResultSchema(count: number) {
+  return z.array(
+    z.object({
+      index: indexSchema(count),
+      summary: z.string(),
+    })
+  );
+}
+
+/** Detailed summary of a single article (detailed_summary stage) */
+export const detailedSummarySchema = z.object({
+  detailedSummary: z.string().min(1),
+  keyPoints: z.array(z.string()),
+  targetAudience: z.string().optional(),
+});
+
+/** Pull request title and body for a finished task (pr_description stage) */
+export const prContentSchema = z.object({
+  title: z.string().min(1),
+  description: z.string(),
+});
+
+/** Updated interest list derived from reader behavior (interests stage) */
+export const interestSuggestionSchema = z.object({
+  interests: z.array(z.string().min(1)).min(1),
+  reason: z.string(),
+});
+
+export type FilterResult = z.infer<ReturnType<typeof filterResultSchema>>;
+export type SummaryResult = z.infer<ReturnType<typeof summaryResultSchema>>;
+export type DetailedSummary = z.infer<typeof detailedSummarySchema>;
+export type PrContent = z.infer<typeof prContentSchema>;
+export type InterestSuggestionResult = z.infer<typeof interestSuggestionSchema>;
@@ -0,0 +1,84 @@
+import { test, expect, describe } from "bun:test";
+import { resolveLlmSettings } from "./stages";
+
+const env = { GROQ_API_KEY: "gsk_test", ANTHROPIC_API_KEY: "sk-ant-test" };
+
+describe("resolveLlmSettings", () => {
+  test("defaults every stage to Groq with its own model and limits", () => {
+    expect(resolveLlmSettings("filter", {}, env)).toEqual({
+      provider: "groq",
+      model: "llama-3.3-70b-versatile",
+      baseUrl: "https://api.groq.com/openai/v1",
+      apiKey: "gsk_test",
+      temperature: 0.1,
+      maxTokens: 2048,
+      maxRepairs: 2,
+    });
+    expect(resolveLlmSettings("pr_description", {}, env)).toMatchObject({
+      model: "llama-3.1-8b-instant",
+      maxTokens: 1000,
+    });
+  });
+
+  test("lets stage settings override the top-level ones", () => {
+    const config = {
+      provider: "ollama" as const,
+      model: "qwen2.5:14b",
+      stages: {
+        detailed_summary: {
+          provider: "anthropic" as const,
+          model: "test-model",
+          max_tokens: 4096,
+        },
+      },
+    };
+
+    expect(resolveLlmSettings("filter", config, env)).toEqual({
+      provider: "ollama",
+      model: "qwen2.5:14b",
+      baseUrl: "http://localhost:11434",
+      apiKey: undefined,
+      temperature: 0.1,
+      maxTokens: 2048,
+      maxRepairs: 2,
+    });
+    expect(resolveLlmSettings("detailed_summary", config, env)).toMatchObject({
+      provider: "anthropic",
+      model: "test-model",
+      baseUrl: "https://api.anthropic.com",
+      apiKey: "sk-ant-test",
+      temperature: 0.3,
+      maxTokens: 4096,
+    });
+  });
+
+  test("reads the API key from a custom variable and trims the base URL", () => {
+    const settings = resolveLlmSettings(
+      "summarize",
+      {
+        provider: "openai",
+        model: "gpt-test",
+        base_url: "https://llm.example.com/v1/",
+        api_key_env: "GATEWAY_KEY",
+      },
+      { GATEWAY_KEY: "secret" }
+    );
+
+    expect(settings.baseUrl).toBe("https://llm.example.com/v1");
+    expect(settings.apiKey).toBe("secret");
+  });
+
+  test("rejects providers without a model or a required key", () => {
+    expect(() => resolveLlmSettings("filter", {}, {})).toThrow("GROQ_API_KEY not set");
+    expect(() => resolveLlmSettings("filter", { provider: "ollama" }, env)).toThrow(
+      "no model set for ollama"
+    );
+    expect(() =>
+      resolveLlmSettings("filter", { provider: "openai", model: "gpt-test" }, env)
+    ).toThrow("OPENAI_API_KEY not set");
+  });
+
+  test("needs no API key when replaying recorded responses", () => {
+    expect(resolveLlmSettings("filter", {}, { LLM_FIXTURES: "replay" }).apiKey).toBeUndefined();
+  });
+});
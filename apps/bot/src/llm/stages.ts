@@ -0,0 +1,88 @@
+/**
+ * Per-stage LLM settings
+ * Built-in defaults keep every stage on Groq with the models it has always
+ * used; the `llm` section of sources.yaml can move all stages, or single
+ * ones, to another provider or model.
+ */
+
+import { getLlmConfig, type LlmConfig, type LlmProvider, type LlmStage } from "../config";
+import type { LlmClient, LlmSettings } from "./client";
+import { DEFAULT_BASE_URLS, createLlmClient } from "./providers";
+import { getFixtureOptions } from "./fixtures";
+
+interface StageDefaults {
+  /** Model used when the stage runs on Groq */
+  groqModel: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export const STAGE_DEFAULTS: Record<LlmStage, StageDefaults> = {
+  filter: { groqModel: "llama-3.3-70b-versatile", temperature: 0.1, maxTokens: 2048 },
+  summarize: { groqModel: "llama-3.3-70b-versatile", temperature: 0.3, maxTokens: 2048 },
+  detailed_summary: { groqModel: "llama-3.3-70b-versatile", temperature: 0.3, maxTokens: 2048 },
+  discussion: { groqModel: "llama-3.3-70b-versatile", temperature: 0.3, maxTokens: 512 },
+  pr_description: { groqModel: "llama-3.1-8b-instant", temperature: 0.3, maxTokens: 1000 },
+  interests: { groqModel: "llama-3.3-70b-versatile", temperature: 0.2, maxTokens: 1024 },
+};
+
+const DEFAULT_MAX_REPAIRS = 2;
+
+const API_KEY_ENV: Partial<Record<LlmProvider, string>> = {
+  groq: "GROQ_API_KEY",
+  openai: "OPENAI_API_KEY",
+  anthropic: "ANTHROPIC_API_KEY",
+};
+
+/**
+ * Merge built-in defaults, the top-level llm settings and the stage's own
+ * @throws Error when the resulting provider lacks a model or a required API key
+ */
+export function resolveLlmSettings(
+  stage: LlmStage,
+  config: LlmConfig = {},
+  env: Record<string, string | undefined> = process.env
+): LlmSettings {
+  const { stages, ...shared } = config;
+  const merged = { ...shared, ...stages?.[stage] };
+  const defaults = STAGE_DEFAULTS[stage];
+  const provider = merged.provider ?? "groq";
+
+  const model = merged.model ?? (provider === "groq" ? defaults.groqModel : undefined);
+  if (!model) {
+    throw new Error(`no model set for ${provider}`);
+  }
+
+  const keyEnv = merged.api_key_env ?? API_KEY_ENV[provider];
+  const apiKey = keyEnv ? env[keyEnv] || undefined : undefined;
+  // Self-hosted OpenAI-compatible servers and Ollama usually run without a key
+  const needsKey =
+    provider === "groq" || provider === "anthropic" || (provider === "openai" && !merged.base_url);
+  // Replayed calls never reach the API
+  if (needsKey && !apiKey && getFixtureOptions(env)?.mode !== "replay") {
+    throw new Error(`${keyEnv} not set`);
+  }
+
+  return {
+    provider,
+    model,
+    baseUrl: (merged.base_url ?? DEFAULT_BASE_URLS[provider]).replace(/\/+$/, ""),
+    apiKey,
+    temperature: merged.temperature ?? defaults.temperature,
+    maxTokens: merged.max_tokens ?? defaults.maxTokens,
+    maxRepairs: merged.max_repairs ?? DEFAULT_MAX_REPAIRS,
+  };
+}
+
+/**
+ * Client for a pipeline stage as configured in sources.yaml
+ * @returns null when the stage's provider is not usable (e.g. missing API key)
+ */
+export async function getLlmClient(stage: LlmStage): Promise<LlmClient | null> {
+  try {
+    return createLlmClient(stage, resolveLlmSettings(stage, await getLlmConfig()));
+  } catch (error) {
+    console.log(`[llm] ${stage}: ${error instanceof Error ? error.message : error}`);
+    return null;
+  }
+}
@@ -0,0 +1,96 @@
+import { test, expect, describe, beforeEach } from "bun:test";
+import {
+  formatLlmUsage,
+  getLlmUsage,
+  resetLlmUsage,
+  type LlmClient,
+  type LlmRequest,
+} from "./client";
+import { filterResultSchema, prContentSchema } from "./schemas";
+import { LlmSchemaError, completeStructured, parseStructured } from "./structured";
+
+/** Client that answers with the given responses in order and keeps the requests */
+function scriptedClient(responses: string[], maxRepairs = 2) {
+  const requests: LlmRequest[] = [];
+  const llm: LlmClient = {
+    stage: "filter",
+    provider: "groq",
+    model: "llama-3.3-70b-versatile",
+    maxRepairs,
+    async complete(request) {
+      requests.push(structuredClone(request));
+      return {
+        content: responses[requests.length - 1] ?? "",
+        usage: { inputTokens: 0, outputTokens: 0 },
+      };
+    },
+  };
+  return { llm, requests };
+}
+
+const request: LlmRequest = { messages: [{ role: "user", content: "Score these articles" }] };
+
+describe("parseStructured", () => {
+  test("reads JSON wrapped in code fences or prose", () => {
+    const schema = filterResultSchema(1);
+
+    expect(
+      parseStructured(
+        'Here you go:\n```json\n[{"index": 0, "score": 0.8, "reason": "ok"}]\n```',
+        schema
+      )
+    ).toEqual({ success: true, data: [{ index: 0, score: 0.8, reason: "ok" }] });
+    expect(
+      parseStructured('Sure! {"title": "Add cache", "description": "..."} Done.', prContentSchema)
+    ).toEqual({ success: true, data: { title: "Add cache", description: "..." } });
+  });
+
+  test("reports each schema issue with its path", () => {
+    const result = parseStructured('[{"index": 3, "score": 0.8}]', filterResultSchema(2));
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.issues).toContain("0.index:");
+    expect(result.issues).toContain("0.reason:");
+    expect(parseStructured("no json here", prContentSchema)).toEqual({
+      success: false,
+      issues: "response is not valid JSON",
+    });
+  });
+});
+
+describe("completeStructured", () => {
+  beforeEach(() => {
+    resetLlmUsage();
+  });
+
+  test("re-asks with the validation errors until the response matches", async () => {
+    const { llm, requests } = scriptedClient([
+      '[{"index": 0, "score": "high", "reason": "ok"}]',
+      '[{"index": 0, "score": 0.9, "reason": "ok"}]',
+    ]);
+
+    const result = await completeStructured(llm, request, filterResultSchema(1));
+
+    expect(result).toEqual([{ index: 0, score: 0.9, reason: "ok" }]);
+    expect(requests).toHaveLength(2);
+    expect(requests[1]?.messages).toHaveLength(3);
+    expect(requests[1]?.messages[1]).toEqual({
+      role: "assistant",
+      content: '[{"index": 0, "score": "high", "reason": "ok"}]',
+    });
+    expect(requests[1]?.messages[2]?.content).toContain("0.score:");
+    expect(getLlmUsage()[0]?.schemaViolations).toBe(1);
+  });
+
+  test("gives up after maxRepairs re-asks and counts every violation", async () => {
+    const { llm, requests } = scriptedClient(["nope", "still nope", "nope again"], 1);
+
+    const result = completeStructured(llm, request, filterResultSchema(1));
+
+    await expect(result).rejects.toBeInstanceOf(LlmSchemaError);
+    expect(requests).toHaveLength(2);
+    expect(getLlmUsage()[0]?.schemaViolations).toBe(2);
+    expect(formatLlmUsage()[0]).toEndWith(", 2 schema violations");
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Structured LLM output
+ * Responses are parsed as JSON (tolerating code fences and surrounding prose)
+ * and validated against a zod schema. A response that fails is counted as a
+ * schema violation and the model is asked again with the validation errors,
+ * up to the stage's maxRepairs times.
+ */
+
+import type { z } from "zod";
+import type { LlmStage } from "../config";
+import { recordSchemaViolation, type LlmClient, type LlmRequest } from "./client";
+
+/**
+ * Thrown when a response still fails its schema after all repair attempts
+ */
+export class LlmSchemaError extends Error {
+  stage: LlmStage;
+  issues: string;
+
+  constructor(stage: LlmStage, issues: string) {
+    super(`${stage} response did not match its schema: ${issues}`);
+    this.name = "LlmSchemaError";
+    this.stage = stage;
+    this.issues = issues;
+  }
+}
+
+type ParseResult<T> = { success: true; data: T } | { success: false; issues: string };
+
+/**
+ * Pull the JSON value out of a response
+ * @returns undefined when no JSON could be parsed
+ */
+function extractJson(content: string): unknown {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const text = (fenced?.[1] ?? content).trim();
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    // Fall through to the outermost array or object
+  }
+
+  const start = text.search(/[[{]/);
+  if (start === -1) return undefined;
+  const end = text.lastIndexOf(text[start] === "[" ? "]" : "}");
+  try {
+    return JSON.parse(text.slice(start, end + 1));
+  } catch {
+    return undefined;
+  }
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    .join("; ");
+}
+
+/**
+ * Parse and validate one response
+ */
+export function parseStructured<T>(content: string, schema: z.ZodType<T>): ParseResult<T> {
+  const json = extractJson(content);
+  if (json === undefined) {
+    return { success: false, issues: "response is not valid JSON" };
+  }
+
+  const result = schema.safeParse(json);
+  if (!result.success) {
+    return { success: false, issues: formatIssues(result.error) };
+  }
+  return { success: true, data: result.data };
+}
+
+/**
+ * Run a completion and return its validated JSON
+ * @throws LlmSchemaError when the response is still invalid after maxRepairs re-asks,
+ *   and whatever llm.complete throws
+ */
+export async function completeStructured<T>(
+  llm: LlmClient,
+  request: LlmRequest,
+  schema: z.ZodType<T>
+): Promise<T> {
+  const messages = [...request.messages];
+
+  const run = async (attempt: number): Promise<T> => {
+    const { content } = await llm.complete({ ...request, messages });
+    const result = parseStructured(content, schema);
+    if (result.success) return result.data;
+
+    recordSchemaViolation(llm);
+    console.warn(
+      `[llm] ${llm.stage} response did not match its schema (attempt ${attempt + 1}/${llm.maxRepairs + 1}): ${result.issues}`
+    );
+    if (attempt >= llm.maxRepairs) {
+      throw new LlmSchemaError(llm.stage, result.issues);
+    }
+
+    messages.push(
+      { role: "assistant", content },
+      {
+        role: "user",
+        content: `Your previous response did not match the required format: ${result.issues}\nReply again with only the corrected JSON.`,
+      }
+    );
+    return run(attempt + 1);
+  };
+  return run(0);
+}
@@ -1,43 +1,66 @@
 import {
   ensureDb,
+  canonicalizeUrl,
   isArticleSeen,
   saveArticle,
   markAsNotified,
+  getNotifiedUrls,
+  markDismissed,
+  getUnsentArticles,
   updateArticleDetailedSummary,
+  updateArticleDiscussionSummary,
   updateArticleOgImage,
+  type Article,
 } from "./db";
-import { fetchRss } from "./sources/rss";
-import { fetchHackerNews } from "./sources/hackernews";
-import { fetchGitHubTrending } from "./sources/github-trending";
-import { filterArticles, type ArticleToFilter } from "./filter";
-import { summarizeArticles } from "./summarize/summarize";
+import { collectArticles } from "./sources/registry";
+import { filterActiveSources } from "./sources/health";
+import { filterArticles, type ArticleToFilter, type FilteredArticle } from "./filter";
+import { clusterArticles } from "./cluster";
+import { explainScore, learnRankingWeights } from "./affinity";
+import { linkStories, type FollowUp } from "./story";
+import { summarizeArticles, type SummarizedArticle } from "./summarize/summarize";
+import { summarizeDiscussion } from "./summarize/hn-discussion";
 import {
   generateDetailedSummary,
-  fetchArticleContentWithOgImage,
+  loadArticleContent,
 } from "./summarize/detailed-summary";
 import { sendToDiscord, type NotifyArticle } from "./discord/notify";
 import {
   createDigestEmbed,
   createCategoryEmbeds,
+  createArticleEmbeds,
   sendEmbedsToDiscord,
   type DiscordEmbed,
 } from "./discord/discord-embed";
-import { getRssSources, getHackerNewsSource, getGitHubTrendingSource } from "./config";
+import { getEnabledSources, getProfiles, type InterestProfile } from "./config";
 import { persistSearchIndex } from "./search/orama-index";
 import { withRetry, RateLimitError } from "./utils/retry";
+import { formatLlmUsage, resetLlmUsage, type LlmClient } from "./llm/client";
+import { getLlmClient } from "./llm/stages";
 import { logError, logWarn } from "./context-extractor";
 
 // Environment variables
 const DISCORD_WEBHOOK = process.env.DISCORD_WEBHOOK || "";
-const GROQ_API_KEY = process.env.GROQ_API_KEY || "";
 const DRY_RUN = process.env.DRY_RUN === "true";
 const MAX_ARTICLES = parseInt(process.env.MAX_ARTICLES || "20");
 const MAX_PER_SOURCE = parseInt(process.env.MAX_PER_SOURCE || "10"); // Limit per source before filtering
-const EMBED_FORMAT = process.env.EMBED_FORMAT || "text"; // text, digest, category
+export const EMBED_FORMAT = process.env.EMBED_FORMAT || "text"; // text, digest, category, article
+const UNSENT_DAYS = 3; // How long a profile keeps considering stored articles it was not sent
 
-export interface NewsfeedResult {
+/** Digest for one interest profile */
+export interface ProfileDigest {
+  profile: InterestProfile;
   articles: NotifyArticle[];
   embeds: DiscordEmbed[];
+  /** embeds[i] shows articles[i], so each can be posted as its own message (EMBED_FORMAT=article) */
+  perArticle: boolean;
+}
+
+export interface NewsfeedResult {
+  /** One digest per interest profile, in config order */
+  digests: ProfileDigest[];
+  /** Sources auto-disabled during this run after repeated fetch failures */
+  disabledSources: string[];
 }
 
 /**
@@ -64,23 +87,26 @@ async function enrichArticleContent(articles: ArticleToFilter[]): Promise<Articl
 
   // Fetch content in parallel with concurrency limit
   const CONCURRENCY = 5;
-  const results = new Map<string, { content: string; ogImage: string | null }>();
+  const results = new Map<
+    string,
+    { content: string; ogImage: string | null; canonicalUrl?: string }
+  >();
 
   for (let i = 0; i < needsContent.length; i += CONCURRENCY) {
     const batch = needsContent.slice(i, i + CONCURRENCY);
     const promises = batch.map(async (article) => {
       try {
-        const { content, ogImage } = await fetchArticleContentWithOgImage(article.url);
+        const { content, ogImage, canonicalUrl } = await loadArticleContent(article.url);
         if (content && content.length > 50) {
-          results.set(article.url, { content, ogImage });
+          results.set(article.url, { content, ogImage, canonicalUrl });
           const ogStatus = ogImage ? "📷" : "";
           console.log(
             `    ✓ ${article.title.slice(0, 40)}... (${content.length} chars) ${ogStatus}`
           );
         } else {
           // Still save OG image even if content is empty
-          if (ogImage) {
-            results.set(article.url, { content: "", ogImage });
+          if (ogImage || canonicalUrl) {
+            results.set(article.url, { content: "", ogImage, canonicalUrl });
             console.log(`    ✗ ${article.title.slice(0, 40)}... (no content, has OG image)`);
           } else {
             console.log(`    ✗ ${article.title.slice(0, 40)}... (no content)`);
@@ -100,126 +126,257 @@ async function enrichArticleContent(articles: ArticleToFilter[]): Promise<Articl
       return {
         ...article,
         content: fetched.content || article.content,
-        og_image: fetched.ogImage || undefined,
+        og_image: fetched.ogImage || article.og_image,
+        canonical_url: fetched.canonicalUrl || article.canonical_url,
       };
     }
     return article;
   });
 }
 
+/**
+ * Turn a stored article back into a filter candidate; its summary stands in for the feed content
+ */
+function toCandidate(article: Article): ArticleToFilter {
+  return {
+    title: article.title,
+    url: article.url,
+    source: article.source,
+    category: article.category,
+    content: article.summary ?? undefined,
+    published: article.published_at ? new Date(article.published_at) : undefined,
+    og_image: article.og_image ?? undefined,
+    hn_id: article.hn_id ?? undefined,
+    discussion_url: article.discussion_url ?? undefined,
+    release_repo: article.release_repo ?? undefined,
+    release_version: article.release_version ?? undefined,
+    arxiv_id: article.arxiv_id ?? undefined,
+    arxiv_version: article.arxiv_version ?? undefined,
+    authors: article.authors ? (JSON.parse(article.authors) as string[]) : undefined,
+    pdf_url: article.pdf_url ?? undefined,
+    canonical_url: article.canonical_url ?? undefined,
+    badge: article.badge ?? undefined,
+  };
+}
+
+/**
+ * Drop articles whose page declares a canonical URL that was already seen
+ * (in an earlier run or earlier in this batch). Source URLs are deduped by the
+ * registry; this catches the same story reached through different links.
+ */
+async function dropCanonicalDuplicates(articles: ArticleToFilter[]): Promise<ArticleToFilter[]> {
+  const kept: ArticleToFilter[] = [];
+  const seen = new Set<string>();
+  const urls = articles.map((article) => {
+    const ownUrl = canonicalizeUrl(article.url);
+    const canonical = article.canonical_url ? canonicalizeUrl(article.canonical_url) : ownUrl;
+    return { ownUrl, canonical };
+  });
+  const seenBefore = await Promise.all(
+    urls.map(({ ownUrl, canonical }) => canonical !== ownUrl && isArticleSeen(canonical))
+  );
+
+  for (const [index, article] of articles.entries()) {
+    const { ownUrl, canonical } = urls[index]!;
+    if (seen.has(canonical) || seen.has(ownUrl)) {
+      console.log(`  ⏭️ Duplicate in this run: ${article.title.slice(0, 40)}...`);
+      continue;
+    }
+    if (seenBefore[index]) {
+      console.log(`  ⏭️ Already seen as ${canonical}: ${article.title.slice(0, 40)}...`);
+      continue;
+    }
+    seen.add(canonical);
+    seen.add(ownUrl);
+    kept.push(article);
+  }
+  return kept;
+}
+
+/**
+ * Summarize HN comment threads ("community reaction") and store them on the articles
+ * @returns discussion summary by article URL
+ */
+async function summarizeDiscussions(
+  articles: SummarizedArticle[],
+  llm: LlmClient | null
+): Promise<Map<string, string>> {
+  const summaries = new Map<string, string>();
+  if (!llm) return summaries;
+  const hnArticles = articles.filter(
+    (a): a is SummarizedArticle & { hn_id: number } => a.hn_id !== undefined
+  );
+  if (hnArticles.length === 0) return summaries;
+
+  console.log(`\n💬 Summarizing ${hnArticles.length} HN discussions...`);
+  let rateLimited = false;
+  await hnArticles.reduce<Promise<void>>(async (previous, article) => {
+    await previous;
+    if (rateLimited) return;
+    try {
+      const summary = await summarizeDiscussion(article, llm);
+      if (!summary) {
+        console.log(`  - ${article.title.slice(0, 40)}... (not enough discussion)`);
+        return;
+      }
+      await updateArticleDiscussionSummary(article.url, summary);
+      summaries.set(article.url, summary);
+      console.log(`  ✓ ${article.title.slice(0, 40)}...`);
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        logWarn("Rate limited, skipping remaining discussion summaries", { source: "summarize" });
+        rateLimited = true;
+        return;
+      }
+      const errMsg = error instanceof Error ? error.message : String(error);
+      logError(`Failed to summarize discussion for ${article.url}: ${errMsg}`, {
+        source: "summarize",
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+    }
+  }, Promise.resolve());
+  return summaries;
+}
+
 /**
  * Run the newsfeed pipeline and return articles + embeds
  * Can be called from bot.ts for scheduled posting
  */
-export async function runNewsfeed(): Promise<NewsfeedResult | null> {
+export async function runNewsfeed(): Promise<NewsfeedResult> {
   console.log("\n🚀 Starting newsfeed...");
-  console.log(`GROQ_API_KEY: ${GROQ_API_KEY ? "set" : "not set"}`);
+
+  resetLlmUsage();
+  const filterLlm = await getLlmClient("filter");
+  const summarizeLlm = await getLlmClient("summarize");
+  const detailedSummaryLlm = await getLlmClient("detailed_summary");
+  const discussionLlm = await getLlmClient("discussion");
+  for (const llm of [filterLlm, summarizeLlm, detailedSummaryLlm, discussionLlm]) {
+    if (llm) console.log(`LLM ${llm.stage}: ${llm.provider}/${llm.model}`);
+  }
 
   // Initialize database
   await ensureDb();
 
-  const allArticles: ArticleToFilter[] = [];
-
-  // Fetch Hacker News (top stories only)
-  const hnSource = await getHackerNewsSource();
-  if (hnSource) {
-    console.log(`\n📡 Fetching ${hnSource.name}...`);
-    const hnItems = await fetchHackerNews(30);
-    console.log(`  Found ${hnItems.length} items`);
-
-    let added = 0;
-    for (const item of hnItems) {
-      if (added >= MAX_PER_SOURCE) break;
-      if (!(await isArticleSeen(item.url))) {
-        // Include score and comments as supplementary info for title-only articles
-        const contentParts = [`HN Score: ${item.score}点`];
-        if (item.comments > 0) {
-          contentParts.push(`${item.comments}コメント`);
-        }
-        allArticles.push({
-          title: item.title,
-          url: item.url,
-          source: hnSource.name,
-          category: hnSource.category,
-          content: contentParts.join("、"),
-          published: item.published,
-        });
-        added++;
-      }
-    }
-    console.log(`  Added ${added} new items`);
+  // Fetch all enabled sources (dedup and per-source limits applied by the registry)
+  const sources = await filterActiveSources(await getEnabledSources());
+  const {
+    articles: allArticles,
+    unchangedSources,
+    failedSources,
+    disabledSources,
+    commit: commitFetchState,
+  } = await collectArticles(sources, { maxPerSource: MAX_PER_SOURCE });
+
+  console.log(`\n📊 Total new articles: ${allArticles.length}`);
+  console.log(`  Unchanged feeds: ${unchangedSources.length}`);
+  console.log(`  Failed sources: ${failedSources.length}`);
+  if (disabledSources.length > 0) {
+    logWarn(`Auto-disabled sources: ${disabledSources.join(", ")}`, { source: "source-health" });
   }
 
-  // Fetch RSS feeds (limit per source)
-  for (const source of await getRssSources()) {
-    console.log(`📡 Fetching ${source.name}...`);
-    const items = await fetchRss(source.url);
-    console.log(`  Found ${items.length} items`);
-
-    let added = 0;
-    for (const item of items) {
-      if (added >= MAX_PER_SOURCE) break;
-      if (!(await isArticleSeen(item.url))) {
-        allArticles.push({
-          title: item.title,
-          url: item.url,
-          source: source.name,
-          category: source.category,
-          content: item.content,
-          published: item.published,
-        });
-        added++;
-      }
-    }
-    console.log(`  Added ${added} new items`);
+  // Every profile also reconsiders recent articles it was neither sent nor dismissed,
+  // e.g. ones another profile posted first or that did not fit into its last digest
+  const profiles = await getProfiles();
+  const freshUrls = new Set(allArticles.map((a) => a.url));
+  const unsent = new Map<string, Article[]>(
+    await Promise.all(
+      profiles.map(async (profile): Promise<[string, Article[]]> => {
+        const articles = await getUnsentArticles(profile.name, UNSENT_DAYS);
+        return [profile.name, articles.filter((a) => !freshUrls.has(a.url))];
+      })
+    )
+  );
+  const storedByUrl = new Map([...unsent.values()].flat().map((a) => [a.url, a]));
+  console.log(`  Unsent articles from earlier runs: ${storedByUrl.size}`);
+
+  if (allArticles.length === 0 && storedByUrl.size === 0) {
+    console.log("No new articles found.");
+    await commitFetchState();
+    return { digests: [], disabledSources };
   }
 
-  // Fetch GitHub Trending
-  const ghSource = await getGitHubTrendingSource();
-  if (ghSource) {
-    console.log(`📡 Fetching ${ghSource.name}...`);
-    const repos = await fetchGitHubTrending(ghSource.languages);
-    console.log(`  Found ${repos.length} repos`);
-
-    let added = 0;
-    for (const repo of repos) {
-      if (added >= MAX_PER_SOURCE) break;
-      if (!(await isArticleSeen(repo.url))) {
-        allArticles.push({
-          title: repo.title,
-          url: repo.url,
-          source: `GitHub (${repo.language})`,
-          category: ghSource.category,
-          content: `${repo.description} (★${repo.stars} today)`,
-        });
-        added++;
+  // Source/category weights from 👍/👎 reactions and clicks so far
+  const weights = await learnRankingWeights();
+  if (weights.length > 0) {
+    console.log(`\n⚖️ Learned ${weights.length} source/category weights from feedback`);
+  }
+
+  // Score and rank the new articles plus its own unsent ones separately for every profile
+  const selections = new Map<string, FilteredArticle[]>();
+  const filterModel = filterLlm ? `${filterLlm.provider}/${filterLlm.model}` : "no LLM";
+  // One profile after another, so their logs don't interleave and the LLM isn't hit in parallel
+  await profiles.reduce<Promise<void>>(async (previous, profile) => {
+    await previous;
+    const candidates = [...allArticles, ...(unsent.get(profile.name) ?? []).map(toCandidate)];
+    const inCategories = profile.categories
+      ? candidates.filter((a) => profile.categories!.includes(a.category))
+      : candidates;
+    // Merge the same story arriving from several sources, so it is scored and summarized once.
+    // Clustered per profile so a representative outside its categories can't hide the story.
+    const pool = clusterArticles(inCategories);
+    if (pool.length < inCategories.length) {
+      console.log(`\n🔗 Clustered into ${pool.length} stories for ${profile.name}`);
+      for (const article of pool.filter((a) => a.also_discussed)) {
+        const others = article.also_discussed!.map((o) => o.source).join(", ");
+        console.log(`  ${article.title.slice(0, 40)}... (also on ${others})`);
       }
     }
-    console.log(`  Added ${added} new repos`);
-  }
+    console.log(
+      `\n🧠 Filtering with ${filterModel} for ${profile.name} (${pool.length} candidates)...`
+    );
+    const filtered = await filterArticles(pool, filterLlm, {
+      profile,
+      threshold: profile.threshold,
+      weights,
+    });
+    console.log(`  Passed filter: ${filtered.length}`);
 
-  console.log(`\n📊 Total new articles: ${allArticles.length}`);
+    // The rest (including stories merged into a passing one) is not scored for this profile again
+    const passed = new Set(filtered.map((a) => a.url));
+    await markDismissed(
+      inCategories.filter((a) => !passed.has(a.url)).map((a) => a.url),
+      profile.name
+    );
 
-  if (allArticles.length === 0) {
-    console.log("No new articles found.");
-    return null;
+    // Take top N, skipping anything this profile was already sent unless it resurfaced
+    const alreadySent = await getNotifiedUrls(
+      profile.name,
+      filtered.map((a) => a.url)
+    );
+    const selected = filtered
+      .filter((a) => a.resurfaced || !alreadySent.has(a.url))
+      .slice(0, profile.max_articles ?? MAX_ARTICLES);
+    console.log(`  Top ${selected.length} selected`);
+    for (const article of selected.filter((a) => a.adjustments)) {
+      console.log(`    ${article.title.slice(0, 40)}...: ${explainScore(article)}`);
+    }
+    selections.set(profile.name, selected);
+  }, Promise.resolve());
+
+  // Articles picked by any profile are enriched and summarized once; the stored
+  // score is the best one any profile gave
+  const scoreMap = new Map<string, number>();
+  const topArticles: FilteredArticle[] = [];
+  for (const article of [...selections.values()].flat()) {
+    const best = scoreMap.get(article.url);
+    if (best === undefined) topArticles.push(article);
+    scoreMap.set(article.url, Math.max(best ?? 0, article.score));
   }
 
-  // Filter with Claude
-  console.log("\n🧠 Filtering with Claude...");
-  const filtered = await filterArticles(allArticles, GROQ_API_KEY);
-  console.log(`  Passed filter: ${filtered.length}`);
-
-  // Take top N
-  const topArticles = filtered.slice(0, MAX_ARTICLES);
-  console.log(`  Top ${topArticles.length} selected`);
-
-  // Build score map from filtered articles (to preserve through pipeline)
-  const scoreMap = new Map(topArticles.map((a) => [a.url, a.score]));
+  // Articles summarized in an earlier run keep their summary
+  const reused: SummarizedArticle[] = [];
+  const toSummarize: FilteredArticle[] = [];
+  for (const article of topArticles) {
+    const summary = storedByUrl.get(article.url)?.summary;
+    if (summary) reused.push({ ...article, summary });
+    else toSummarize.push(article);
+  }
 
   // Fetch content for articles lacking substantial content
   console.log("\n📥 Fetching article content...");
-  const articlesWithContent = await enrichArticleContent(topArticles);
+  const articlesWithContent = await dropCanonicalDuplicates(
+    await enrichArticleContent(toSummarize)
+  );
 
   // Update OG images in database (in parallel)
   const articlesWithOgImage = articlesWithContent.filter((a) => a.og_image);
@@ -234,7 +391,7 @@ export async function runNewsfeed(): Promise<NewsfeedResult | null> {
 
   // Summarize
   console.log("\n✍️ Summarizing...");
-  const summarized = await summarizeArticles(articlesWithContent, GROQ_API_KEY);
+  const summarized = await summarizeArticles(articlesWithContent, summarizeLlm);
 
   // Save all fetched articles to DB first (for dedup and to enable detailed summary updates)
   console.log("\n💾 Saving to database...");
@@ -244,9 +401,20 @@ export async function runNewsfeed(): Promise<NewsfeedResult | null> {
       title: article.title,
       source: article.source,
       category: article.category,
+      hn_id: article.hn_id,
+      discussion_url: article.discussion_url,
+      release_repo: article.release_repo,
+      release_version: article.release_version,
+      arxiv_id: article.arxiv_id,
+      arxiv_version: article.arxiv_version,
+      authors: article.authors ? JSON.stringify(article.authors) : undefined,
+      pdf_url: article.pdf_url,
+      badge: article.badge,
       notified: false,
     });
   }
+  // Feed validators are only stored now, so a crash before this point refetches the same items
+  await commitFetchState();
 
   // Save summarized articles with their summaries and scores
   for (const article of summarized) {
@@ -258,6 +426,17 @@ export async function runNewsfeed(): Promise<NewsfeedResult | null> {
       summary: article.summary,
       score: scoreMap.get(article.url),
       published_at: article.published?.toISOString(),
+      hn_id: article.hn_id,
+      discussion_url: article.discussion_url,
+      release_repo: article.release_repo,
+      release_version: article.release_version,
+      arxiv_id: article.arxiv_id,
+      arxiv_version: article.arxiv_version,
+      authors: article.authors ? JSON.stringify(article.authors) : undefined,
+      pdf_url: article.pdf_url,
+      canonical_url: article.canonical_url,
+      also_discussed: article.also_discussed ? JSON.stringify(article.also_discussed) : undefined,
+      badge: article.badge,
       notified: false,
     });
   }
@@ -282,8 +461,10 @@ export async function runNewsfeed(): Promise<NewsfeedResult | null> {
               source: article.source,
               category: article.category,
               summary: article.summary,
+              release_version: article.release_version,
+              pdf_url: article.pdf_url,
             },
-            GROQ_API_KEY
+            detailedSummaryLlm
           );
         },
         {
@@ -322,14 +503,36 @@ export async function runNewsfeed(): Promise<NewsfeedResult | null> {
     }
   }
 
+  const discussionSummaries = await summarizeDiscussions(summarized, discussionLlm);
+
+  // Link follow-up coverage to stories of earlier notified articles
+  let followUps = new Map<string, FollowUp>();
+  try {
+    followUps = await linkStories(summarized);
+    if (followUps.size > 0) {
+      console.log(`\n🧵 Linked ${followUps.size} follow-ups to earlier stories`);
+    }
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logWarn(`Failed to link stories: ${errMsg}`, { source: "story" });
+  }
+
   // Prepare for notification
-  const toNotify: NotifyArticle[] = summarized.map((a) => ({
+  const toNotify: NotifyArticle[] = [...summarized, ...reused].map((a) => ({
     title: a.title,
     url: a.url,
     summary: a.summary,
     category: a.category,
     source: a.source,
     published: a.published,
+    discussion_url: a.discussion_url,
+    discussion_summary:
+      discussionSummaries.get(a.url) ?? storedByUrl.get(a.url)?.discussion_summary ?? undefined,
+    badge: a.badge,
+    authors: a.authors,
+    pdf_url: a.pdf_url,
+    also_discussed: a.also_discussed,
+    follow_up_to: followUps.get(a.url),
   }));
 
   // Persist search index to Turso for Workers
@@ -342,25 +545,59 @@ export async function runNewsfeed(): Promise<NewsfeedResult | null> {
     logWarn(`Failed to persist search index: ${errMsg}`, { source: "search-index" });
   }
 
-  // Create embeds
-  let embeds: DiscordEmbed[];
-  if (EMBED_FORMAT === "digest") {
-    embeds = await createDigestEmbed(toNotify);
-  } else if (EMBED_FORMAT === "category") {
-    embeds = await createCategoryEmbeds(toNotify);
-  } else {
-    embeds = []; // text format uses sendToDiscord directly
+  // Split into one digest per profile, keeping each profile's ranking
+  const notifyByUrl = new Map(toNotify.map((a) => [a.url, a]));
+  const digests: ProfileDigest[] = await Promise.all(
+    profiles.map(async (profile) => {
+      const articles = (selections.get(profile.name) ?? [])
+        .map((a) => notifyByUrl.get(a.url))
+        .filter((a): a is NotifyArticle => a !== undefined);
+      return {
+        profile,
+        articles,
+        embeds: await createEmbeds(articles),
+        perArticle: EMBED_FORMAT === "article",
+      };
+    })
+  );
+
+  const usage = formatLlmUsage();
+  if (usage.length > 0) {
+    console.log("\n🧮 LLM usage:");
+    for (const line of usage) console.log(`  ${line}`);
   }
 
-  console.log(`\n✨ Prepared ${toNotify.length} articles`);
-  return { articles: toNotify, embeds };
+  console.log("");
+  for (const digest of digests) {
+    console.log(`✨ Prepared ${digest.articles.length} articles for ${digest.profile.name}`);
+  }
+  return { digests, disabledSources };
 }
 
 /**
- * Mark articles as notified (call after successful send)
+ * Embeds for a digest in the configured EMBED_FORMAT
  */
-export async function markArticlesNotified(articles: NotifyArticle[]) {
-  await markAsNotified(articles.map((a) => a.url));
+async function createEmbeds(articles: NotifyArticle[]): Promise<DiscordEmbed[]> {
+  if (EMBED_FORMAT === "digest") {
+    return createDigestEmbed(articles);
+  }
+  if (EMBED_FORMAT === "category") {
+    return createCategoryEmbeds(articles);
+  }
+  if (EMBED_FORMAT === "article") {
+    return createArticleEmbeds(articles);
+  }
+  return []; // text format uses sendToDiscord directly
+}
+
+/**
+ * Mark a digest's articles as notified for its profile (call after successful send)
+ */
+export async function markArticlesNotified(digest: ProfileDigest) {
+  await markAsNotified(
+    digest.articles.map((a) => a.url),
+    digest.profile.name
+  );
 }
 
 async function main() {
@@ -369,29 +606,34 @@ async function main() {
   console.log(`DISCORD_WEBHOOK: ${DISCORD_WEBHOOK ? "set" : "not set"}`);
 
   const result = await runNewsfeed();
-  if (!result) {
-    console.log("No articles to send.");
-    return;
-  }
+  await result.digests.reduce<Promise<void>>(async (previous, digest) => {
+    await previous;
+    const { profile, articles } = digest;
+    if (articles.length === 0) {
+      console.log(`\nNo articles to send for ${profile.name}.`);
+      return;
+    }
 
-  // Print results
-  console.log("\n📝 Results:");
-  for (const article of result.articles) {
-    console.log(`  [${article.category}] ${article.title}`);
-    if (article.summary) console.log(`    → ${article.summary}`);
-  }
+    // Print results
+    console.log(`\n📝 Results for ${profile.name}:`);
+    for (const article of articles) {
+      console.log(`  [${article.category}] ${article.title}`);
+      if (article.summary) console.log(`    → ${article.summary}`);
+    }
 
-  // Send to Discord (webhook) - for CLI testing
-  if (!DRY_RUN && DISCORD_WEBHOOK) {
-    console.log(`\n📤 Sending to Discord via webhook...`);
-    const success = await sendEmbedsToDiscord(DISCORD_WEBHOOK, result.embeds);
-    if (success) {
-      await markArticlesNotified(result.articles);
-      console.log("✅ Notifications sent!");
+    // Send to Discord (webhook) - for CLI testing
+    const webhook = profile.webhook_env ? process.env[profile.webhook_env] || "" : DISCORD_WEBHOOK;
+    if (!DRY_RUN && webhook) {
+      console.log(`\n📤 Sending to Discord via webhook...`);
+      const success = await sendEmbedsToDiscord(webhook, digest.embeds);
+      if (success) {
+        await markArticlesNotified(digest);
+        console.log("✅ Notifications sent!");
+      }
+    } else {
+      console.log("\n⚠️ Dry run or no webhook configured");
     }
-  } else {
-    console.log("\n⚠️ Dry run or no webhook configured");
-  }
+  }, Promise.resolve());
 
   console.log("\n✨ Done!");
 }
@@ -0,0 +1,61 @@
+import type { Source } from "../config";
+
+/**
+ * A single item produced by a source adapter, before dedup and filtering
+ */
+export interface SourceItem {
+  title: string;
+  url: string;
+  content?: string;
+  published?: Date;
+  /** Lead image from the feed, used as og_image unless the page has its own */
+  image?: string;
+  /** Hacker News item id */
+  hnId?: number;
+  /** Comment thread for the item (e.g. the HN item page) */
+  discussionUrl?: string;
+  /** "owner/repo" for GitHub release notes */
+  releaseRepo?: string;
+  /** Release tag (e.g. "v4.6.0") for GitHub release notes */
+  releaseVersion?: string;
+  /** Versionless arXiv id for papers (e.g. "2410.01234") */
+  arxivId?: string;
+  arxivVersion?: number;
+  authors?: string[];
+  pdfUrl?: string;
+  /** Short label shown next to the title in Discord (e.g. "🔥 3日連続") */
+  badge?: string;
+  /** Collect the item even though its URL was stored before (e.g. a repo trending again) */
+  resurface?: boolean;
+  /** Overrides the configured source name (e.g. "GitHub (rust)") */
+  source?: string;
+}
+
+export interface SourceFetchResult {
+  items: SourceItem[];
+  /** Source reported no changes since the last run (e.g. HTTP 304) */
+  unchanged?: boolean;
+  /**
+   * Persists what this fetch saw (e.g. feed validators), so the next fetch can
+   * report it unchanged. Run by CollectResult.commit once the items are saved.
+   */
+  commit?: () => Promise<void>;
+}
+
+/**
+ * Fetches items for one configured source of a given type.
+ * Adapters only fetch and map; dedup, per-source limits and logging
+ * are handled by collectArticles() in ./registry.
+ */
+export interface SourceAdapter<S extends Source = Source> {
+  type: S["type"];
+  fetch(source: S): Promise<SourceFetchResult>;
+}
+
+/**
+ * One adapter per Source["type"], so adding a type to the union without
+ * registering an adapter is a compile error
+ */
+export type SourceAdapterRegistry = {
+  [T in Source["type"]]: SourceAdapter<Extract<Source, { type: T }>>;
+};
@@ -0,0 +1,197 @@
+import { test, expect, describe, afterEach, mock } from "bun:test";
+import type { ArxivSource } from "../config";
+import {
+  arxivAdapter,
+  buildArxivQuery,
+  getArxivApiUrl,
+  parseArxivAtom,
+  parseArxivId,
+} from "./arxiv";
+import { collectArticles } from "./registry";
+
+const entry = (opts: {
+  id: string;
+  title: string;
+  authors: string[];
+  primary: string;
+  categories: string[];
+  comment?: string;
+}) => `
+  <entry>
+    <id>http://arxiv.org/abs/${opts.id}</id>
+    <updated>2024-10-03T12:00:00Z</updated>
+    <published>2024-10-01T17:59:59Z</published>
+    <title>${opts.title}</title>
+    <summary>  We study agents
+  &amp; tools.
+</summary>
+    ${opts.authors.map((name) => `<author><name>${name}</name></author>`).join("\n    ")}
+    ${opts.comment ? `<arxiv:comment xmlns:arxiv="http://arxiv.org/schemas/atom">${opts.comment}</arxiv:comment>` : ""}
+    <link href="http://arxiv.org/abs/${opts.id}" rel="alternate" type="text/html"/>
+    <link title="pdf" href="http://arxiv.org/pdf/${opts.id}" rel="related" type="application/pdf"/>
+    <arxiv:primary_category xmlns:arxiv="http://arxiv.org/schemas/atom" term="${opts.primary}" scheme="http://arxiv.org/schemas/atom"/>
+    ${opts.categories.map((c) => `<category term="${c}" scheme="http://arxiv.org/schemas/atom"/>`).join("\n    ")}
+  </entry>`;
+
+const feed = (entries: string[]) => `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title type="html">ArXiv Query: search_query=cat:cs.AI OR cat:cs.CL</title>
+  <id>http://arxiv.org/api/abc</id>
+  <opensearch:totalResults xmlns:opensearch="http://a9.com/-/spec/opensearch/1.1/">2</opensearch:totalResults>
+  ${entries.join("")}
+</feed>`;
+
+const crossListed = entry({
+  id: "2410.01234v2",
+  title: "Scaling Tool-Using\n      Agents",
+  authors: ["Alice Smith", "Bob Jones"],
+  primary: "cs.CL",
+  categories: ["cs.CL", "cs.AI"],
+  comment: "12 pages, 4 figures",
+});
+
+describe("parseArxivId", () => {
+  test("splits new and old style ids from their version", () => {
+    expect(parseArxivId("http://arxiv.org/abs/2410.01234v2")).toEqual({
+      id: "2410.01234",
+      version: 2,
+    });
+    expect(parseArxivId("https://arxiv.org/pdf/hep-th/9901001v1")).toEqual({
+      id: "hep-th/9901001",
+      version: 1,
+    });
+    expect(parseArxivId("2501.00001")).toEqual({ id: "2501.00001", version: 1 });
+    expect(parseArxivId("http://arxiv.org/api/errors#incorrect_id_format")).toBeNull();
+  });
+});
+
+describe("buildArxivQuery", () => {
+  test("combines categories and keywords", () => {
+    expect(buildArxivQuery(["cs.AI"])).toBe("cat:cs.AI");
+    expect(buildArxivQuery(["cs.AI", "cs.CL"], ["agent"])).toBe(
+      '(cat:cs.AI OR cat:cs.CL) AND (ti:"agent" OR abs:"agent")'
+    );
+  });
+
+  test("builds a newest-first API URL", () => {
+    const url = new URL(getArxivApiUrl({ categories: ["cs.AI"], max_results: 20 }));
+    expect(url.searchParams.get("search_query")).toBe("cat:cs.AI");
+    expect(url.searchParams.get("sortBy")).toBe("submittedDate");
+    expect(url.searchParams.get("max_results")).toBe("20");
+  });
+});
+
+describe("parseArxivAtom", () => {
+  test("extracts authors, id, version, categories, comment and PDF", () => {
+    const [paper] = parseArxivAtom(feed([crossListed]));
+
+    expect(paper).toEqual({
+      id: "2410.01234",
+      version: 2,
+      title: "Scaling Tool-Using Agents",
+      abstract: "We study agents & tools.",
+      authors: ["Alice Smith", "Bob Jones"],
+      primaryCategory: "cs.CL",
+      categories: ["cs.CL", "cs.AI"],
+      comment: "12 pages, 4 figures",
+      url: "https://arxiv.org/abs/2410.01234",
+      pdfUrl: "https://arxiv.org/pdf/2410.01234v2",
+      published: new Date("2024-10-01T17:59:59Z"),
+    });
+  });
+
+  test("keeps one paper per arXiv id and skips API errors", () => {
+    const olderVersion = crossListed.replaceAll("2410.01234v2", "2410.01234v1");
+    const error = `<entry><id>http://arxiv.org/api/errors#incorrect_id_format</id><title>Error</title></entry>`;
+
+    const papers = parseArxivAtom(feed([crossListed, olderVersion, error]));
+    expect(papers.map((p) => [p.id, p.version])).toEqual([["2410.01234", 2]]);
+  });
+});
+
+describe("arxivAdapter", () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("maps papers to items with metadata in the content", async () => {
+    globalThis.fetch = mock(
+      async () => new Response(feed([crossListed]), { status: 200 })
+    ) as unknown as typeof fetch;
+
+    const source: ArxivSource = {
+      name: "arXiv AI/CL",
+      type: "arxiv",
+      categories: ["cs.AI", "cs.CL"],
+      category: "ai",
+      enabled: true,
+    };
+    const { items } = await arxivAdapter.fetch(source);
+
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({
+      url: "https://arxiv.org/abs/2410.01234",
+      arxivId: "2410.01234",
+      arxivVersion: 2,
+      authors: ["Alice Smith", "Bob Jones"],
+      pdfUrl: "https://arxiv.org/pdf/2410.01234v2",
+    });
+    expect(items[0]?.content).toBe(
+      "We study agents & tools.\n\nAuthors: Alice Smith, Bob Jones\nPrimary: cs.CL (also cs.AI)\nComments: 12 pages, 4 figures"
+    );
+  });
+
+  test("throws on API errors so the registry records the failure", async () => {
+    globalThis.fetch = mock(
+      async () => new Response("", { status: 503 })
+    ) as unknown as typeof fetch;
+
+    await expect(
+      arxivAdapter.fetch({
+        name: "arXiv",
+        type: "arxiv",
+        categories: ["cs.AI"],
+        category: "ai",
+        enabled: true,
+      })
+    ).rejects.toThrow("Status code 503");
+  });
+});
+
+describe("cross-listed papers", () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("collect one article per arXiv id across sources and versions", async () => {
+    // cs.AI still lists v1 while cs.CL already has v2
+    globalThis.fetch = mock(async (input: string | URL | Request) => {
+      const query = new URL(String(input)).searchParams.get("search_query");
+      const body =
+        query === "cat:cs.AI"
+          ? crossListed.replaceAll("2410.01234v2", "2410.01234v1")
+          : crossListed;
+      return new Response(feed([body]), { status: 200 });
+    }) as unknown as typeof fetch;
+
+    const source = (name: string, categories: string[]): ArxivSource => ({
+      name,
+      type: "arxiv",
+      categories,
+      category: "ai",
+      enabled: true,
+    });
+    const { articles } = await collectArticles(
+      [source("arXiv AI", ["cs.AI"]), source("arXiv CL", ["cs.CL"])],
+      { isSeen: async () => false, recordAttempt: async () => false }
+    );
+
+    expect(articles.map((a) => [a.source, a.arxiv_id, a.url])).toEqual([
+      ["arXiv AI", "2410.01234", "https://arxiv.org/abs/2410.01234"],
+    ]);
+  });
+});
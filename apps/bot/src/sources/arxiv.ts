@@ -0,0 +1,171 @@
+/**
+ * arXiv API source
+ * Queries the Atom-based export API by category and keyword, keeping the
+ * metadata the listing RSS drops (authors, primary category, comments, PDF).
+ * Article URLs are built from the versionless arXiv id, so a paper cross-listed
+ * in several categories or seen in another version dedups to one article.
+ */
+
+import { decodeXmlEntities } from "@newsfeed-ai/core/config";
+import type { ArxivSource } from "../config";
+import type { SourceAdapter, SourceItem } from "./adapter";
+
+const ARXIV_API = "https://export.arxiv.org/api/query";
+const FETCH_TIMEOUT_MS = 15_000;
+const DEFAULT_MAX_RESULTS = 50;
+
+export interface ArxivPaper {
+  /** Versionless id (e.g. "2410.01234", "hep-th/9901001") */
+  id: string;
+  version: number;
+  title: string;
+  abstract: string;
+  authors: string[];
+  primaryCategory?: string;
+  categories: string[];
+  comment?: string;
+  /** Canonical abstract page (https://arxiv.org/abs/<id>) */
+  url: string;
+  pdfUrl: string;
+  published?: Date;
+}
+
+function text(value: string | undefined): string {
+  return value ? decodeXmlEntities(value).replace(/\s+/g, " ").trim() : "";
+}
+
+function tagText(xml: string, tag: string): string | undefined {
+  return xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`))?.[1];
+}
+
+function attribute(element: string, name: string): string | undefined {
+  const value = element.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1];
+  return value === undefined ? undefined : decodeXmlEntities(value);
+}
+
+/**
+ * Split an abs URL or id into the versionless id and version
+ * e.g. "http://arxiv.org/abs/2410.01234v2" -> { id: "2410.01234", version: 2 }
+ */
+export function parseArxivId(value: string): { id: string; version: number } | null {
+  const match = value.match(
+    /(?:arxiv\.org\/(?:abs|pdf)\/)?([a-z-]+(?:\.[A-Z]{2})?\/\d{7}|\d{4}\.\d{4,5})(?:v(\d+))?/i
+  );
+  if (!match?.[1]) return null;
+  return { id: match[1], version: match[2] ? parseInt(match[2], 10) : 1 };
+}
+
+function anyOf(terms: string[]): string {
+  return terms.length > 1 ? `(${terms.join(" OR ")})` : terms[0]!;
+}
+
+/**
+ * Build the API search query: any of the categories, and any keyword in title or abstract
+ */
+export function buildArxivQuery(categories: string[], keywords: string[] = []): string {
+  const parts = [anyOf(categories.map((c) => `cat:${c}`))];
+  if (keywords.length > 0) {
+    parts.push(anyOf(keywords.flatMap((k) => [`ti:"${k}"`, `abs:"${k}"`])));
+  }
+  return parts.join(" AND ");
+}
+
+export function getArxivApiUrl(
+  source: Pick<ArxivSource, "categories" | "keywords" | "max_results">
+): string {
+  const params = new URLSearchParams({
+    search_query: buildArxivQuery(source.categories, source.keywords),
+    sortBy: "submittedDate",
+    sortOrder: "descending",
+    start: "0",
+    max_results: String(source.max_results ?? DEFAULT_MAX_RESULTS),
+  });
+  return `${ARXIV_API}?${params}`;
+}
+
+/**
+ * Parse an arXiv API Atom response
+ * Error entries (invalid queries) and repeated ids are skipped.
+ */
+export function parseArxivAtom(xml: string): ArxivPaper[] {
+  const papers = new Map<string, ArxivPaper>();
+
+  for (const [, entry = ""] of xml.matchAll(/<entry>([\s\S]*?)<\/entry>/g)) {
+    const parsed = parseArxivId(text(tagText(entry, "id")));
+    if (!parsed || papers.has(parsed.id)) continue;
+
+    const links = [...entry.matchAll(/<link\s[^>]*>/g)].map((m) => m[0]);
+    const pdfLink = links.find((link) => attribute(link, "title") === "pdf");
+    const primaryCategory = entry.match(/<arxiv:primary_category\s[^>]*>/)?.[0];
+    const published = text(tagText(entry, "published"));
+
+    papers.set(parsed.id, {
+      id: parsed.id,
+      version: parsed.version,
+      title: text(tagText(entry, "title")),
+      abstract: text(tagText(entry, "summary")),
+      authors: [...entry.matchAll(/<author>([\s\S]*?)<\/author>/g)]
+        .map((m) => text(tagText(m[1] ?? "", "name")))
+        .filter(Boolean),
+      primaryCategory: primaryCategory ? attribute(primaryCategory, "term") : undefined,
+      categories: [...entry.matchAll(/<category\s[^>]*>/g)]
+        .map((m) => attribute(m[0], "term"))
+        .filter((term): term is string => !!term),
+      comment: text(tagText(entry, "arxiv:comment")) || undefined,
+      url: `https://arxiv.org/abs/${parsed.id}`,
+      pdfUrl:
+        (pdfLink && attribute(pdfLink, "href")?.replace(/^http:/, "https:")) ||
+        `https://arxiv.org/pdf/${parsed.id}v${parsed.version}`,
+      published: published ? new Date(published) : undefined,
+    });
+  }
+
+  return [...papers.values()];
+}
+
+/**
+ * Abstract followed by the metadata the scorer and summarizer should see
+ */
+function formatPaperContent(paper: ArxivPaper): string {
+  const meta: string[] = [];
+  if (paper.authors.length > 0) meta.push(`Authors: ${paper.authors.join(", ")}`);
+  if (paper.primaryCategory) {
+    const crossLists = paper.categories.filter((c) => c !== paper.primaryCategory);
+    meta.push(
+      crossLists.length > 0
+        ? `Primary: ${paper.primaryCategory} (also ${crossLists.join(", ")})`
+        : `Primary: ${paper.primaryCategory}`
+    );
+  }
+  if (paper.comment) meta.push(`Comments: ${paper.comment}`);
+  return [paper.abstract, meta.join("\n")].filter(Boolean).join("\n\n");
+}
+
+export async function fetchArxiv(source: ArxivSource): Promise<ArxivPaper[]> {
+  const res = await fetch(getArxivApiUrl(source), {
+    headers: { "User-Agent": "NewsBot/1.0" },
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  });
+  if (!res.ok) {
+    throw new Error(`Status code ${res.status}`);
+  }
+  return parseArxivAtom(await res.text());
+}
+
+export const arxivAdapter: SourceAdapter<ArxivSource> = {
+  type: "arxiv",
+  async fetch(source) {
+    const papers = await fetchArxiv(source);
+    const items: SourceItem[] = papers.map((paper) => ({
+      title: paper.title,
+      url: paper.url,
+      content: formatPaperContent(paper),
+      published: paper.published,
+      arxivId: paper.id,
+      arxivVersion: paper.version,
+      authors: paper.authors,
+      pdfUrl: paper.pdfUrl,
+    }));
+    return { items };
+  },
+};
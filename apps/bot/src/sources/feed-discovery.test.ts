@@ -0,0 +1,151 @@
+import { test, expect, describe, afterEach, mock } from "bun:test";
+import { discoverFeeds, parseFeed, parseFeedLinks } from "./feed-discovery";
+
+const rssXml = `<?xml version="1.0"?>
+<rss version="2.0">
+  <channel>
+    <title>Example Blog</title>
+    <item><title>Post</title><link>https://blog.example.com/post</link></item>
+  </channel>
+</rss>`;
+
+const atomXml = `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>Example Atom</title>
+  <entry><title>Entry</title><link href="https://blog.example.com/entry"/><id>1</id></entry>
+  <entry><title>Entry 2</title><link href="https://blog.example.com/entry-2"/><id>2</id></entry>
+</feed>`;
+
+const jsonFeed = JSON.stringify({
+  version: "https://jsonfeed.org/version/1.1",
+  title: "Example JSON",
+  items: [{ id: "1", url: "https://blog.example.com/1", content_text: "Hi" }],
+});
+
+const page = (head: string) =>
+  `<!doctype html><html><head><title>Example</title>${head}</head><body>Hello</body></html>`;
+
+/** Serve fixed bodies by URL; anything else is a 404 */
+function mockSite(routes: Record<string, string>) {
+  const requested: string[] = [];
+  globalThis.fetch = mock(async (input: string | URL | Request) => {
+    const url = String(input);
+    requested.push(url);
+    const body = routes[url];
+    return body === undefined ? new Response("Not found", { status: 404 }) : new Response(body);
+  }) as unknown as typeof fetch;
+  return requested;
+}
+
+describe("parseFeedLinks", () => {
+  test("finds RSS, Atom and JSON Feed links and resolves relative URLs", async () => {
+    const links = await parseFeedLinks(
+      page(`
+        <link rel="stylesheet" href="/style.css">
+        <link rel="alternate" type="application/rss+xml" title="RSS" href="/feed.xml">
+        <link rel="alternate" type="application/atom+xml" href="https://blog.example.com/atom.xml">
+        <link rel="alternate" type="application/feed+json" title="JSON" href="feed.json">
+        <link rel="alternate" hreflang="ja" href="/ja/">
+        <link rel="alternate" type="application/rss+xml" href="/feed.xml">
+      `),
+      "https://blog.example.com/"
+    );
+
+    expect(links).toEqual([
+      { url: "https://blog.example.com/feed.xml", title: "RSS", format: "rss" },
+      { url: "https://blog.example.com/atom.xml", title: undefined, format: "atom" },
+      { url: "https://blog.example.com/feed.json", title: "JSON", format: "json" },
+    ]);
+  });
+});
+
+describe("parseFeed", () => {
+  test("recognizes each feed format", async () => {
+    expect(await parseFeed(rssXml)).toEqual({ title: "Example Blog", format: "rss", itemCount: 1 });
+    expect(await parseFeed(atomXml)).toEqual({
+      title: "Example Atom",
+      format: "atom",
+      itemCount: 2,
+    });
+    expect(await parseFeed(jsonFeed)).toEqual({
+      title: "Example JSON",
+      format: "json",
+      itemCount: 1,
+    });
+  });
+
+  test("rejects HTML and plain JSON", async () => {
+    expect(await parseFeed(page(""))).toBeNull();
+    expect(await parseFeed('{"items": []}')).toBeNull();
+  });
+});
+
+describe("discoverFeeds", () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("returns advertised feeds that parse, with titles", async () => {
+    mockSite({
+      "https://blog.example.com/": page(`
+        <link rel="alternate" type="application/rss+xml" title="Comments" href="/comments.xml">
+        <link rel="alternate" type="application/atom+xml" href="/atom.xml">
+        <link rel="alternate" type="application/feed+json" href="/feed.json">
+      `),
+      "https://blog.example.com/comments.xml": "<html>broken</html>",
+      "https://blog.example.com/atom.xml": atomXml,
+      "https://blog.example.com/feed.json": jsonFeed,
+    });
+
+    const feeds = await discoverFeeds("https://blog.example.com/");
+
+    expect(feeds).toEqual([
+      {
+        url: "https://blog.example.com/atom.xml",
+        title: "Example Atom",
+        format: "atom",
+        itemCount: 2,
+      },
+      {
+        url: "https://blog.example.com/feed.json",
+        title: "Example JSON",
+        format: "json",
+        itemCount: 1,
+      },
+    ]);
+  });
+
+  test("probes common paths when the page advertises no feed", async () => {
+    const requested = mockSite({
+      "https://blog.example.com/about": page(""),
+      "https://blog.example.com/rss": rssXml,
+    });
+
+    const feeds = await discoverFeeds("https://blog.example.com/about");
+
+    expect(feeds).toEqual([
+      { url: "https://blog.example.com/rss", title: "Example Blog", format: "rss", itemCount: 1 },
+    ]);
+    expect(requested).toContain("https://blog.example.com/feed");
+    expect(requested).toContain("https://blog.example.com/atom.xml");
+  });
+
+  test("returns the URL itself when it is already a feed", async () => {
+    const requested = mockSite({ "https://blog.example.com/feed": rssXml });
+
+    const feeds = await discoverFeeds("https://blog.example.com/feed");
+
+    expect(feeds).toHaveLength(1);
+    expect(feeds[0]?.url).toBe("https://blog.example.com/feed");
+    expect(requested).toEqual(["https://blog.example.com/feed"]);
+  });
+
+  test("throws when the page cannot be fetched", async () => {
+    mockSite({});
+    await expect(discoverFeeds("https://missing.example.com/")).rejects.toThrow(
+      "Failed to fetch https://missing.example.com/"
+    );
+  });
+});
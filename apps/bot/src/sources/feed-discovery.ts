@@ -0,0 +1,181 @@
+/**
+ * Feed autodiscovery
+ * Finds the feeds of a site from its homepage: <link rel="alternate"> first,
+ * then common feed paths. Every candidate is fetched and parsed before it is
+ * returned, so the result can be added to sources.yaml as-is.
+ */
+
+import Parser from "rss-parser";
+
+const FETCH_TIMEOUT_MS = 10_000;
+
+const FEED_TYPES = {
+  "application/rss+xml": "rss",
+  "application/atom+xml": "atom",
+  "application/feed+json": "json",
+  "application/json": "json",
+} as const;
+
+type FeedFormat = (typeof FEED_TYPES)[keyof typeof FEED_TYPES];
+
+// Tried in order when the page advertises no feed
+const COMMON_FEED_PATHS = [
+  "/feed",
+  "/rss",
+  "/atom.xml",
+  "/feed.xml",
+  "/rss.xml",
+  "/index.xml",
+  "/feed.json",
+];
+
+const parser = new Parser();
+
+export interface FeedLink {
+  url: string;
+  title?: string;
+  format?: FeedFormat;
+}
+
+export interface DiscoveredFeed {
+  url: string;
+  /** Feed title, falling back to the <link> title */
+  title: string;
+  format: FeedFormat;
+  itemCount: number;
+}
+
+/**
+ * Extract advertised feed links from a page, resolved against the page URL
+ */
+export async function parseFeedLinks(html: string, pageUrl: string): Promise<FeedLink[]> {
+  const links: FeedLink[] = [];
+
+  const rewriter = new HTMLRewriter().on('link[rel~="alternate"][href]', {
+    element(el) {
+      const type = el.getAttribute("type")?.split(";")[0]?.trim().toLowerCase();
+      if (!type || !(type in FEED_TYPES)) return;
+      try {
+        links.push({
+          url: new URL(el.getAttribute("href")!, pageUrl).href,
+          title: el.getAttribute("title")?.trim() || undefined,
+          format: FEED_TYPES[type as keyof typeof FEED_TYPES],
+        });
+      } catch {
+        // Ignore malformed hrefs
+      }
+    },
+  });
+
+  await rewriter.transform(new Response(html)).text();
+
+  const seen = new Set<string>();
+  return links.filter((link) => !seen.has(link.url) && seen.add(link.url));
+}
+
+/**
+ * Parse a feed body as JSON Feed, RSS or Atom
+ * @returns null if the body is not a feed
+ */
+export async function parseFeed(
+  body: string
+): Promise<{ title?: string; format: FeedFormat; itemCount: number } | null> {
+  const trimmed = body.trimStart();
+
+  if (trimmed.startsWith("{")) {
+    try {
+      const json = JSON.parse(trimmed) as { version?: unknown; title?: unknown; items?: unknown };
+      if (typeof json.version !== "string" || !json.version.includes("jsonfeed.org")) return null;
+      if (!Array.isArray(json.items)) return null;
+      return {
+        title: typeof json.title === "string" ? json.title : undefined,
+        format: "json",
+        itemCount: json.items.length,
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  // rss-parser also accepts some HTML; require a feed root element first
+  if (!/<(rss|feed|rdf:RDF)[\s>]/i.test(trimmed.slice(0, 2000))) return null;
+  try {
+    const feed = await parser.parseString(trimmed);
+    return {
+      title: feed.title?.trim() || undefined,
+      format: /<feed[\s>]/i.test(trimmed.slice(0, 2000)) ? "atom" : "rss",
+      itemCount: feed.items.length,
+    };
+  } catch {
+    return null;
+  }
+}
+
+async function fetchText(url: string): Promise<{ url: string; body: string } | null> {
+  try {
+    const res = await fetch(url, {
+      headers: { "User-Agent": "NewsBot/1.0" },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+    if (!res.ok) return null;
+    // Keep the post-redirect URL so /feed and /rss pointing at the same feed dedup
+    return { url: res.url || url, body: await res.text() };
+  } catch {
+    return null;
+  }
+}
+
+async function validateCandidate(link: FeedLink): Promise<DiscoveredFeed | null> {
+  const page = await fetchText(link.url);
+  if (!page) return null;
+
+  const feed = await parseFeed(page.body);
+  if (!feed) return null;
+
+  return {
+    url: page.url,
+    title: feed.title || link.title || new URL(page.url).hostname,
+    format: feed.format,
+    itemCount: feed.itemCount,
+  };
+}
+
+async function validateAll(links: FeedLink[]): Promise<DiscoveredFeed[]> {
+  const feeds = await Promise.all(links.map(validateCandidate));
+  const found: DiscoveredFeed[] = [];
+  for (const feed of feeds) {
+    if (feed && !found.some((f) => f.url === feed.url)) found.push(feed);
+  }
+  return found;
+}
+
+/**
+ * Discover the feeds of a site
+ * Uses the page's <link rel="alternate"> tags and falls back to probing common
+ * paths only when none of them is a valid feed. A feed URL is returned as-is.
+ */
+export async function discoverFeeds(pageUrl: string): Promise<DiscoveredFeed[]> {
+  const page = await fetchText(pageUrl);
+  if (!page) {
+    throw new Error(`Failed to fetch ${pageUrl}`);
+  }
+
+  // The URL already points at a feed
+  const direct = await parseFeed(page.body);
+  if (direct) {
+    return [
+      {
+        url: page.url,
+        title: direct.title || new URL(page.url).hostname,
+        format: direct.format,
+        itemCount: direct.itemCount,
+      },
+    ];
+  }
+
+  const advertised = await validateAll(await parseFeedLinks(page.body, page.url));
+  if (advertised.length > 0) return advertised;
+
+  const origin = new URL(page.url).origin;
+  return validateAll(COMMON_FEED_PATHS.map((path) => ({ url: `${origin}${path}` })));
+}
@@ -0,0 +1,160 @@
+import { test, expect, describe, beforeEach, afterEach, mock } from "bun:test";
+import { ensureDb, closeDb } from "../db";
+import type { GitHubReleasesSource } from "../config";
+import {
+  fetchGitHubReleases,
+  gitHubReleasesAdapter,
+  isPrerelease,
+  parseReleasesAtom,
+} from "./github-releases";
+
+// Skip search index sync in tests (loads TensorFlow which is slow)
+process.env.SKIP_SEARCH_INDEX = "1";
+
+const entry = (repo: string, tag: string, title: string, updated: string, content = "") => `
+  <entry>
+    <id>tag:github.com,2008:Repository/1/${tag}</id>
+    <updated>${updated}</updated>
+    <link rel="alternate" type="text/html" href="https://github.com/${repo}/releases/tag/${tag}"/>
+    <title>${title}</title>
+    <content type="html">${content}</content>
+    <author><name>octocat</name></author>
+  </entry>`;
+
+const atom = (repo: string, entries: string[]) => `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en-US">
+  <id>tag:github.com,2008:https://github.com/${repo}/releases</id>
+  <link type="text/html" rel="alternate" href="https://github.com/${repo}/releases"/>
+  <title>Release notes from ${repo.split("/")[1]}</title>
+  <updated>2024-10-01T00:00:00Z</updated>
+  ${entries.join("")}
+</feed>`;
+
+const feeds: Record<string, string> = {
+  "https://github.com/honojs/hono/releases.atom": atom("honojs/hono", [
+    entry(
+      "honojs/hono",
+      "v4.6.0",
+      "v4.6.0",
+      "2024-09-20T00:00:00Z",
+      "&lt;h2&gt;Breaking Changes&lt;/h2&gt;&lt;p&gt;Drop Node 16&lt;/p&gt;"
+    ),
+    entry("honojs/hono", "v4.6.0-rc.1", "v4.6.0-rc.1", "2024-09-10T00:00:00Z"),
+  ]),
+  "https://github.com/oven-sh/bun/releases.atom": atom("oven-sh/bun", [
+    entry("oven-sh/bun", "bun-v1.1.30", "Bun v1.1.30", "2024-10-01T00:00:00Z"),
+    entry("oven-sh/bun", "canary", "Canary (6f72b0e)", "2024-09-30T00:00:00Z"),
+  ]),
+};
+
+describe("isPrerelease", () => {
+  test("detects semver prereleases and prerelease keywords", () => {
+    for (const tag of [
+      "v4.6.0-rc.1",
+      "2.0.0-beta",
+      "1.0.0-0.3.7",
+      "canary",
+      "nightly-2024-10-01",
+    ]) {
+      expect(isPrerelease(tag)).toBe(true);
+    }
+  });
+
+  test("keeps stable tags with prefixes", () => {
+    for (const tag of ["v4.6.0", "bun-v1.1.30", "14.16.3", "discord.js@14.16.3", "release-2024"]) {
+      expect(isPrerelease(tag)).toBe(false);
+    }
+  });
+});
+
+describe("parseReleasesAtom", () => {
+  test("tags items with repo and version and keeps informative release names", async () => {
+    const items = await parseReleasesAtom(
+      feeds["https://github.com/oven-sh/bun/releases.atom"]!,
+      "oven-sh/bun"
+    );
+
+    expect(items.map((i) => [i.title, i.version, i.prerelease])).toEqual([
+      ["oven-sh/bun: Bun v1.1.30", "bun-v1.1.30", false],
+      ["oven-sh/bun canary: Canary (6f72b0e)", "canary", true],
+    ]);
+    expect(items[0]?.url).toBe("https://github.com/oven-sh/bun/releases/tag/bun-v1.1.30");
+    expect(items[0]?.published).toEqual(new Date("2024-10-01T00:00:00Z"));
+  });
+
+  test("uses repo and tag when the release has no separate name", async () => {
+    const [item] = await parseReleasesAtom(
+      feeds["https://github.com/honojs/hono/releases.atom"]!,
+      "honojs/hono"
+    );
+
+    expect(item?.title).toBe("honojs/hono v4.6.0");
+    expect(item?.content).toContain("Breaking Changes");
+  });
+});
+
+describe("fetchGitHubReleases", () => {
+  const originalFetch = globalThis.fetch;
+
+  beforeEach(async () => {
+    await ensureDb(":memory:");
+    globalThis.fetch = mock(async (input: string | URL | Request) => {
+      const body = feeds[String(input)];
+      return body
+        ? new Response(body, { status: 200 })
+        : new Response("Not Found", { status: 404 });
+    }) as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    closeDb();
+    globalThis.fetch = originalFetch;
+  });
+
+  test("skips prereleases and returns the newest releases across repos first", async () => {
+    const { items, unchanged } = await fetchGitHubReleases(["honojs/hono", "oven-sh/bun"]);
+
+    expect(unchanged).toBe(false);
+    expect(items.map((i) => i.version)).toEqual(["bun-v1.1.30", "v4.6.0"]);
+  });
+
+  test("includes prereleases when configured", async () => {
+    const { items } = await fetchGitHubReleases(["honojs/hono"], { includePrereleases: true });
+    expect(items.map((i) => i.version)).toEqual(["v4.6.0", "v4.6.0-rc.1"]);
+  });
+
+  test("skips a failing repo but fails when every repo does", async () => {
+    const { items } = await fetchGitHubReleases(["honojs/hono", "missing/repo"]);
+    expect(items.map((i) => i.repo)).toEqual(["honojs/hono"]);
+
+    await expect(fetchGitHubReleases(["missing/repo"])).rejects.toThrow("Status code 404");
+  });
+
+  test("reports unchanged when every feed is cached", async () => {
+    await (await fetchGitHubReleases(["honojs/hono", "oven-sh/bun"])).commit();
+    const second = await fetchGitHubReleases(["honojs/hono", "oven-sh/bun"]);
+    expect(second).toMatchObject({ items: [], unchanged: true });
+  });
+
+  test("adapter sets source, badge and release tags", async () => {
+    const source: GitHubReleasesSource = {
+      name: "GitHub Releases",
+      type: "github-releases",
+      repos: ["honojs/hono"],
+      category: "tech",
+      enabled: true,
+    };
+
+    const { items } = await gitHubReleasesAdapter.fetch(source);
+
+    expect(items).toEqual([
+      expect.objectContaining({
+        title: "honojs/hono v4.6.0",
+        source: "GitHub Releases (honojs/hono)",
+        badge: "🏷️ v4.6.0",
+        releaseRepo: "honojs/hono",
+        releaseVersion: "v4.6.0",
+      }),
+    ]);
+  });
+});
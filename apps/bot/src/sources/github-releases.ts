@@ -0,0 +1,148 @@
+/**
+ * GitHub Releases watch source
+ * Reads each watched repo's releases.atom feed through fetchFeed(), so every
+ * repo gets its own conditional GET and feed cache entry.
+ */
+
+import Parser from "rss-parser";
+import type { GitHubReleasesSource } from "../config";
+import type { SourceAdapter, SourceItem } from "./adapter";
+import { fetchFeed, type FeedItem } from "./rss";
+
+const parser = new Parser();
+
+export interface ReleaseItem extends FeedItem {
+  /** "owner/repo" */
+  repo: string;
+  /** Release tag (e.g. "v4.6.0") */
+  version: string;
+  prerelease: boolean;
+}
+
+export interface ReleasesFetchResult {
+  items: ReleaseItem[];
+  /** True when every repo's feed was unchanged since the last run */
+  unchanged: boolean;
+  /** Stores the validators of every changed feed (see fetchFeed) */
+  commit: () => Promise<void>;
+}
+
+// releases.atom has no prerelease flag, so prereleases are recognised by their tag
+const PRERELEASE_KEYWORDS =
+  /(?:^|[^a-z])(alpha|beta|rc|pre|preview|canary|next|nightly|dev|experimental)(?:[^a-z]|$)/i;
+// Semver prerelease: "1.2.3-0.1", "v2.0.0-beta.1"
+const SEMVER_PRERELEASE = /\d+\.\d+(?:\.\d+)?-[0-9a-z]/i;
+
+export function getReleasesFeedUrl(repo: string): string {
+  return `https://github.com/${repo}/releases.atom`;
+}
+
+export function isPrerelease(version: string): boolean {
+  return SEMVER_PRERELEASE.test(version) || PRERELEASE_KEYWORDS.test(version);
+}
+
+/**
+ * Tag name from a release URL (".../releases/tag/v1.2.3")
+ */
+function versionFromUrl(url: string): string | undefined {
+  const match = url.match(/\/releases\/tag\/([^/?#]+)/);
+  return match?.[1] ? decodeURIComponent(match[1]) : undefined;
+}
+
+/**
+ * Article title with the repo, keeping the release name when it says more than the tag
+ * e.g. "honojs/hono v4.6.0", "oven-sh/bun: Bun v1.1.30"
+ */
+function formatReleaseTitle(repo: string, version: string, name: string): string {
+  if (!name || name === version) return `${repo} ${version}`;
+  // Release names usually repeat the version ("Bun v1.1.30" for tag "bun-v1.1.30")
+  const versionNumber = version.replace(/^\D+/, "");
+  if (versionNumber && name.includes(versionNumber)) return `${repo}: ${name}`;
+  return `${repo} ${version}: ${name}`;
+}
+
+export async function parseReleasesAtom(body: string, repo: string): Promise<ReleaseItem[]> {
+  const feed = await parser.parseString(body);
+  return feed.items
+    .map((item) => {
+      const url = item.link || "";
+      const name = item.title?.trim() || "";
+      const version = versionFromUrl(url) || name;
+      return {
+        title: formatReleaseTitle(repo, version, name),
+        url,
+        published: item.isoDate ? new Date(item.isoDate) : undefined,
+        content: item.contentSnippet || item.content || "",
+        repo,
+        version,
+        prerelease: isPrerelease(version),
+      };
+    })
+    .filter((item) => item.url && item.version);
+}
+
+/**
+ * Fetch the releases of all repos, newest first
+ * A failing repo is logged and skipped; the source only fails when every repo does.
+ */
+export async function fetchGitHubReleases(
+  repos: string[],
+  options: { includePrereleases?: boolean } = {}
+): Promise<ReleasesFetchResult> {
+  const items: ReleaseItem[] = [];
+  const commits: Array<() => Promise<void>> = [];
+  let unchangedCount = 0;
+  let lastError: unknown;
+
+  await Promise.all(
+    repos.map(async (repo) => {
+      try {
+        const result = await fetchFeed(getReleasesFeedUrl(repo), async (body) =>
+          parseReleasesAtom(body, repo)
+        );
+        if (result.unchanged) unchangedCount++;
+        if (result.commit) commits.push(result.commit);
+        items.push(...(result.items as ReleaseItem[]));
+      } catch (error) {
+        console.error(`Failed to fetch GitHub releases for ${repo}`, error);
+        lastError = error;
+      }
+    })
+  );
+
+  if (repos.length > 0 && lastError && items.length === 0 && unchangedCount === 0) {
+    throw lastError;
+  }
+
+  const releases = options.includePrereleases ? items : items.filter((item) => !item.prerelease);
+  // Interleave repos so the per-source limit does not favour the first ones in the list
+  releases.sort((a, b) => (b.published?.getTime() ?? 0) - (a.published?.getTime() ?? 0));
+
+  return {
+    items: releases,
+    unchanged: repos.length > 0 && unchangedCount === repos.length,
+    commit: async () => {
+      await Promise.all(commits.map((commit) => commit()));
+    },
+  };
+}
+
+export const gitHubReleasesAdapter: SourceAdapter<GitHubReleasesSource> = {
+  type: "github-releases",
+  async fetch(source) {
+    const { items, unchanged, commit } = await fetchGitHubReleases(source.repos, {
+      includePrereleases: source.include_prereleases,
+    });
+    const mapped: SourceItem[] = items.map((item) => ({
+      title: item.title,
+      url: item.url,
+      content: item.content,
+      published: item.published,
+      source: `GitHub Releases (${item.repo})`,
+      badge: `🏷️ ${item.version}`,
+      releaseRepo: item.repo,
+      releaseVersion: item.version,
+    }));
+    return { items: mapped, unchanged, commit };
+  },
+};
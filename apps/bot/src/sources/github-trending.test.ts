@@ -1,5 +1,5 @@
 import { test, expect, describe } from "bun:test";
-import { parseTrendingHtml } from "./github-trending";
+import { parseTrendingHtml, getTrendingUrl, getTrendingStreak } from "./github-trending";
 
 const article = (opts: {
   sponsorHref?: string;
@@ -7,6 +7,9 @@ const article = (opts: {
   repoName: string;
   description?: string;
   starsToday?: string;
+  totalStars?: string;
+  forks?: string;
+  builtBy?: string[];
 }) => `
 <article class="Box-row">
   <span class="d-inline-block float-sm-right">
@@ -20,6 +23,20 @@ const article = (opts: {
     </a>
   </h2>
   ${opts.description !== undefined ? `<p class="col-9 color-fg-muted my-1 pr-4">${opts.description}</p>` : ""}
+  <div class="f6 color-fg-muted mt-2">
+    ${opts.totalStars ? `<a class="Link--muted d-inline-block mr-3" href="${opts.repoHref}/stargazers"><svg aria-label="star"></svg> ${opts.totalStars}</a>` : ""}
+    ${opts.forks ? `<a class="Link--muted d-inline-block mr-3" href="${opts.repoHref}/forks"><svg aria-label="fork"></svg> ${opts.forks}</a>` : ""}
+    ${
+      opts.builtBy
+        ? `<span class="d-inline-block mr-3">Built by ${opts.builtBy
+            .map(
+              (login) =>
+                `<a class="d-inline-block" data-hovercard-type="user" href="/${login}"><img class="avatar mb-1" alt="@${login}" src="https://avatars.githubusercontent.com/${login}"></a>`
+            )
+            .join("")}</span>`
+        : ""
+    }
+  </div>
 </article>`;
 
 const wrap = (body: string) =>
@@ -138,4 +155,77 @@ describe("parseTrendingHtml", () => {
     expect(repos).toHaveLength(1);
     expect(repos[0].url).toBe("https://github.com/user/repo");
   });
+
+  test("extracts total stars, forks and built-by logins", async () => {
+    const html = wrap(
+      article({
+        repoHref: "/user/repo",
+        repoName: "user / repo",
+        totalStars: "12,345",
+        forks: "678",
+        builtBy: ["alice", "bob"],
+      })
+    );
+
+    const repos = await parseTrendingHtml(html, "go");
+    expect(repos[0].totalStars).toBe(12345);
+    expect(repos[0].forks).toBe(678);
+    expect(repos[0].builtBy).toEqual(["alice", "bob"]);
+  });
+
+  test("parses weekly and monthly star counts", async () => {
+    const html = wrap(
+      article({
+        repoHref: "/a/weekly",
+        repoName: "a / weekly",
+        starsToday: "2,100 stars this week",
+      }) +
+        article({
+          repoHref: "/b/monthly",
+          repoName: "b / monthly",
+          starsToday: "9,000 stars this month",
+        })
+    );
+
+    const repos = await parseTrendingHtml(html, "rust");
+    expect(repos.map((r) => r.stars)).toEqual([2100, 9000]);
+    expect(repos[0].totalStars).toBe(0);
+    expect(repos[0].builtBy).toEqual([]);
+  });
+});
+
+describe("getTrendingUrl", () => {
+  test("defaults to daily", () => {
+    expect(getTrendingUrl("rust")).toBe("https://github.com/trending/rust?since=daily");
+  });
+
+  test("adds period and spoken language", () => {
+    expect(getTrendingUrl("go", { since: "weekly", spokenLanguageCode: "ja" })).toBe(
+      "https://github.com/trending/go?since=weekly&spoken_language_code=ja"
+    );
+  });
+});
+
+describe("getTrendingStreak", () => {
+  const today = "2025-03-10";
+
+  test("first appearance", () => {
+    expect(getTrendingStreak([today], today)).toEqual({ days: 1, returning: false });
+  });
+
+  test("counts consecutive days, across month boundaries", () => {
+    expect(getTrendingStreak(["2025-03-02", "2025-03-01", "2025-02-28"], "2025-03-02")).toEqual({
+      days: 3,
+      returning: false,
+    });
+  });
+
+  test("stops at the first gap", () => {
+    const dates = [today, "2025-03-09", "2025-03-07"];
+    expect(getTrendingStreak(dates, today)).toEqual({ days: 2, returning: false });
+  });
+
+  test("marks repos that trended before a gap as returning", () => {
+    expect(getTrendingStreak([today, "2025-03-01"], today)).toEqual({ days: 1, returning: true });
+  });
 });
@@ -1,16 +1,57 @@
+import type { GitHubTrendingSource, GitHubTrendingSince } from "../config";
+import { recordTrendingRepos, getTrendingDates, updateArticleBadge } from "../db";
+import type { SourceAdapter } from "./adapter";
+
 export interface TrendingRepo {
   title: string;
   url: string;
   description: string;
+  /** Stars gained in the trending period (today / this week / this month) */
   stars: number;
+  totalStars: number;
+  forks: number;
+  /** GitHub logins of the top contributors shown as "Built by" */
+  builtBy: string[];
   language: string;
 }
 
+export interface TrendingOptions {
+  since?: GitHubTrendingSince;
+  spokenLanguageCode?: string;
+}
+
+/**
+ * How long a repo has been trending, from the daily trending history
+ */
+export interface TrendingStreak {
+  /** Consecutive days trending, ending today */
+  days: number;
+  /** Trended before, but not on the previous day */
+  returning: boolean;
+}
+
 interface ArticleState {
   url: string | null;
   title: string | null;
   description: string;
   starsText: string;
+  totalStarsText: string;
+  forksText: string;
+  builtBy: string[];
+}
+
+// Streak lengths (days) at which an already stored repo is posted again
+const STREAK_MILESTONES = new Set([3, 7, 14, 30]);
+
+const PERIOD_LABELS: Record<GitHubTrendingSince, string> = {
+  daily: "today",
+  weekly: "this week",
+  monthly: "this month",
+};
+
+function parseCount(text: string): number {
+  const match = text.match(/[\d,]+/);
+  return match ? parseInt(match[0].replace(/,/g, "")) : 0;
 }
 
 export async function parseTrendingHtml(
@@ -23,7 +64,7 @@ export async function parseTrendingHtml(
 
   function finalize() {
     if (!current?.url || !current?.title) return;
-    const starsMatch = current.starsText.match(/([\d,]+)\s*stars?\s*today/i);
+    const starsMatch = current.starsText.match(/([\d,]+)\s*stars?\s*(today|this week|this month)/i);
     const stars = starsMatch?.[1]
       ? parseInt(starsMatch[1].replace(/,/g, ""))
       : 0;
@@ -32,6 +73,9 @@ export async function parseTrendingHtml(
       url: current.url,
       description: current.description.trim() || "No description",
       stars,
+      totalStars: parseCount(current.totalStarsText),
+      forks: parseCount(current.forksText),
+      builtBy: current.builtBy,
       language,
     });
   }
@@ -40,7 +84,15 @@ export async function parseTrendingHtml(
     .on("article.Box-row", {
       element() {
         finalize();
-        current = { url: null, title: null, description: "", starsText: "" };
+        current = {
+          url: null,
+          title: null,
+          description: "",
+          starsText: "",
+          totalStarsText: "",
+          forksText: "",
+          builtBy: [],
+        };
         inH2 = false;
       },
     })
@@ -69,6 +121,22 @@ export async function parseTrendingHtml(
         if (current) current.description += chunk.text;
       },
     })
+    .on('a[href$="/stargazers"]', {
+      text(chunk) {
+        if (current) current.totalStarsText += chunk.text;
+      },
+    })
+    .on('a[href$="/forks"]', {
+      text(chunk) {
+        if (current) current.forksText += chunk.text;
+      },
+    })
+    .on('a[data-hovercard-type="user"] img[alt]', {
+      element(el) {
+        const login = el.getAttribute("alt")?.replace(/^@/, "");
+        if (current && login) current.builtBy.push(login);
+      },
+    })
     .on("span.d-inline-block.float-sm-right", {
       text(chunk) {
         if (current) current.starsText += chunk.text;
@@ -81,15 +149,30 @@ export async function parseTrendingHtml(
   return repos;
 }
 
+export function getTrendingUrl(language: string, options: TrendingOptions = {}): string {
+  const params = new URLSearchParams({ since: options.since ?? "daily" });
+  if (options.spokenLanguageCode) {
+    params.set("spoken_language_code", options.spokenLanguageCode);
+  }
+  return `https://github.com/trending/${language}?${params}`;
+}
+
+/**
+ * Fetch the trending repos of all languages
+ * A failing language is logged and skipped; the source only fails when every language does.
+ */
 export async function fetchGitHubTrending(
-  languages: string[] = ["typescript", "rust", "go"]
+  languages: string[] = ["typescript", "rust", "go"],
+  options: TrendingOptions = {}
 ): Promise<TrendingRepo[]> {
   const results: TrendingRepo[] = [];
+  let failures = 0;
+  let lastError: unknown;
 
   for (const lang of languages) {
     try {
       const res = await fetch(
-        `https://github.com/trending/${lang}?since=daily`,
+        getTrendingUrl(lang, options),
         {
           headers: {
             "User-Agent": "NewsBot/1.0",
@@ -99,10 +182,7 @@ export async function fetchGitHubTrending(
       );
 
       if (!res.ok) {
-        console.error(
-          `GitHub trending returned ${res.status} for ${lang}`
-        );
-        continue;
+        throw new Error(`Status code ${res.status}`);
       }
 
       const html = await res.text();
@@ -115,8 +195,120 @@ export async function fetchGitHubTrending(
       results.push(...repos);
     } catch (error) {
       console.error(`Failed to fetch GitHub trending for ${lang}`, error);
+      failures++;
+      lastError = error;
     }
   }
 
+  if (languages.length > 0 && failures === languages.length) {
+    throw lastError;
+  }
+
   return results;
 }
+
+/**
+ * Count consecutive trending days ending on `today` from a repo's trending dates (YYYY-MM-DD)
+ */
+export function getTrendingStreak(dates: string[], today: string): TrendingStreak {
+  const seen = new Set(dates);
+  const day = new Date(`${today}T00:00:00Z`);
+  const previousDay = () => {
+    day.setUTCDate(day.getUTCDate() - 1);
+    return day.toISOString().slice(0, 10);
+  };
+
+  let days = 1;
+  while (seen.has(previousDay())) days++;
+
+  return { days, returning: days === 1 && dates.some((d) => d < today) };
+}
+
+function formatStreak(streak: TrendingStreak): string {
+  if (streak.days > 1) return `🔥 ${streak.days}日連続`;
+  return streak.returning ? "🔁 再ランクイン" : "🆕 初登場";
+}
+
+/**
+ * Whether a repo that already trended before is worth posting again today
+ */
+function isStreakNews(streak: TrendingStreak): boolean {
+  return streak.returning || STREAK_MILESTONES.has(streak.days);
+}
+
+/**
+ * Record today's trending repos and return their streaks.
+ * Tracking is best-effort: a DB error only drops the streak labels.
+ * @returns streaks by repo, and the repos not yet recorded today (first run of the day)
+ */
+async function trackTrendingStreaks(
+  repos: TrendingRepo[]
+): Promise<{ streaks: Map<string, TrendingStreak>; newToday: Set<string> }> {
+  const streaks = new Map<string, TrendingStreak>();
+  const newToday = new Set<string>();
+  const today = new Date().toISOString().slice(0, 10);
+  const names = [...new Set(repos.map((r) => r.title))];
+
+  try {
+    const previous = await getTrendingDates(names);
+    await recordTrendingRepos(names, today);
+    for (const name of names) {
+      const dates = previous.get(name) ?? [];
+      if (!dates.includes(today)) newToday.add(name);
+      streaks.set(name, getTrendingStreak([today, ...dates], today));
+    }
+  } catch (error) {
+    console.error("Failed to track GitHub trending history", error);
+  }
+  return { streaks, newToday };
+}
+
+export const gitHubTrendingAdapter: SourceAdapter<GitHubTrendingSource> = {
+  type: "github-trending",
+  async fetch(source) {
+    const since = source.since ?? "daily";
+    const repos = await fetchGitHubTrending(source.languages, {
+      since,
+      spokenLanguageCode: source.spoken_language_code,
+    });
+    // Weekly and monthly lists barely change from one day to the next, so their
+    // appearances don't make a day streak
+    const { streaks, newToday } =
+      since === "daily"
+        ? await trackTrendingStreaks(repos)
+        : { streaks: new Map<string, TrendingStreak>(), newToday: new Set<string>() };
+
+    const badgeUpdates: Promise<unknown>[] = [];
+    const items = repos.map((repo) => {
+      const streak = streaks.get(repo.title);
+      // Trended on an earlier day, so its URL is already stored: on the first run of the day
+      // it comes back when it returns or reaches a milestone; otherwise only the stored
+      // badge follows the streak
+      const firstToday = streak !== undefined && newToday.has(repo.title);
+      const resurface = firstToday && isStreakNews(streak);
+      if (firstToday && !resurface && streak.days > 1) {
+        badgeUpdates.push(updateArticleBadge(repo.url, formatStreak(streak)));
+      }
+      const stats = [
+        `★${repo.stars} ${PERIOD_LABELS[since]}`,
+        `★${repo.totalStars} total`,
+        `${repo.forks} forks`,
+      ];
+      if (repo.builtBy.length > 0) {
+        stats.push(`built by ${repo.builtBy.join(", ")}`);
+      }
+      return {
+        title: repo.title,
+        url: repo.url,
+        source: `GitHub (${repo.language})`,
+        content: `${repo.description} (${stats.join(", ")})`,
+        badge: streak ? formatStreak(streak) : undefined,
+        resurface,
+      };
+    });
+    await Promise.all(badgeUpdates).catch((error) => {
+      console.error("Failed to update GitHub trending badges", error);
+    });
+    return { items };
+  },
+};
@@ -0,0 +1,152 @@
+import { test, expect, describe, afterEach, mock } from "bun:test";
+import { fetchHackerNews, hackerNewsAdapter } from "./hackernews";
+
+const HN_API = "https://hacker-news.firebaseio.com/v0";
+
+const stories: Record<number, object> = {
+  1: {
+    id: 1,
+    type: "story",
+    title: "Popular link",
+    url: "https://example.com/1",
+    score: 300,
+    descendants: 120,
+    time: 1700000000,
+  },
+  2: {
+    id: 2,
+    type: "story",
+    title: "Quiet link",
+    url: "https://example.com/2",
+    score: 5,
+    descendants: 0,
+  },
+  3: {
+    id: 3,
+    type: "story",
+    title: "Ask HN: How do you test?",
+    text: "I&#x27;m curious<p>Thoughts?",
+    score: 80,
+    descendants: 40,
+  },
+  4: {
+    id: 4,
+    type: "story",
+    title: "Dead story",
+    url: "https://example.com/4",
+    score: 200,
+    descendants: 10,
+    dead: true,
+  },
+  5: {
+    id: 5,
+    type: "story",
+    title: "Another popular",
+    url: "https://example.com/5",
+    score: 150,
+    descendants: 60,
+  },
+};
+
+/** Serve story lists and items from fixtures, recording requested URLs */
+function mockHackerNews(lists: Record<string, number[]>) {
+  const requested: string[] = [];
+  globalThis.fetch = mock(async (input: string | URL | Request) => {
+    const url = String(input);
+    requested.push(url);
+    const list = url.match(/\/(\w+)stories\.json$/)?.[1];
+    if (list) {
+      return lists[list] ? Response.json(lists[list]) : new Response("", { status: 404 });
+    }
+    const id = Number(url.match(/\/item\/(\d+)\.json$/)?.[1]);
+    return Response.json(stories[id] ?? null);
+  }) as unknown as typeof fetch;
+  return requested;
+}
+
+describe("fetchHackerNews", () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("reads the configured list", async () => {
+    const requested = mockHackerNews({ best: [1] });
+
+    const items = await fetchHackerNews({ list: "best" });
+
+    expect(requested[0]).toBe(`${HN_API}/beststories.json`);
+    expect(items).toEqual([
+      {
+        id: 1,
+        title: "Popular link",
+        url: "https://example.com/1",
+        discussionUrl: "https://news.ycombinator.com/item?id=1",
+        score: 300,
+        comments: 120,
+        text: undefined,
+        published: new Date(1700000000 * 1000),
+      },
+    ]);
+  });
+
+  test("applies minScore and minComments and skips dead stories", async () => {
+    mockHackerNews({ top: [1, 2, 3, 4, 5] });
+
+    const items = await fetchHackerNews({ minScore: 100, minComments: 50 });
+
+    expect(items.map((i) => i.id)).toEqual([1, 5]);
+  });
+
+  test("keeps text-only posts using the item page as URL", async () => {
+    mockHackerNews({ ask: [3] });
+
+    const [item] = await fetchHackerNews({ list: "ask" });
+
+    expect(item?.url).toBe("https://news.ycombinator.com/item?id=3");
+    expect(item?.discussionUrl).toBe(item?.url);
+    expect(item?.text).toBe("I'm curious\n\nThoughts?");
+  });
+
+  test("keeps scanning the list until the limit is filled", async () => {
+    const requested = mockHackerNews({ new: [2, 4, 1, 5, 3] });
+
+    const items = await fetchHackerNews({ list: "new", minScore: 100, limit: 2 });
+
+    expect(items.map((i) => i.id)).toEqual([1, 5]);
+    expect(requested).not.toContain(`${HN_API}/item/3.json`);
+  });
+
+  test("throws when the list cannot be fetched", async () => {
+    mockHackerNews({});
+    await expect(fetchHackerNews({ list: "show" })).rejects.toThrow("Status code 404");
+  });
+});
+
+describe("hackerNewsAdapter", () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("passes the HN id and thread URL to the pipeline", async () => {
+    mockHackerNews({ top: [1, 3] });
+
+    const { items } = await hackerNewsAdapter.fetch({
+      type: "hackernews",
+      name: "Hacker News",
+      category: "tech",
+      enabled: true,
+    });
+
+    expect(items[0]).toMatchObject({
+      url: "https://example.com/1",
+      content: "HN Score: 300点、120コメント",
+      hnId: 1,
+      discussionUrl: "https://news.ycombinator.com/item?id=1",
+    });
+    expect(items[1]?.content).toBe("I'm curious\n\nThoughts?\n\nHN Score: 80点、40コメント");
+  });
+});
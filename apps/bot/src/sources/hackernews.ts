@@ -1,46 +1,119 @@
+import type { HackerNewsSource, HackerNewsList } from "../config";
+import type { SourceAdapter } from "./adapter";
+import { htmlToText } from "./hn-text";
+
 export interface HNItem {
+  id: number;
   title: string;
+  /** Linked article, or the item page for text-only posts (Ask HN, Show HN) */
   url: string;
+  /** Comment thread on news.ycombinator.com */
+  discussionUrl: string;
   score: number;
   comments: number;
+  /** Post body for text-only posts, as plain text */
+  text?: string;
   published?: Date;
 }
 
+export interface HackerNewsOptions {
+  list?: HackerNewsList;
+  minScore?: number;
+  minComments?: number;
+  limit?: number;
+}
+
 interface HNStory {
+  id: number;
+  type?: string;
   title?: string;
   url?: string;
+  text?: string;
   score?: number;
   time?: number;
   descendants?: number; // comment count
+  dead?: boolean;
+  deleted?: boolean;
 }
 
 const HN_API = "https://hacker-news.firebaseio.com/v0";
+const HN_ITEM_URL = "https://news.ycombinator.com/item?id=";
 
-export async function fetchHackerNews(limit: number = 30): Promise<HNItem[]> {
-  try {
-    // Get top stories
-    const res = await fetch(`${HN_API}/topstories.json`);
-    const ids = (await res.json()) as number[];
-
-    // Fetch details for top N stories
-    const items = await Promise.all(
-      ids.slice(0, limit).map(async (id) => {
-        const itemRes = await fetch(`${HN_API}/item/${id}.json`);
-        return (await itemRes.json()) as HNStory;
-      })
-    );
-
-    return items
-      .filter((item): item is HNStory & { url: string } => Boolean(item?.url))
-      .map((item) => ({
-        title: item.title || "No title",
-        url: item.url,
-        score: item.score || 0,
-        comments: item.descendants || 0,
-        published: item.time ? new Date(item.time * 1000) : undefined,
-      }));
-  } catch (error) {
-    console.error("Failed to fetch Hacker News", error);
-    return [];
+const DEFAULT_LIMIT = 30;
+// With minScore/minComments most of /new is filtered out, so look further down the list
+const MAX_SCANNED_PER_LIMIT = 4;
+
+export function getHackerNewsItemUrl(id: number): string {
+  return `${HN_ITEM_URL}${id}`;
+}
+
+function toHNItem(story: HNStory): HNItem {
+  const discussionUrl = getHackerNewsItemUrl(story.id);
+  return {
+    id: story.id,
+    title: story.title || "No title",
+    url: story.url || discussionUrl,
+    discussionUrl,
+    score: story.score || 0,
+    comments: story.descendants || 0,
+    text: story.text ? htmlToText(story.text) : undefined,
+    published: story.time ? new Date(story.time * 1000) : undefined,
+  };
+}
+
+async function fetchStory(id: number): Promise<HNStory | null> {
+  const res = await fetch(`${HN_API}/item/${id}.json`);
+  if (!res.ok) return null;
+  return (await res.json()) as HNStory | null;
+}
+
+export async function fetchHackerNews(options: HackerNewsOptions = {}): Promise<HNItem[]> {
+  const { list = "top", minScore = 0, minComments = 0, limit = DEFAULT_LIMIT } = options;
+
+  // Get story ids (errors propagate so the registry records the failure)
+  const res = await fetch(`${HN_API}/${list}stories.json`);
+  if (!res.ok) {
+    throw new Error(`Status code ${res.status}`);
   }
+  const ids = ((await res.json()) as number[]).slice(0, limit * MAX_SCANNED_PER_LIMIT);
+
+  // Fetch details one page at a time until enough stories pass the filters
+  const items: HNItem[] = [];
+  const fetchPage = async (offset: number): Promise<void> => {
+    if (offset >= ids.length || items.length >= limit) return;
+    const stories = await Promise.all(ids.slice(offset, offset + limit).map(fetchStory));
+    for (const story of stories) {
+      if (!story || story.dead || story.deleted || !story.title) continue;
+      if ((story.score || 0) < minScore || (story.descendants || 0) < minComments) continue;
+      items.push(toHNItem(story));
+    }
+    await fetchPage(offset + limit);
+  };
+  await fetchPage(0);
+
+  return items.slice(0, limit);
 }
+
+export const hackerNewsAdapter: SourceAdapter<HackerNewsSource> = {
+  type: "hackernews",
+  async fetch(source) {
+    const items = await fetchHackerNews(source);
+    const mapped = items.map((item) => {
+      // Include score and comments as supplementary info for title-only articles
+      const contentParts = [`HN Score: ${item.score}点`];
+      if (item.comments > 0) {
+        contentParts.push(`${item.comments}コメント`);
+      }
+      const stats = contentParts.join("、");
+      return {
+        title: item.title,
+        url: item.url,
+        content: item.text ? `${item.text}\n\n${stats}` : stats,
+        published: item.published,
+        hnId: item.id,
+        discussionUrl: item.discussionUrl,
+      };
+    });
+    return { items: mapped };
+  },
+};
@@ -0,0 +1,93 @@
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { ensureDb, closeDb, getDisabledSources, getSourceHealthReport, enableSource } from "../db";
+import { recordFetchAttempt, filterActiveSources, formatHealthReport } from "./health";
+import type { Source } from "../config";
+
+// Skip search index sync in tests (loads TensorFlow which is slow)
+process.env.SKIP_SEARCH_INDEX = "1";
+
+const source: Source = {
+  type: "rss",
+  name: "Flaky Blog",
+  url: "https://flaky.example.com/feed",
+  category: "tech",
+  enabled: true,
+};
+
+const failure = { status: "error" as const, latencyMs: 120, itemCount: 0, error: "timeout" };
+const success = { status: "ok" as const, latencyMs: 80, itemCount: 3 };
+
+describe("source health", () => {
+  beforeEach(async () => {
+    await ensureDb(":memory:");
+  });
+
+  afterEach(() => {
+    closeDb();
+  });
+
+  test("auto-disables a source after consecutive failures", async () => {
+    const disabled: boolean[] = [];
+    for (let i = 0; i < 5; i++) {
+      disabled.push(await recordFetchAttempt(source, failure));
+    }
+
+    expect(disabled).toEqual([false, false, false, false, true]);
+    expect(await getDisabledSources()).toEqual(["Flaky Blog"]);
+    expect(await filterActiveSources([source])).toEqual([]);
+
+    expect(await enableSource("Flaky Blog")).toBe(true);
+    expect(await filterActiveSources([source])).toEqual([source]);
+  });
+
+  test("re-enabling resets the failure streak", async () => {
+    for (let i = 0; i < 5; i++) await recordFetchAttempt(source, failure);
+    await enableSource("Flaky Blog");
+
+    expect(await recordFetchAttempt(source, failure)).toBe(false);
+    expect(await getDisabledSources()).toEqual([]);
+
+    const [health] = await getSourceHealthReport();
+    expect(health).toMatchObject({
+      last_status: "error",
+      consecutive_failures: 1,
+      attempts: 6,
+      failures: 6,
+      last_success_at: null,
+    });
+  });
+
+  test("a successful fetch resets the failure streak", async () => {
+    for (let i = 0; i < 4; i++) await recordFetchAttempt(source, failure);
+    await recordFetchAttempt(source, success);
+
+    expect(await recordFetchAttempt(source, failure)).toBe(false);
+
+    const [health] = await getSourceHealthReport();
+    expect(health).toMatchObject({
+      source: "Flaky Blog",
+      source_type: "rss",
+      last_status: "error",
+      last_error: "timeout",
+      consecutive_failures: 1,
+      attempts: 6,
+      failures: 5,
+      avg_latency_ms: 113,
+    });
+    expect(health?.last_success_at).toBeString();
+  });
+
+  test("formats failing and disabled sources for Discord", async () => {
+    for (let i = 0; i < 5; i++) await recordFetchAttempt(source, failure);
+    await recordFetchAttempt({ ...source, name: "Healthy Blog" }, success);
+
+    const message = formatHealthReport(await getSourceHealthReport());
+
+    expect(message).toContain("✅ 1 healthy • ⚠️ 0 failing • ⛔ 1 disabled");
+    expect(message).toContain(
+      "⛔ **Flaky Blog** — 5 consecutive failures (never succeeded): timeout"
+    );
+    expect(message).toContain("/sources enable");
+    expect(message).not.toContain("Healthy Blog");
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Source health tracking
+ * Records every fetch attempt, auto-disables sources that keep failing,
+ * and formats the health report for Discord.
+ */
+
+import type { Source } from "../config";
+import {
+  recordSourceFetch,
+  getConsecutiveFailures,
+  disableSource,
+  getDisabledSources,
+  type SourceFetchStatus,
+  type SourceHealth,
+} from "../db";
+import { logWarn } from "../context-extractor";
+
+// Consecutive failed fetches before a source is auto-disabled
+const FAILURE_THRESHOLD = parseInt(process.env.SOURCE_FAILURE_THRESHOLD || "5");
+
+const DISCORD_MAX_MESSAGE_LENGTH = 1900;
+
+export interface FetchAttempt {
+  status: SourceFetchStatus;
+  latencyMs: number;
+  itemCount: number;
+  error?: string;
+}
+
+/**
+ * Store a fetch attempt and disable the source once it crosses the failure threshold
+ * @returns true if the source was disabled by this attempt
+ */
+export async function recordFetchAttempt(source: Source, attempt: FetchAttempt): Promise<boolean> {
+  await recordSourceFetch({
+    source: source.name,
+    source_type: source.type,
+    status: attempt.status,
+    latency_ms: Math.round(attempt.latencyMs),
+    item_count: attempt.itemCount,
+    error: attempt.error,
+  });
+
+  if (attempt.status !== "error") return false;
+
+  const failures = await getConsecutiveFailures(source.name);
+  if (failures < FAILURE_THRESHOLD) return false;
+
+  await disableSource(
+    source.name,
+    `${failures} consecutive failures: ${attempt.error ?? "unknown"}`
+  );
+  logWarn(`Auto-disabled ${source.name} after ${failures} consecutive failures`, {
+    source: "source-health",
+  });
+  return true;
+}
+
+/**
+ * Drop sources that were auto-disabled
+ */
+export async function filterActiveSources(sources: Source[]): Promise<Source[]> {
+  const disabled = new Set(await getDisabledSources());
+  const active = sources.filter((s) => !disabled.has(s.name));
+  const skipped = sources.length - active.length;
+  if (skipped > 0) {
+    console.log(`  Skipping ${skipped} disabled sources`);
+  }
+  return active;
+}
+
+/**
+ * Format the health report as a Discord message, listing only failing or disabled sources
+ */
+export function formatHealthReport(report: SourceHealth[], days: number = 7): string {
+  const disabled = report.filter((s) => s.disabled_at);
+  const failing = report.filter((s) => !s.disabled_at && s.consecutive_failures > 0);
+  const healthy = report.length - disabled.length - failing.length;
+
+  const lines = [
+    `📡 **Source health** (last ${days} days)`,
+    `✅ ${healthy} healthy • ⚠️ ${failing.length} failing • ⛔ ${disabled.length} disabled`,
+  ];
+
+  for (const s of [...disabled, ...failing]) {
+    const icon = s.disabled_at ? "⛔" : "⚠️";
+    const lastOk = s.last_success_at ? `last ok ${s.last_success_at}` : "never succeeded";
+    const error = s.last_error ? `: ${s.last_error.slice(0, 120)}` : "";
+    lines.push(
+      `${icon} **${s.source}** — ${s.consecutive_failures} consecutive failures (${lastOk})${error}`
+    );
+  }
+
+  if (disabled.length > 0) {
+    lines.push("", "Re-enable with `/sources enable name:<source>`");
+  }
+
+  const message = lines.join("\n");
+  return message.length > DISCORD_MAX_MESSAGE_LENGTH
+    ? message.slice(0, DISCORD_MAX_MESSAGE_LENGTH - 3) + "..."
+    : message;
+}
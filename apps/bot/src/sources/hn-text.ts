@@ -0,0 +1,16 @@
+/**
+ * Plain text from Hacker News API HTML (story bodies and comments)
+ * HN only uses <p>, <a>, <i>, <pre> and a handful of entities, so no parser is needed.
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<p>/gi, "\n\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&#x27;/g, "'")
+    .replace(/&#x2F;/g, "/")
+    .replace(/&quot;/g, '"')
+    .replace(/&gt;/g, ">")
+    .replace(/&lt;/g, "<")
+    .replace(/&amp;/g, "&")
+    .trim();
+}
@@ -0,0 +1,104 @@
+import { test, expect, describe, beforeEach, afterEach, mock } from "bun:test";
+import { ensureDb, closeDb, getFeedCache } from "../db";
+import { fetchJsonFeed, parseJsonFeed } from "./jsonfeed";
+
+// Skip search index sync in tests (loads TensorFlow which is slow)
+process.env.SKIP_SEARCH_INDEX = "1";
+
+const FEED_URL = "https://indie.example.com/feed.json";
+
+const feed = (items: object[]) =>
+  JSON.stringify({ version: "https://jsonfeed.org/version/1.1", title: "Indie Blog", items });
+
+describe("parseJsonFeed", () => {
+  test("maps url, title, content_text, date_published and image", () => {
+    const items = parseJsonFeed(
+      feed([
+        {
+          id: "1",
+          url: "https://indie.example.com/posts/1",
+          title: "First post",
+          content_text: "Plain text body",
+          summary: "Short summary",
+          image: "https://indie.example.com/images/1.png",
+          date_published: "2024-01-02T03:04:05Z",
+        },
+      ])
+    );
+
+    expect(items).toEqual([
+      {
+        title: "First post",
+        url: "https://indie.example.com/posts/1",
+        content: "Plain text body",
+        published: new Date("2024-01-02T03:04:05Z"),
+        image: "https://indie.example.com/images/1.png",
+      },
+    ]);
+  });
+
+  test("falls back to summary, then content_html as text", () => {
+    const [withSummary, withHtml] = parseJsonFeed(
+      feed([
+        { id: "1", url: "https://indie.example.com/1", title: "A", summary: "Just a summary" },
+        {
+          id: "2",
+          url: "https://indie.example.com/2",
+          title: "B",
+          content_html: "<p>Hello <strong>world</strong> &amp; friends</p>",
+        },
+      ])
+    );
+
+    expect(withSummary?.content).toBe("Just a summary");
+    expect(withHtml?.content).toBe("Hello world & friends");
+  });
+
+  test("handles untitled items and items without a URL", () => {
+    const items = parseJsonFeed(
+      feed([
+        { id: "1", url: "https://indie.example.com/notes/1", content_text: "A short note" },
+        { id: "2", external_url: "https://elsewhere.example.com/", title: "Link post" },
+        { id: "3", title: "No link at all" },
+      ])
+    );
+
+    expect(items.map((i) => [i.title, i.url])).toEqual([
+      ["A short note", "https://indie.example.com/notes/1"],
+      ["Link post", "https://elsewhere.example.com/"],
+    ]);
+    expect(items[0]?.published).toBeUndefined();
+  });
+
+  test("rejects JSON that is not a JSON Feed", () => {
+    expect(() => parseJsonFeed('{"items": []}')).toThrow("Not a JSON Feed");
+  });
+});
+
+describe("fetchJsonFeed", () => {
+  const originalFetch = globalThis.fetch;
+
+  beforeEach(async () => {
+    await ensureDb(":memory:");
+  });
+
+  afterEach(() => {
+    closeDb();
+    globalThis.fetch = originalFetch;
+  });
+
+  test("uses the feed cache like RSS", async () => {
+    const body = feed([{ id: "1", url: "https://indie.example.com/1", title: "Post" }]);
+    globalThis.fetch = mock(
+      async () => new Response(body, { status: 200, headers: { ETag: '"j1"' } })
+    ) as unknown as typeof fetch;
+
+    const first = await fetchJsonFeed(FEED_URL);
+    await first.commit?.();
+    const second = await fetchJsonFeed(FEED_URL);
+
+    expect(first.items).toHaveLength(1);
+    expect(second).toEqual({ items: [], unchanged: true });
+    expect((await getFeedCache(FEED_URL))?.etag).toBe('"j1"');
+  });
+});
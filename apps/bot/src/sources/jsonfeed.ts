@@ -0,0 +1,91 @@
+/**
+ * JSON Feed (https://jsonfeed.org) source
+ * Shares the conditional GET and feed cache with RSS via fetchFeed().
+ */
+
+import type { JsonFeedSource } from "../config";
+import type { SourceAdapter } from "./adapter";
+import { fetchFeed, type FeedItem, type RssFetchResult } from "./rss";
+
+// Untitled (microblog) items use the start of their text as title
+const UNTITLED_TITLE_LENGTH = 80;
+
+interface JsonFeedItem {
+  id?: string;
+  url?: string;
+  external_url?: string;
+  title?: string;
+  content_text?: string;
+  content_html?: string;
+  summary?: string;
+  image?: string;
+  banner_image?: string;
+  date_published?: string;
+  date_modified?: string;
+}
+
+interface JsonFeed {
+  version?: string;
+  title?: string;
+  items?: JsonFeedItem[];
+}
+
+function stripHtml(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function parseDate(value?: string): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Map JSON Feed items to FeedItem
+ * Content prefers content_text, then summary, then content_html as text.
+ */
+export function parseJsonFeed(body: string): FeedItem[] {
+  const feed = JSON.parse(body) as JsonFeed;
+  if (!feed.version?.includes("jsonfeed.org") || !Array.isArray(feed.items)) {
+    throw new Error("Not a JSON Feed");
+  }
+
+  return feed.items
+    .map((item) => {
+      const content =
+        item.content_text ||
+        item.summary ||
+        (item.content_html ? stripHtml(item.content_html) : "");
+      const title =
+        item.title?.trim() ||
+        (content ? content.slice(0, UNTITLED_TITLE_LENGTH) : "") ||
+        "No title";
+      return {
+        title,
+        url: item.url || item.external_url || "",
+        published: parseDate(item.date_published ?? item.date_modified),
+        content,
+        image: item.image || item.banner_image || undefined,
+      };
+    })
+    .filter((item) => item.url);
+}
+
+export function fetchJsonFeed(feedUrl: string): Promise<RssFetchResult> {
+  return fetchFeed(feedUrl, async (body) => parseJsonFeed(body));
+}
+
+export const jsonFeedAdapter: SourceAdapter<JsonFeedSource> = {
+  type: "jsonfeed",
+  fetch: (source) => fetchJsonFeed(source.url),
+};
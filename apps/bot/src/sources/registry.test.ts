@@ -0,0 +1,292 @@
+import { test, expect, describe } from "bun:test";
+import { collectArticles, sourceAdapters } from "./registry";
+import type { SourceAdapterRegistry, SourceItem } from "./adapter";
+import type { Source } from "../config";
+
+const items = (prefix: string, count: number): SourceItem[] =>
+  Array.from({ length: count }, (_, i) => ({
+    title: `${prefix} ${i}`,
+    url: `https://${prefix}.example.com/${i}`,
+    content: `${prefix} content ${i}`,
+  }));
+
+const fakeAdapters = (overrides: Partial<SourceAdapterRegistry>): SourceAdapterRegistry => ({
+  rss: { type: "rss", fetch: async () => ({ items: [] }) },
+  jsonfeed: { type: "jsonfeed", fetch: async () => ({ items: [] }) },
+  hackernews: { type: "hackernews", fetch: async () => ({ items: [] }) },
+  "github-trending": { type: "github-trending", fetch: async () => ({ items: [] }) },
+  "github-releases": { type: "github-releases", fetch: async () => ({ items: [] }) },
+  arxiv: { type: "arxiv", fetch: async () => ({ items: [] }) },
+  ...overrides,
+});
+
+const rssSource = (name: string, url: string): Source => ({
+  type: "rss",
+  name,
+  url,
+  category: "tech",
+  enabled: true,
+});
+
+const neverSeen = async () => false;
+const noRecord = async () => false;
+
+describe("sourceAdapters", () => {
+  test("registers an adapter for every source type", () => {
+    for (const [type, adapter] of Object.entries(sourceAdapters)) {
+      expect(adapter.type).toBe(type as Source["type"]);
+    }
+  });
+});
+
+describe("collectArticles", () => {
+  test("maps items to filter candidates with source name and category", async () => {
+    const adapters = fakeAdapters({
+      rss: { type: "rss", fetch: async () => ({ items: items("blog", 2) }) },
+    });
+
+    const { articles } = await collectArticles(
+      [rssSource("Blog", "https://blog.example.com/feed")],
+      {
+        adapters,
+        isSeen: neverSeen,
+        recordAttempt: noRecord,
+      }
+    );
+
+    expect(articles).toHaveLength(2);
+    expect(articles[0]).toMatchObject({
+      title: "blog 0",
+      url: "https://blog.example.com/0",
+      source: "Blog",
+      category: "tech",
+    });
+  });
+
+  test("passes the feed image through as og_image", async () => {
+    const adapters = fakeAdapters({
+      jsonfeed: {
+        type: "jsonfeed",
+        fetch: async () => ({
+          items: [
+            {
+              title: "Post",
+              url: "https://indie.example.com/1",
+              image: "https://indie.example.com/1.png",
+            },
+          ],
+        }),
+      },
+    });
+
+    const { articles } = await collectArticles(
+      [
+        {
+          type: "jsonfeed",
+          name: "Indie",
+          url: "https://indie.example.com/feed.json",
+          category: "tech",
+          enabled: true,
+        },
+      ],
+      { adapters, isSeen: neverSeen, recordAttempt: noRecord }
+    );
+
+    expect(articles[0]?.og_image).toBe("https://indie.example.com/1.png");
+  });
+
+  test("lets an item override the source name", async () => {
+    const adapters = fakeAdapters({
+      "github-trending": {
+        type: "github-trending",
+        fetch: async () => ({
+          items: [{ title: "a/b", url: "https://github.com/a/b", source: "GitHub (go)" }],
+        }),
+      },
+    });
+
+    const { articles } = await collectArticles(
+      [
+        {
+          type: "github-trending",
+          name: "GitHub Trending",
+          category: "repos",
+          enabled: true,
+          languages: ["go"],
+        },
+      ],
+      { adapters, isSeen: neverSeen, recordAttempt: noRecord }
+    );
+
+    expect(articles[0]?.source).toBe("GitHub (go)");
+  });
+
+  test("enforces the per-source limit on new items", async () => {
+    const adapters = fakeAdapters({
+      rss: { type: "rss", fetch: async (source) => ({ items: items(source.name, 5) }) },
+    });
+
+    const { articles } = await collectArticles(
+      [rssSource("a", "https://a.example.com/feed"), rssSource("b", "https://b.example.com/feed")],
+      { adapters, isSeen: neverSeen, recordAttempt: noRecord, maxPerSource: 3 }
+    );
+
+    expect(articles.filter((a) => a.source === "a")).toHaveLength(3);
+    expect(articles.filter((a) => a.source === "b")).toHaveLength(3);
+  });
+
+  test("skips seen items without counting them against the limit", async () => {
+    const adapters = fakeAdapters({
+      rss: { type: "rss", fetch: async () => ({ items: items("blog", 4) }) },
+    });
+    const seen = new Set(["https://blog.example.com/0", "https://blog.example.com/1"]);
+
+    const { articles } = await collectArticles(
+      [rssSource("Blog", "https://blog.example.com/feed")],
+      {
+        adapters,
+        isSeen: async (url) => seen.has(url),
+        recordAttempt: noRecord,
+        maxPerSource: 2,
+      }
+    );
+
+    expect(articles.map((a) => a.url)).toEqual([
+      "https://blog.example.com/2",
+      "https://blog.example.com/3",
+    ]);
+  });
+
+  test("dedups the same URL across sources within a run", async () => {
+    const shared = { title: "Shared", url: "https://shared.example.com/post" };
+    const adapters = fakeAdapters({
+      hackernews: { type: "hackernews", fetch: async () => ({ items: [shared] }) },
+      rss: { type: "rss", fetch: async () => ({ items: [shared] }) },
+    });
+
+    const { articles } = await collectArticles(
+      [
+        { type: "hackernews", name: "Hacker News", category: "tech", enabled: true },
+        rssSource("Lobsters", "https://lobste.rs/rss"),
+      ],
+      { adapters, isSeen: neverSeen, recordAttempt: noRecord }
+    );
+
+    expect(articles).toHaveLength(1);
+    expect(articles[0]?.source).toBe("Hacker News");
+  });
+
+  test("reports unchanged sources without adding items", async () => {
+    const adapters = fakeAdapters({
+      rss: {
+        type: "rss",
+        fetch: async (source) =>
+          source.name === "Stale" ? { items: [], unchanged: true } : { items: items("fresh", 1) },
+      },
+    });
+
+    const result = await collectArticles(
+      [
+        rssSource("Stale", "https://stale.example.com/feed"),
+        rssSource("Fresh", "https://fresh.example.com/feed"),
+      ],
+      { adapters, isSeen: neverSeen, recordAttempt: noRecord }
+    );
+
+    expect(result.unchangedSources).toEqual(["Stale"]);
+    expect(result.articles.map((a) => a.source)).toEqual(["Fresh"]);
+  });
+
+  test("commits fetch state only for sources that were fully collected", async () => {
+    const committed: string[] = [];
+    const adapters = fakeAdapters({
+      rss: {
+        type: "rss",
+        fetch: async (source) => ({
+          items: items(source.name.toLowerCase(), source.name === "Busy" ? 3 : 1),
+          commit: async () => {
+            committed.push(source.name);
+          },
+        }),
+      },
+    });
+
+    const result = await collectArticles(
+      [
+        rssSource("Busy", "https://busy.example.com/feed"),
+        rssSource("Quiet", "https://quiet.example.com/feed"),
+      ],
+      { adapters, isSeen: neverSeen, recordAttempt: noRecord, maxPerSource: 2 }
+    );
+
+    expect(committed).toEqual([]);
+    await result.commit();
+    // Busy had an item cut by maxPerSource, so its feed must be read again next run
+    expect(committed).toEqual(["Quiet"]);
+  });
+
+  test("continues with other sources when an adapter throws", async () => {
+    const adapters = fakeAdapters({
+      hackernews: {
+        type: "hackernews",
+        fetch: async () => {
+          throw new Error("network down");
+        },
+      },
+      rss: { type: "rss", fetch: async () => ({ items: items("blog", 1) }) },
+    });
+
+    const { articles } = await collectArticles(
+      [
+        { type: "hackernews", name: "Hacker News", category: "tech", enabled: true },
+        rssSource("Blog", "https://blog.example.com/feed"),
+      ],
+      { adapters, isSeen: neverSeen, recordAttempt: noRecord }
+    );
+
+    expect(articles).toHaveLength(1);
+    expect(articles[0]?.source).toBe("Blog");
+  });
+
+  test("records each attempt with status and item count", async () => {
+    const adapters = fakeAdapters({
+      hackernews: {
+        type: "hackernews",
+        fetch: async () => {
+          throw new Error("network down");
+        },
+      },
+      rss: {
+        type: "rss",
+        fetch: async (source) =>
+          source.name === "Stale" ? { items: [], unchanged: true } : { items: items("blog", 2) },
+      },
+    });
+    const attempts: { source: string; status: string; itemCount: number; error?: string }[] = [];
+
+    const result = await collectArticles(
+      [
+        { type: "hackernews", name: "Hacker News", category: "tech", enabled: true },
+        rssSource("Stale", "https://stale.example.com/feed"),
+        rssSource("Blog", "https://blog.example.com/feed"),
+      ],
+      {
+        adapters,
+        isSeen: neverSeen,
+        recordAttempt: async (source, attempt) => {
+          attempts.push({ source: source.name, ...attempt });
+          return source.name === "Hacker News";
+        },
+      }
+    );
+
+    expect(attempts.map(({ source, status, itemCount }) => [source, status, itemCount])).toEqual([
+      ["Hacker News", "error", 0],
+      ["Stale", "not_modified", 0],
+      ["Blog", "ok", 2],
+    ]);
+    expect(attempts[0]?.error).toBe("network down");
+    expect(result.failedSources).toEqual(["Hacker News"]);
+    expect(result.disabledSources).toEqual(["Hacker News"]);
+  });
+});
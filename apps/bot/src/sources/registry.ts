@@ -0,0 +1,181 @@
+/**
+ * Source adapter registry
+ * Maps each Source["type"] to its adapter and collects new articles from
+ * all configured sources with shared dedup, per-source limits, health
+ * tracking and logging.
+ */
+
+import type { Source } from "../config";
+import type { ArticleToFilter } from "../filter";
+import { canonicalizeUrl, isArticleSeen } from "../db";
+import type { SourceAdapter, SourceAdapterRegistry } from "./adapter";
+import { recordFetchAttempt, type FetchAttempt } from "./health";
+import { rssAdapter } from "./rss";
+import { jsonFeedAdapter } from "./jsonfeed";
+import { hackerNewsAdapter } from "./hackernews";
+import { gitHubTrendingAdapter } from "./github-trending";
+import { gitHubReleasesAdapter } from "./github-releases";
+import { arxivAdapter } from "./arxiv";
+
+export const sourceAdapters: SourceAdapterRegistry = {
+  rss: rssAdapter,
+  jsonfeed: jsonFeedAdapter,
+  hackernews: hackerNewsAdapter,
+  "github-trending": gitHubTrendingAdapter,
+  "github-releases": gitHubReleasesAdapter,
+  arxiv: arxivAdapter,
+};
+
+export interface CollectOptions {
+  /** Max new items taken from a single source (default: 10) */
+  maxPerSource?: number;
+  /** Dedup check against previously stored articles (default: isArticleSeen) */
+  isSeen?: (url: string) => Promise<boolean>;
+  /** Fetch attempt recorder, returns true if the source got disabled (default: recordFetchAttempt) */
+  recordAttempt?: (source: Source, attempt: FetchAttempt) => Promise<boolean>;
+  /** Adapter registry override (for testing) */
+  adapters?: SourceAdapterRegistry;
+}
+
+export interface CollectResult {
+  articles: ArticleToFilter[];
+  /** Names of sources that reported no changes since the last run */
+  unchangedSources: string[];
+  /** Names of sources that failed to fetch */
+  failedSources: string[];
+  /** Names of sources auto-disabled during this run */
+  disabledSources: string[];
+  /**
+   * Persist each source's fetch state; call after the articles are saved.
+   * Sources cut short by maxPerSource are skipped so their remaining items
+   * are fetched again next run.
+   */
+  commit: () => Promise<void>;
+}
+
+/**
+ * Look up the adapter for a source.
+ * The cast is safe because the registry type pairs each key with its source type.
+ */
+export function getSourceAdapter(
+  source: Source,
+  adapters: SourceAdapterRegistry = sourceAdapters
+): SourceAdapter {
+  return adapters[source.type] as SourceAdapter;
+}
+
+/**
+ * Fetch all sources in order and return unseen items as filter candidates
+ */
+export async function collectArticles(
+  sources: Source[],
+  options: CollectOptions = {}
+): Promise<CollectResult> {
+  const maxPerSource = options.maxPerSource ?? 10;
+  const isSeen = options.isSeen ?? isArticleSeen;
+  const adapters = options.adapters ?? sourceAdapters;
+  const recordAttempt = options.recordAttempt ?? recordFetchAttempt;
+
+  const articles: ArticleToFilter[] = [];
+  const unchangedSources: string[] = [];
+  const failedSources: string[] = [];
+  const disabledSources: string[] = [];
+  const commits: Array<() => Promise<void>> = [];
+  // Canonical URLs already collected in this run (the same link can appear in several sources)
+  const collected = new Set<string>();
+
+  // Sources are fetched one after another; the chain keeps them in config order
+  await sources.reduce<Promise<void>>(async (previous, source) => {
+    await previous;
+    console.log(`📡 Fetching ${source.name}...`);
+
+    const track = async (attempt: FetchAttempt) => {
+      try {
+        if (await recordAttempt(source, attempt)) disabledSources.push(source.name);
+      } catch (error) {
+        console.error(`Failed to record fetch attempt for ${source.name}`, error);
+      }
+    };
+
+    const startedAt = performance.now();
+    let result;
+    try {
+      result = await getSourceAdapter(source, adapters).fetch(source);
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.message : String(error);
+      console.error(`Failed to fetch ${source.name}: ${errMsg}`);
+      failedSources.push(source.name);
+      await track({
+        status: "error",
+        latencyMs: performance.now() - startedAt,
+        itemCount: 0,
+        error: errMsg,
+      });
+      return;
+    }
+
+    await track({
+      status: result.unchanged ? "not_modified" : "ok",
+      latencyMs: performance.now() - startedAt,
+      itemCount: result.items.length,
+    });
+
+    if (result.unchanged) {
+      unchangedSources.push(source.name);
+      console.log("  Not modified since last run");
+      return;
+    }
+    const { items } = result;
+    console.log(`  Found ${items.length} items`);
+
+    const seen = await Promise.all(
+      items.map((item) => (item.resurface ? false : isSeen(item.url)))
+    );
+    let added = 0;
+    let truncated = false;
+    for (const [index, item] of items.entries()) {
+      if (added >= maxPerSource) {
+        truncated = true;
+        break;
+      }
+      const canonical = canonicalizeUrl(item.url);
+      if (collected.has(canonical) || seen[index]) continue;
+
+      collected.add(canonical);
+      articles.push({
+        title: item.title,
+        url: item.url,
+        source: item.source ?? source.name,
+        category: source.category,
+        content: item.content,
+        published: item.published,
+        og_image: item.image,
+        hn_id: item.hnId,
+        discussion_url: item.discussionUrl,
+        badge: item.badge,
+        resurfaced: item.resurface,
+        release_repo: item.releaseRepo,
+        release_version: item.releaseVersion,
+        arxiv_id: item.arxivId,
+        arxiv_version: item.arxivVersion,
+        authors: item.authors,
+        pdf_url: item.pdfUrl,
+      });
+      added++;
+    }
+    console.log(`  Added ${added} new items`);
+    if (result.commit && !truncated) commits.push(result.commit);
+  }, Promise.resolve());
+
+  const commit = async () => {
+    await Promise.all(
+      commits.map((commitSource) =>
+        commitSource().catch((error) => {
+          console.error("Failed to save source fetch state", error);
+        })
+      )
+    );
+  };
+
+  return { articles, unchangedSources, failedSources, disabledSources, commit };
+}
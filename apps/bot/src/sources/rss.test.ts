@@ -0,0 +1,134 @@
+import { test, expect, describe, beforeEach, afterEach, mock } from "bun:test";
+import { ensureDb, closeDb, getFeedCache } from "../db";
+import { fetchRss } from "./rss";
+
+// Skip search index sync in tests (loads TensorFlow which is slow)
+process.env.SKIP_SEARCH_INDEX = "1";
+
+const FEED_URL = "https://blog.example.com/feed";
+
+const feedXml = (titles: string[]) => `<?xml version="1.0"?>
+<rss version="2.0">
+  <channel>
+    <title>Example Blog</title>
+    ${titles
+      .map(
+        (title, i) => `<item>
+      <title>${title}</title>
+      <link>https://blog.example.com/posts/${i}</link>
+      <pubDate>Mon, 01 Jan 2024 00:00:00 GMT</pubDate>
+      <description>${title} body</description>
+    </item>`
+      )
+      .join("\n")}
+  </channel>
+</rss>`;
+
+describe("fetchRss", () => {
+  const originalFetch = globalThis.fetch;
+
+  beforeEach(async () => {
+    await ensureDb(":memory:");
+  });
+
+  afterEach(() => {
+    closeDb();
+    globalThis.fetch = originalFetch;
+  });
+
+  test("parses the feed and stores validators once committed", async () => {
+    globalThis.fetch = mock(async () => {
+      return new Response(feedXml(["First post"]), {
+        status: 200,
+        headers: { ETag: '"v1"', "Last-Modified": "Mon, 01 Jan 2024 00:00:00 GMT" },
+      });
+    }) as unknown as typeof fetch;
+
+    const result = await fetchRss(FEED_URL);
+
+    expect(result.unchanged).toBe(false);
+    expect(result.items).toHaveLength(1);
+    expect(result.items[0]?.url).toBe("https://blog.example.com/posts/0");
+    expect(await getFeedCache(FEED_URL)).toBeNull();
+
+    await result.commit?.();
+    const cache = await getFeedCache(FEED_URL);
+    expect(cache?.etag).toBe('"v1"');
+    expect(cache?.last_modified).toBe("Mon, 01 Jan 2024 00:00:00 GMT");
+    expect(cache?.content_hash).toBeString();
+  });
+
+  test("sends conditional headers and skips parsing on 304", async () => {
+    globalThis.fetch = mock(async () => {
+      return new Response(feedXml(["First post"]), {
+        status: 200,
+        headers: { ETag: '"v1"', "Last-Modified": "Mon, 01 Jan 2024 00:00:00 GMT" },
+      });
+    }) as unknown as typeof fetch;
+    await (await fetchRss(FEED_URL)).commit?.();
+
+    let sentHeaders: Headers | undefined;
+    globalThis.fetch = mock(async (_url: string | URL | Request, init?: RequestInit) => {
+      sentHeaders = new Headers(init?.headers);
+      return new Response(null, { status: 304 });
+    }) as unknown as typeof fetch;
+
+    const result = await fetchRss(FEED_URL);
+
+    expect(sentHeaders?.get("If-None-Match")).toBe('"v1"');
+    expect(sentHeaders?.get("If-Modified-Since")).toBe("Mon, 01 Jan 2024 00:00:00 GMT");
+    expect(result).toEqual({ items: [], unchanged: true });
+  });
+
+  test("treats an identical body as unchanged when the server ignores validators", async () => {
+    const body = feedXml(["First post"]);
+    globalThis.fetch = mock(
+      async () => new Response(body, { status: 200 })
+    ) as unknown as typeof fetch;
+
+    await (await fetchRss(FEED_URL)).commit?.();
+    const result = await fetchRss(FEED_URL);
+
+    expect(result).toEqual({ items: [], unchanged: true });
+  });
+
+  test("fetches items again when the previous fetch was never committed", async () => {
+    let sentHeaders: Headers | undefined;
+    globalThis.fetch = mock(async (_url: string | URL | Request, init?: RequestInit) => {
+      sentHeaders = new Headers(init?.headers);
+      return new Response(feedXml(["First post"]), { status: 200, headers: { ETag: '"v1"' } });
+    }) as unknown as typeof fetch;
+
+    // e.g. the run crashed before its articles were saved
+    await fetchRss(FEED_URL);
+    const result = await fetchRss(FEED_URL);
+
+    expect(sentHeaders?.get("If-None-Match")).toBeNull();
+    expect(result.unchanged).toBe(false);
+    expect(result.items).toHaveLength(1);
+  });
+
+  test("returns new items when the body changed", async () => {
+    let version = 0;
+    globalThis.fetch = mock(async () => {
+      version++;
+      const titles = version === 1 ? ["First post"] : ["First post", "Second post"];
+      return new Response(feedXml(titles), { status: 200 });
+    }) as unknown as typeof fetch;
+
+    await fetchRss(FEED_URL);
+    const result = await fetchRss(FEED_URL);
+
+    expect(result.unchanged).toBe(false);
+    expect(result.items).toHaveLength(2);
+  });
+
+  test("throws on HTTP error without touching the cache", async () => {
+    globalThis.fetch = mock(
+      async () => new Response("oops", { status: 500 })
+    ) as unknown as typeof fetch;
+
+    await expect(fetchRss(FEED_URL)).rejects.toThrow("Status code 500");
+    expect(await getFeedCache(FEED_URL)).toBeNull();
+  });
+});
@@ -1,33 +1,109 @@
 import Parser from "rss-parser";
+import type { RssSource } from "../config";
+import { getFeedCache, saveFeedCache, touchFeedCache } from "../db";
+import type { SourceAdapter } from "./adapter";
 
-const parser = new Parser({
-  timeout: 10000,
-  headers: {
-    "User-Agent": "NewsBot/1.0",
-  },
-});
+const FETCH_TIMEOUT_MS = 10_000;
+
+const parser = new Parser();
 
 export interface FeedItem {
   title: string;
   url: string;
   published?: Date;
   content?: string;
+  /** Lead image, used as og_image when the page itself has none */
+  image?: string;
+}
+
+export interface RssFetchResult {
+  items: FeedItem[];
+  /** True when the feed was not modified since the last run (304 or identical body) */
+  unchanged: boolean;
+  /** Stores the new validators; call once the items are saved (see SourceFetchResult.commit) */
+  commit?: () => Promise<void>;
+}
+
+function hashContent(content: string): string {
+  return new Bun.CryptoHasher("sha256").update(content).digest("hex");
 }
 
-export async function fetchRss(feedUrl: string): Promise<FeedItem[]> {
-  try {
-    const feed = await parser.parseURL(feedUrl);
-
-    return feed.items
-      .map((item) => ({
-        title: item.title || "No title",
-        url: item.link || item.guid || "",
-        published: item.pubDate ? new Date(item.pubDate) : undefined,
-        content: item.contentSnippet || item.content || "",
-      }))
-      .filter((item) => item.url);
-  } catch (error) {
-    console.error(`Failed to fetch RSS: ${feedUrl}`, error);
-    return [];
+/**
+ * Fetch a feed with a conditional GET using the cached ETag/Last-Modified.
+ * `parse` is skipped when the server answers 304 or the body hash is unchanged.
+ * New validators are not stored here but through the returned `commit`, so items
+ * that never get saved are fetched again on the next run.
+ * Throws on network, HTTP or parse errors so the failure is recorded by the registry.
+ */
+export async function fetchFeed(
+  feedUrl: string,
+  parse: (body: string) => Promise<FeedItem[]>
+): Promise<RssFetchResult> {
+  const cached = await getFeedCache(feedUrl);
+
+  const headers: Record<string, string> = { "User-Agent": "NewsBot/1.0" };
+  if (cached?.etag) headers["If-None-Match"] = cached.etag;
+  if (cached?.last_modified) headers["If-Modified-Since"] = cached.last_modified;
+
+  const res = await fetch(feedUrl, {
+    headers,
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  });
+
+  if (res.status === 304) {
+    await touchFeedCache(feedUrl);
+    return { items: [], unchanged: true };
+  }
+
+  if (!res.ok) {
+    throw new Error(`Status code ${res.status}`);
   }
+
+  const body = await res.text();
+  const contentHash = hashContent(body);
+  const validators = {
+    etag: res.headers.get("ETag"),
+    lastModified: res.headers.get("Last-Modified"),
+    contentHash,
+  };
+
+  // Server ignored the validators but the feed is byte-for-byte identical
+  if (cached?.content_hash === contentHash) {
+    await saveFeedCache(feedUrl, validators);
+    return { items: [], unchanged: true };
+  }
+
+  const items = await parse(body);
+
+  return {
+    items,
+    unchanged: false,
+    commit: async () => {
+      await saveFeedCache(feedUrl, validators);
+    },
+  };
 }
+
+async function parseRss(body: string): Promise<FeedItem[]> {
+  const feed = await parser.parseString(body);
+  return feed.items
+    .map((item) => ({
+      title: item.title || "No title",
+      url: item.link || item.guid || "",
+      published: item.pubDate ? new Date(item.pubDate) : undefined,
+      content: item.contentSnippet || item.content || "",
+    }))
+    .filter((item) => item.url);
+}
+
+/**
+ * Fetch and parse an RSS/Atom feed
+ */
+export function fetchRss(feedUrl: string): Promise<RssFetchResult> {
+  return fetchFeed(feedUrl, parseRss);
+}
+
+export const rssAdapter: SourceAdapter<RssSource> = {
+  type: "rss",
+  fetch: (source) => fetchRss(source.url),
+};
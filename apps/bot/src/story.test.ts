@@ -0,0 +1,145 @@
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import {
+  ensureDb,
+  closeDb,
+  saveArticle,
+  markAsNotified,
+  getArticleByUrl,
+  getStory,
+  getStoryArticles,
+  type Article,
+} from "./db";
+import { extractEntities, linkStories, matchFollowUps, type Embedder } from "./story";
+
+process.env.SKIP_SEARCH_INDEX = "1";
+
+const release = {
+  url: "https://example.com/llama-4",
+  title: "Meta releases Llama 4",
+  summary: "MetaがLlama 4を公開。マルチモーダル対応",
+};
+const benchmarks = {
+  url: "https://example.com/llama-4-benchmarks",
+  title: "Llama 4 benchmarks don't match the announcement",
+  summary: "Llama 4の独自ベンチマーク結果が公表値と異なる",
+};
+const unrelated = {
+  url: "https://example.com/bun",
+  title: "Bun 1.2 adds a Postgres client",
+  summary: "Bun 1.2がPostgresクライアントを内蔵",
+};
+
+function earlierArticle(article: { url: string; title: string; summary: string }): Article {
+  return { ...article, source: "Test", category: "ai", notified: true };
+}
+
+// Articles about Llama point the same way; everything else is orthogonal
+const fakeEmbed: Embedder = async (texts) =>
+  texts.map((text) => (text.includes("Llama") ? [1, 0.1] : [0, 1]));
+
+describe("extractEntities", () => {
+  test("finds product names with versions and ignores headline words", () => {
+    expect([
+      ...extractEntities("Show HN: How We Built a New Llama 4 Runner on TypeScript"),
+    ]).toEqual(["llama", "llama 4", "runner", "typescript"]);
+  });
+
+  test("finds names inside Japanese text", () => {
+    expect([...extractEntities("OpenAIがGPT-5を発表")]).toEqual(["openai", "gpt-5"]);
+  });
+});
+
+describe("matchFollowUps", () => {
+  test("links articles sharing an entity with close embeddings", async () => {
+    const matches = await matchFollowUps(
+      [benchmarks, unrelated],
+      [earlierArticle(release)],
+      fakeEmbed
+    );
+
+    expect(matches.get(benchmarks.url)?.url).toBe(release.url);
+    expect(matches.has(unrelated.url)).toBe(false);
+  });
+
+  test("does not link similar embeddings without a shared entity", async () => {
+    const sameVector: Embedder = async (texts) => texts.map(() => [1, 0]);
+    const matches = await matchFollowUps([unrelated], [earlierArticle(release)], sameVector);
+
+    expect(matches.size).toBe(0);
+  });
+
+  test("falls back to a strong entity overlap when embeddings fail", async () => {
+    const failing: Embedder = async () => {
+      throw new Error("model not available");
+    };
+    const bunFollowUp = {
+      url: "https://example.com/bun-postgres",
+      title: "Benchmarking the Bun 1.2 Postgres client",
+    };
+
+    const matches = await matchFollowUps(
+      [bunFollowUp, benchmarks],
+      [earlierArticle(unrelated), earlierArticle(release)],
+      failing
+    );
+
+    // bun, bun 1.2, postgres shared
+    expect(matches.get(bunFollowUp.url)?.url).toBe(unrelated.url);
+    // Only "llama"/"llama 4" shared, out of a larger set
+    expect(matches.get(benchmarks.url)?.url).toBe(release.url);
+  });
+});
+
+describe("linkStories", () => {
+  beforeEach(async () => {
+    await ensureDb(":memory:");
+  });
+
+  afterEach(() => {
+    closeDb();
+  });
+
+  async function save(article: { url: string; title: string; summary: string }) {
+    await saveArticle({ ...article, source: "Test", category: "ai", notified: false });
+  }
+
+  test("starts a story from the earlier article and adds follow-ups to it", async () => {
+    await save(release);
+    await markAsNotified([release.url]);
+    await save(benchmarks);
+
+    const followUps = await linkStories([benchmarks], { embed: fakeEmbed });
+
+    const followUp = followUps.get(benchmarks.url);
+    expect(followUp).toMatchObject({ title: release.title, url: release.url });
+    const story = await getStory(followUp!.story_id);
+    expect(story?.title).toBe(release.title);
+    expect((await getStoryArticles(followUp!.story_id)).map((a) => a.url)).toEqual([
+      release.url,
+      benchmarks.url,
+    ]);
+
+    // A later post-mortem joins the same story through the follow-up
+    await markAsNotified([benchmarks.url]);
+    const postMortem = {
+      url: "https://example.com/llama-4-postmortem",
+      title: "What went wrong with the Llama 4 launch",
+      summary: "Llama 4の公開をめぐる振り返り",
+    };
+    await save(postMortem);
+
+    const later = await linkStories([postMortem], { embed: fakeEmbed });
+
+    expect(later.get(postMortem.url)?.story_id).toBe(followUp!.story_id);
+    expect((await getArticleByUrl(postMortem.url))?.story_id).toBe(followUp!.story_id);
+  });
+
+  test("ignores articles that were never notified", async () => {
+    await save(release);
+    await save(benchmarks);
+
+    const followUps = await linkStories([benchmarks], { embed: fakeEmbed });
+
+    expect(followUps.size).toBe(0);
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Story timelines
+ * A topic often develops over several days (a model release, then benchmarks,
+ * then a post-mortem). New articles are linked to an earlier notified article
+ * when they name the same entities and their embeddings are close, so the
+ * digest can present them as follow-ups and the web app can show the timeline.
+ */
+
+import { createStory, getRecentNotifiedArticles, setArticleStory, type Article } from "./db";
+
+/** Turns texts into vectors of equal length */
+export type Embedder = (texts: string[]) => Promise<number[][]>;
+
+export interface StoryArticle {
+  url: string;
+  title: string;
+  summary?: string;
+}
+
+/** The earlier article a new one follows up on */
+export interface FollowUp {
+  story_id: number;
+  title: string;
+  url: string;
+}
+
+export interface LinkStoriesOptions {
+  /** How far back to look for earlier coverage */
+  days?: number;
+  embed?: Embedder;
+}
+
+const STORY_WINDOW_DAYS = 14;
+// Cosine similarity above which two articles with a shared entity are the same topic
+const MIN_SIMILARITY = 0.7;
+// Without embeddings, names alone decide: most of the smaller set must be shared
+const MIN_SHARED_ENTITIES_WITHOUT_EMBEDDINGS = 2;
+const MIN_ENTITY_OVERLAP_WITHOUT_EMBEDDINGS = 0.5;
+
+// Product/organization names, optionally followed by a version ("Llama 4", "GPT-5", "Bun 1.2")
+const NAME_PATTERN = /[A-Za-z][A-Za-z0-9]*(?:[-.+][A-Za-z0-9]+)*(?:\s+v?\d+(?:\.\d+)*\b)?/g;
+
+// Capitalized in Title Case headlines, but not names
+const COMMON_WORDS = new Set([
+  "a",
+  "about",
+  "after",
+  "all",
+  "an",
+  "and",
+  "announcing",
+  "are",
+  "ask",
+  "at",
+  "be",
+  "before",
+  "better",
+  "build",
+  "building",
+  "built",
+  "by",
+  "can",
+  "day",
+  "do",
+  "does",
+  "faster",
+  "first",
+  "for",
+  "from",
+  "get",
+  "guide",
+  "here",
+  "hn",
+  "how",
+  "i",
+  "in",
+  "inside",
+  "into",
+  "introducing",
+  "is",
+  "it",
+  "its",
+  "launch",
+  "lessons",
+  "make",
+  "more",
+  "my",
+  "new",
+  "not",
+  "notes",
+  "now",
+  "of",
+  "on",
+  "open",
+  "our",
+  "over",
+  "part",
+  "release",
+  "released",
+  "releases",
+  "show",
+  "tell",
+  "that",
+  "the",
+  "this",
+  "to",
+  "today",
+  "update",
+  "use",
+  "using",
+  "via",
+  "vs",
+  "we",
+  "what",
+  "when",
+  "why",
+  "will",
+  "with",
+  "you",
+  "your",
+]);
+
+/**
+ * Default embedder: the search index's sentence encoder, loaded on first use
+ */
+const defaultEmbed: Embedder = async (texts) => {
+  const { embedTexts } = await import("./adapters/embeddings");
+  return embedTexts(texts);
+};
+
+function isNameLike(token: string): boolean {
+  if (/\d/.test(token)) return true;
+  if (COMMON_WORDS.has(token.toLowerCase())) return false;
+  // OpenAI, TypeScript, LLM, Rust
+  return /[a-z][A-Z]/.test(token) || /^[A-Z]/.test(token);
+}
+
+/**
+ * Names mentioned in a text, lowercased. Versioned names also add the bare
+ * name, so "Llama 4" matches later coverage that only says "Llama".
+ */
+export function extractEntities(text: string): Set<string> {
+  const entities = new Set<string>();
+  for (const [match] of text.normalize("NFKC").matchAll(NAME_PATTERN)) {
+    const [name = "", version] = match.split(/\s+/);
+    if (!isNameLike(name)) continue;
+    entities.add(name.toLowerCase());
+    if (version) entities.add(`${name} ${version}`.toLowerCase());
+  }
+  return entities;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i]! * b[i]!;
+    normA += a[i]! * a[i]!;
+    normB += b[i]! * b[i]!;
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function storyText(article: StoryArticle): string {
+  return article.summary ? `${article.title}. ${article.summary}` : article.title;
+}
+
+interface Candidate {
+  earlier: Article;
+  shared: number;
+  overlap: number;
+}
+
+/**
+ * Find the earlier article each new article follows up on
+ * Pairs must share at least one entity; among those, embedding similarity
+ * decides. When embeddings are unavailable, a strong entity overlap is required.
+ * @returns earlier article by new article URL
+ */
+export async function matchFollowUps(
+  articles: StoryArticle[],
+  earlier: Article[],
+  embed?: Embedder
+): Promise<Map<string, Article>> {
+  const matches = new Map<string, Article>();
+  const earlierEntities = earlier.map((a) => extractEntities(storyText(a)));
+
+  // Only pairs naming the same thing are worth embedding
+  const candidates = articles.map((article) => {
+    const entities = extractEntities(storyText(article));
+    return earlier.flatMap((prior, index): Candidate[] => {
+      const priorEntities = earlierEntities[index]!;
+      const shared = [...entities].filter((e) => priorEntities.has(e)).length;
+      if (shared === 0 || prior.url === article.url) return [];
+      const overlap = shared / Math.min(entities.size, priorEntities.size);
+      return [{ earlier: prior, shared, overlap }];
+    });
+  });
+  if (candidates.every((c) => c.length === 0)) return matches;
+
+  let vectors: Map<string, number[]> | null = null;
+  if (embed) {
+    const texts = [
+      ...new Set([
+        ...articles.filter((_, i) => candidates[i]!.length > 0).map(storyText),
+        ...candidates.flat().map((c) => storyText(c.earlier)),
+      ]),
+    ];
+    try {
+      const embedded = await embed(texts);
+      vectors = new Map(texts.map((text, i) => [text, embedded[i]!]));
+    } catch (error) {
+      console.warn(`[story] Embeddings unavailable, matching on entities only: ${error}`);
+    }
+  }
+
+  articles.forEach((article, i) => {
+    let best: { earlier: Article; score: number } | null = null;
+    for (const candidate of candidates[i]!) {
+      let score: number;
+      if (vectors) {
+        const a = vectors.get(storyText(article));
+        const b = vectors.get(storyText(candidate.earlier));
+        if (!a || !b) continue;
+        score = cosineSimilarity(a, b);
+        if (score < MIN_SIMILARITY) continue;
+      } else {
+        if (
+          candidate.shared < MIN_SHARED_ENTITIES_WITHOUT_EMBEDDINGS ||
+          candidate.overlap < MIN_ENTITY_OVERLAP_WITHOUT_EMBEDDINGS
+        ) {
+          continue;
+        }
+        score = candidate.overlap;
+      }
+      if (!best || score > best.score) best = { earlier: candidate.earlier, score };
+    }
+    if (best) matches.set(article.url, best.earlier);
+  });
+
+  return matches;
+}
+
+/**
+ * Link new (already saved) articles to stories of earlier notified articles
+ * A story is created from the earlier article the first time it gets a follow-up.
+ * @returns follow-up info by new article URL
+ */
+export async function linkStories(
+  articles: StoryArticle[],
+  options: LinkStoriesOptions = {}
+): Promise<Map<string, FollowUp>> {
+  const followUps = new Map<string, FollowUp>();
+  if (articles.length === 0) return followUps;
+
+  const newUrls = new Set(articles.map((a) => a.url));
+  const earlier = (await getRecentNotifiedArticles(options.days ?? STORY_WINDOW_DAYS)).filter(
+    (a) => !newUrls.has(a.url)
+  );
+  if (earlier.length === 0) return followUps;
+
+  const matches = await matchFollowUps(articles, earlier, options.embed ?? defaultEmbed);
+
+  // One at a time: several articles can follow up the same earlier one, which gets one story
+  await articles.reduce<Promise<void>>(async (previous, article) => {
+    await previous;
+    const prior = matches.get(article.url);
+    if (!prior) return;
+
+    if (prior.story_id === undefined || prior.story_id === null) {
+      prior.story_id = await createStory(prior.title);
+      await setArticleStory(prior.url, prior.story_id);
+    }
+    await setArticleStory(article.url, prior.story_id);
+    followUps.set(article.url, { story_id: prior.story_id, title: prior.title, url: prior.url });
+  }, Promise.resolve());
+
+  return followUps;
+}
@@ -0,0 +1,133 @@
+import { test, expect, describe, afterEach, mock } from "bun:test";
+import { join } from "node:path";
+import { extractMainContent } from "./content-extract";
+import { fetchArticleContentWithOgImage } from "./detailed-summary";
+
+function loadFixture(name: string): Promise<string> {
+  return Bun.file(join(import.meta.dir, "fixtures", name)).text();
+}
+
+describe("extractMainContent", () => {
+  test("extracts a WordPress post without comments, cookie banner or sidebar", async () => {
+    const content = await extractMainContent(await loadFixture("wordpress-blog.html"));
+
+    expect(content).toContain("# Why We Moved Our Queue From Redis to Postgres");
+    expect(content).toContain("## What went wrong with Redis");
+    expect(content).toContain("- Visibility into stuck jobs required a separate dashboard.");
+    expect(content).toContain("1. Dual-write new jobs to both queues behind a feature flag.");
+    expect(content).toContain("3. Drain Redis, then remove the Redis producer.");
+    expect(content).toContain("use `SELECT ... FOR UPDATE SKIP LOCKED`, which");
+    expect(content).toContain(
+      "```\nCREATE TABLE jobs (\n  id bigserial PRIMARY KEY,\n  queue text NOT NULL,"
+    );
+    expect(content).toContain("WHERE queue = 'webhooks' AND run_at <= now()");
+    expect(content).toContain("> Boring technology is a feature");
+    expect(content).toContain("it mostly worked — until the day");
+
+    expect(content).not.toContain("We use cookies");
+    expect(content).not.toContain("LISTEN/NOTIFY");
+    expect(content).not.toContain("Leave a comment");
+    expect(content).not.toContain("Share this");
+    expect(content).not.toContain("Running PgBouncer");
+    expect(content).not.toContain("Recent Posts");
+    expect(content).not.toContain("Proudly powered by WordPress");
+  });
+
+  test("extracts a news article from div soup without ads or link lists", async () => {
+    const content = await extractMainContent(await loadFixture("news-site.html"));
+
+    expect(content).toContain("detailed its first 2-nanometer manufacturing process");
+    expect(content).toContain("Analysts were cautious.");
+    expect(content).toContain("moves power wiring beneath the transistors");
+    // 段落の区切りは保たれる
+    expect(content.split("\n\n").length).toBe(5);
+
+    expect(content).not.toContain("847 partners");
+    expect(content).not.toContain("Advertisement");
+    expect(content).not.toContain("Why 3nm yields disappointed");
+    expect(content).not.toContain("newsletter");
+    expect(content).not.toContain("Most read");
+    expect(content).not.toContain("Privacy policy");
+  });
+
+  test("keeps code blocks, nested lists and tables on a docs page", async () => {
+    const content = await extractMainContent(await loadFixture("docs-page.html"));
+
+    expect(content).toContain("# Middleware\n");
+    expect(content).toContain("## Definition\n");
+    expect(content).toContain(
+      "```\napp.use(async (c, next) => {\n  const start = Date.now()\n  await next()"
+    );
+    expect(content).toContain("2. Middleware 2 start\n  - Handler\n3. Middleware 2 end");
+    expect(content).toContain("Built-in | Import\n\nCORS | honolike/cors");
+    expect(content).toContain("the request will hang until it times out.");
+    expect(content).not.toContain("​");
+
+    expect(content).not.toContain("Getting started");
+    expect(content).not.toContain("On this page");
+    expect(content).not.toContain("Edit this page");
+    expect(content).not.toContain("Next page");
+  });
+
+  test("extracts a Japanese tech blog post", async () => {
+    const content = await extractMainContent(await loadFixture("japanese-tech-blog.html"));
+
+    expect(content).toContain("## はじめに");
+    expect(content).toContain("## ハマったポイント");
+    expect(content).toContain("1. `jest.mock` を `mock.module` に置き換える");
+    expect(content).toContain("- fetchのモックは必ず `afterEach` で元に戻す");
+    expect(content).toContain('```\n{\n  "scripts": {');
+    expect(content).toContain("CIのテスト時間は12分から1分10秒になり");
+
+    expect(content).not.toContain("いいね");
+    expect(content).not.toContain("ディスカッション");
+    expect(content).not.toContain("Vitestとの比較");
+    expect(content).not.toContain("こちらの記事もおすすめ");
+    expect(content).not.toContain("バックエンドエンジニア");
+  });
+
+  test("handles table layouts with unclosed paragraphs and list items", async () => {
+    const content = await extractMainContent(await loadFixture("legacy-table-layout.html"));
+
+    expect(content).toStartWith("## Notes on writing a tiny Forth interpreter");
+    expect(content).toContain("### The dictionary");
+    expect(content).toContain("```\nvoid run(cell *ip) {\n    for (;;) {");
+    expect(content).toContain(
+      "Things that surprised me:\n\n- Immediate words are the whole trick behind control structures.\n- IF and THEN"
+    );
+    expect(content).toContain("The source is available here, public domain.");
+
+    expect(content).not.toContain("Essays");
+    expect(content).not.toContain("Last modified");
+  });
+
+  test("falls back to the whole page when there are no paragraphs", async () => {
+    const content = await extractMainContent(
+      "<html><body><nav>Menu</nav><span>Short note</span></body></html>"
+    );
+    expect(content).toBe("Short note");
+  });
+});
+
+describe("fetchArticleContentWithOgImage", () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("extracts main content and og:image from HTML pages", async () => {
+    const html = await loadFixture("wordpress-blog.html");
+    globalThis.fetch = mock(
+      async () => new Response(html, { status: 200, headers: { "Content-Type": "text/html" } })
+    ) as unknown as typeof fetch;
+
+    const result = await fetchArticleContentWithOgImage("https://backenddiaries.example.com/queue");
+
+    expect(result.ogImage).toBe(
+      "https://backenddiaries.example.com/wp-content/uploads/2024/05/queue.png"
+    );
+    expect(result.content).toStartWith("# Why We Moved Our Queue From Redis to Postgres");
+    expect(result.content).not.toContain("We use cookies");
+  });
+});
@@ -0,0 +1,452 @@
+/**
+ * 本文抽出（Readability方式）
+ * HTMLRewriterで簡易DOMを組み立て、段落ごとのスコアを祖先要素に加算して
+ * 本文コンテナを選ぶ。コメント欄・Cookieバナー・関連記事リストなどは
+ * class/id とリンク密度で除外し、見出し・リスト・コードブロックは構造を残したテキストにする。
+ */
+
+/** 抽出結果の最大文字数（トークン節約） */
+const MAX_CONTENT_LENGTH = 15000;
+const MIN_PARAGRAPH_LENGTH = 25;
+
+interface HtmlElement {
+  tag: string;
+  /** class と id を連結したもの（スコア判定用） */
+  matchString: string;
+  children: HtmlNode[];
+  parent: HtmlElement | null;
+  closed: boolean;
+}
+
+type HtmlNode = HtmlElement | string;
+
+// 中身ごと捨てる要素
+const SKIPPED_TAGS = new Set([
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "svg",
+  "canvas",
+  "iframe",
+  "object",
+  "embed",
+  "button",
+  "select",
+  "textarea",
+  "nav",
+  "aside",
+  "footer",
+  "dialog",
+]);
+const SKIPPED_ROLES = new Set(["navigation", "complementary", "contentinfo", "dialog", "alert"]);
+
+// Readability の unlikelyCandidates / okMaybeItsACandidate 相当
+const UNLIKELY =
+  /-ad-|ad-break|banner|breadcrumb|combx|comment|community|consent|cookie|disqus|extra|gdpr|header|legends|menu|modal|newsletter|pager|pagination|popup|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|tags|toolbar|tweet|twitter/i;
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|post|shadow|entry|story/i;
+const POSITIVE =
+  /article|body|content|entry|hentry|h-entry|main|page|pagination|post|text|blog|story/i;
+const NEGATIVE =
+  /-ad-|hidden|^hid$| hid$| hid |^hid |banner|combx|comment|com-|contact|cookie|foot|footer|footnote|gdpr|masthead|media|meta|modal|outbrain|popup|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|social|subscribe|tags|tool|widget/i;
+
+const BLOCK_TAGS = new Set([
+  "address",
+  "article",
+  "blockquote",
+  "dd",
+  "div",
+  "dl",
+  "dt",
+  "figure",
+  "figcaption",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hr",
+  "li",
+  "main",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "table",
+  "tbody",
+  "td",
+  "th",
+  "thead",
+  "tr",
+  "ul",
+]);
+const PARAGRAPH_TAGS = new Set(["p", "pre", "blockquote"]);
+// ブロック要素を含まなければ段落として扱う要素（レイアウト用テーブルの td など）
+const PARAGRAPH_LIKE_TAGS = new Set(["div", "section", "td"]);
+// 開くと <p> を暗黙に閉じる要素（HTML仕様の一部）
+const CLOSES_PARAGRAPH = new Set(
+  [...BLOCK_TAGS].filter(
+    (tag) => !["td", "th", "tr", "tbody", "thead", "dd", "dt", "li"].includes(tag)
+  )
+);
+const HEADING = /^h([1-6])$/;
+// 広告枠のラベルだけの要素（Readability の adWords 相当）
+const AD_WORDS = /^(ad(vertising|vertisement)?|sponsored|pr|広告|スポンサーリンク)$/i;
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  mdash: "—",
+  ndash: "–",
+  hellip: "…",
+  laquo: "«",
+  raquo: "»",
+  ldquo: "“",
+  rdquo: "”",
+  lsquo: "‘",
+  rsquo: "’",
+  copy: "©",
+};
+
+function decodeHtml(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code =
+        entity[1] === "x" || entity[1] === "X"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff
+        ? String.fromCodePoint(code)
+        : match;
+    }
+    return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function isSkipped(el: HTMLRewriterTypes.Element, tag: string, matchString: string): boolean {
+  if (SKIPPED_TAGS.has(tag)) return true;
+  if (el.hasAttribute("hidden") || el.getAttribute("aria-hidden") === "true") return true;
+  if (/display:\s*none/i.test(el.getAttribute("style") ?? "")) return true;
+  const role = el.getAttribute("role");
+  if (role && SKIPPED_ROLES.has(role)) return true;
+  if (["html", "body", "article", "main", "a"].includes(tag)) return false;
+  return UNLIKELY.test(matchString) && !MAYBE_CANDIDATE.test(matchString);
+}
+
+/**
+ * HTMLRewriterで要素ツリーを組み立てる
+ * 不要な要素（script, nav, コメント欄など）は中身ごと読み飛ばす。
+ */
+async function parseHtml(html: string): Promise<HtmlElement> {
+  const root: HtmlElement = {
+    tag: "#root",
+    matchString: "",
+    children: [],
+    parent: null,
+    closed: false,
+  };
+  let current = root;
+  let skipDepth = 0;
+
+  const close = (node: HtmlElement) => {
+    if (node.closed) return;
+    // 閉じ忘れた子孫もまとめて閉じる
+    while (current !== node && current.parent) {
+      current.closed = true;
+      current = current.parent;
+    }
+    node.closed = true;
+    current = node.parent ?? root;
+  };
+
+  await new HTMLRewriter()
+    .on("*", {
+      element(el) {
+        const tag = el.tagName.toLowerCase();
+        if (skipDepth > 0) {
+          if (el.canHaveContent) {
+            skipDepth++;
+            el.onEndTag(() => {
+              skipDepth--;
+            });
+          }
+          return;
+        }
+
+        const matchString = `${el.getAttribute("class") ?? ""} ${el.getAttribute("id") ?? ""}`;
+        if (isSkipped(el, tag, matchString)) {
+          if (el.canHaveContent) {
+            skipDepth = 1;
+            el.onEndTag(() => {
+              skipDepth = 0;
+            });
+          }
+          return;
+        }
+
+        // <p>text<div> のような暗黙の終了
+        if (current.tag === "p" && CLOSES_PARAGRAPH.has(tag)) close(current);
+        if (tag === "li" && current.tag === "li") close(current);
+
+        const node: HtmlElement = {
+          tag,
+          matchString,
+          children: [],
+          parent: current,
+          closed: false,
+        };
+        current.children.push(node);
+        if (!el.canHaveContent) {
+          node.closed = true;
+          return;
+        }
+        current = node;
+        el.onEndTag(() => close(node));
+      },
+      text(chunk) {
+        if (skipDepth > 0 || !chunk.text) return;
+        // ゼロ幅スペース（見出しのアンカーリンクなど）は落とす
+        current.children.push(decodeHtml(chunk.text).replace(/\u200b/g, ""));
+      },
+    })
+    .transform(new Response(html))
+    .text();
+
+  return root;
+}
+
+function innerText(node: HtmlNode): string {
+  if (typeof node === "string") return node;
+  return node.children.map(innerText).join("");
+}
+
+function normalizedText(node: HtmlNode): string {
+  return innerText(node).replace(/\s+/g, " ").trim();
+}
+
+function linkDensity(node: HtmlElement): number {
+  const length = normalizedText(node).length;
+  if (length === 0) return 0;
+  let linkLength = 0;
+  const visit = (n: HtmlNode) => {
+    if (typeof n === "string") return;
+    if (n.tag === "a") linkLength += normalizedText(n).length;
+    else n.children.forEach(visit);
+  };
+  visit(node);
+  return linkLength / length;
+}
+
+function classWeight(node: HtmlElement): number {
+  let weight = 0;
+  if (NEGATIVE.test(node.matchString)) weight -= 25;
+  if (POSITIVE.test(node.matchString)) weight += 25;
+  return weight;
+}
+
+function initialScore(node: HtmlElement): number {
+  let score = classWeight(node);
+  if (node.tag === "div" || node.tag === "article" || node.tag === "main") score += 5;
+  else if (["pre", "td", "blockquote", "section"].includes(node.tag)) score += 3;
+  else if (["address", "ol", "ul", "dl", "dd", "dt", "li", "form"].includes(node.tag)) score -= 3;
+  else if (HEADING.test(node.tag) || node.tag === "th") score -= 5;
+  return score;
+}
+
+function hasBlockChild(node: HtmlElement): boolean {
+  return node.children.some((child) => typeof child !== "string" && BLOCK_TAGS.has(child.tag));
+}
+
+function elements(node: HtmlElement): HtmlElement[] {
+  const result: HtmlElement[] = [];
+  const visit = (n: HtmlElement) => {
+    result.push(n);
+    for (const child of n.children) if (typeof child !== "string") visit(child);
+  };
+  visit(node);
+  return result;
+}
+
+/**
+ * 段落のスコアを祖先に配分し、本文コンテナを選ぶ
+ * 兄弟要素にも本文が続いていれば一緒に返す。
+ */
+function findContent(root: HtmlElement): HtmlElement[] {
+  const scores = new Map<HtmlElement, number>();
+
+  for (const node of elements(root)) {
+    const isParagraph =
+      PARAGRAPH_TAGS.has(node.tag) || (PARAGRAPH_LIKE_TAGS.has(node.tag) && !hasBlockChild(node));
+    if (!isParagraph) continue;
+
+    const text = normalizedText(node);
+    if (text.length < MIN_PARAGRAPH_LENGTH) continue;
+
+    const score =
+      1 + (text.match(/[,、，]/g)?.length ?? 0) + Math.min(Math.floor(text.length / 100), 3);
+
+    let ancestor = node.parent;
+    for (let level = 0; ancestor && ancestor !== root && level < 5; level++) {
+      if (!scores.has(ancestor)) scores.set(ancestor, initialScore(ancestor));
+      const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+      scores.set(ancestor, scores.get(ancestor)! + score / divider);
+      ancestor = ancestor.parent;
+    }
+  }
+
+  let top: HtmlElement | null = null;
+  let topScore = 0;
+  for (const [node, score] of scores) {
+    const finalScore = score * (1 - linkDensity(node));
+    scores.set(node, finalScore);
+    if (finalScore > topScore) {
+      top = node;
+      topScore = finalScore;
+    }
+  }
+  if (!top) return [root];
+
+  const siblings = top.parent?.children ?? [top];
+  const threshold = Math.max(10, topScore * 0.2);
+  return siblings.filter((sibling): sibling is HtmlElement => {
+    if (typeof sibling === "string") return false;
+    if (sibling === top) return true;
+    if ((scores.get(sibling) ?? 0) + (classWeight(sibling) > 0 ? topScore * 0.2 : 0) >= threshold) {
+      return true;
+    }
+    if (sibling.tag !== "p") return false;
+    const text = normalizedText(sibling);
+    const density = linkDensity(sibling);
+    return (
+      (text.length > 80 && density < 0.25) ||
+      (text.length > 0 && density === 0 && /\.( |$)/.test(text))
+    );
+  });
+}
+
+/**
+ * 本文中のリンク集（関連記事・タグ一覧など）は除く
+ */
+function isBoilerplate(node: HtmlElement): boolean {
+  if (!["div", "section", "ul", "ol", "table", "header", "figure"].includes(node.tag)) return false;
+  if (classWeight(node) < 0) return true;
+  const text = normalizedText(node);
+  if (AD_WORDS.test(text)) return true;
+  return text.length > 0 && linkDensity(node) > 0.5;
+}
+
+function renderInline(node: HtmlNode): string {
+  if (typeof node === "string") return node.replace(/\s+/g, " ");
+  if (node.tag === "br") return "\n";
+  if (node.tag === "img") return "";
+  const text = node.children.map(renderInline).join("");
+  if (node.tag === "code" && text.trim()) return `\`${text.trim()}\``;
+  return text;
+}
+
+/**
+ * 要素ツリーを構造付きテキストにする
+ * 見出しは "## 見出し"、リストは "- 項目" / "1. 項目"、コードブロックは ``` で囲む。
+ */
+function renderBlocks(
+  nodes: HtmlNode[],
+  blocks: string[],
+  listDepth = 0,
+  dropBoilerplate = true
+): void {
+  let inline = "";
+  const flush = () => {
+    const text = inline
+      .replace(/[ \t\r\f\v]+/g, " ")
+      .replace(/ *\n */g, "\n")
+      .trim();
+    if (text) blocks.push(text);
+    inline = "";
+  };
+
+  for (const node of nodes) {
+    if (typeof node === "string" || !BLOCK_TAGS.has(node.tag)) {
+      inline += renderInline(node);
+      continue;
+    }
+    if (dropBoilerplate && isBoilerplate(node)) continue;
+    flush();
+
+    const heading = node.tag.match(HEADING);
+    if (heading) {
+      const text = normalizedText(node);
+      if (text) blocks.push(`${"#".repeat(Number(heading[1]))} ${text}`);
+    } else if (node.tag === "pre") {
+      const code = innerText(node).replace(/^\n+|\s+$/g, "");
+      if (code) blocks.push(`\`\`\`\n${code}\n\`\`\``);
+    } else if (node.tag === "ul" || node.tag === "ol") {
+      const lines = renderList(node, listDepth);
+      if (lines) blocks.push(lines);
+    } else if (node.tag === "blockquote") {
+      const quoted: string[] = [];
+      renderBlocks(node.children, quoted, listDepth);
+      if (quoted.length > 0) {
+        blocks.push(
+          quoted
+            .join("\n\n")
+            .split("\n")
+            .map((line) => (line ? `> ${line}` : ">"))
+            .join("\n")
+        );
+      }
+    } else if (node.tag === "tr") {
+      const cells = node.children
+        .filter(
+          (c): c is HtmlElement => typeof c !== "string" && (c.tag === "td" || c.tag === "th")
+        )
+        .map((c) => normalizedText(c));
+      if (cells.some(Boolean)) blocks.push(cells.join(" | "));
+    } else if (node.tag !== "hr") {
+      renderBlocks(node.children, blocks, listDepth);
+    }
+  }
+  flush();
+}
+
+function renderList(list: HtmlElement, depth: number): string {
+  const indent = "  ".repeat(depth);
+  const lines: string[] = [];
+  let index = 1;
+  for (const item of list.children) {
+    if (typeof item === "string" || item.tag !== "li") continue;
+    const marker = list.tag === "ol" ? `${index++}.` : "-";
+
+    const own = item.children.filter(
+      (c) => typeof c === "string" || (c.tag !== "ul" && c.tag !== "ol")
+    );
+    const blocks: string[] = [];
+    renderBlocks(own, blocks, depth + 1);
+    const text = blocks.join(" ").replace(/\s*\n\s*/g, " ");
+    if (text) lines.push(`${indent}${marker} ${text}`);
+
+    for (const nested of item.children) {
+      if (typeof nested !== "string" && (nested.tag === "ul" || nested.tag === "ol")) {
+        const nestedLines = renderList(nested, depth + 1);
+        if (nestedLines) lines.push(nestedLines);
+      }
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * HTMLからメインコンテンツを構造付きテキストとして抽出する
+ */
+export async function extractMainContent(html: string): Promise<string> {
+  const root = await parseHtml(html);
+  const blocks: string[] = [];
+  // 選ばれた本文コンテナ自体はリンク集判定にかけない
+  renderBlocks(findContent(root), blocks, 0, false);
+  return blocks.join("\n\n").slice(0, MAX_CONTENT_LENGTH);
+}
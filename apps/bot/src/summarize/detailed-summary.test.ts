@@ -0,0 +1,217 @@
+import { test, expect, describe, beforeEach, afterEach, mock } from "bun:test";
+import { ensureDb, closeDb, getDb, getArticleContent, saveArticleContent } from "../db";
+import type { ArticleContent } from "../db";
+import { createLlmClient } from "../llm/providers";
+import { resolveLlmSettings } from "../llm/stages";
+import {
+  extractCanonicalUrl,
+  generateDetailedSummary,
+  isArticleContentStale,
+  loadArticleContent,
+} from "./detailed-summary";
+
+const llm = createLlmClient(
+  "detailed_summary",
+  resolveLlmSettings("detailed_summary", {}, { GROQ_API_KEY: "test-api-key" })
+);
+
+process.env.SKIP_SEARCH_INDEX = "1";
+
+const ARTICLE_URL = "https://example.com/post";
+const ARTICLE_HTML = `<html><head><meta property="og:image" content="https://example.com/og.png"></head>
+<body><article><p>${"Postgres queues are durable because enqueueing shares the transaction. ".repeat(4)}</p></article></body></html>`;
+
+function requestUrl(input: RequestInfo | URL): string {
+  return typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+}
+
+function storedEntry(overrides: Partial<ArticleContent>): ArticleContent {
+  return {
+    url: ARTICLE_URL,
+    content: "text",
+    content_hash: "hash",
+    og_image: null,
+    canonical_url: null,
+    status: "ok",
+    error: null,
+    fetched_at: "2024-06-01 00:00:00",
+    ...overrides,
+  };
+}
+
+describe("isArticleContentStale", () => {
+  test("keeps extracted text for 30 days", () => {
+    const entry = storedEntry({ status: "ok" });
+    expect(isArticleContentStale(entry, new Date("2024-06-30T00:00:00Z"))).toBe(false);
+    expect(isArticleContentStale(entry, new Date("2024-07-02T00:00:00Z"))).toBe(true);
+  });
+
+  test("retries failed fetches after a few hours", () => {
+    const entry = storedEntry({ status: "error", content: null });
+    expect(isArticleContentStale(entry, new Date("2024-06-01T05:00:00Z"))).toBe(false);
+    expect(isArticleContentStale(entry, new Date("2024-06-01T07:00:00Z"))).toBe(true);
+  });
+
+  test("treats unparseable timestamps as stale", () => {
+    expect(isArticleContentStale(storedEntry({ fetched_at: "" }))).toBe(true);
+  });
+});
+
+describe("extractCanonicalUrl", () => {
+  test("reads rel=canonical in either attribute order and resolves relative URLs", () => {
+    expect(
+      extractCanonicalUrl(
+        '<link rel="canonical" href="https://example.com/post">',
+        "https://example.com/post/amp"
+      )
+    ).toBe("https://example.com/post");
+    expect(
+      extractCanonicalUrl(
+        "<link href='/2024/post' rel='canonical' />",
+        "https://example.com/p?id=1"
+      )
+    ).toBe("https://example.com/2024/post");
+  });
+
+  test("ignores pages without a usable canonical link", () => {
+    expect(extractCanonicalUrl('<link rel="stylesheet" href="/a.css">', ARTICLE_URL)).toBeNull();
+    expect(
+      extractCanonicalUrl('<link rel="canonical" href="javascript:void(0)">', ARTICLE_URL)
+    ).toBeNull();
+  });
+});
+
+describe("loadArticleContent", () => {
+  const originalFetch = globalThis.fetch;
+
+  beforeEach(async () => {
+    await ensureDb(":memory:");
+  });
+
+  afterEach(() => {
+    closeDb();
+    globalThis.fetch = originalFetch;
+  });
+
+  test("stores fetched text and reuses it without downloading again", async () => {
+    const fetchMock = mock(async () => new Response(ARTICLE_HTML, { status: 200 }));
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+    const first = await loadArticleContent(ARTICLE_URL);
+    const second = await loadArticleContent(ARTICLE_URL);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(second).toEqual(first);
+    expect(second.ogImage).toBe("https://example.com/og.png");
+
+    const stored = await getArticleContent(ARTICLE_URL);
+    expect(stored?.status).toBe("ok");
+    expect(stored?.content).toContain("Postgres queues are durable");
+    expect(stored?.content_hash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  test("stores and returns the canonical URL declared by the page", async () => {
+    const html = ARTICLE_HTML.replace(
+      "<head>",
+      '<head><link rel="canonical" href="https://example.com/2024/post">'
+    );
+    const fetchMock = mock(async () => new Response(html, { status: 200 }));
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+    const first = await loadArticleContent(ARTICLE_URL);
+    const cached = await loadArticleContent(ARTICLE_URL);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(first.canonicalUrl).toBe("https://example.com/2024/post");
+    expect(cached.canonicalUrl).toBe("https://example.com/2024/post");
+    expect((await getArticleContent(ARTICLE_URL))?.canonical_url).toBe(
+      "https://example.com/2024/post"
+    );
+  });
+
+  test("refetches stale text", async () => {
+    await saveArticleContent(ARTICLE_URL, {
+      content: "Old text",
+      contentHash: "old",
+      status: "ok",
+    });
+    const db = await getDb();
+    await db.execute({
+      sql: "UPDATE article_contents SET fetched_at = datetime('now', '-60 days') WHERE url = ?",
+      args: [ARTICLE_URL],
+    });
+    globalThis.fetch = mock(
+      async () => new Response(ARTICLE_HTML, { status: 200 })
+    ) as unknown as typeof fetch;
+
+    const result = await loadArticleContent(ARTICLE_URL);
+
+    expect(result.content).toContain("Postgres queues are durable");
+    expect((await getArticleContent(ARTICLE_URL))?.content).toBe(result.content);
+  });
+
+  test("records failed fetches with the reason", async () => {
+    globalThis.fetch = mock(
+      async () => new Response("Service Unavailable", { status: 503 })
+    ) as unknown as typeof fetch;
+
+    const result = await loadArticleContent(ARTICLE_URL);
+
+    expect(result.content).toBe("");
+    const stored = await getArticleContent(ARTICLE_URL);
+    expect(stored?.status).toBe("error");
+    expect(stored?.error).toBe("HTTP 503");
+  });
+
+  test("keeps stored text when a forced refresh fails", async () => {
+    await saveArticleContent(ARTICLE_URL, {
+      content: "Stored text",
+      contentHash: "hash",
+      status: "ok",
+    });
+    globalThis.fetch = mock(async () => {
+      throw new Error("network down");
+    }) as unknown as typeof fetch;
+
+    const result = await loadArticleContent(ARTICLE_URL, { refresh: true });
+
+    expect(result.content).toBe("Stored text");
+    expect((await getArticleContent(ARTICLE_URL))?.status).toBe("ok");
+  });
+
+  test("generateDetailedSummary uses stored text instead of refetching the page", async () => {
+    const storedText = "Stored article body about durable queues. ".repeat(5);
+    await saveArticleContent(ARTICLE_URL, { content: storedText, contentHash: "h", status: "ok" });
+
+    const requested: string[] = [];
+    let prompt = "";
+    globalThis.fetch = mock(async (input: RequestInfo | URL, init?: RequestInit) => {
+      requested.push(requestUrl(input));
+      prompt = String(init?.body ?? "");
+      return new Response(
+        JSON.stringify({
+          choices: [
+            {
+              message: {
+                content: JSON.stringify({
+                  detailedSummary: "保存済みの本文から生成した要約です。",
+                  keyPoints: ["再取得しない"],
+                }),
+              },
+            },
+          ],
+        }),
+        { status: 200 }
+      );
+    }) as unknown as typeof fetch;
+
+    const result = await generateDetailedSummary(
+      { title: "Queues", url: ARTICLE_URL, source: "Test", category: "tech" },
+      llm
+    );
+
+    expect(requested).toEqual(["https://api.groq.com/openai/v1/chat/completions"]);
+    expect(prompt).toContain("Stored article body about durable queues.");
+    expect(result.detailedSummary).toBe("保存済みの本文から生成した要約です。");
+  });
+});
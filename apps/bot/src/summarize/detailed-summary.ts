@@ -3,14 +3,38 @@
  * 論文やテック記事のコンテンツを深く読み込んで、詳細な要旨を生成する
  */
 
+import {
+  getArticleContent,
+  saveArticleContent,
+  type ArticleContent,
+  type ArticleContentStatus,
+} from "../db";
 import { RateLimitError } from "../utils/retry";
+import { LlmError, type LlmClient } from "../llm/client";
+import { detailedSummarySchema } from "../llm/schemas";
+import { LlmSchemaError, completeStructured } from "../llm/structured";
+import { extractMainContent } from "./content-extract";
+import { extractTextFromPdf, isPdfResponse, MAX_PDF_BYTES } from "./pdf-extract";
 
 /** Maximum URL length for OG images (avoid abnormally long URLs) */
 const MAX_OG_IMAGE_URL_LENGTH = 2048;
 
+/** 保存済み本文を再取得するまでの時間（取得結果ごと） */
+const CONTENT_TTL_HOURS: Record<ArticleContentStatus, number> = {
+  // 公開済みの記事本文はほとんど変わらない
+  ok: 24 * 30,
+  empty: 24,
+  // 一時的な障害の可能性があるので早めに再試行
+  error: 6,
+};
+
 export interface FetchArticleResult {
   content: string;
   ogImage: string | null;
+  /** ページが示す正規URL（rel=canonical、なければリダイレクト後のURL） */
+  canonicalUrl?: string;
+  /** 取得失敗時の理由（HTTPステータスや例外メッセージ） */
+  error?: string;
 }
 export interface DetailedSummaryResult {
   title: string;
@@ -54,6 +78,23 @@ function extractOgImage(html: string): string | null {
   return null;
 }
 
+/**
+ * HTMLから <link rel="canonical"> のURLを抽出する（相対URLは解決する）
+ */
+export function extractCanonicalUrl(html: string, baseUrl: string): string | null {
+  const match =
+    html.match(/<link[^>]+rel=["']canonical["'][^>]+href=["']([^"']+)["']/i) ||
+    html.match(/<link[^>]+href=["']([^"']+)["'][^>]+rel=["']canonical["']/i);
+  if (!match || !match[1]) return null;
+
+  try {
+    const url = new URL(match[1].trim(), baseUrl);
+    return url.protocol === "http:" || url.protocol === "https:" ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * URLからコンテンツとOG画像を取得する
  */
@@ -69,68 +110,152 @@ export async function fetchArticleContentWithOgImage(url: string): Promise<Fetch
 
     if (!response.ok) {
       console.error(`Failed to fetch article: ${response.status}`);
-      return { content: "", ogImage: null };
+      return { content: "", ogImage: null, error: `HTTP ${response.status}` };
+    }
+
+    // PDF（論文など）はテキストを抽出する
+    if (isPdfResponse(response, url)) {
+      return { content: await fetchPdfContent(response, url), ogImage: null };
     }
 
     const html = await response.text();
 
-    // HTMLからテキストを抽出
-    const content = extractTextFromHtml(html);
+    // HTMLから本文を抽出
+    const content = await extractMainContent(html);
     // OG画像を抽出
     const ogImage = extractOgImage(html);
+    // 正規URL: rel=canonical を優先し、なければリダイレクト先
+    const finalUrl = response.url || url;
+    const canonicalUrl =
+      extractCanonicalUrl(html, finalUrl) ?? (finalUrl !== url ? finalUrl : undefined);
 
-    return { content, ogImage };
+    return { content, ogImage, ...(canonicalUrl ? { canonicalUrl } : {}) };
   } catch (error) {
     console.error(`Error fetching article content: ${error}`);
-    return { content: "", ogImage: null };
+    return { content: "", ogImage: null, error: String(error) };
   }
 }
 
 /**
- * URLからコンテンツを取得する (後方互換性のため維持)
+ * レスポンス本文を最大 maxBytes まで読む（超えた時点で中断して null）
+ * Content-Length がない・偽っている場合もメモリに載せすぎないようにストリームで数える
  */
-export async function fetchArticleContent(url: string): Promise<string> {
-  const result = await fetchArticleContentWithOgImage(url);
-  return result.content;
+async function readBodyWithLimit(response: Response, maxBytes: number): Promise<Uint8Array | null> {
+  if (!response.body) return new Uint8Array(await response.arrayBuffer());
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  const readAll = async (): Promise<boolean> => {
+    const { done, value } = await reader.read();
+    if (done) return true;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      return false;
+    }
+    chunks.push(value);
+    return readAll();
+  };
+  if (!(await readAll())) return null;
+
+  const data = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return data;
+}
+
+/**
+ * PDFレスポンスから本文を抽出する（大きすぎる・PDFでない場合は空）
+ */
+async function fetchPdfContent(response: Response, url: string): Promise<string> {
+  const length = Number(response.headers.get("Content-Length") ?? 0);
+  if (length > MAX_PDF_BYTES) {
+    console.warn(`[detailed-summary] PDF too large (${length} bytes), skipping: ${url}`);
+    return "";
+  }
+
+  const data = await readBodyWithLimit(response, MAX_PDF_BYTES);
+  if (!data) {
+    console.warn(`[detailed-summary] PDF larger than ${MAX_PDF_BYTES} bytes, skipping: ${url}`);
+    return "";
+  }
+  if (new TextDecoder().decode(data.subarray(0, 5)) !== "%PDF-") {
+    console.warn(`[detailed-summary] Not a PDF, skipping: ${url}`);
+    return "";
+  }
+  return extractTextFromPdf(data);
+}
+
+function hashContent(content: string): string {
+  return new Bun.CryptoHasher("sha256").update(content).digest("hex");
 }
 
 /**
- * HTMLからメインコンテンツのテキストを抽出
+ * 保存済み本文が古くなっていて再取得が必要か
  */
-function extractTextFromHtml(html: string): string {
-  // scriptとstyleタグを除去
-  let text = html
-    .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, "")
-    .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, "")
-    .replace(/<nav[^>]*>[\s\S]*?<\/nav>/gi, "")
-    .replace(/<header[^>]*>[\s\S]*?<\/header>/gi, "")
-    .replace(/<footer[^>]*>[\s\S]*?<\/footer>/gi, "")
-    .replace(/<aside[^>]*>[\s\S]*?<\/aside>/gi, "");
-
-  // article, main, または content クラスの内容を優先
-  const articleMatch = html.match(/<article[^>]*>([\s\S]*?)<\/article>/i);
-  const mainMatch = html.match(/<main[^>]*>([\s\S]*?)<\/main>/i);
-
-  if (articleMatch && articleMatch[1]) {
-    text = articleMatch[1];
-  } else if (mainMatch && mainMatch[1]) {
-    text = mainMatch[1];
+export function isArticleContentStale(entry: ArticleContent, now: Date = new Date()): boolean {
+  // fetched_at は SQLite の CURRENT_TIMESTAMP（UTC, "YYYY-MM-DD HH:MM:SS"）
+  const fetchedAt = Date.parse(`${entry.fetched_at.replace(" ", "T")}Z`);
+  if (Number.isNaN(fetchedAt)) return true;
+  const ttlHours = CONTENT_TTL_HOURS[entry.status] ?? 0;
+  return now.getTime() - fetchedAt > ttlHours * 60 * 60 * 1000;
+}
+
+/**
+ * 本文とOG画像を取得する
+ * 取得結果は article_contents に保存し、古くなるまでは再ダウンロードせずに使う。
+ * 再取得に失敗した場合は保存済みの本文を返す。
+ */
+export async function loadArticleContent(
+  url: string,
+  options: { refresh?: boolean } = {}
+): Promise<FetchArticleResult> {
+  const stored = await getArticleContent(url).catch((error) => {
+    console.warn(`[detailed-summary] Could not read stored content: ${error}`);
+    return null;
+  });
+  if (stored && !options.refresh && !isArticleContentStale(stored)) {
+    return {
+      content: stored.content || "",
+      ogImage: stored.og_image,
+      ...(stored.canonical_url ? { canonicalUrl: stored.canonical_url } : {}),
+      ...(stored.error ? { error: stored.error } : {}),
+    };
+  }
+
+  const result = await fetchArticleContentWithOgImage(url);
+  if (result.error && stored?.status === "ok") {
+    return {
+      content: stored.content || "",
+      ogImage: stored.og_image,
+      ...(stored.canonical_url ? { canonicalUrl: stored.canonical_url } : {}),
+    };
   }
 
-  // HTMLタグを除去
-  text = text
-    .replace(/<[^>]+>/g, " ")
-    .replace(/&nbsp;/g, " ")
-    .replace(/&amp;/g, "&")
-    .replace(/&lt;/g, "<")
-    .replace(/&gt;/g, ">")
-    .replace(/&quot;/g, '"')
-    .replace(/&#39;/g, "'")
-    .replace(/\s+/g, " ")
-    .trim();
-
-  // 最大文字数を制限（トークン節約）
-  return text.slice(0, 15000);
+  const content = result.content || null;
+  await saveArticleContent(url, {
+    content,
+    contentHash: content && hashContent(content),
+    ogImage: result.ogImage,
+    canonicalUrl: result.canonicalUrl,
+    status: result.error ? "error" : content ? "ok" : "empty",
+    error: result.error,
+  }).catch((error) => {
+    console.warn(`[detailed-summary] Could not store content: ${error}`);
+  });
+  return result;
+}
+
+/**
+ * URLからコンテンツを取得する (後方互換性のため維持)
+ */
+export async function fetchArticleContent(url: string): Promise<string> {
+  const result = await fetchArticleContentWithOgImage(url);
+  return result.content;
 }
 
 /**
@@ -143,10 +268,21 @@ export async function generateDetailedSummary(
     source: string;
     category: string;
     summary?: string;
+    /** リリースノートの場合のバージョン（破壊的変更と移行手順を重点的に要約する） */
+    release_version?: string;
+    /** 論文PDF。取得できればアブストラクトページの代わりに本文を使う */
+    pdf_url?: string;
   },
-  apiKey: string
+  llm: LlmClient | null
 ): Promise<DetailedSummaryResult> {
-  const content = await fetchArticleContent(article.url);
+  if (!llm) {
+    console.warn(`[detailed-summary] No LLM configured, will retry later: ${article.url}`);
+    return createFallbackResult(article, "");
+  }
+
+  const content =
+    (article.pdf_url && (await loadArticleContent(article.pdf_url)).content) ||
+    (await loadArticleContent(article.url)).content;
 
   if (!content || content.length < 100) {
     // コンテンツが取得できない場合は空を返して後で再試行
@@ -160,13 +296,23 @@ export async function generateDetailedSummary(
 すべての出力は必ず日本語で行ってください。英語での出力は絶対に禁止です。
 技術用語（API、LLM、GPUなど）はそのまま使用できますが、説明文は必ず日本語です。`;
 
+  const releaseInstructions = article.release_version
+    ? `
+## リリースノートとしての要約
+これはバージョン ${article.release_version} のリリースノートです。利用者がアップグレードを判断できるよう、以下を優先してください。
+- 破壊的変更（Breaking Changes）があれば必ず最初に挙げる。なければ「破壊的変更なし」と明記する
+- 必要な移行手順（設定・APIの変更、非推奨の置き換え）を具体的に書く
+- 主要な新機能・重要なバグ修正はその後に簡潔に
+`
+    : "";
+
   const userPrompt = `以下の記事の詳細な要旨を日本語で作成してください。
 
 ## 記事情報
 タイトル: ${article.title}
 ソース: ${article.source}
 カテゴリ: ${article.category}
-
+${releaseInstructions}
 ## 記事本文
 ${content.slice(0, 12000)}
 
@@ -185,71 +331,45 @@ ${content.slice(0, 12000)}
 - JSONのみを出力`;
 
   try {
-    const res = await fetch("https://api.groq.com/openai/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: "llama-3.3-70b-versatile",
-        max_tokens: 2048,
-        temperature: 0.3,
+    const parsed = await completeStructured(
+      llm,
+      {
         messages: [
           { role: "system", content: systemPrompt },
           { role: "user", content: userPrompt },
         ],
-      }),
-    });
+      },
+      detailedSummarySchema
+    );
 
-    if (!res.ok) {
-      if (res.status === 429) {
-        const retryAfter = res.headers.get("Retry-After");
-        const retryAfterMs = retryAfter ? parseInt(retryAfter, 10) * 1000 : 30_000;
-        throw new RateLimitError(retryAfterMs);
-      }
-      console.error(`Detailed summary API error: ${res.status}`);
+    // Validate that the summary is in Japanese
+    if (!containsJapanese(parsed.detailedSummary)) {
+      console.warn(
+        `[detailed-summary] Generated summary is not in Japanese, returning empty for retry: ${article.url}`
+      );
       return createFallbackResult(article, content);
     }
 
-    const data = (await res.json()) as {
-      choices?: { message?: { content?: string } }[];
+    return {
+      title: article.title,
+      url: article.url,
+      source: article.source,
+      category: article.category,
+      shortSummary: article.summary || article.title,
+      detailedSummary: parsed.detailedSummary,
+      keyPoints: parsed.keyPoints,
+      targetAudience: parsed.targetAudience,
+      fetchedAt: new Date(),
     };
-    const responseContent = data.choices?.[0]?.message?.content || "{}";
-
-    // JSONを抽出
-    const jsonMatch = responseContent.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      const parsed = JSON.parse(jsonMatch[0]) as {
-        detailedSummary?: string;
-        keyPoints?: string[];
-        targetAudience?: string;
-      };
-
-      const summary = parsed.detailedSummary || "";
-
-      // Validate that the summary is in Japanese
-      if (!containsJapanese(summary)) {
-        console.warn(
-          `[detailed-summary] Generated summary is not in Japanese, returning empty for retry: ${article.url}`
-        );
-        return createFallbackResult(article, content);
-      }
-
-      return {
-        title: article.title,
-        url: article.url,
-        source: article.source,
-        category: article.category,
-        shortSummary: article.summary || article.title,
-        detailedSummary: summary,
-        keyPoints: parsed.keyPoints || [],
-        targetAudience: parsed.targetAudience,
-        fetchedAt: new Date(),
-      };
-    }
   } catch (error) {
-    console.error("Detailed summary generation error:", error);
+    if (error instanceof RateLimitError) throw error;
+    if (error instanceof LlmError) {
+      console.error(`Detailed summary ${error.message}`);
+    } else if (error instanceof LlmSchemaError) {
+      console.error(`[detailed-summary] ${error.message}: ${article.url}`);
+    } else {
+      console.error("Detailed summary generation error:", error);
+    }
   }
 
   return createFallbackResult(article, content);
@@ -259,7 +379,7 @@ ${content.slice(0, 12000)}
  * Check if text contains substantial Japanese characters
  * Returns true if at least 10% of the text is Japanese
  */
-function containsJapanese(text: string): boolean {
+export function containsJapanese(text: string): boolean {
   const japaneseRegex = /[\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FFF]/g;
   const matches = text.match(japaneseRegex);
   if (!matches) return false;
@@ -6,6 +6,7 @@
 import { getArticlesWithoutDetailedSummary, updateArticleDetailedSummary } from "../db";
 import { generateDetailedSummary } from "./detailed-summary";
 import { withRetry, RateLimitError } from "../utils/retry";
+import { getLlmClient } from "../llm/stages";
 
 // 1回あたりの最大処理件数
 const MAX_ARTICLES_PER_RUN = 5;
@@ -32,9 +33,9 @@ export async function generateMissingSummaries(): Promise<GenerationResult> {
     rateLimited: false,
   };
 
-  const apiKey = process.env.GROQ_API_KEY || "";
-  if (!apiKey) {
-    console.log("[generate-missing-summaries] No GROQ_API_KEY, skipping");
+  const llm = await getLlmClient("detailed_summary");
+  if (!llm) {
+    console.log("[generate-missing-summaries] No LLM configured, skipping");
     return result;
   }
 
@@ -67,8 +68,10 @@ export async function generateMissingSummaries(): Promise<GenerationResult> {
               source: article.source,
               category: article.category,
               summary: article.summary,
+              release_version: article.release_version,
+              pdf_url: article.pdf_url,
             },
-            apiKey
+            llm
           );
         },
         {
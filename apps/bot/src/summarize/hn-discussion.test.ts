@@ -0,0 +1,133 @@
+import { test, expect, describe, mock, afterEach } from "bun:test";
+import { RateLimitError } from "../utils/retry";
+import { createLlmClient } from "../llm/providers";
+import { resolveLlmSettings } from "../llm/stages";
+import {
+  fetchTopLevelComments,
+  rankComments,
+  summarizeDiscussion,
+  type HNComment,
+} from "./hn-discussion";
+
+const llm = createLlmClient(
+  "discussion",
+  resolveLlmSettings("discussion", {}, { GROQ_API_KEY: "test-api-key" })
+);
+
+const longText = (label: string) =>
+  `${label}: ${"this is a substantive point about the design. ".repeat(2)}`;
+
+const items: Record<number, object> = {
+  100: { id: 100, descendants: 42, kids: [1, 2, 3, 4, 5] },
+  200: { id: 200, descendants: 3, kids: [1] },
+  300: { id: 300, descendants: 25, kids: [1, 3, 6] },
+  1: { id: 1, text: longText("first"), kids: [11] },
+  2: { id: 2, text: "+1" },
+  3: {
+    id: 3,
+    text: `${longText("third")}<p>It&#x27;s slow`,
+    kids: [31, 32, 33, 34, 35, 36, 37, 38, 39, 40, 41, 42],
+  },
+  4: { id: 4, deleted: true },
+  5: { id: 5, text: longText("fifth"), dead: true },
+  6: { id: 6, text: longText("sixth") },
+};
+
+/** Serve HN items from fixtures and answer Groq calls with `reply` */
+function mockApis(reply: () => Response) {
+  globalThis.fetch = mock(async (input: string | URL | Request) => {
+    const url = String(input);
+    if (url.includes("api.groq.com")) return reply();
+    const id = Number(url.match(/\/item\/(\d+)\.json$/)?.[1]);
+    return Response.json(items[id] ?? null);
+  }) as unknown as typeof fetch;
+}
+
+const groqReply = (content: string) => () => Response.json({ choices: [{ message: { content } }] });
+
+describe("fetchTopLevelComments", () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("returns live top-level comments as text with reply counts", async () => {
+    mockApis(groqReply(""));
+
+    const comments = await fetchTopLevelComments(100);
+
+    expect(comments?.map((c) => [c.id, c.replies, c.position])).toEqual([
+      [1, 1, 0],
+      [2, 0, 1],
+      [3, 12, 2],
+    ]);
+    expect(comments?.[2]?.text).toEndWith("\nIt's slow");
+  });
+
+  test("skips threads with too few comments", async () => {
+    mockApis(groqReply(""));
+    expect(await fetchTopLevelComments(200)).toBeNull();
+  });
+});
+
+describe("rankComments", () => {
+  const comment = (id: number, position: number, replies: number): HNComment => ({
+    id,
+    position,
+    replies,
+    text: longText(String(id)),
+  });
+
+  test("drops one-liners and favors comments that drew replies", () => {
+    const ranked = rankComments([
+      comment(1, 0, 0),
+      { id: 2, position: 1, replies: 30, text: "Agreed." },
+      comment(3, 5, 15),
+      comment(4, 2, 1),
+    ]);
+
+    expect(ranked.map((c) => c.id)).toEqual([3, 1, 4]);
+  });
+
+  test("respects the limit", () => {
+    const comments = Array.from({ length: 12 }, (_, i) => comment(i, i, 0));
+    expect(rankComments(comments, 5).map((c) => c.id)).toEqual([0, 1, 2, 3, 4]);
+  });
+});
+
+describe("summarizeDiscussion", () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("returns the Japanese summary", async () => {
+    mockApis(groqReply("主な意見: 設計が良いと評価されている。\n反論: 性能面の懸念がある。"));
+
+    const summary = await summarizeDiscussion({ title: "Show HN", hn_id: 300 }, llm);
+
+    expect(summary).toBe("主な意見: 設計が良いと評価されている。\n反論: 性能面の懸念がある。");
+  });
+
+  test("returns null when too few comments remain after ranking", async () => {
+    mockApis(groqReply("主な意見: 良い。"));
+    expect(await summarizeDiscussion({ title: "Show HN", hn_id: 100 }, llm)).toBeNull();
+    expect(await summarizeDiscussion({ title: "Show HN", hn_id: 200 }, llm)).toBeNull();
+  });
+
+  test("rejects summaries that are not in Japanese", async () => {
+    mockApis(groqReply("People like the design but worry about speed."));
+
+    expect(await summarizeDiscussion({ title: "Show HN", hn_id: 300 }, llm)).toBeNull();
+  });
+
+  test("throws RateLimitError on 429", async () => {
+    mockApis(() => new Response("", { status: 429, headers: { "Retry-After": "5" } }));
+
+    await expect(summarizeDiscussion({ title: "Show HN", hn_id: 300 }, llm)).rejects.toBeInstanceOf(
+      RateLimitError
+    );
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * HNコメントスレッドの要約（コミュニティの反応）
+ * トップレベルコメントを取得・ランク付けし、主な意見と反論を日本語で要約する
+ */
+
+import { LlmError, type LlmClient } from "../llm/client";
+import { containsJapanese } from "./detailed-summary";
+import { htmlToText } from "../sources/hn-text";
+
+const HN_API = "https://hacker-news.firebaseio.com/v0";
+
+/** Top-level comments fetched per story (HN returns them in its own rank order) */
+const MAX_TOP_LEVEL = 20;
+/** Comments included in the prompt after ranking */
+const MAX_RANKED = 8;
+/** Per-comment text limit in the prompt */
+const MAX_COMMENT_CHARS = 600;
+/** Comments shorter than this rarely carry a viewpoint ("+1", "This.") */
+const MIN_COMMENT_CHARS = 40;
+/** Threads with fewer comments are not worth a summary */
+export const MIN_DISCUSSION_COMMENTS = 10;
+
+interface HNCommentItem {
+  id: number;
+  type?: string;
+  by?: string;
+  text?: string;
+  kids?: number[];
+  dead?: boolean;
+  deleted?: boolean;
+}
+
+interface HNStoryItem {
+  id: number;
+  descendants?: number;
+  kids?: number[];
+}
+
+export interface HNComment {
+  id: number;
+  text: string;
+  /** Direct replies, a proxy for how much discussion the comment started */
+  replies: number;
+  /** Position in HN's own ranking of the thread (0 = top) */
+  position: number;
+}
+
+async function fetchItem<T>(id: number): Promise<T | null> {
+  const res = await fetch(`${HN_API}/item/${id}.json`);
+  if (!res.ok) return null;
+  return (await res.json()) as T | null;
+}
+
+/**
+ * Fetch the top-level comments of a story
+ * @returns null if the story has too few comments to summarize
+ */
+export async function fetchTopLevelComments(hnId: number): Promise<HNComment[] | null> {
+  const story = await fetchItem<HNStoryItem>(hnId);
+  if (!story?.kids || (story.descendants ?? 0) < MIN_DISCUSSION_COMMENTS) return null;
+
+  const items = await Promise.all(
+    story.kids.slice(0, MAX_TOP_LEVEL).map((id) => fetchItem<HNCommentItem>(id))
+  );
+
+  return items.flatMap((item, position) => {
+    if (!item?.text || item.dead || item.deleted) return [];
+    return [
+      { id: item.id, text: htmlToText(item.text), replies: item.kids?.length ?? 0, position },
+    ];
+  });
+}
+
+/**
+ * Rank comments by HN position and the replies they drew, dropping one-liners
+ */
+export function rankComments(comments: HNComment[], limit: number = MAX_RANKED): HNComment[] {
+  const score = (c: HNComment) => c.replies + Math.max(0, MAX_TOP_LEVEL - c.position) / 2;
+  return comments
+    .filter((c) => c.text.length >= MIN_COMMENT_CHARS)
+    .toSorted((a, b) => score(b) - score(a))
+    .slice(0, limit);
+}
+
+/**
+ * HNの議論を日本語で要約する
+ * @returns 要約テキスト。コメントが少ない・日本語で生成できなかった場合は null
+ */
+export async function summarizeDiscussion(
+  article: { title: string; hn_id: number },
+  llm: LlmClient | null
+): Promise<string | null> {
+  if (!llm) return null;
+
+  const comments = await fetchTopLevelComments(article.hn_id);
+  if (!comments) return null;
+
+  const ranked = rankComments(comments);
+  if (ranked.length < 3) return null;
+
+  const commentBlock = ranked
+    .map((c, i) => `[${i + 1}] (返信${c.replies}件)\n${c.text.slice(0, MAX_COMMENT_CHARS)}`)
+    .join("\n\n");
+
+  const prompt = `以下はHacker Newsの記事「${article.title}」に付いた主要なコメントです。
+コミュニティの反応を日本語で要約してください。
+
+## コメント
+${commentBlock}
+
+## 出力形式
+- 主な意見・評価を1-2文、反論・懸念を1-2文、合計200文字程度
+- 「主な意見:」「反論:」で始まる2行で出力
+- 技術用語はそのまま使用可能（例：LLM、API）
+- コメントにない内容を付け加えないこと
+- 要約のみを出力`;
+
+  let summary: string;
+  try {
+    const { content } = await llm.complete({ messages: [{ role: "user", content: prompt }] });
+    summary = content.trim();
+  } catch (error) {
+    if (!(error instanceof LlmError)) throw error;
+    console.error(`Discussion summary ${error.message}`);
+    return null;
+  }
+
+  if (!containsJapanese(summary)) {
+    console.warn(`[hn-discussion] Summary is not in Japanese, skipping: ${article.title}`);
+    return null;
+  }
+  return summary;
+}
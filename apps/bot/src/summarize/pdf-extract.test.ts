@@ -0,0 +1,201 @@
+import { test, expect, describe, afterEach, mock } from "bun:test";
+import {
+  extractTextFromPdf,
+  formatSections,
+  isPdfResponse,
+  MAX_PDF_BYTES,
+  splitSections,
+  type PdfLine,
+} from "./pdf-extract";
+import { fetchArticleContentWithOgImage } from "./detailed-summary";
+
+/**
+ * Build a one-page PDF with one Helvetica line per entry
+ */
+function buildPdf(lines: { text: string; size: number }[]): Uint8Array<ArrayBuffer> {
+  let y = 750;
+  const ops = lines
+    .map((line) => {
+      const op = `BT /F1 ${line.size} Tf 72 ${y} Td (${line.text}) Tj ET`;
+      y -= line.size + 8;
+      return op;
+    })
+    .join("\n");
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>",
+    `<< /Length ${ops.length} >>\nstream\n${ops}\nendstream`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+  ];
+
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((object, i) => {
+    offsets.push(pdf.length);
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF`;
+  return new TextEncoder().encode(pdf);
+}
+
+// pdf.js takes ownership of the buffer, so every test builds its own copy
+const buildPaper = () =>
+  buildPdf([
+    { text: "Scaling Tool-Using Agents", size: 18 },
+    { text: "Alice Smith, Bob Jones", size: 10 },
+    { text: "Abstract", size: 12 },
+    { text: "We train agents that call tools and measure how their success", size: 10 },
+    { text: "rate scales with model size.", size: 10 },
+    { text: "1 Introduction", size: 12 },
+    { text: "Tool use is central to agent-", size: 10 },
+    { text: "based systems.", size: 10 },
+    { text: "3 Method", size: 12 },
+    { text: "We fine-tune on 10k synthetic trajectories.", size: 10 },
+    { text: "3.1 Training Details", size: 11 },
+    { text: "Training takes 2 days on 8 GPUs.", size: 10 },
+    { text: "4 Results", size: 12 },
+    { text: "Success rate improves from 41% to 67%.", size: 10 },
+    { text: "References", size: 12 },
+    { text: "[1] Someone. A cited paper. 2023.", size: 9 },
+  ]);
+
+describe("splitSections", () => {
+  const line = (text: string, fontSize = 10): PdfLine => ({ text, fontSize });
+
+  test("starts a section at known section names and larger numbered lines", () => {
+    const sections = splitSections([
+      line("A Title", 16),
+      line("Abstract"),
+      line("Short abstract."),
+      line("2 Our Approach", 12),
+      line("Details here."),
+      line("3 results are listed below"),
+    ]);
+
+    expect(sections.map((s) => s.heading)).toEqual([null, "Abstract", "2 Our Approach"]);
+    // Numbered body text at body size is not a heading
+    expect(sections[2]?.text).toBe("Details here. 3 results are listed below");
+  });
+
+  test("stops at the references", () => {
+    const sections = splitSections([
+      line("Conclusion"),
+      line("Done."),
+      line("References"),
+      line("[1] X"),
+    ]);
+    expect(sections).toEqual([{ heading: "Conclusion", text: "Done." }]);
+  });
+});
+
+describe("formatSections", () => {
+  test("keeps every section within the limit, giving short sections' share to long ones", () => {
+    // Headings and separators take 37 characters, leaving 230 for the text
+    const text = formatSections(
+      [
+        { heading: "Abstract", text: "a".repeat(30) },
+        { heading: "Method", text: "m".repeat(200) },
+        { heading: "Results", text: "r".repeat(200) },
+      ],
+      267
+    );
+
+    expect(text).toBe(
+      `## Abstract\n${"a".repeat(30)}\n\n## Method\n${"m".repeat(99)}…\n\n## Results\n${"r".repeat(99)}…`
+    );
+    expect(text.length).toBe(267);
+  });
+});
+
+describe("isPdfResponse", () => {
+  const response = (contentType?: string) =>
+    new Response("", { headers: contentType ? { "Content-Type": contentType } : {} });
+
+  test("uses the content type, falling back to the extension", () => {
+    expect(isPdfResponse(response("application/pdf"), "https://arxiv.org/pdf/2410.01234v2")).toBe(
+      true
+    );
+    expect(isPdfResponse(response("application/octet-stream"), "https://a.example.com/p.pdf")).toBe(
+      true
+    );
+    expect(isPdfResponse(response("text/html; charset=utf-8"), "https://a.example.com/p.pdf")).toBe(
+      false
+    );
+    expect(isPdfResponse(response(), "https://a.example.com/paper.pdf?dl=1")).toBe(true);
+  });
+});
+
+describe("extractTextFromPdf", () => {
+  test("extracts text with section headings and without references", async () => {
+    const text = await extractTextFromPdf(buildPaper());
+
+    expect(text).toBe(
+      [
+        "Scaling Tool-Using Agents Alice Smith, Bob Jones",
+        "## Abstract\nWe train agents that call tools and measure how their success rate scales with model size.",
+        "## 1 Introduction\nTool use is central to agentbased systems.",
+        "## 3 Method\nWe fine-tune on 10k synthetic trajectories.",
+        "## 3.1 Training Details\nTraining takes 2 days on 8 GPUs.",
+        "## 4 Results\nSuccess rate improves from 41% to 67%.",
+      ].join("\n\n")
+    );
+  });
+});
+
+describe("fetchArticleContentWithOgImage", () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("extracts PDF responses instead of reading them as HTML", async () => {
+    globalThis.fetch = mock(
+      async () =>
+        new Response(buildPaper(), { status: 200, headers: { "Content-Type": "application/pdf" } })
+    ) as unknown as typeof fetch;
+
+    const result = await fetchArticleContentWithOgImage("https://arxiv.org/pdf/2410.01234v2");
+
+    expect(result.ogImage).toBeNull();
+    expect(result.content).toContain("## 4 Results\nSuccess rate improves from 41% to 67%.");
+  });
+
+  test("stops reading a PDF without Content-Length once it passes the size limit", async () => {
+    const chunk = new Uint8Array(1024 * 1024);
+    let pulled = 0;
+    // Chunked response of unbounded length
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulled++;
+        controller.enqueue(chunk);
+      },
+    });
+    globalThis.fetch = mock(
+      async () =>
+        new Response(body, { status: 200, headers: { "Content-Type": "application/pdf" } })
+    ) as unknown as typeof fetch;
+
+    const result = await fetchArticleContentWithOgImage("https://arxiv.org/pdf/2410.01234v2");
+
+    expect(result.content).toBe("");
+    expect(pulled).toBeLessThan(MAX_PDF_BYTES / chunk.byteLength + 3);
+  });
+
+  test("ignores bodies labelled as PDF that are not PDFs", async () => {
+    globalThis.fetch = mock(
+      async () =>
+        new Response("<html>blocked</html>", {
+          status: 200,
+          headers: { "Content-Type": "application/pdf" },
+        })
+    ) as unknown as typeof fetch;
+
+    const result = await fetchArticleContentWithOgImage("https://a.example.com/paper.pdf");
+    expect(result.content).toBe("");
+  });
+});
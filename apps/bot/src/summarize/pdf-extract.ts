@@ -0,0 +1,180 @@
+/**
+ * PDF本文抽出
+ * 論文PDFからテキストを抽出し、セクション見出し（Abstract, Method, Results など）を
+ * "## 見出し" として残す。長い論文でも手法・結果が要約に入るよう、
+ * 文字数の上限はセクションごとに配分する。
+ */
+
+import { extractTextItems, getDocumentProxy, type StructuredTextItem } from "unpdf";
+
+/** これより大きいPDFは取得しない */
+export const MAX_PDF_BYTES = 20 * 1024 * 1024;
+const MAX_PDF_PAGES = 30;
+// generateDetailedSummary は本文を12000文字で切るので、その範囲で全セクションを残す
+const DEFAULT_MAX_LENGTH = 12000;
+const MAX_HEADING_LENGTH = 80;
+
+export interface PdfLine {
+  text: string;
+  fontSize: number;
+}
+
+export interface PdfSection {
+  /** 見出しより前の部分（タイトル・著者）は null */
+  heading: string | null;
+  text: string;
+}
+
+// 論文でよく使われるセクション名（番号付きも可: "3 Method", "4.1 Results"）
+const SECTION_NAMES =
+  /^(?:(?:\d+(?:\.\d+)*|[IVX]+)\.?\s+)?(abstract|introduction|related work|background|preliminaries|method(?:s|ology)?|approach|model|experiments?|experimental (?:setup|results)|evaluation|results(?: and discussion)?|analysis|discussion|limitations|conclusions?(?: and future work)?|future work|references|bibliography|acknowledge?ments?|appendix(?:\s+[a-z])?)$/i;
+const NUMBERED_HEADING = /^(?:\d+(?:\.\d+)*|[IVX]+)\.?\s+[A-Z]/;
+// 参考文献以降は要約に不要
+const END_SECTIONS = /^(?:(?:\d+|[IVX]+)\.?\s+)?(references|bibliography)$/i;
+
+/**
+ * PDFレスポンスかどうか（Content-Type、なければURLの拡張子で判定）
+ */
+export function isPdfResponse(response: Response, url: string): boolean {
+  const contentType = response.headers.get("Content-Type")?.toLowerCase() ?? "";
+  if (contentType.includes("application/pdf")) return true;
+  if (contentType && !contentType.includes("octet-stream")) return false;
+  return /\.pdf(?:$|[?#])/i.test(response.url || url);
+}
+
+/**
+ * テキスト要素を行にまとめる（y座標が変わるか改行で次の行）
+ */
+export function groupLines(items: StructuredTextItem[]): PdfLine[] {
+  const lines: PdfLine[] = [];
+  let current: { parts: string[]; fontSize: number; y: number } | null = null;
+
+  const flush = () => {
+    const text = current?.parts.join("").replace(/\s+/g, " ").trim();
+    if (current && text) lines.push({ text, fontSize: current.fontSize });
+    current = null;
+  };
+
+  for (const item of items) {
+    if (item.str) {
+      if (current && Math.abs(item.y - current.y) > Math.max(item.fontSize, 1) * 0.5) flush();
+      if (!current) current = { parts: [], fontSize: item.fontSize, y: item.y };
+      current.parts.push(item.str);
+      current.fontSize = Math.max(current.fontSize, item.fontSize);
+    }
+    if (item.hasEOL) flush();
+  }
+  flush();
+
+  return lines;
+}
+
+/**
+ * 本文のフォントサイズ（文字数で重み付けした最頻値）
+ */
+function bodyFontSize(lines: PdfLine[]): number {
+  const counts = new Map<number, number>();
+  for (const line of lines) {
+    const size = Math.round(line.fontSize * 10) / 10;
+    counts.set(size, (counts.get(size) ?? 0) + line.text.length);
+  }
+  let body = 0;
+  let max = -1;
+  for (const [size, count] of counts) {
+    if (count > max) {
+      body = size;
+      max = count;
+    }
+  }
+  return body;
+}
+
+function isHeading(line: PdfLine, bodySize: number): boolean {
+  const text = line.text;
+  if (text.length > MAX_HEADING_LENGTH || /[.,;:]$/.test(text)) return false;
+  if (SECTION_NAMES.test(text)) return true;
+  // 番号付きで本文より大きいフォントの行（"3.2 Training Details"）
+  return NUMBERED_HEADING.test(text) && line.fontSize > bodySize * 1.05;
+}
+
+/**
+ * 行をセクションに分ける。行末のハイフネーションは結合する。
+ */
+export function splitSections(lines: PdfLine[]): PdfSection[] {
+  const bodySize = bodyFontSize(lines);
+  const sections: PdfSection[] = [];
+  let current: PdfSection = { heading: null, text: "" };
+
+  for (const line of lines) {
+    if (isHeading(line, bodySize)) {
+      if (current.heading !== null || current.text) sections.push(current);
+      if (END_SECTIONS.test(line.text)) return sections;
+      current = { heading: line.text, text: "" };
+      continue;
+    }
+    current.text = current.text.endsWith("-")
+      ? current.text.slice(0, -1) + line.text
+      : current.text
+        ? `${current.text} ${line.text}`
+        : line.text;
+  }
+  if (current.heading !== null || current.text) sections.push(current);
+
+  return sections;
+}
+
+const SECTION_SEPARATOR = "\n\n";
+
+function formatHeading(section: PdfSection): string {
+  return section.heading ? `## ${section.heading}\n` : "";
+}
+
+/**
+ * 文字数上限をセクションに配分して結合する
+ * 見出しと区切りの分を先に差し引き、短いセクションの余りは長いセクションに回す。
+ */
+export function formatSections(sections: PdfSection[], maxLength: number): string {
+  const kept = sections.filter((section) => section.heading || section.text);
+  const overhead =
+    kept.reduce((sum, section) => sum + formatHeading(section).length, 0) +
+    SECTION_SEPARATOR.length * Math.max(kept.length - 1, 0);
+
+  const budgets = new Map<PdfSection, number>();
+  let remaining = Math.max(maxLength - overhead, 0);
+  const byLength = kept.toSorted((a, b) => a.text.length - b.text.length);
+  byLength.forEach((section, i) => {
+    const share = Math.floor(remaining / (byLength.length - i));
+    const budget = Math.min(section.text.length, share);
+    budgets.set(section, budget);
+    remaining -= budget;
+  });
+
+  return kept
+    .map((section) => {
+      const budget = budgets.get(section) ?? 0;
+      // 省略記号「…」の1文字もセクションの予算に含める
+      const text =
+        section.text.length > budget
+          ? `${section.text.slice(0, Math.max(budget - 1, 0)).trimEnd()}…`
+          : section.text;
+      return `${formatHeading(section)}${text}`;
+    })
+    .join(SECTION_SEPARATOR);
+}
+
+/**
+ * PDFから見出し付きの本文テキストを抽出する
+ */
+export async function extractTextFromPdf(
+  data: Uint8Array,
+  maxLength = DEFAULT_MAX_LENGTH
+): Promise<string> {
+  const pdf = await getDocumentProxy(data);
+  try {
+    const { items } = await extractTextItems(pdf);
+    const lines = items.slice(0, MAX_PDF_PAGES).flatMap(groupLines);
+    return formatSections(splitSections(lines), maxLength);
+  } finally {
+    await pdf.loadingTask.destroy();
+  }
+}
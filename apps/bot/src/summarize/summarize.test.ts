@@ -1,5 +1,12 @@
 import { test, expect, describe, mock, afterEach } from "bun:test";
 import { summarizeArticles, type ArticleToSummarize } from "./summarize";
+import { createLlmClient } from "../llm/providers";
+import { resolveLlmSettings } from "../llm/stages";
+
+const llm = createLlmClient(
+  "summarize",
+  resolveLlmSettings("summarize", {}, { GROQ_API_KEY: "test-api-key" })
+);
 
 // Sample articles with substantial content (>50 chars) for proper summarization
 const sampleArticles: ArticleToSummarize[] = [
@@ -37,7 +44,7 @@ describe("summarizeArticles", () => {
   });
 
   test("returns articles with empty summary when no API key", async () => {
-    const result = await summarizeArticles(sampleArticles, "");
+    const result = await summarizeArticles(sampleArticles, null);
 
     expect(result.length).toBe(sampleArticles.length);
     for (const article of result) {
@@ -46,7 +53,7 @@ describe("summarizeArticles", () => {
   });
 
   test("returns empty array for empty input", async () => {
-    const result = await summarizeArticles([], "fake-key");
+    const result = await summarizeArticles([], llm);
     expect(result).toEqual([]);
   });
 
@@ -67,7 +74,7 @@ describe("summarizeArticles", () => {
     });
     globalThis.fetch = fetchMock as unknown as typeof fetch;
 
-    const result = await summarizeArticles(japaneseOnly, "test-api-key");
+    const result = await summarizeArticles(japaneseOnly, llm);
 
     expect(result.length).toBe(1);
     expect(result[0].summary).toBe("");
@@ -92,7 +99,7 @@ describe("summarizeArticles", () => {
       );
     }) as unknown as typeof fetch;
 
-    const result = await summarizeArticles(sampleArticles, "test-api-key");
+    const result = await summarizeArticles(sampleArticles, llm);
 
     // Find non-Japanese articles
     const aiArticle = result.find((a) => a.category === "ai");
@@ -109,7 +116,7 @@ describe("summarizeArticles", () => {
       return new Response("Error", { status: 500 });
     }) as unknown as typeof fetch;
 
-    const result = await summarizeArticles(sampleArticles, "test-api-key");
+    const result = await summarizeArticles(sampleArticles, llm);
 
     // On API error, non-Japanese articles should fallback to original titles
     expect(result.length).toBe(sampleArticles.length);
@@ -138,7 +145,7 @@ describe("summarizeArticles", () => {
       );
     }) as unknown as typeof fetch;
 
-    const result = await summarizeArticles(sampleArticles, "test-api-key");
+    const result = await summarizeArticles(sampleArticles, llm);
 
     // On malformed response, non-Japanese articles should fallback to original titles
     expect(result.length).toBe(sampleArticles.length);
@@ -179,7 +186,7 @@ describe("summarizeArticles", () => {
       },
     ];
 
-    const result = await summarizeArticles(articles, "test-api-key");
+    const result = await summarizeArticles(articles, llm);
 
     expect(result[0].title).toBe("Test Title");
     expect(result[0].url).toBe("https://test.com");
@@ -215,7 +222,7 @@ describe("summarizeArticles", () => {
       },
     ];
 
-    const result = await summarizeArticles(titleOnlyArticles, "test-api-key");
+    const result = await summarizeArticles(titleOnlyArticles, llm);
 
     expect(result[0].summary).toBe("短いコンテンツの記事"); // Japanese translation
     expect(fetchMock).toHaveBeenCalled();
@@ -247,7 +254,7 @@ describe("summarizeArticles", () => {
       },
     ];
 
-    const result = await summarizeArticles(hnArticle, "test-api-key");
+    const result = await summarizeArticles(hnArticle, llm);
 
     expect(result[0].summary).toBe("HN人気記事"); // Japanese translation
     expect(fetchMock).toHaveBeenCalled();
@@ -279,7 +286,7 @@ describe("summarizeArticles", () => {
       },
     ];
 
-    const result = await summarizeArticles(hnArticle, "test-api-key");
+    const result = await summarizeArticles(hnArticle, llm);
 
     expect(result[0].summary).toBe("HN低スコア記事"); // Japanese translation
     expect(fetchMock).toHaveBeenCalled();
@@ -314,7 +321,7 @@ describe("summarizeArticles", () => {
       },
     ];
 
-    const result = await summarizeArticles(articles, "test-api-key");
+    const result = await summarizeArticles(articles, llm);
 
     expect(result[0].summary).toBe("Interesting Tech Article"); // Fallback to title
   });
@@ -374,7 +381,7 @@ describe("summarizeArticles", () => {
       },
     ];
 
-    const result = await summarizeArticles(mixedArticles, "test-api-key");
+    const result = await summarizeArticles(mixedArticles, llm);
 
     // Both articles should have Japanese summaries
     expect(result[0].summary).toBe("HN記事の日本語タイトル"); // titleOnly → translated
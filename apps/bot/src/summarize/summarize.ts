@@ -1,3 +1,8 @@
+import type { AlsoDiscussedLink } from "../db";
+import type { LlmClient } from "../llm/client";
+import { summaryResultSchema, type SummaryResult } from "../llm/schemas";
+import { completeStructured } from "../llm/structured";
+
 export interface ArticleToSummarize {
   title: string;
   url: string;
@@ -6,8 +11,22 @@ export interface ArticleToSummarize {
   content?: string;
   published?: Date;
   og_image?: string;
+  hn_id?: number;
+  discussion_url?: string;
+  badge?: string;
+  release_repo?: string;
+  release_version?: string;
+  arxiv_id?: string;
+  arxiv_version?: number;
+  authors?: string[];
+  pdf_url?: string;
+  canonical_url?: string;
+  also_discussed?: AlsoDiscussedLink[];
 }
 
+// Release notes often list breaking changes after the features, so give them more room
+const RELEASE_CONTENT_LENGTH = 2000;
+
 export interface SummarizedArticle extends ArticleToSummarize {
   summary: string;
 }
@@ -71,35 +90,22 @@ function isLowQualitySummary(summary: string, title: string): boolean {
 }
 
 /**
- * Call Groq API with the given prompt
+ * Run the prompt on the summarize stage's model
+ * @returns null on API errors and responses that never matched the schema
  */
-async function callGroqApi(prompt: string, apiKey: string): Promise<string | null> {
+async function callLlm(
+  prompt: string,
+  count: number,
+  llm: LlmClient
+): Promise<SummaryResult | null> {
   try {
-    const res = await fetch("https://api.groq.com/openai/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: "llama-3.3-70b-versatile",
-        max_tokens: 2048,
-        temperature: 0.3,
-        messages: [{ role: "user", content: prompt }],
-      }),
-    });
-
-    if (!res.ok) {
-      console.error(`Groq API error: ${res.status}`);
-      return null;
-    }
-
-    const data = (await res.json()) as {
-      choices?: { message?: { content?: string } }[];
-    };
-    return data.choices?.[0]?.message?.content || null;
+    return await completeStructured(
+      llm,
+      { messages: [{ role: "user", content: prompt }] },
+      summaryResultSchema(count)
+    );
   } catch (error) {
-    console.error("Groq API error:", error);
+    console.error("Summarize LLM error:", error);
     return null;
   }
 }
@@ -109,7 +115,7 @@ async function callGroqApi(prompt: string, apiKey: string): Promise<string | nul
  */
 async function translateTitles(
   articles: ArticleToSummarize[],
-  apiKey: string
+  llm: LlmClient
 ): Promise<Map<string, string>> {
   const result = new Map<string, string>();
 
@@ -129,8 +135,8 @@ ${articles.map((a, i) => `[${i}] ${a.title}`).join("\n")}
 JSON配列のみで回答:
 [{"index": 0, "summary": "日本語タイトル"}, ...]`;
 
-  const content = await callGroqApi(prompt, apiKey);
-  if (!content) {
+  const translations = await callLlm(prompt, articles.length, llm);
+  if (!translations) {
     // Fallback to original titles
     for (const article of articles) {
       result.set(article.url, article.title);
@@ -138,26 +144,9 @@ JSON配列のみで回答:
     return result;
   }
 
-  const jsonMatch = content.match(/\[.*\]/s);
-  if (jsonMatch) {
-    try {
-      const translations: { index: number; summary: string }[] = JSON.parse(jsonMatch[0]);
-      for (const article of articles) {
-        const idx = articles.indexOf(article);
-        const found = translations.find((t) => t.index === idx);
-        result.set(article.url, found?.summary || article.title);
-      }
-    } catch {
-      // JSON parse error, fallback to original titles
-      for (const article of articles) {
-        result.set(article.url, article.title);
-      }
-    }
-  } else {
-    // No JSON found, fallback to original titles
-    for (const article of articles) {
-      result.set(article.url, article.title);
-    }
+  for (const [idx, article] of articles.entries()) {
+    const found = translations.find((t) => t.index === idx);
+    result.set(article.url, found?.summary || article.title);
   }
 
   return result;
@@ -168,7 +157,7 @@ JSON配列のみで回答:
  */
 async function summarizeWithContent(
   articles: ArticleToSummarize[],
-  apiKey: string
+  llm: LlmClient
 ): Promise<Map<string, string>> {
   const result = new Map<string, string>();
 
@@ -185,6 +174,10 @@ async function summarizeWithContent(
   - 実用的な影響（例：「本番環境で使用可能」「MITライセンスで公開」）
   - 対象者・ユースケース（例：「大規模データ向け」「モバイル特化」）
 
+## リリースノート（Release: が付いた記事）
+- 破壊的変更・移行手順を最優先で書く（例：「Node 18サポート終了、設定キーfooはbarに改名」）
+- 破壊的変更がなければ主要な新機能を書く
+
 ## 重要：情報不足時の対応
 - 本文から具体的な情報が得られない場合は、元のタイトルをそのまま返してください
 - 「詳細は記事参照」という表現は絶対に使わないでください
@@ -199,13 +192,13 @@ async function summarizeWithContent(
 良い: 「Server Componentsでバンドルサイズ40%削減、既存コードとの互換性あり」（判断材料）
 
 Articles:
-${articles.map((a, i) => `[${i}] Title: ${a.title}\nSource: ${a.source}\nContent: ${a.content?.slice(0, 800) || "(本文なし)"}`).join("\n\n")}
+${articles.map((a, i) => `[${i}] Title: ${a.title}\nSource: ${a.source}${a.release_version ? `\nRelease: ${a.release_repo} ${a.release_version}` : ""}\nContent: ${a.content?.slice(0, a.release_version ? RELEASE_CONTENT_LENGTH : 800) || "(本文なし)"}`).join("\n\n")}
 
 JSON配列のみで回答（他のテキストは一切不要）:
 [{"index": 0, "summary": "日本語の要約（情報不足なら元タイトルをそのまま）"}, ...]`;
 
-  const content = await callGroqApi(prompt, apiKey);
-  if (!content) {
+  const summaries = await callLlm(prompt, articles.length, llm);
+  if (!summaries) {
     // Fallback to original titles
     for (const article of articles) {
       result.set(article.url, article.title);
@@ -213,33 +206,12 @@ JSON配列のみで回答（他のテキストは一切不要）:
     return result;
   }
 
-  const jsonMatch = content.match(/\[.*\]/s);
-  if (jsonMatch) {
-    try {
-      const summaries: { index: number; summary: string }[] = JSON.parse(jsonMatch[0]);
-      for (const article of articles) {
-        const idx = articles.indexOf(article);
-        const found = summaries.find((s) => s.index === idx);
-        if (found) {
-          // Quality check: if summary is low quality, use original title
-          if (isLowQualitySummary(found.summary, article.title)) {
-            result.set(article.url, article.title);
-          } else {
-            result.set(article.url, found.summary);
-          }
-        } else {
-          result.set(article.url, article.title);
-        }
-      }
-    } catch {
-      // JSON parse error, fallback to original titles
-      for (const article of articles) {
-        result.set(article.url, article.title);
-      }
-    }
-  } else {
-    // No JSON found, fallback to original titles
-    for (const article of articles) {
+  for (const [idx, article] of articles.entries()) {
+    const found = summaries.find((s) => s.index === idx);
+    // Quality check: if summary is low quality, use original title
+    if (found && !isLowQualitySummary(found.summary, article.title)) {
+      result.set(article.url, found.summary);
+    } else {
       result.set(article.url, article.title);
     }
   }
@@ -249,9 +221,9 @@ JSON配列のみで回答（他のテキストは一切不要）:
 
 export async function summarizeArticles(
   articles: ArticleToSummarize[],
-  apiKey: string
+  llm: LlmClient | null
 ): Promise<SummarizedArticle[]> {
-  if (!apiKey || articles.length === 0) {
+  if (!llm || articles.length === 0) {
     return articles.map((a) => ({ ...a, summary: "" }));
   }
 
@@ -285,7 +257,7 @@ export async function summarizeArticles(
   // Process title-only articles with translation API
   if (titleOnly.length > 0) {
     console.log("  Translating title-only articles to Japanese...");
-    const titleTranslations = await translateTitles(titleOnly, apiKey);
+    const titleTranslations = await translateTitles(titleOnly, llm);
     for (const [url, translation] of titleTranslations) {
       summaryMap.set(url, translation);
     }
@@ -294,7 +266,7 @@ export async function summarizeArticles(
   // Process articles with content using summarization API
   if (withContent.length > 0) {
     console.log("  Summarizing articles with content...");
-    const contentSummaries = await summarizeWithContent(withContent, apiKey);
+    const contentSummaries = await summarizeWithContent(withContent, llm);
     for (const [url, summary] of contentSummaries) {
       summaryMap.set(url, summary);
     }
@@ -10,9 +10,11 @@ import {
   registerTaskNotification,
   cleanupOldTaskNotifications,
 } from "./db";
+import { prContentSchema, type PrContent } from "./llm/schemas";
+import { getLlmClient } from "./llm/stages";
+import { completeStructured } from "./llm/structured";
 
 const VK_PORT_FILE = "/tmp/vibe-kanban/vibe-kanban.port";
-const GROQ_API_KEY = process.env.GROQ_API_KEY;
 
 interface TaskStatus {
   id: string;
@@ -101,11 +103,6 @@ async function getPrUrlForBranch(workdir: string, branch: string): Promise<strin
   }
 }
 
-interface PrContent {
-  title: string;
-  description: string;
-}
-
 /**
  * Get git diff for a branch compared to main
  */
@@ -161,9 +158,10 @@ async function generatePrContent(
   diff: string,
   commits: string
 ): Promise<PrContent> {
-  // Fallback if no API key
-  if (!GROQ_API_KEY) {
-    console.log("[task-monitor] No GROQ_API_KEY, using default PR content");
+  // Fallback if no LLM is configured
+  const llm = await getLlmClient("pr_description");
+  if (!llm) {
+    console.log("[task-monitor] No LLM configured, using default PR content");
     return {
       title: originalRequest.slice(0, 72),
       description: originalRequest,
@@ -192,43 +190,13 @@ JSON形式で出力:
 {"title": "...", "description": "..."}`;
 
   try {
-    const res = await fetch("https://api.groq.com/openai/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${GROQ_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: "llama-3.1-8b-instant",
-        messages: [{ role: "user", content: prompt }],
-        temperature: 0.3,
-        max_tokens: 1000,
-        response_format: {
-          type: "json_object",
-        },
-      }),
-    });
-
-    if (!res.ok) {
-      console.log(`[task-monitor] Groq API error: ${res.status}`);
-      return { title: originalRequest.slice(0, 72), description: originalRequest };
-    }
-
-    const data = (await res.json()) as {
-      choices: Array<{ message: { content: string } }>;
-    };
-
-    const content = data.choices[0]?.message?.content || "";
-
-    try {
-      const parsed = JSON.parse(content) as PrContent;
-      console.log(`[task-monitor] Generated PR title: ${parsed.title}`);
-      return parsed;
-    } catch (parseError) {
-      console.log(`[task-monitor] JSON parse error, using fallback`);
-    }
-
-    return { title: originalRequest.slice(0, 72), description: originalRequest };
+    const parsed = await completeStructured(
+      llm,
+      { messages: [{ role: "user", content: prompt }], json: true },
+      prContentSchema
+    );
+    console.log(`[task-monitor] Generated PR title: ${parsed.title}`);
+    return parsed;
   } catch (error) {
     console.error("[task-monitor] LLM generation failed:", error);
     return { title: originalRequest.slice(0, 72), description: originalRequest };
@@ -42,6 +42,9 @@ export const Layout = ({ title = "Newsfeed AI", children }: LayoutProps) => {
                 <a href="/search" class="text-sm font-medium text-text-secondary hover:text-text-primary transition-colors">
                   検索
                 </a>
+                <a href="/sources" class="text-sm font-medium text-text-secondary hover:text-text-primary transition-colors">
+                  ソース
+                </a>
               </nav>
               <div id="theme-toggle-island"></div>
             </div>
@@ -2,12 +2,19 @@ import { Hono } from "hono";
 import { IndexPage } from "./pages/index";
 import { ArticlePage, NotFoundPage } from "./pages/article";
 import { SearchPage } from "./pages/search";
+import { SourcesPage } from "./pages/sources";
+import { StoryPage } from "./pages/story";
 import {
   ensureInitialized,
   getArticlesWithDetailedSummary,
   getArticleByUrl,
   getDistinctSources,
   getDistinctCategories,
+  getSourceHealthReport,
+  getStory,
+  getStoryArticles,
+  recordArticleClick,
+  recordSearchQuery,
 } from "./lib/db";
 import { searchArticles } from "./lib/search";
 
@@ -53,17 +60,42 @@ app.get("/article/:url", async (c) => {
   if (!article) {
     return c.html(<NotFoundPage />, 404);
   }
+  // Views feed the ranking weights; a failed write must not break the page
+  await recordArticleClick(article.url).catch((error) => {
+    console.error("Failed to record article click", error);
+  });
   return c.html(<ArticlePage article={article} />);
 });
 
+// Story timeline page
+app.get("/story/:id", async (c) => {
+  const id = Number(c.req.param("id"));
+  const story = Number.isInteger(id) ? await getStory(id) : null;
+  if (!story) {
+    return c.html(<NotFoundPage />, 404);
+  }
+  const articles = await getStoryArticles(story.id);
+  return c.html(<StoryPage story={story} articles={articles} />);
+});
+
 // Search page
 app.get("/search", async (c) => {
   const query = c.req.query("q") || "";
   let results: Awaited<ReturnType<typeof searchArticles>> = [];
   if (query) {
     results = await searchArticles(query);
+    // Searches feed the interest profile suggestions; a failed write must not break the page
+    await recordSearchQuery(query, results.length).catch((error) => {
+      console.error("Failed to record search query", error);
+    });
   }
   return c.html(<SearchPage results={results} query={query} />);
 });
 
+// Source health page
+app.get("/sources", async (c) => {
+  const report = await getSourceHealthReport(7);
+  return c.html(<SourcesPage report={report} days={7} />);
+});
+
 export default app;
@@ -9,7 +9,7 @@ import "../adapters/db-adapter";
 import * as db from "@newsfeed-ai/core/db";
 
 // Re-export types
-export type { Article, ArticleFilters } from "@newsfeed-ai/core/db";
+export type { Article, ArticleFilters, SourceHealth, Story } from "@newsfeed-ai/core/db";
 
 // Re-export operations
 export {
@@ -18,6 +18,11 @@ export {
   getAllArticlesForIndexing as getAllArticles,
   getDistinctSources,
   getDistinctCategories,
+  getSourceHealthReport,
+  getStory,
+  getStoryArticles,
+  recordArticleClick,
+  recordSearchQuery,
 } from "@newsfeed-ai/core/db";
 
 // Initialize on first use with promise-based guard to prevent race conditions
@@ -1,6 +1,6 @@
 import { Layout } from "../components/Layout";
 import { getCategoryColor } from "../lib/category";
-import type { Article } from "@newsfeed-ai/core/db";
+import type { AlsoDiscussedLink, Article } from "@newsfeed-ai/core/db";
 
 interface ArticlePageProps {
   article: Article;
@@ -25,6 +25,24 @@ export const ArticlePage = ({ article }: ArticlePageProps) => {
     }
   }
 
+  let authors: string[] = [];
+  if (article.authors) {
+    try {
+      authors = JSON.parse(article.authors);
+    } catch {
+      authors = [];
+    }
+  }
+
+  let alsoDiscussed: AlsoDiscussedLink[] = [];
+  if (article.also_discussed) {
+    try {
+      alsoDiscussed = JSON.parse(article.also_discussed);
+    } catch {
+      alsoDiscussed = [];
+    }
+  }
+
   return (
     <Layout title={`${article.title} - Newsfeed AI`}>
       <div class="max-w-4xl mx-auto px-6 py-8 animate-fade-in-up">
@@ -53,7 +71,30 @@ export const ArticlePage = ({ article }: ArticlePageProps) => {
 
             <div class="flex items-center gap-4 text-sm text-text-muted">
               {date && <time datetime={article.created_at || ""}>{date}</time>}
+              {article.arxiv_id && (
+                <span>
+                  arXiv:{article.arxiv_id}
+                  {article.arxiv_version ? `v${article.arxiv_version}` : ""}
+                </span>
+              )}
             </div>
+
+            {article.story_id && (
+              <a
+                href={`/story/${article.story_id}`}
+                class="inline-flex items-center gap-1 mt-3 text-sm text-accent hover:underline"
+              >
+                <span class="i-lucide-git-commit-vertical w-4 h-4" aria-hidden="true"></span>
+                このストーリーの経緯を見る
+              </a>
+            )}
+
+            {authors.length > 0 && (
+              <p class="mt-3 text-sm text-text-secondary">
+                <span class="i-lucide-users w-4 h-4 inline-block align-text-bottom mr-1" aria-hidden="true"></span>
+                {authors.join(", ")}
+              </p>
+            )}
           </header>
 
           {article.summary && (
@@ -88,6 +129,62 @@ export const ArticlePage = ({ article }: ArticlePageProps) => {
             </section>
           )}
 
+          {article.discussion_summary && (
+            <section class="mb-8">
+              <h2 class="text-xl font-semibold text-text-primary mb-4 pb-2 border-b border-border">コミュニティの反応</h2>
+              <div class="space-y-2">
+                {article.discussion_summary.split("\n").filter(Boolean).map((line) => (
+                  <p key={line} class="text-text-primary leading-relaxed">{line}</p>
+                ))}
+              </div>
+              {article.discussion_url && (
+                <a
+                  href={article.discussion_url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  class="inline-flex items-center gap-1 mt-3 text-sm text-text-secondary hover:text-accent transition-colors"
+                >
+                  <span class="i-lucide-message-square w-4 h-4" aria-hidden="true"></span>
+                  スレッドを読む
+                </a>
+              )}
+            </section>
+          )}
+
+          {alsoDiscussed.length > 0 && (
+            <section class="mb-8">
+              <h2 class="text-xl font-semibold text-text-primary mb-4 pb-2 border-b border-border">他の掲載</h2>
+              <ul class="space-y-2">
+                {alsoDiscussed.map((link) => (
+                  <li key={link.url} class="flex items-start gap-3">
+                    <span class="i-lucide-link w-4 h-4 text-text-muted flex-shrink-0 mt-1" aria-hidden="true"></span>
+                    <span>
+                      <a
+                        href={link.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        class="text-text-primary hover:text-accent transition-colors"
+                      >
+                        {link.title}
+                      </a>
+                      <span class="ml-2 text-sm text-text-muted">{link.source}</span>
+                      {link.discussion_url && link.discussion_url !== link.url && (
+                        <a
+                          href={link.discussion_url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          class="ml-2 text-sm text-text-secondary hover:text-accent transition-colors"
+                        >
+                          コメント
+                        </a>
+                      )}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
           {article.target_audience && (
             <section class="mb-8">
               <h2 class="text-xl font-semibold text-text-primary mb-4 pb-2 border-b border-border">対象読者</h2>
@@ -95,7 +192,7 @@ export const ArticlePage = ({ article }: ArticlePageProps) => {
             </section>
           )}
 
-          <footer class="pt-8 border-t border-border">
+          <footer class="pt-8 border-t border-border flex flex-wrap gap-3">
             <a
               href={article.url}
               target="_blank"
@@ -105,6 +202,28 @@ export const ArticlePage = ({ article }: ArticlePageProps) => {
               元の記事を読む
               <span class="i-lucide-external-link w-4 h-4" aria-hidden="true"></span>
             </a>
+            {article.pdf_url && (
+              <a
+                href={article.pdf_url}
+                target="_blank"
+                rel="noopener noreferrer"
+                class="inline-flex items-center gap-2 px-6 py-3 bg-bg-secondary border border-border text-text-primary rounded-lg font-medium hover:border-accent transition-colors"
+              >
+                <span class="i-lucide-file-text w-4 h-4" aria-hidden="true"></span>
+                PDFを開く
+              </a>
+            )}
+            {article.discussion_url && article.discussion_url !== article.url && (
+              <a
+                href={article.discussion_url}
+                target="_blank"
+                rel="noopener noreferrer"
+                class="inline-flex items-center gap-2 px-6 py-3 bg-bg-secondary border border-border text-text-primary rounded-lg font-medium hover:border-accent transition-colors"
+              >
+                <span class="i-lucide-message-square w-4 h-4" aria-hidden="true"></span>
+                コメントスレッドを見る
+              </a>
+            )}
           </footer>
         </article>
       </div>
@@ -0,0 +1,102 @@
+import { Layout } from "../components/Layout";
+import type { SourceHealth } from "../lib/db";
+
+interface SourcesPageProps {
+  report: SourceHealth[];
+  days: number;
+}
+
+const StatusBadge = ({ source }: { source: SourceHealth }) => {
+  if (source.disabled_at) {
+    return (
+      <span class="inline-flex items-center gap-1 text-error">
+        <span class="i-lucide-circle-slash w-4 h-4" aria-hidden="true"></span>
+        無効
+      </span>
+    );
+  }
+  if (source.consecutive_failures > 0) {
+    return (
+      <span class="inline-flex items-center gap-1 text-warning">
+        <span class="i-lucide-alert-triangle w-4 h-4" aria-hidden="true"></span>
+        失敗中
+      </span>
+    );
+  }
+  return (
+    <span class="inline-flex items-center gap-1 text-success">
+      <span class="i-lucide-check-circle w-4 h-4" aria-hidden="true"></span>
+      正常
+    </span>
+  );
+};
+
+const successRate = (source: SourceHealth) =>
+  source.attempts > 0
+    ? `${Math.round(((source.attempts - source.failures) / source.attempts) * 100)}%`
+    : "-";
+
+export const SourcesPage = ({ report, days }: SourcesPageProps) => {
+  return (
+    <Layout title="ソースの状態 - Newsfeed AI">
+      <div class="max-w-7xl mx-auto px-6 py-8">
+        <header class="mb-8">
+          <h1 class="text-3xl md:text-4xl font-bold text-text-primary mb-2">ソースの状態</h1>
+          <p class="text-text-secondary">直近{days}日間の取得結果</p>
+        </header>
+
+        {report.length === 0 ? (
+          <div class="text-center py-16 text-text-muted">
+            <span class="i-lucide-rss w-12 h-12 mx-auto mb-4 block" aria-hidden="true"></span>
+            <p>取得履歴がありません</p>
+          </div>
+        ) : (
+          <div class="overflow-x-auto bg-bg-secondary rounded-xl border border-border">
+            <table class="w-full text-sm">
+              <thead>
+                <tr class="text-left text-text-muted border-b border-border">
+                  <th class="px-4 py-3 font-medium">ソース</th>
+                  <th class="px-4 py-3 font-medium">状態</th>
+                  <th class="px-4 py-3 font-medium text-right">連続失敗</th>
+                  <th class="px-4 py-3 font-medium text-right">成功率</th>
+                  <th class="px-4 py-3 font-medium text-right">平均応答</th>
+                  <th class="px-4 py-3 font-medium">最終成功</th>
+                  <th class="px-4 py-3 font-medium">最新のエラー</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.map((source) => (
+                  <tr key={source.source} class="border-b border-border last:border-b-0">
+                    <td class="px-4 py-3">
+                      <div class="font-medium text-text-primary">{source.source}</div>
+                      <div class="text-xs text-text-muted">{source.source_type}</div>
+                    </td>
+                    <td class="px-4 py-3 whitespace-nowrap">
+                      <StatusBadge source={source} />
+                    </td>
+                    <td class="px-4 py-3 text-right text-text-secondary">
+                      {source.consecutive_failures}
+                    </td>
+                    <td class="px-4 py-3 text-right text-text-secondary">{successRate(source)}</td>
+                    <td class="px-4 py-3 text-right text-text-secondary">
+                      {source.avg_latency_ms !== null ? `${source.avg_latency_ms}ms` : "-"}
+                    </td>
+                    <td class="px-4 py-3 text-text-secondary whitespace-nowrap">
+                      {source.last_success_at ?? "-"}
+                    </td>
+                    <td
+                      class="px-4 py-3 text-text-muted max-w-sm truncate"
+                      title={source.last_error ?? undefined}
+                    >
+                      {source.disabled_reason ?? source.last_error ?? "-"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+};
@@ -0,0 +1,74 @@
+import { Layout } from "../components/Layout";
+import type { Article, Story } from "../lib/db";
+
+interface StoryPageProps {
+  story: Story;
+  articles: Article[];
+}
+
+function formatDate(dateStr: string): string {
+  // SQLite timestamps ("YYYY-MM-DD HH:MM:SS") are UTC
+  const date = new Date(
+    /^\d{4}-\d{2}-\d{2} /.test(dateStr) ? `${dateStr.replace(" ", "T")}Z` : dateStr
+  );
+  return date.toLocaleDateString("ja-JP", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+export const StoryPage = ({ story, articles }: StoryPageProps) => {
+  return (
+    <Layout title={`${story.title} - ストーリー - Newsfeed AI`}>
+      <div class="max-w-4xl mx-auto px-6 py-8 animate-fade-in-up">
+        <nav aria-label="Breadcrumb" class="mb-6">
+          <a
+            href="/"
+            class="inline-flex items-center gap-2 text-sm text-text-secondary hover:text-text-primary transition-colors"
+          >
+            <span class="i-lucide-arrow-left w-4 h-4" aria-hidden="true"></span>
+            記事一覧に戻る
+          </a>
+        </nav>
+
+        <header class="mb-8">
+          <p class="text-sm text-text-muted mb-2">ストーリー（{articles.length}件）</p>
+          <h1 class="text-2xl md:text-3xl font-bold text-text-primary leading-tight">
+            {story.title}
+          </h1>
+        </header>
+
+        <ol class="relative border-l-2 border-border ml-2 space-y-8">
+          {articles.map((article, i) => {
+            const date = article.published_at || article.created_at;
+            return (
+              <li key={article.url} class="pl-6 relative">
+                <span
+                  class="absolute -left-[9px] top-1.5 w-4 h-4 rounded-full border-2 border-bg-primary bg-accent"
+                  aria-hidden="true"
+                ></span>
+                <div class="flex items-center gap-3 mb-1 text-sm text-text-muted">
+                  {date && <time datetime={date}>{formatDate(date)}</time>}
+                  <span>{article.source}</span>
+                  {i > 0 && <span class="text-accent">続報</span>}
+                </div>
+                <h2 class="text-lg font-semibold text-text-primary leading-snug mb-2">
+                  <a
+                    href={`/article/${encodeURIComponent(article.url)}`}
+                    class="hover:text-accent transition-colors"
+                  >
+                    {article.title}
+                  </a>
+                </h2>
+                {article.summary && (
+                  <p class="text-text-secondary leading-relaxed">{article.summary}</p>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      </div>
+    </Layout>
+  );
+};
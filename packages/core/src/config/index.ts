@@ -3,22 +3,64 @@ export type {
   Config,
   Source,
   RssSource,
+  JsonFeedSource,
   HackerNewsSource,
+  HackerNewsList,
   GitHubTrendingSource,
+  GitHubTrendingSince,
+  GitHubReleasesSource,
+  ArxivSource,
+  LlmProvider,
+  LlmStage,
+  LlmStageConfig,
+  LlmConfig,
+  ScoringConfig,
+  ScoringPolicy,
+  InterestProfile,
   CategoryConfig,
 } from "./types";
 
 // Categories (unified emoji + colors)
 export { CATEGORIES, getCategoryEmoji, getCategoryColor, getCategoryConfig } from "./categories";
 
+// Scoring prompt and policy
+export {
+  SCORING_PROMPT_VARIABLES,
+  DEFAULT_SCORING_PROMPT,
+  DEFAULT_SCORING_BOOSTERS,
+  DEFAULT_SCORING_REDUCERS,
+  DEFAULT_SCORING_THRESHOLD,
+  DEFAULT_SCORING_BATCH_SIZE,
+  resolveScoringPolicy,
+  renderScoringPrompt,
+} from "./scoring";
+export type { ScoringPromptVariable } from "./scoring";
+
+// Interest profiles
+export { DEFAULT_PROFILE_NAME, resolveProfiles } from "./profiles";
+
 // Config loader
 export {
   loadConfigFromYaml,
   getConfig,
   resetConfig,
+  getEnabledSources,
   getRssSources,
   getHackerNewsSource,
   getGitHubTrendingSource,
   getInterests,
+  getScoringPolicy,
+  getProfiles,
   getCategoryDisplay,
 } from "./loader";
+
+// OPML import/export
+export {
+  importOpml,
+  exportOpml,
+  formatSourcesYaml,
+  insertSourcesYaml,
+  mapOpmlCategory,
+  decodeXmlEntities,
+} from "./opml";
+export type { OpmlImportOptions, OpmlImportResult, OpmlExportOptions } from "./opml";
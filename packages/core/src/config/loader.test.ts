@@ -3,10 +3,13 @@ import {
   loadConfigFromYaml,
   getConfig,
   resetConfig,
+  getEnabledSources,
   getRssSources,
   getHackerNewsSource,
   getGitHubTrendingSource,
   getInterests,
+  getScoringPolicy,
+  getProfiles,
   getCategoryDisplay,
 } from "./loader";
 import type { Config } from "./types";
@@ -88,6 +91,14 @@ describe("config loader", () => {
     });
   });
 
+  describe("getEnabledSources", () => {
+    test("returns enabled sources of every type in config order", () => {
+      loadConfigFromYaml(JSON.stringify(sampleConfig), mockYamlParser);
+      const sources = getEnabledSources();
+      expect(sources.map((s) => s.name)).toEqual(["TechCrunch", "Hacker News", "GitHub Trending"]);
+    });
+  });
+
   describe("getRssSources", () => {
     test("returns only enabled RSS sources", () => {
       loadConfigFromYaml(JSON.stringify(sampleConfig), mockYamlParser);
@@ -158,6 +169,37 @@ describe("config loader", () => {
     });
   });
 
+  describe("getProfiles", () => {
+    test("builds a default profile from the top-level interests", () => {
+      loadConfigFromYaml(JSON.stringify(sampleConfig), mockYamlParser);
+      expect(getProfiles()).toEqual([
+        { name: "default", interests: ["AI", "Web Development", "Open Source"] },
+      ]);
+    });
+
+    test("returns the configured profiles", () => {
+      const profiles = [
+        { name: "ai", interests: ["LLM agents"], threshold: 0.6, channel_id: "111" },
+        { name: "frontend", interests: ["React"], categories: ["frontend"], max_articles: 5 },
+      ];
+      loadConfigFromYaml(JSON.stringify({ ...sampleConfig, profiles }), mockYamlParser);
+      expect(getProfiles()).toEqual(profiles);
+    });
+  });
+
+  describe("getScoringPolicy", () => {
+    test("merges the scoring section with the defaults", () => {
+      loadConfigFromYaml(
+        JSON.stringify({ ...sampleConfig, scoring: { threshold: 0.6, batch_size: 20 } }),
+        mockYamlParser
+      );
+      const policy = getScoringPolicy();
+      expect(policy.threshold).toBe(0.6);
+      expect(policy.batchSize).toBe(20);
+      expect(policy.prompt).toContain("{{articles}}");
+    });
+  });
+
   describe("getCategoryDisplay", () => {
     test("returns unified category emoji for known categories", () => {
       loadConfigFromYaml(JSON.stringify(sampleConfig), mockYamlParser);
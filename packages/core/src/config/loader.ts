@@ -1,5 +1,15 @@
-import type { Config, RssSource, HackerNewsSource, GitHubTrendingSource } from "./types";
+import type {
+  Config,
+  Source,
+  RssSource,
+  HackerNewsSource,
+  GitHubTrendingSource,
+  ScoringPolicy,
+  InterestProfile,
+} from "./types";
 import { getCategoryEmoji } from "./categories";
+import { resolveProfiles } from "./profiles";
+import { resolveScoringPolicy } from "./scoring";
 
 let config: Config | null = null;
 
@@ -34,6 +44,13 @@ export function resetConfig(): void {
   config = null;
 }
 
+/**
+ * Get all enabled sources, in config order
+ */
+export function getEnabledSources(): Source[] {
+  return getConfig().sources.filter((s) => s.enabled);
+}
+
 /**
  * Get enabled RSS sources
  */
@@ -66,6 +83,20 @@ export function getInterests(): string[] {
   return getConfig().interests;
 }
 
+/**
+ * Get the scoring prompt and policy, with defaults for anything not configured
+ */
+export function getScoringPolicy(): ScoringPolicy {
+  return resolveScoringPolicy(getConfig().scoring);
+}
+
+/**
+ * Get the interest profiles (a single default profile when none are configured)
+ */
+export function getProfiles(): InterestProfile[] {
+  return resolveProfiles(getConfig());
+}
+
 /**
  * Get category display string with emoji (uses unified categories if available, falls back to config)
  */
@@ -0,0 +1,195 @@
+import { describe, test, expect } from "bun:test";
+import { join } from "node:path";
+import {
+  importOpml,
+  exportOpml,
+  formatSourcesYaml,
+  insertSourcesYaml,
+  mapOpmlCategory,
+  decodeXmlEntities,
+} from "./opml";
+import type { Config, RssSource, Source } from "./types";
+
+const categories = {
+  ai: "🤖 AI/LLM",
+  tech: "💻 Tech",
+  "tech-jp": "🇯🇵 日本語Tech",
+};
+
+const readerExport = `<?xml version="1.0" encoding="UTF-8"?>
+<opml version="2.0">
+  <head><title>Feedly export</title></head>
+  <body>
+    <outline text="AI/LLM" title="AI/LLM">
+      <outline type="rss" text="Hugging Face Blog" xmlUrl="https://huggingface.co/blog/feed.xml" htmlUrl="https://huggingface.co/blog"/>
+      <outline type="rss" text="Simon Willison" xmlUrl="https://simonwillison.net/atom/everything/"/>
+    </outline>
+    <outline text="Dev Tools">
+      <!-- <outline type="rss" text="Commented out" xmlUrl="https://commented.example.com/feed"/> -->
+      <outline type="rss" title="Tools &amp; Tips" xmlUrl="https://tools.example.com/rss?a=1&amp;b=2"/>
+    </outline>
+    <outline type="rss" text="Tagged" xmlUrl="https://tagged.example.com/feed" category="/Tech,/News"/>
+    <outline type="rss" text="Loose" xmlUrl="https://loose.example.com/feed"/>
+    <outline type="rss" text="Lobsters again" xmlUrl="https://lobste.rs/rss"/>
+    <outline type="rss" text="HF again" xmlUrl="https://huggingface.co/blog/feed.xml"/>
+  </body>
+</opml>`;
+
+const existing: Source[] = [
+  { type: "hackernews", name: "Hacker News", category: "tech", enabled: true },
+  { type: "rss", name: "Lobsters", url: "https://lobste.rs/rss", category: "tech", enabled: true },
+];
+
+describe("decodeXmlEntities", () => {
+  test("decodes named entities and character references", () => {
+    expect(decodeXmlEntities("Q&amp;A &lt;b&gt; &#39;x&#x27; &QUOT;")).toBe(`Q&A <b> 'x' "`);
+    expect(decodeXmlEntities("&nbsp;&bogus;")).toBe("&nbsp;&bogus;");
+  });
+});
+
+describe("mapOpmlCategory", () => {
+  test("matches config keys and display labels", () => {
+    expect(mapOpmlCategory("AI", categories)).toBe("ai");
+    expect(mapOpmlCategory("AI/LLM", categories)).toBe("ai");
+    expect(mapOpmlCategory("🇯🇵 日本語Tech", categories)).toBe("tech-jp");
+    expect(mapOpmlCategory("日本語Tech", categories)).toBe("tech-jp");
+  });
+
+  test("turns unknown names into keys", () => {
+    expect(mapOpmlCategory("Dev Tools", categories)).toBe("dev-tools");
+  });
+});
+
+describe("importOpml", () => {
+  test("maps folders and category attributes, skipping duplicate URLs", () => {
+    const { sources, duplicates } = importOpml(readerExport, { existing, categories });
+
+    expect(sources).toEqual([
+      {
+        name: "Hugging Face Blog",
+        type: "rss",
+        url: "https://huggingface.co/blog/feed.xml",
+        category: "ai",
+        enabled: true,
+      },
+      {
+        name: "Simon Willison",
+        type: "rss",
+        url: "https://simonwillison.net/atom/everything/",
+        category: "ai",
+        enabled: true,
+      },
+      {
+        name: "Tools & Tips",
+        type: "rss",
+        url: "https://tools.example.com/rss?a=1&b=2",
+        category: "dev-tools",
+        enabled: true,
+      },
+      {
+        name: "Tagged",
+        type: "rss",
+        url: "https://tagged.example.com/feed",
+        category: "tech",
+        enabled: true,
+      },
+      {
+        name: "Loose",
+        type: "rss",
+        url: "https://loose.example.com/feed",
+        category: "tech",
+        enabled: true,
+      },
+    ]);
+    expect(duplicates).toEqual(["https://lobste.rs/rss", "https://huggingface.co/blog/feed.xml"]);
+  });
+
+  test("uses the default category for feeds outside folders", () => {
+    const { sources } = importOpml(readerExport, { defaultCategory: "misc" });
+    expect(sources.find((s) => s.name === "Loose")?.category).toBe("misc");
+  });
+});
+
+describe("exportOpml", () => {
+  test("writes one folder per category and leaves out non-RSS sources", () => {
+    const opml = exportOpml(
+      [
+        ...existing,
+        {
+          type: "rss",
+          name: 'Q&A "Weekly"',
+          url: "https://qa.example.com/feed?x=1&y=2",
+          category: "ai",
+          enabled: false,
+        },
+      ],
+      { categories }
+    );
+
+    expect(opml).toContain('<opml version="2.0">');
+    expect(opml).toContain('<outline text="tech" title="💻 Tech">');
+    expect(opml).toContain('xmlUrl="https://qa.example.com/feed?x=1&amp;y=2"');
+    expect(opml).toContain('text="Q&amp;A &quot;Weekly&quot;"');
+    expect(opml).toContain('enabled="false"');
+    expect(opml).not.toContain("Hacker News");
+  });
+});
+
+describe("sources.yaml round-trip", () => {
+  const configPath = join(import.meta.dir, "../../../../config/sources.yaml");
+
+  test("export then import reproduces every RSS source", async () => {
+    const config = Bun.YAML.parse(await Bun.file(configPath).text()) as Config;
+    const rssSources = config.sources.filter((s): s is RssSource => s.type === "rss");
+
+    const opml = exportOpml(config.sources, { categories: config.categories });
+    const { sources } = importOpml(opml, { categories: config.categories });
+
+    // Import lists feeds folder by folder, so compare independent of order
+    const byUrl = (a: RssSource, b: RssSource) => a.url.localeCompare(b.url);
+    expect(sources.toSorted(byUrl)).toEqual(rssSources.toSorted(byUrl));
+    expect(importOpml(opml, { existing: config.sources }).sources).toEqual([]);
+  });
+
+  test("imported sources written back to YAML parse to the same entries", () => {
+    const { sources } = importOpml(readerExport, { existing, categories });
+    const yaml = insertSourcesYaml(
+      [
+        "# Sources",
+        "sources:",
+        "  - name: Lobsters",
+        "    type: rss",
+        "    url: https://lobste.rs/rss",
+        "    category: tech",
+        "    enabled: true",
+        "",
+        "# Interests",
+        "interests:",
+        "  - AI",
+        "",
+      ].join("\n"),
+      sources
+    );
+
+    const parsed = Bun.YAML.parse(yaml) as Config;
+    expect(parsed.sources.slice(1)).toEqual(sources);
+    expect(parsed.interests).toEqual(["AI"]);
+    expect(yaml).toContain("  # Imported from OPML\n  - name: Hugging Face Blog");
+  });
+
+  test("quotes values that would not read back as strings", () => {
+    const yaml = formatSourcesYaml([
+      { name: "true", type: "rss", url: "https://a.example.com/#x", category: "ai", enabled: true },
+      {
+        name: "日本語ブログ: 技術",
+        type: "rss",
+        url: "https://b.example.com",
+        category: "tech-jp",
+        enabled: false,
+      },
+    ]);
+    const parsed = Bun.YAML.parse(`sources:\n${yaml}`) as Config;
+    expect(parsed.sources.map((s) => s.name)).toEqual(["true", "日本語ブログ: 技術"]);
+    expect(parsed.sources[1]?.enabled).toBe(false);
+  });
+});
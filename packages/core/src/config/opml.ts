@@ -0,0 +1,260 @@
+import type { Source, RssSource, JsonFeedSource } from "./types";
+
+/**
+ * OPML 2.0 import/export for RSS sources
+ *
+ * Export groups feeds into one folder outline per category, so other readers
+ * show the same grouping. Import accepts both that layout and the OPML
+ * `category` attribute, so files from other readers map onto our categories too.
+ */
+
+export interface OpmlExportOptions {
+  title?: string;
+  /** Category key -> display label (config.categories), written as the folder title */
+  categories?: Record<string, string>;
+}
+
+export interface OpmlImportOptions {
+  /** Sources already configured; feeds with the same URL are skipped */
+  existing?: Source[];
+  /** Category key -> display label (config.categories), used to map folder names back to keys */
+  categories?: Record<string, string>;
+  /** Category for feeds outside any folder and without a category attribute (default: "tech") */
+  defaultCategory?: string;
+}
+
+export interface OpmlImportResult {
+  /** New sources, in document order */
+  sources: RssSource[];
+  /** Feed URLs skipped because they are already configured or repeated in the file */
+  duplicates: string[];
+}
+
+interface OpmlOutline {
+  attrs: Record<string, string>;
+  /** Text of the enclosing folder outlines, outermost first */
+  folders: string[];
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Decode the predefined XML entities and numeric character references
+ * Also used by the arXiv adapter, which reads Atom without an XML parser.
+ */
+export function decodeXmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity.startsWith("#x") || entity.startsWith("#X")) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith("#")) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return XML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function encodeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attrs[match[1]!] = decodeXmlEntities(match[2] ?? match[3] ?? "");
+  }
+  return attrs;
+}
+
+/**
+ * Walk every <outline> element, tracking the folder outlines that enclose it
+ */
+function parseOutlines(xml: string): OpmlOutline[] {
+  const body = xml.replace(/<!--[\s\S]*?-->/g, "");
+  const outlines: OpmlOutline[] = [];
+  const folders: string[] = [];
+
+  for (const match of body.matchAll(/<(\/?)outline\b([^>]*?)(\/?)>/gi)) {
+    const [, closing, attrSource, selfClosing] = match;
+    if (closing) {
+      folders.pop();
+      continue;
+    }
+    const attrs = parseAttributes(attrSource ?? "");
+    outlines.push({ attrs, folders: [...folders] });
+    if (!selfClosing) {
+      folders.push(attrs.text ?? attrs.title ?? "");
+    }
+  }
+
+  return outlines;
+}
+
+/**
+ * Map an OPML category or folder name to a config category key.
+ * Matches keys and display labels case-insensitively (with or without the emoji),
+ * otherwise turns the name into a key like "tech-jp".
+ */
+export function mapOpmlCategory(name: string, categories: Record<string, string> = {}): string {
+  const normalized = name.trim().toLowerCase();
+  for (const [key, label] of Object.entries(categories)) {
+    const labelText = label.replace(/^[^\p{L}\p{N}]+/u, "").toLowerCase();
+    if (key.toLowerCase() === normalized || label.toLowerCase() === normalized) return key;
+    if (labelText === normalized) return key;
+  }
+  return normalized.replace(/[\s_/]+/g, "-").replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Category of a feed outline: the OPML `category` attribute wins
+ * (first entry, last path segment), then the innermost folder
+ */
+function outlineCategory(outline: OpmlOutline): string | undefined {
+  const attr = outline.attrs.category?.split(",")[0]?.trim();
+  if (attr) {
+    const segment = attr.split("/").findLast(Boolean);
+    if (segment) return segment;
+  }
+  return outline.folders.findLast(Boolean);
+}
+
+/**
+ * Parse an OPML document into new RSS sources
+ */
+export function importOpml(xml: string, options: OpmlImportOptions = {}): OpmlImportResult {
+  const defaultCategory = options.defaultCategory ?? "tech";
+  const seen = new Set(
+    (options.existing ?? []).filter((s): s is RssSource => s.type === "rss").map((s) => s.url)
+  );
+  const sources: RssSource[] = [];
+  const duplicates: string[] = [];
+
+  for (const outline of parseOutlines(xml)) {
+    const url = outline.attrs.xmlUrl?.trim();
+    if (!url) continue;
+
+    if (seen.has(url)) {
+      duplicates.push(url);
+      continue;
+    }
+    seen.add(url);
+
+    const category = outlineCategory(outline);
+    sources.push({
+      name: outline.attrs.text || outline.attrs.title || url,
+      type: "rss",
+      url,
+      category: category ? mapOpmlCategory(category, options.categories) : defaultCategory,
+      enabled: outline.attrs.enabled !== "false",
+    });
+  }
+
+  return { sources, duplicates };
+}
+
+/**
+ * Export RSS sources as an OPML 2.0 document, one folder per category.
+ * Other source types have no feed URL and are left out.
+ */
+export function exportOpml(sources: Source[], options: OpmlExportOptions = {}): string {
+  const byCategory = new Map<string, RssSource[]>();
+  for (const source of sources) {
+    if (source.type !== "rss") continue;
+    const group = byCategory.get(source.category) ?? [];
+    group.push(source);
+    byCategory.set(source.category, group);
+  }
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    "  <head>",
+    `    <title>${encodeXml(options.title ?? "Newsfeed AI sources")}</title>`,
+    `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+    "  </head>",
+    "  <body>",
+  ];
+
+  for (const [category, feeds] of byCategory) {
+    const label = options.categories?.[category] ?? category;
+    lines.push(`    <outline text="${encodeXml(category)}" title="${encodeXml(label)}">`);
+    for (const feed of feeds) {
+      const attrs = [
+        `type="rss"`,
+        `text="${encodeXml(feed.name)}"`,
+        `title="${encodeXml(feed.name)}"`,
+        `xmlUrl="${encodeXml(feed.url)}"`,
+        `category="/${encodeXml(category)}"`,
+      ];
+      // Not part of OPML; readers ignore it, and import restores it
+      if (!feed.enabled) attrs.push(`enabled="false"`);
+      lines.push(`      <outline ${attrs.join(" ")}/>`);
+    }
+    lines.push("    </outline>");
+  }
+
+  lines.push("  </body>", "</opml>", "");
+  return lines.join("\n");
+}
+
+/**
+ * Plain scalar when it reads back as the same string, double-quoted otherwise
+ */
+function yamlString(value: string): string {
+  const plain =
+    /^[A-Za-z][\w./:\- ]*$/.test(value) &&
+    !/[\s:]$|: | #/.test(value) &&
+    !/^(true|false|yes|no|on|off|null)$/i.test(value);
+  return plain ? value : JSON.stringify(value);
+}
+
+/**
+ * Format feed sources as entries for the `sources:` list in config/sources.yaml
+ */
+export function formatSourcesYaml(sources: (RssSource | JsonFeedSource)[]): string {
+  return sources
+    .map((s) =>
+      [
+        `  - name: ${yamlString(s.name)}`,
+        `    type: ${s.type}`,
+        `    url: ${yamlString(s.url)}`,
+        `    category: ${yamlString(s.category)}`,
+        `    enabled: ${s.enabled}`,
+      ].join("\n")
+    )
+    .join("\n\n");
+}
+
+/**
+ * Insert sources at the end of the `sources:` list in sources.yaml content,
+ * keeping the rest of the file (comments, interests, categories) untouched
+ */
+export function insertSourcesYaml(
+  yamlContent: string,
+  sources: (RssSource | JsonFeedSource)[]
+): string {
+  if (sources.length === 0) return yamlContent;
+
+  const lines = yamlContent.split("\n");
+  const start = lines.findIndex((line) => /^sources:\s*$/.test(line));
+  if (start === -1) {
+    throw new Error("No top-level `sources:` list found");
+  }
+
+  // The list ends at the next top-level key; its leading comments belong to that key
+  let end = lines.findIndex((line, i) => i > start && /^[^\s#]/.test(line));
+  if (end === -1) end = lines.length;
+  while (end > start + 1 && /^(#.*)?\s*$/.test(lines[end - 1]!)) end--;
+
+  const entries = ["", "  # Imported from OPML", formatSourcesYaml(sources)];
+  lines.splice(end, 0, ...entries);
+  return lines.join("\n");
+}
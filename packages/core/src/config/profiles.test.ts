@@ -0,0 +1,31 @@
+import { describe, test, expect } from "bun:test";
+import { resolveProfiles } from "./profiles";
+
+describe("resolveProfiles", () => {
+  test("uses the top-level interests when no profiles are configured", () => {
+    expect(resolveProfiles({ interests: ["Rust"], profiles: [] })).toEqual([
+      { name: "default", interests: ["Rust"] },
+    ]);
+  });
+
+  test("rejects invalid profiles", () => {
+    expect(() =>
+      resolveProfiles({
+        interests: [],
+        profiles: [
+          { name: "ai", interests: ["LLM"] },
+          { name: "ai", interests: ["Agents"] },
+        ],
+      })
+    ).toThrow('duplicate profile name "ai"');
+    expect(() =>
+      resolveProfiles({ interests: [], profiles: [{ name: "ai", interests: [] }] })
+    ).toThrow("profiles.ai: interests must not be empty");
+    expect(() =>
+      resolveProfiles({
+        interests: [],
+        profiles: [{ name: "ai", interests: ["LLM"], threshold: 2 }],
+      })
+    ).toThrow("profiles.ai: threshold must be between 0 and 1");
+  });
+});
@@ -0,0 +1,38 @@
+import type { Config, InterestProfile } from "./types";
+
+/** Name of the profile built from the top-level interests */
+export const DEFAULT_PROFILE_NAME = "default";
+
+/**
+ * Interest profiles to build digests for
+ * Without a profiles section, the top-level interests form a single
+ * "default" profile that covers every category.
+ * @throws Error on duplicate names, a profile without interests or an
+ *   out-of-range threshold
+ */
+export function resolveProfiles(config: Pick<Config, "interests" | "profiles">): InterestProfile[] {
+  if (!config.profiles || config.profiles.length === 0) {
+    return [{ name: DEFAULT_PROFILE_NAME, interests: config.interests ?? [] }];
+  }
+
+  const names = new Set<string>();
+  for (const profile of config.profiles) {
+    if (!profile.name) {
+      throw new Error("profiles: every profile needs a name");
+    }
+    if (names.has(profile.name)) {
+      throw new Error(`profiles: duplicate profile name "${profile.name}"`);
+    }
+    names.add(profile.name);
+
+    if (!profile.interests || profile.interests.length === 0) {
+      throw new Error(`profiles.${profile.name}: interests must not be empty`);
+    }
+    if (profile.threshold !== undefined && (profile.threshold < 0 || profile.threshold > 1)) {
+      throw new Error(
+        `profiles.${profile.name}: threshold must be between 0 and 1, got ${profile.threshold}`
+      );
+    }
+  }
+  return config.profiles;
+}
@@ -0,0 +1,71 @@
+import { describe, test, expect } from "bun:test";
+import {
+  DEFAULT_SCORING_BOOSTERS,
+  DEFAULT_SCORING_PROMPT,
+  renderScoringPrompt,
+  resolveScoringPolicy,
+} from "./scoring";
+
+describe("resolveScoringPolicy", () => {
+  test("falls back to the built-in prompt and policy", () => {
+    expect(resolveScoringPolicy()).toEqual({
+      prompt: DEFAULT_SCORING_PROMPT,
+      boosters: DEFAULT_SCORING_BOOSTERS,
+      reducers: expect.any(Array),
+      threshold: 0.5,
+      batchSize: 10,
+    });
+  });
+
+  test("uses configured values", () => {
+    const policy = resolveScoringPolicy({
+      prompt: "Score for a data team.\n{{articles}}",
+      boosters: ["Benchmarks on real datasets"],
+      threshold: 0.7,
+      batch_size: 5,
+    });
+
+    expect(policy).toMatchObject({
+      prompt: "Score for a data team.\n{{articles}}",
+      boosters: ["Benchmarks on real datasets"],
+      threshold: 0.7,
+      batchSize: 5,
+    });
+  });
+
+  test("rejects invalid settings", () => {
+    expect(() => resolveScoringPolicy({ threshold: 1.5 })).toThrow(
+      "scoring.threshold must be between 0 and 1"
+    );
+    expect(() => resolveScoringPolicy({ batch_size: 0 })).toThrow(
+      "scoring.batch_size must be a positive integer"
+    );
+    expect(() => resolveScoringPolicy({ prompt: "{{articles}} {{intrests}}" })).toThrow(
+      "scoring.prompt uses unknown variables: {{intrests}}"
+    );
+    expect(() => resolveScoringPolicy({ prompt: "Score these: {{interests}}" })).toThrow(
+      "scoring.prompt must include {{articles}}"
+    );
+  });
+});
+
+describe("renderScoringPrompt", () => {
+  test("fills in every variable", () => {
+    const policy = resolveScoringPolicy({
+      prompt:
+        "Interests:\n{{ interests }}\nBoost:\n{{boosters}}\nReduce:\n{{reducers}}\n{{articles}}\nMin: {{threshold}}",
+      boosters: ["Production metrics"],
+      reducers: ["Marketing", "Listicles"],
+      threshold: 0.6,
+    });
+
+    const prompt = renderScoringPrompt(policy, {
+      interests: "- Rust",
+      articles: "[0] Rust 2.0 (Blog) - no description",
+    });
+
+    expect(prompt).toBe(
+      "Interests:\n- Rust\nBoost:\n- Production metrics\nReduce:\n- Marketing\n- Listicles\n[0] Rust 2.0 (Blog) - no description\nMin: 0.6"
+    );
+  });
+});
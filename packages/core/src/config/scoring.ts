@@ -0,0 +1,135 @@
+import type { ScoringConfig, ScoringPolicy } from "./types";
+
+/** Variables available in the scoring prompt template */
+export const SCORING_PROMPT_VARIABLES = [
+  "interests",
+  "articles",
+  "boosters",
+  "reducers",
+  "threshold",
+] as const;
+
+export type ScoringPromptVariable = (typeof SCORING_PROMPT_VARIABLES)[number];
+
+export const DEFAULT_SCORING_PROMPT = `You are filtering news articles for a developer focused on AI agents, LLMOps, and production deployment.
+
+## Scoring Priorities (in order of importance):
+1. **Practical production experience** (highest value): "how we built", "lessons learned", production post-mortems, real metrics from deployments, trial-and-error stories
+2. **Self-improving agents**: recursive improvement, meta-learning, agent evolution, Gödel Agent, SICA, self-evolving systems
+3. **Agent metrics & observability**: evaluation frameworks, monitoring in production, tracing, task completion rates, LLM-as-judge
+4. **Last-mile problems**: prototype-to-production challenges, deployment failures, cost optimization, context pollution fixes
+
+## Originality & Novelty Evaluation (CRITICAL for blog posts):
+**Originality** (独自性): Does the article provide unique insights, original analysis, or first-hand experience?
+- HIGH: Author's own experiments, unique data, original research, proprietary insights
+- MEDIUM: Synthesis of multiple sources with new perspective
+- LOW: Rehashing well-known information, summarizing others' work without adding value
+
+**Novelty** (新規性): Does the article cover new developments, recent findings, or emerging topics?
+- HIGH: Breaking news, new techniques, recent discoveries, cutting-edge approaches
+- MEDIUM: Updates to existing knowledge, new applications of known methods
+- LOW: Already widely covered topics, basic tutorials without new angles
+
+Articles lacking BOTH originality AND novelty impose cognitive load without providing value - score them LOW.
+
+## Score Boosters (+0.15 each):
+{{boosters}}
+
+## Score Reducers (-0.15 each):
+{{reducers}}
+
+## User Interests:
+{{interests}}
+
+## Articles to evaluate:
+{{articles}}
+
+Respond with JSON array only:
+[{"index": 0, "score": 0.8, "originality": "high", "novelty": "medium", "reason": "practical production experience with metrics"}, ...]
+
+originality/novelty values: "high", "medium", or "low"
+Only include articles with score >= {{threshold}}`;
+
+export const DEFAULT_SCORING_BOOSTERS = [
+  "Contains specific metrics/numbers from real production use",
+  "Describes failures, debugging, or trial-and-error process",
+  "From practitioner blog (Simon Willison, Latent Space, etc.) vs news site",
+  "Discusses agent evaluation methodology or metrics design",
+  "Deep technical content about agent internals or LLMOps",
+  "**Original research or first-hand experimental results**",
+  "**Novel technique or approach not widely documented**",
+];
+
+export const DEFAULT_SCORING_REDUCERS = [
+  "Generic product announcement without technical depth",
+  "Marketing content, listicles, or superficial overviews",
+  "Game/entertainment releases (unless AI/agent related)",
+  "Cryptocurrency price/market news (keep DeFi tech only)",
+  "**Rehashing commonly known information without new insights**",
+  "**Content that duplicates what's already widely available**",
+  "**Basic explanations of well-established concepts**",
+];
+
+export const DEFAULT_SCORING_THRESHOLD = 0.5;
+export const DEFAULT_SCORING_BATCH_SIZE = 10;
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Fill in the scoring settings, falling back to the built-in defaults
+ * @throws Error on an out-of-range threshold or batch size, or a template with
+ *   unknown variables or without {{articles}}
+ */
+export function resolveScoringPolicy(config: ScoringConfig = {}): ScoringPolicy {
+  const policy: ScoringPolicy = {
+    prompt: config.prompt ?? DEFAULT_SCORING_PROMPT,
+    boosters: config.boosters ?? DEFAULT_SCORING_BOOSTERS,
+    reducers: config.reducers ?? DEFAULT_SCORING_REDUCERS,
+    threshold: config.threshold ?? DEFAULT_SCORING_THRESHOLD,
+    batchSize: config.batch_size ?? DEFAULT_SCORING_BATCH_SIZE,
+  };
+
+  if (policy.threshold < 0 || policy.threshold > 1) {
+    throw new Error(`scoring.threshold must be between 0 and 1, got ${policy.threshold}`);
+  }
+  if (!Number.isInteger(policy.batchSize) || policy.batchSize < 1) {
+    throw new Error(`scoring.batch_size must be a positive integer, got ${policy.batchSize}`);
+  }
+
+  const variables = [...policy.prompt.matchAll(VARIABLE_PATTERN)].map((m) => m[1]!);
+  const unknown = variables.filter(
+    (name) => !(SCORING_PROMPT_VARIABLES as readonly string[]).includes(name)
+  );
+  if (unknown.length > 0) {
+    throw new Error(
+      `scoring.prompt uses unknown variables: ${unknown.map((name) => `{{${name}}}`).join(", ")}`
+    );
+  }
+  if (!variables.includes("articles")) {
+    throw new Error("scoring.prompt must include {{articles}}");
+  }
+
+  return policy;
+}
+
+/**
+ * Render the scoring prompt for one batch
+ * Boosters and reducers become bullet lists; interests and articles are
+ * inserted as given.
+ */
+export function renderScoringPrompt(
+  policy: ScoringPolicy,
+  values: { interests: string; articles: string }
+): string {
+  const variables: Record<ScoringPromptVariable, string> = {
+    interests: values.interests,
+    articles: values.articles,
+    boosters: policy.boosters.map((b) => `- ${b}`).join("\n"),
+    reducers: policy.reducers.map((r) => `- ${r}`).join("\n"),
+    threshold: String(policy.threshold),
+  };
+  return policy.prompt.replace(
+    VARIABLE_PATTERN,
+    (match, name: string) => variables[name as ScoringPromptVariable] ?? match
+  );
+}
@@ -6,27 +6,165 @@ export interface RssSource {
   enabled: boolean;
 }
 
+export interface JsonFeedSource {
+  name: string;
+  type: "jsonfeed";
+  url: string;
+  category: string;
+  enabled: boolean;
+}
+
+export type HackerNewsList = "top" | "best" | "new" | "show" | "ask";
+
 export interface HackerNewsSource {
   name: string;
   type: "hackernews";
   category: string;
   enabled: boolean;
+  /** Story list to read (default: "top") */
+  list?: HackerNewsList;
+  /** Skip stories below this score */
+  minScore?: number;
+  /** Skip stories with fewer comments */
+  minComments?: number;
+  /** Max stories returned after filtering (default: 30) */
+  limit?: number;
 }
 
+export type GitHubTrendingSince = "daily" | "weekly" | "monthly";
+
 export interface GitHubTrendingSource {
   name: string;
   type: "github-trending";
   languages: string[];
   category: string;
   enabled: boolean;
+  /** Trending period (default: "daily"); day streaks are only tracked for "daily" */
+  since?: GitHubTrendingSince;
+  /** Only repos whose README is in this language (ISO 639-1, e.g. "ja") */
+  spoken_language_code?: string;
+}
+
+export interface GitHubReleasesSource {
+  name: string;
+  type: "github-releases";
+  /** Watched repositories as "owner/repo" */
+  repos: string[];
+  category: string;
+  enabled: boolean;
+  /** Also notify alpha/beta/rc/canary releases (default: false) */
+  include_prereleases?: boolean;
+}
+
+export interface ArxivSource {
+  name: string;
+  type: "arxiv";
+  /** arXiv categories to query (e.g. "cs.AI", "cs.CL") */
+  categories: string[];
+  /** Only papers with one of these terms in the title or abstract */
+  keywords?: string[];
+  category: string;
+  enabled: boolean;
+  /** Newest submissions requested per run (default: 50) */
+  max_results?: number;
+}
+
+export type Source =
+  | RssSource
+  | JsonFeedSource
+  | HackerNewsSource
+  | GitHubTrendingSource
+  | GitHubReleasesSource
+  | ArxivSource;
+
+export type LlmProvider = "groq" | "openai" | "ollama" | "anthropic";
+
+/** Pipeline stages that call an LLM, each configurable on its own */
+export type LlmStage =
+  | "filter"
+  | "summarize"
+  | "detailed_summary"
+  | "discussion"
+  | "pr_description"
+  | "interests";
+
+export interface LlmStageConfig {
+  /** Backend (default: "groq"); "openai" covers any OpenAI-compatible server */
+  provider?: LlmProvider;
+  /** Model name; required for every provider except groq */
+  model?: string;
+  /** API base URL (e.g. "http://localhost:8000/v1" for vLLM, a remote Ollama host) */
+  base_url?: string;
+  /** Environment variable holding the API key (default: GROQ_API_KEY, OPENAI_API_KEY, ANTHROPIC_API_KEY) */
+  api_key_env?: string;
+  temperature?: number;
+  max_tokens?: number;
+  /** Re-asks after a response that fails its schema (default: 2) */
+  max_repairs?: number;
+}
+
+export interface LlmConfig extends LlmStageConfig {
+  /** Per-stage settings, overriding the ones above */
+  stages?: Partial<Record<LlmStage, LlmStageConfig>>;
+}
+
+/**
+ * How the filter stage scores articles. The prompt template may use
+ * {{interests}}, {{articles}}, {{boosters}}, {{reducers}} and {{threshold}}.
+ */
+export interface ScoringConfig {
+  /** Prompt template (default: the built-in prompt for AI agents and LLMOps) */
+  prompt?: string;
+  /** Signals that raise the score, listed under {{boosters}} */
+  boosters?: string[];
+  /** Signals that lower the score, listed under {{reducers}} */
+  reducers?: string[];
+  /** Articles the LLM scores below this are dropped (default: 0.5) */
+  threshold?: number;
+  /** Articles per LLM request (default: 10) */
+  batch_size?: number;
+}
+
+/** Scoring settings with defaults filled in (see resolveScoringPolicy) */
+export interface ScoringPolicy {
+  prompt: string;
+  boosters: string[];
+  reducers: string[];
+  threshold: number;
+  batchSize: number;
 }
 
-export type Source = RssSource | HackerNewsSource | GitHubTrendingSource;
+/**
+ * A named audience with its own digest. Every profile ranks the same fetched
+ * articles against its own interests.
+ */
+export interface InterestProfile {
+  /** Unique name, used for logs and per-profile notified state */
+  name: string;
+  interests: string[];
+  /** Only articles in these categories (default: all) */
+  categories?: string[];
+  /** Overrides scoring.threshold for this profile */
+  threshold?: number;
+  /** Articles per digest (default: MAX_ARTICLES, 20) */
+  max_articles?: number;
+  /** Channel the bot posts this digest to (default: DISCORD_CHANNEL_ID) */
+  channel_id?: string;
+  /** Environment variable holding the webhook URL for CLI runs (default: DISCORD_WEBHOOK) */
+  webhook_env?: string;
+}
 
 export interface Config {
   sources: Source[];
+  /** Interests of the default profile, used when no profiles are configured */
   interests: string[];
   categories: Record<string, string>;
+  /** LLM backend and model per pipeline stage (default: Groq) */
+  llm?: LlmConfig;
+  /** Relevance scoring prompt and policy (default: built-in) */
+  scoring?: ScoringConfig;
+  /** Separate digests per audience (default: one profile from interests) */
+  profiles?: InterestProfile[];
 }
 
 export interface CategoryConfig {
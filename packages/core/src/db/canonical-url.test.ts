@@ -0,0 +1,88 @@
+import { describe, test, expect } from "bun:test";
+import { canonicalizeUrl } from "./canonical-url";
+
+describe("canonicalizeUrl", () => {
+  test("treats http/https, host case, default ports and fragments as the same URL", () => {
+    const expected = "https://example.com/posts/hello";
+    expect(canonicalizeUrl("http://example.com/posts/hello")).toBe(expected);
+    expect(canonicalizeUrl("https://EXAMPLE.com:443/posts/hello#comments")).toBe(expected);
+    expect(canonicalizeUrl("http://example.com:80/posts/hello")).toBe(expected);
+    expect(canonicalizeUrl("  https://example.com/posts/hello  ")).toBe(expected);
+  });
+
+  test("removes trailing slashes", () => {
+    expect(canonicalizeUrl("https://example.com/posts/hello/")).toBe(
+      "https://example.com/posts/hello"
+    );
+    expect(canonicalizeUrl("https://example.com/")).toBe("https://example.com");
+  });
+
+  test("drops tracking parameters and sorts the rest", () => {
+    expect(
+      canonicalizeUrl(
+        "https://example.com/a?utm_source=rss&utm_medium=feed&id=42&fbclid=abc&page=2&gclid=x"
+      )
+    ).toBe("https://example.com/a?id=42&page=2");
+    expect(canonicalizeUrl("https://example.com/a?page=2&id=42")).toBe(
+      "https://example.com/a?id=42&page=2"
+    );
+    expect(canonicalizeUrl("https://medium.com/@dev/post-123?source=rss----abc---4")).toBe(
+      "https://medium.com/@dev/post-123"
+    );
+    // Meaningful parameters with the same name stay
+    expect(canonicalizeUrl("https://example.com/search?source=github")).toBe(
+      "https://example.com/search?source=github"
+    );
+  });
+
+  test("removes AMP variants", () => {
+    const expected = "https://news.example.com/2024/05/story";
+    expect(canonicalizeUrl("https://news.example.com/2024/05/story/amp/")).toBe(expected);
+    expect(canonicalizeUrl("https://news.example.com/2024/05/story?amp=1")).toBe(expected);
+    expect(canonicalizeUrl("https://news.example.com/2024/05/story?outputType=amp")).toBe(expected);
+    expect(canonicalizeUrl("https://amp.news.example.com/2024/05/story")).toBe(expected);
+    expect(
+      canonicalizeUrl(
+        "https://news-example-com.cdn.ampproject.org/c/s/news.example.com/2024/05/story"
+      )
+    ).toBe(expected);
+    expect(canonicalizeUrl("https://example.com/story.amp.html")).toBe(
+      "https://example.com/story.html"
+    );
+    expect(canonicalizeUrl("https://example.com/posts/12345/amp")).toBe(
+      "https://example.com/posts/12345"
+    );
+    expect(canonicalizeUrl("https://blog.example.com/how-we-ship-agents/amp/")).toBe(
+      "https://blog.example.com/how-we-ship-agents"
+    );
+    // Not AMP variants
+    expect(canonicalizeUrl("https://amp.dev/documentation")).toBe("https://amp.dev/documentation");
+    expect(canonicalizeUrl("https://example.com/amp")).toBe("https://example.com/amp");
+    expect(canonicalizeUrl("https://github.com/ampproject/amp")).toBe(
+      "https://github.com/ampproject/amp"
+    );
+    expect(canonicalizeUrl("https://example.com/docs/amp")).toBe("https://example.com/docs/amp");
+  });
+
+  test("unwraps redirect links", () => {
+    const target = "https://example.com/post?utm_source=twitter";
+    expect(canonicalizeUrl(`https://www.google.com/url?q=${encodeURIComponent(target)}&sa=D`)).toBe(
+      "https://example.com/post"
+    );
+    expect(canonicalizeUrl(`https://l.facebook.com/l.php?u=${encodeURIComponent(target)}`)).toBe(
+      "https://example.com/post"
+    );
+    expect(canonicalizeUrl(`https://out.reddit.com/t3_abc?url=${encodeURIComponent(target)}`)).toBe(
+      "https://example.com/post"
+    );
+  });
+
+  test("leaves values that are not web URLs alone", () => {
+    expect(canonicalizeUrl("not a url")).toBe("not a url");
+    expect(canonicalizeUrl("mailto:someone@example.com")).toBe("mailto:someone@example.com");
+    // A wrapper without a usable target is kept as is
+    expect(canonicalizeUrl("https://www.google.com/url?q=javascript:alert(1)")).toBe(
+      "https://www.google.com/url?q=javascript%3Aalert%281%29"
+    );
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * URL canonicalization for article deduplication
+ * The same article shows up with tracking parameters, AMP variants, trailing
+ * slashes, http/https differences or wrapped in a redirect link. The canonical
+ * form is only a dedup key; the original URL is still what gets linked.
+ */
+
+// Query parameters that only identify the campaign/referrer, never the content
+const TRACKING_PARAM =
+  /^(utm_\w+|fbclid|gclid|dclid|gbraid|wbraid|msclkid|yclid|twclid|igshid|mc_cid|mc_eid|_hsenc|_hsmi|mkt_tok|oly_anon_id|oly_enc_id|vero_id|ref_src|ref_url|cmpid|ncid|ocid|sr_share|spm|at_medium|at_campaign|guccounter|guce_referrer|guce_referrer_sig)$/i;
+
+// Redirect wrappers that carry the target URL in a query parameter
+const REDIRECT_WRAPPERS: { host: RegExp; path?: RegExp; params: string[] }[] = [
+  { host: /^(www\.)?google\.[a-z.]+$/, path: /^\/url$/, params: ["q", "url"] },
+  { host: /^(l|lm)\.facebook\.com$/, path: /^\/l\.php$/, params: ["u"] },
+  { host: /^out\.reddit\.com$/, params: ["url"] },
+  { host: /^t\.umblr\.com$/, path: /^\/redirect$/, params: ["z"] },
+  { host: /^(www\.)?youtube\.com$/, path: /^\/redirect$/, params: ["q"] },
+  { host: /^slack-redir\.net$/, path: /^\/link$/, params: ["url"] },
+];
+
+// Google AMP cache: https://example-com.cdn.ampproject.org/c/s/example.com/path
+const AMP_CACHE_HOST = /\.cdn\.ampproject\.org$/;
+const AMP_CACHE_PATH = /^\/(?:[a-z]\/)*?(s\/)?([^/]+\.[^/]+)(\/.*)?$/;
+
+/**
+ * Unwrap known redirect services and the AMP cache, returning the target URL
+ */
+function unwrap(url: URL): URL {
+  for (let depth = 0; depth < 3; depth++) {
+    const host = url.hostname;
+
+    if (AMP_CACHE_HOST.test(host)) {
+      const match = url.pathname.match(AMP_CACHE_PATH);
+      if (!match) return url;
+      const target = tryParse(`https://${match[2]}${match[3] ?? "/"}${url.search}`);
+      if (!target) return url;
+      url = target;
+      continue;
+    }
+
+    const wrapper = REDIRECT_WRAPPERS.find(
+      (w) => w.host.test(host) && (!w.path || w.path.test(url.pathname))
+    );
+    if (!wrapper) return url;
+
+    const candidate = wrapper.params.map((p) => url.searchParams.get(p)).find(Boolean);
+    const target = candidate ? tryParse(candidate) : null;
+    if (!target) return url;
+    url = target;
+  }
+  return url;
+}
+
+function tryParse(value: string): URL | null {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:" ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a path (without the trailing /amp) looks like an article: it has a
+ * date segment, or its last segment carries an id or is a multi-word slug.
+ * Keeps paths like /ampproject/amp or /docs/amp from collapsing into their parent.
+ */
+function isArticlePath(path: string): boolean {
+  const last = path.slice(path.lastIndexOf("/") + 1);
+  return /\/\d{4}\/\d{1,2}(\/|$)/.test(path) || /\d/.test(last) || /-[^-]+-/.test(last);
+}
+
+/**
+ * Remove AMP markers from the host, path and query
+ */
+function stripAmp(url: URL): void {
+  // amp.example.com, but not amp.dev itself
+  if (/^amp\.[^.]+\.[^.]+/.test(url.hostname)) url.hostname = url.hostname.slice(4);
+  const ampPath = /^(.+)\/amp\/?$/i.exec(url.pathname);
+  if (ampPath?.[1] && isArticlePath(ampPath[1])) url.pathname = ampPath[1];
+  url.pathname = url.pathname.replace(/\.amp(\.html?)$/i, "$1").replace(/\.amp$/i, "");
+  url.searchParams.delete("amp");
+  if (url.searchParams.get("outputType")?.toLowerCase() === "amp") {
+    url.searchParams.delete("outputType");
+  }
+}
+
+/**
+ * Normalize a URL into its canonical form for deduplication
+ * - unwraps redirect links and the AMP cache
+ * - https, lowercase host, no default port or fragment
+ * - drops tracking parameters (utm_*, fbclid, ...) and sorts the rest
+ * - removes AMP variants and trailing slashes
+ * Values that are not http(s) URLs are returned trimmed but otherwise unchanged.
+ */
+export function canonicalizeUrl(value: string): string {
+  const parsed = tryParse(value.trim());
+  if (!parsed) return value.trim();
+
+  const url = unwrap(parsed);
+  url.protocol = "https:";
+  url.hash = "";
+  url.username = "";
+  url.password = "";
+  if (url.port === "80" || url.port === "443") url.port = "";
+
+  stripAmp(url);
+
+  const dropped = [...url.searchParams].filter(
+    ([key, value]) =>
+      TRACKING_PARAM.test(key) ||
+      // Medium and others tag feed links with source=rss-...
+      (key === "source" && /^rss/i.test(value))
+  );
+  for (const [key] of dropped) url.searchParams.delete(key);
+  url.searchParams.sort();
+
+  if (url.pathname.length > 1) url.pathname = url.pathname.replace(/\/+$/, "");
+
+  const search = url.searchParams.toString();
+  return `${url.protocol}//${url.host}${url.pathname === "/" ? "" : url.pathname}${search ? `?${search}` : ""}`;
+}
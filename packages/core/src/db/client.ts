@@ -1,4 +1,5 @@
 import type { Client } from "@libsql/client";
+import { canonicalizeUrl } from "./canonical-url";
 import type { DbConfig } from "./types";
 
 let client: Client | null = null;
@@ -80,6 +81,117 @@ export async function ensureDb(config: DbConfig = {}): Promise<Client> {
   await client.execute(`CREATE INDEX IF NOT EXISTS idx_created ON articles(created_at)`);
   await client.execute(`CREATE INDEX IF NOT EXISTS idx_notified ON articles(notified)`);
 
+  // Which interest profile's digest each article was sent to
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS article_notifications (
+      url TEXT NOT NULL,
+      profile TEXT NOT NULL,
+      notified_at TEXT DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (url, profile)
+    )
+  `);
+
+  // Articles a profile's filter scored and passed on, so they are not scored again
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS article_dismissals (
+      url TEXT NOT NULL,
+      profile TEXT NOT NULL,
+      dismissed_at TEXT DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (url, profile)
+    )
+  `);
+
+  // Discord message per posted article, to trace reactions back to articles
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS article_messages (
+      message_id TEXT PRIMARY KEY,
+      channel_id TEXT NOT NULL,
+      url TEXT NOT NULL,
+      profile TEXT,
+      posted_at TEXT DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // 👍/👎 reactions from readers, one row per user, article and signal
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS article_feedback (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      url TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      signal TEXT NOT NULL,
+      message_id TEXT,
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (url, user_id, signal)
+    )
+  `);
+
+  await client.execute(`CREATE INDEX IF NOT EXISTS idx_feedback_user ON article_feedback(user_id)`);
+
+  // Article detail page views, counted as clicks when learning ranking weights
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS article_clicks (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      url TEXT NOT NULL,
+      clicked_at TEXT DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // Web app searches, a signal for interest profile suggestions
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS search_queries (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      query TEXT NOT NULL,
+      result_count INTEGER NOT NULL,
+      searched_at TEXT DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // Approved interest lists per profile; the highest version replaces the configured list
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS interest_profile_versions (
+      profile TEXT NOT NULL,
+      version INTEGER NOT NULL,
+      interests TEXT NOT NULL,
+      suggestion_id INTEGER,
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (profile, version)
+    )
+  `);
+
+  // Interest changes proposed from behavior, awaiting approval in Discord
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS interest_suggestions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      profile TEXT NOT NULL,
+      base_version INTEGER NOT NULL,
+      additions TEXT NOT NULL,
+      removals TEXT NOT NULL,
+      reason TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      channel_id TEXT,
+      message_id TEXT,
+      decided_by TEXT,
+      decided_at TEXT,
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+  await client.execute(
+    `CREATE INDEX IF NOT EXISTS idx_interest_suggestion_message ON interest_suggestions(message_id)`
+  );
+
+  // Per-source and per-category score multipliers learned from feedback and clicks
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS ranking_weights (
+      dimension TEXT NOT NULL,
+      key TEXT NOT NULL,
+      weight REAL NOT NULL,
+      positive REAL NOT NULL,
+      negative REAL NOT NULL,
+      updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (dimension, key)
+    )
+  `);
+
   await client.execute(`
     CREATE TABLE IF NOT EXISTS pending_task_notifications (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -107,12 +219,100 @@ export async function ensureDb(config: DbConfig = {}): Promise<Client> {
     )
   `);
 
+  // HTTP validators and content hash per feed, for conditional GET
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS feed_cache (
+      feed_url TEXT PRIMARY KEY,
+      etag TEXT,
+      last_modified TEXT,
+      content_hash TEXT,
+      checked_at TEXT DEFAULT CURRENT_TIMESTAMP,
+      changed_at TEXT
+    )
+  `);
+
+  // One row per source fetch attempt, for health tracking
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS source_fetch_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      source TEXT NOT NULL,
+      source_type TEXT NOT NULL,
+      status TEXT NOT NULL,
+      latency_ms INTEGER,
+      item_count INTEGER,
+      error TEXT,
+      fetched_at TEXT DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  await client.execute(
+    `CREATE INDEX IF NOT EXISTS idx_fetch_log_source ON source_fetch_log(source, id)`
+  );
+
+  // Sources auto-disabled after repeated failures (until re-enabled)
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS disabled_sources (
+      source TEXT PRIMARY KEY,
+      reason TEXT,
+      disabled_at TEXT DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // Days each repo appeared on GitHub Trending (for consecutive-day streaks)
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS github_trending_history (
+      repo TEXT NOT NULL,
+      trended_on TEXT NOT NULL,
+      PRIMARY KEY (repo, trended_on)
+    )
+  `);
+
+  // Extracted full text per fetched URL, reused by summaries, search indexing and scripts
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS article_contents (
+      url TEXT PRIMARY KEY,
+      content TEXT,
+      content_hash TEXT,
+      og_image TEXT,
+      canonical_url TEXT,
+      status TEXT NOT NULL,
+      error TEXT,
+      fetched_at TEXT DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // Developing topics (release → benchmarks → post-mortem) linking articles across days
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS stories (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      title TEXT NOT NULL,
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+      updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
   // Migration: Add new columns to existing tables (ignore errors if columns exist)
   const migrations = [
     "ALTER TABLE articles ADD COLUMN detailed_summary TEXT",
     "ALTER TABLE articles ADD COLUMN key_points TEXT",
     "ALTER TABLE articles ADD COLUMN target_audience TEXT",
     "ALTER TABLE articles ADD COLUMN og_image TEXT",
+    "ALTER TABLE articles ADD COLUMN hn_id INTEGER",
+    "ALTER TABLE articles ADD COLUMN discussion_url TEXT",
+    "ALTER TABLE articles ADD COLUMN discussion_summary TEXT",
+    "ALTER TABLE articles ADD COLUMN release_repo TEXT",
+    "ALTER TABLE articles ADD COLUMN release_version TEXT",
+    "ALTER TABLE articles ADD COLUMN arxiv_id TEXT",
+    "ALTER TABLE articles ADD COLUMN arxiv_version INTEGER",
+    "ALTER TABLE articles ADD COLUMN authors TEXT",
+    "ALTER TABLE articles ADD COLUMN pdf_url TEXT",
+    "CREATE INDEX IF NOT EXISTS idx_arxiv_id ON articles(arxiv_id)",
+    "ALTER TABLE articles ADD COLUMN canonical_url TEXT",
+    "CREATE INDEX IF NOT EXISTS idx_canonical_url ON articles(canonical_url)",
+    "ALTER TABLE articles ADD COLUMN also_discussed TEXT",
+    "ALTER TABLE articles ADD COLUMN story_id INTEGER",
+    "CREATE INDEX IF NOT EXISTS idx_story_id ON articles(story_id)",
+    "ALTER TABLE articles ADD COLUMN badge TEXT",
   ];
 
   async function runMigration(sql: string): Promise<void> {
@@ -136,11 +336,46 @@ export async function ensureDb(config: DbConfig = {}): Promise<Client> {
     Promise.resolve()
   );
 
+  await backfillCanonicalUrls(client);
+
   initialized = true;
   currentConfig = config;
   return client;
 }
 
+const BACKFILL_BATCH_SIZE = 500;
+// Rows filled per ensureDb(); a large database is migrated over a few starts
+const BACKFILL_LIMIT = 5000;
+
+/**
+ * Migration: fill canonical_url for articles saved before it existed
+ * Once every row has one, this is a single lookup on idx_canonical_url.
+ */
+async function backfillCanonicalUrls(db: Client): Promise<void> {
+  const result = await db.execute({
+    sql: "SELECT id, url FROM articles WHERE canonical_url IS NULL LIMIT ?",
+    args: [BACKFILL_LIMIT],
+  });
+  const rows = result.rows as unknown as { id: number; url: string }[];
+  if (rows.length === 0) return;
+
+  const batches: (typeof rows)[] = [];
+  for (let i = 0; i < rows.length; i += BACKFILL_BATCH_SIZE) {
+    batches.push(rows.slice(i, i + BACKFILL_BATCH_SIZE));
+  }
+  await batches.reduce<Promise<void>>(async (prev, batch) => {
+    await prev;
+    await db.batch(
+      batch.map((row) => ({
+        sql: "UPDATE articles SET canonical_url = ? WHERE id = ?",
+        args: [canonicalizeUrl(row.url), row.id],
+      })),
+      "write"
+    );
+  }, Promise.resolve());
+  console.log(`[db] Backfilled canonical URLs for ${rows.length} articles`);
+}
+
 export async function getDb(): Promise<Client> {
   if (!client || !initialized) {
     throw new Error("Database not initialized. Call ensureDb() first.");
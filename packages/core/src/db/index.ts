@@ -1,22 +1,58 @@
 // Types
-export type { Article, ArticleRow, PendingTaskNotification, DbConfig } from "./types";
+export type {
+  Article,
+  ArticleRow,
+  AlsoDiscussedLink,
+  Story,
+  ArticleMessage,
+  FeedbackSignal,
+  ArticleFeedback,
+  RankingSignal,
+  RankingDimension,
+  RankingWeight,
+  EngagedArticle,
+  SearchQueryStat,
+  InterestProfileVersion,
+  InterestSuggestionStatus,
+  InterestSuggestion,
+  ArticleContent,
+  ArticleContentStatus,
+  PendingTaskNotification,
+  FeedCacheEntry,
+  SourceFetchStatus,
+  SourceFetchLogStatus,
+  SourceFetchLogEntry,
+  SourceHealth,
+  DbConfig,
+} from "./types";
 export { rowToArticle } from "./types";
 
 // Client
 export { ensureDb, getDb, closeDb, setDbClientFactory } from "./client";
 
+// URL canonicalization (dedup key)
+export { canonicalizeUrl } from "./canonical-url";
+
 // Operations
 export {
   isArticleSeen,
   saveArticle,
   markAsNotified,
+  getNotifiedUrls,
+  markDismissed,
+  getUnsentArticles,
   getRecentArticles,
+  getRecentNotifiedArticles,
   getArticlesWithDetailedSummary,
   getArticlesWithoutDetailedSummary,
   getArticleByUrl,
   getAllArticlesForIndexing,
   updateArticleDetailedSummary,
+  updateArticleDiscussionSummary,
+  updateArticleBadge,
   updateArticleOgImage,
+  getArticleContent,
+  saveArticleContent,
   registerTaskNotification,
   getPendingTaskNotifications,
   markTaskNotified,
@@ -24,5 +60,41 @@ export {
   cleanupOldTaskNotifications,
   getDistinctSources,
   getDistinctCategories,
+  getFeedCache,
+  saveFeedCache,
+  touchFeedCache,
+  recordSourceFetch,
+  getConsecutiveFailures,
+  getSourceHealthReport,
+  disableSource,
+  enableSource,
+  getDisabledSources,
+  cleanupOldSourceFetchLogs,
+  recordTrendingRepos,
+  getTrendingDates,
+  createStory,
+  setArticleStory,
+  getStory,
+  getStoryArticles,
+  recordArticleMessage,
+  getArticleMessage,
+  saveArticleFeedback,
+  removeArticleFeedback,
+  getArticleFeedback,
+  recordArticleClick,
+  getRankingSignals,
+  saveRankingWeights,
+  getRankingWeights,
+  recordSearchQuery,
+  getRecentSearchQueries,
+  getEngagedArticles,
+  getLatestInterestVersion,
+  getInterestVersions,
+  createInterestSuggestion,
+  setInterestSuggestionMessage,
+  getInterestSuggestionByMessage,
+  getPendingInterestSuggestions,
+  closeInterestSuggestion,
+  approveInterestSuggestion,
 } from "./operations";
-export type { ArticleFilters } from "./operations";
+export type { ArticleFilters, FeedbackFilters } from "./operations";
@@ -1,35 +1,77 @@
+import { canonicalizeUrl } from "./canonical-url";
 import { getDb } from "./client";
-import type { Article, ArticleRow, PendingTaskNotification } from "./types";
+import type {
+  Article,
+  ArticleFeedback,
+  ArticleMessage,
+  ArticleContent,
+  ArticleContentStatus,
+  ArticleRow,
+  FeedCacheEntry,
+  PendingTaskNotification,
+  SourceFetchLogEntry,
+  SourceHealth,
+  FeedbackSignal,
+  RankingSignal,
+  RankingWeight,
+  EngagedArticle,
+  InterestProfileVersion,
+  InterestSuggestion,
+  InterestSuggestionStatus,
+  SearchQueryStat,
+  Story,
+} from "./types";
 import { rowToArticle } from "./types";
 
 // === Article operations ===
 
+/**
+ * Check whether an article was already stored, by exact or canonical URL
+ */
 export async function isArticleSeen(url: string): Promise<boolean> {
   const db = await getDb();
   const result = await db.execute({
-    sql: "SELECT 1 FROM articles WHERE url = ?",
-    args: [url],
+    sql: "SELECT 1 FROM articles WHERE url = ? OR canonical_url = ? LIMIT 1",
+    args: [url, canonicalizeUrl(url)],
   });
   return result.rows.length > 0;
 }
 
+/**
+ * Insert or update an article
+ * canonical_url defaults to the normalized url; an explicit one (e.g. the page's
+ * rel=canonical) replaces the stored value.
+ */
 export async function saveArticle(article: Omit<Article, "id" | "created_at">) {
   const db = await getDb();
+  const explicitCanonical = article.canonical_url ? canonicalizeUrl(article.canonical_url) : null;
   const result = await db.execute({
     sql: `
-      INSERT INTO articles (url, title, source, category, summary, detailed_summary, key_points, target_audience, og_image, score, published_at, notified)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO articles (url, canonical_url, title, source, category, summary, detailed_summary, key_points, target_audience, og_image, hn_id, discussion_url, release_repo, release_version, arxiv_id, arxiv_version, authors, pdf_url, also_discussed, badge, score, published_at, notified)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       ON CONFLICT(url) DO UPDATE SET
+        canonical_url = COALESCE(?, articles.canonical_url, excluded.canonical_url),
         summary = COALESCE(excluded.summary, articles.summary),
         detailed_summary = COALESCE(excluded.detailed_summary, articles.detailed_summary),
         key_points = COALESCE(excluded.key_points, articles.key_points),
         target_audience = COALESCE(excluded.target_audience, articles.target_audience),
         og_image = COALESCE(excluded.og_image, articles.og_image),
+        hn_id = COALESCE(excluded.hn_id, articles.hn_id),
+        discussion_url = COALESCE(excluded.discussion_url, articles.discussion_url),
+        release_repo = COALESCE(excluded.release_repo, articles.release_repo),
+        release_version = COALESCE(excluded.release_version, articles.release_version),
+        arxiv_id = COALESCE(excluded.arxiv_id, articles.arxiv_id),
+        arxiv_version = COALESCE(excluded.arxiv_version, articles.arxiv_version),
+        authors = COALESCE(excluded.authors, articles.authors),
+        pdf_url = COALESCE(excluded.pdf_url, articles.pdf_url),
+        also_discussed = COALESCE(excluded.also_discussed, articles.also_discussed),
+        badge = COALESCE(excluded.badge, articles.badge),
         score = COALESCE(excluded.score, articles.score),
         published_at = COALESCE(excluded.published_at, articles.published_at)
     `,
     args: [
       article.url,
+      explicitCanonical ?? canonicalizeUrl(article.url),
       article.title,
       article.source,
       article.category,
@@ -38,27 +80,99 @@ export async function saveArticle(article: Omit<Article, "id" | "created_at">) {
       article.key_points || null,
       article.target_audience || null,
       article.og_image || null,
+      article.hn_id ?? null,
+      article.discussion_url || null,
+      article.release_repo || null,
+      article.release_version || null,
+      article.arxiv_id || null,
+      article.arxiv_version ?? null,
+      article.authors || null,
+      article.pdf_url || null,
+      article.also_discussed || null,
+      article.badge || null,
       article.score || null,
       article.published_at || null,
       article.notified ? 1 : 0,
+      explicitCanonical,
     ],
   });
 
   return result;
 }
 
-export async function markAsNotified(urls: string[]) {
+/**
+ * Mark articles as notified, and as sent to the given interest profile
+ */
+export async function markAsNotified(urls: string[], profile?: string) {
   const db = await getDb();
   await Promise.all(
-    urls.map((url) =>
-      db.execute({
+    urls.map(async (url) => {
+      await db.execute({
         sql: "UPDATE articles SET notified = 1 WHERE url = ?",
         args: [url],
+      });
+      if (profile) {
+        await db.execute({
+          sql: "INSERT OR IGNORE INTO article_notifications (url, profile) VALUES (?, ?)",
+          args: [url, profile],
+        });
+      }
+    })
+  );
+}
+
+/**
+ * Which of the given articles were already sent to a profile
+ */
+export async function getNotifiedUrls(profile: string, urls: string[]): Promise<Set<string>> {
+  if (urls.length === 0) return new Set();
+  const db = await getDb();
+  const result = await db.execute({
+    sql: `
+      SELECT url FROM article_notifications
+      WHERE profile = ? AND url IN (${urls.map(() => "?").join(", ")})
+    `,
+    args: [profile, ...urls],
+  });
+  return new Set((result.rows as unknown as { url: string }[]).map((row) => row.url));
+}
+
+/**
+ * Remember that a profile scored these articles and passed on them
+ */
+export async function markDismissed(urls: string[], profile: string) {
+  const db = await getDb();
+  await Promise.all(
+    urls.map((url) =>
+      db.execute({
+        sql: "INSERT OR IGNORE INTO article_dismissals (url, profile) VALUES (?, ?)",
+        args: [url, profile],
       })
     )
   );
 }
 
+/**
+ * Articles stored in the last N days that a profile was neither sent nor
+ * dismissed, newest first (candidates carried over to its next run).
+ * Articles notified before sends were tracked per profile count as sent to all.
+ */
+export async function getUnsentArticles(profile: string, days: number): Promise<Article[]> {
+  const db = await getDb();
+  const result = await db.execute({
+    sql: `
+      SELECT * FROM articles
+      WHERE created_at > datetime('now', '-' || ? || ' days')
+        AND url NOT IN (SELECT url FROM article_notifications WHERE profile = ?)
+        AND url NOT IN (SELECT url FROM article_dismissals WHERE profile = ?)
+        AND NOT (notified = 1 AND url NOT IN (SELECT url FROM article_notifications))
+      ORDER BY created_at DESC
+    `,
+    args: [days, profile, profile],
+  });
+  return (result.rows as unknown as ArticleRow[]).map(rowToArticle);
+}
+
 export async function getRecentArticles(hours: number = 24): Promise<Article[]> {
   const db = await getDb();
   const result = await db.execute({
@@ -72,6 +186,22 @@ export async function getRecentArticles(hours: number = 24): Promise<Article[]>
   return (result.rows as unknown as ArticleRow[]).map(rowToArticle);
 }
 
+/**
+ * Notified articles from the last N days (candidates for story follow-ups), newest first
+ */
+export async function getRecentNotifiedArticles(days: number = 14): Promise<Article[]> {
+  const db = await getDb();
+  const result = await db.execute({
+    sql: `
+      SELECT * FROM articles
+      WHERE notified = 1 AND created_at > datetime('now', '-' || ? || ' days')
+      ORDER BY created_at DESC
+    `,
+    args: [days],
+  });
+  return (result.rows as unknown as ArticleRow[]).map(rowToArticle);
+}
+
 export interface ArticleFilters {
   source?: string;
   category?: string;
@@ -139,13 +269,19 @@ export async function getArticleByUrl(url: string): Promise<Article | null> {
 }
 
 /**
- * Get all articles for search indexing
+ * Get all articles for search indexing (with stored full text, if any).
+ * Papers prefer the text extracted from pdf_url and fall back to the page.
  */
 export async function getAllArticlesForIndexing(): Promise<Article[]> {
   const db = await getDb();
   const result = await db.execute(`
-    SELECT * FROM articles
-    ORDER BY created_at DESC
+    SELECT articles.*, COALESCE(pdf_contents.content, page_contents.content) AS content
+    FROM articles
+    LEFT JOIN article_contents AS pdf_contents
+      ON pdf_contents.url = articles.pdf_url AND pdf_contents.status = 'ok'
+    LEFT JOIN article_contents AS page_contents
+      ON page_contents.url = articles.url AND page_contents.status = 'ok'
+    ORDER BY articles.created_at DESC
   `);
   return (result.rows as unknown as ArticleRow[]).map(rowToArticle);
 }
@@ -167,6 +303,26 @@ export async function updateArticleDetailedSummary(
   });
 }
 
+export async function updateArticleDiscussionSummary(url: string, discussionSummary: string) {
+  const db = await getDb();
+  return db.execute({
+    sql: `
+      UPDATE articles
+      SET discussion_summary = ?
+      WHERE url = ?
+    `,
+    args: [discussionSummary, url],
+  });
+}
+
+export async function updateArticleBadge(url: string, badge: string) {
+  const db = await getDb();
+  return db.execute({
+    sql: "UPDATE articles SET badge = ? WHERE url = ?",
+    args: [badge, url],
+  });
+}
+
 export async function updateArticleOgImage(url: string, ogImage: string) {
   const db = await getDb();
   return db.execute({
@@ -272,3 +428,768 @@ export async function cleanupOldTaskNotifications(daysOld: number = 7) {
     args: [daysOld],
   });
 }
+
+// === Article content operations ===
+
+/**
+ * Get the stored text for a fetched URL
+ */
+export async function getArticleContent(url: string): Promise<ArticleContent | null> {
+  const db = await getDb();
+  const result = await db.execute({
+    sql: "SELECT * FROM article_contents WHERE url = ?",
+    args: [url],
+  });
+  return (result.rows[0] as unknown as ArticleContent) || null;
+}
+
+/**
+ * Store (or refresh) the extracted text for a fetched URL
+ */
+export async function saveArticleContent(
+  url: string,
+  entry: {
+    content: string | null;
+    contentHash: string | null;
+    ogImage?: string | null;
+    canonicalUrl?: string | null;
+    status: ArticleContentStatus;
+    error?: string | null;
+  }
+) {
+  const db = await getDb();
+  return db.execute({
+    sql: `
+      INSERT INTO article_contents (url, content, content_hash, og_image, canonical_url, status, error, fetched_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(url) DO UPDATE SET
+        content = excluded.content,
+        content_hash = excluded.content_hash,
+        og_image = excluded.og_image,
+        canonical_url = excluded.canonical_url,
+        status = excluded.status,
+        error = excluded.error,
+        fetched_at = excluded.fetched_at
+    `,
+    args: [
+      url,
+      entry.content,
+      entry.contentHash,
+      entry.ogImage || null,
+      entry.canonicalUrl || null,
+      entry.status,
+      entry.error || null,
+    ],
+  });
+}
+
+// === Feed cache operations ===
+
+/**
+ * Get cached HTTP validators and content hash for a feed
+ */
+export async function getFeedCache(feedUrl: string): Promise<FeedCacheEntry | null> {
+  const db = await getDb();
+  const result = await db.execute({
+    sql: "SELECT * FROM feed_cache WHERE feed_url = ?",
+    args: [feedUrl],
+  });
+  return (result.rows[0] as unknown as FeedCacheEntry) || null;
+}
+
+/**
+ * Store validators and content hash after a feed body was fetched and parsed
+ */
+export async function saveFeedCache(
+  feedUrl: string,
+  entry: { etag?: string | null; lastModified?: string | null; contentHash: string }
+) {
+  const db = await getDb();
+  return db.execute({
+    sql: `
+      INSERT INTO feed_cache (feed_url, etag, last_modified, content_hash, checked_at, changed_at)
+      VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+      ON CONFLICT(feed_url) DO UPDATE SET
+        etag = excluded.etag,
+        last_modified = excluded.last_modified,
+        checked_at = excluded.checked_at,
+        changed_at = CASE
+          WHEN feed_cache.content_hash IS excluded.content_hash THEN feed_cache.changed_at
+          ELSE excluded.changed_at
+        END,
+        content_hash = excluded.content_hash
+    `,
+    args: [feedUrl, entry.etag || null, entry.lastModified || null, entry.contentHash],
+  });
+}
+
+/**
+ * Record that a feed was checked and found unchanged
+ */
+export async function touchFeedCache(feedUrl: string) {
+  const db = await getDb();
+  return db.execute({
+    sql: "UPDATE feed_cache SET checked_at = CURRENT_TIMESTAMP WHERE feed_url = ?",
+    args: [feedUrl],
+  });
+}
+
+// === Source health operations ===
+
+/**
+ * Record one fetch attempt for a source
+ */
+export async function recordSourceFetch(entry: Omit<SourceFetchLogEntry, "id" | "fetched_at">) {
+  const db = await getDb();
+  return db.execute({
+    sql: `
+      INSERT INTO source_fetch_log (source, source_type, status, latency_ms, item_count, error)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `,
+    args: [
+      entry.source,
+      entry.source_type,
+      entry.status,
+      entry.latency_ms ?? null,
+      entry.item_count ?? null,
+      entry.error || null,
+    ],
+  });
+}
+
+/**
+ * Count failed attempts since the last successful fetch or re-enable of a source
+ */
+export async function getConsecutiveFailures(source: string): Promise<number> {
+  const db = await getDb();
+  const result = await db.execute({
+    sql: `
+      SELECT COUNT(*) AS failures FROM source_fetch_log
+      WHERE source = ?
+        AND status = 'error'
+        AND id > COALESCE(
+          (SELECT MAX(id) FROM source_fetch_log WHERE source = ? AND status != 'error'),
+          0
+        )
+    `,
+    args: [source, source],
+  });
+  return Number((result.rows[0] as unknown as { failures: number }).failures);
+}
+
+/**
+ * Build a health summary for every source that has been fetched at least once
+ * @param days - Window for attempt/failure/latency aggregates
+ */
+export async function getSourceHealthReport(days: number = 7): Promise<SourceHealth[]> {
+  const db = await getDb();
+  const result = await db.execute({
+    sql: `
+      SELECT
+        latest.source,
+        latest.source_type,
+        latest.status AS last_status,
+        latest.error AS last_error,
+        latest.item_count AS last_item_count,
+        latest.fetched_at AS last_fetched_at,
+        (SELECT MAX(fetched_at) FROM source_fetch_log
+          WHERE source = latest.source AND status IN ('ok', 'not_modified')) AS last_success_at,
+        (SELECT COUNT(*) FROM source_fetch_log
+          WHERE source = latest.source AND status = 'error'
+            AND id > COALESCE((SELECT MAX(id) FROM source_fetch_log
+              WHERE source = latest.source AND status != 'error'), 0)) AS consecutive_failures,
+        (SELECT COUNT(*) FROM source_fetch_log
+          WHERE source = latest.source AND status != 'reset'
+            AND fetched_at > datetime('now', '-' || ? || ' days')) AS attempts,
+        (SELECT COUNT(*) FROM source_fetch_log
+          WHERE source = latest.source AND status = 'error'
+            AND fetched_at > datetime('now', '-' || ? || ' days')) AS failures,
+        (SELECT AVG(latency_ms) FROM source_fetch_log
+          WHERE source = latest.source
+            AND fetched_at > datetime('now', '-' || ? || ' days')) AS avg_latency_ms,
+        d.disabled_at,
+        d.reason AS disabled_reason
+      FROM source_fetch_log latest
+      JOIN (SELECT source, MAX(id) AS last_id FROM source_fetch_log
+        WHERE status != 'reset' GROUP BY source) l
+        ON latest.id = l.last_id
+      LEFT JOIN disabled_sources d ON d.source = latest.source
+      ORDER BY consecutive_failures DESC, latest.source
+    `,
+    args: [days, days, days],
+  });
+  return result.rows.map(rowToSourceHealth);
+}
+
+function rowToSourceHealth(row: Record<string, unknown>): SourceHealth {
+  return {
+    ...(row as unknown as SourceHealth),
+    consecutive_failures: Number(row.consecutive_failures),
+    attempts: Number(row.attempts),
+    failures: Number(row.failures),
+    avg_latency_ms: row.avg_latency_ms === null ? null : Math.round(Number(row.avg_latency_ms)),
+  };
+}
+
+/**
+ * Mark a source as disabled so it is skipped by future runs
+ */
+export async function disableSource(source: string, reason: string) {
+  const db = await getDb();
+  return db.execute({
+    sql: `
+      INSERT INTO disabled_sources (source, reason, disabled_at)
+      VALUES (?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(source) DO UPDATE SET reason = excluded.reason
+    `,
+    args: [source, reason],
+  });
+}
+
+/**
+ * Re-enable a previously disabled source
+ * A "reset" entry in the fetch log ends its failure streak, so the next
+ * failure does not disable it again straight away.
+ * @returns true if the source was disabled
+ */
+export async function enableSource(source: string): Promise<boolean> {
+  const db = await getDb();
+  const result = await db.execute({
+    sql: "DELETE FROM disabled_sources WHERE source = ?",
+    args: [source],
+  });
+  if (result.rowsAffected === 0) return false;
+
+  await db.execute({
+    sql: `
+      INSERT INTO source_fetch_log (source, source_type, status)
+      SELECT source, source_type, 'reset' FROM source_fetch_log
+      WHERE source = ?
+      ORDER BY id DESC
+      LIMIT 1
+    `,
+    args: [source],
+  });
+  return true;
+}
+
+/**
+ * Get names of all disabled sources
+ */
+export async function getDisabledSources(): Promise<string[]> {
+  const db = await getDb();
+  const result = await db.execute("SELECT source FROM disabled_sources ORDER BY source");
+  return result.rows.map((row: unknown) => (row as { source: string }).source);
+}
+
+/**
+ * Clean up fetch log entries older than specified days
+ */
+export async function cleanupOldSourceFetchLogs(daysOld: number = 30) {
+  const db = await getDb();
+  return db.execute({
+    sql: `
+      DELETE FROM source_fetch_log
+      WHERE fetched_at < datetime('now', '-' || ? || ' days')
+    `,
+    args: [daysOld],
+  });
+}
+
+/**
+ * Record that repos (owner/name) were on GitHub Trending on a date (YYYY-MM-DD)
+ */
+export async function recordTrendingRepos(repos: string[], date: string) {
+  if (repos.length === 0) return;
+  const db = await getDb();
+  await Promise.all(
+    repos.map((repo) =>
+      db.execute({
+        sql: "INSERT OR IGNORE INTO github_trending_history (repo, trended_on) VALUES (?, ?)",
+        args: [repo, date],
+      })
+    )
+  );
+}
+
+/**
+ * Get the dates (YYYY-MM-DD, newest first) each repo was on GitHub Trending
+ */
+export async function getTrendingDates(
+  repos: string[],
+  days: number = 90
+): Promise<Map<string, string[]>> {
+  const history = new Map<string, string[]>();
+  if (repos.length === 0) return history;
+
+  const db = await getDb();
+  const result = await db.execute({
+    sql: `
+      SELECT repo, trended_on FROM github_trending_history
+      WHERE repo IN (${repos.map(() => "?").join(", ")})
+        AND trended_on >= date('now', '-' || ? || ' days')
+      ORDER BY trended_on DESC
+    `,
+    args: [...repos, days],
+  });
+  for (const row of result.rows as unknown as { repo: string; trended_on: string }[]) {
+    const dates = history.get(row.repo) ?? [];
+    dates.push(row.trended_on);
+    history.set(row.repo, dates);
+  }
+  return history;
+}
+
+// === Story operations ===
+
+/**
+ * Start a story, returning its id
+ */
+export async function createStory(title: string): Promise<number> {
+  const db = await getDb();
+  const result = await db.execute({
+    sql: "INSERT INTO stories (title) VALUES (?)",
+    args: [title],
+  });
+  return Number(result.lastInsertRowid);
+}
+
+/**
+ * Link an article to a story and mark the story as updated
+ */
+export async function setArticleStory(url: string, storyId: number) {
+  const db = await getDb();
+  await db.batch(
+    [
+      { sql: "UPDATE articles SET story_id = ? WHERE url = ?", args: [storyId, url] },
+      {
+        sql: "UPDATE stories SET updated_at = CURRENT_TIMESTAMP WHERE id = ?",
+        args: [storyId],
+      },
+    ],
+    "write"
+  );
+}
+
+export async function getStory(id: number): Promise<Story | null> {
+  const db = await getDb();
+  const result = await db.execute({
+    sql: "SELECT * FROM stories WHERE id = ?",
+    args: [id],
+  });
+  return (result.rows[0] as unknown as Story) || null;
+}
+
+/**
+ * Articles of a story in timeline order (oldest first)
+ */
+export async function getStoryArticles(storyId: number): Promise<Article[]> {
+  const db = await getDb();
+  const result = await db.execute({
+    sql: `
+      SELECT * FROM articles
+      WHERE story_id = ?
+      ORDER BY COALESCE(published_at, created_at) ASC, id ASC
+    `,
+    args: [storyId],
+  });
+  return (result.rows as unknown as ArticleRow[]).map(rowToArticle);
+}
+
+// === Feedback operations ===
+
+/**
+ * Remember which article a posted Discord message shows
+ */
+export async function recordArticleMessage(
+  message: Omit<ArticleMessage, "posted_at" | "profile"> & { profile?: string }
+) {
+  const db = await getDb();
+  await db.execute({
+    sql: `
+      INSERT OR REPLACE INTO article_messages (message_id, channel_id, url, profile)
+      VALUES (?, ?, ?, ?)
+    `,
+    args: [message.message_id, message.channel_id, message.url, message.profile ?? null],
+  });
+}
+
+export async function getArticleMessage(messageId: string): Promise<ArticleMessage | null> {
+  const db = await getDb();
+  const result = await db.execute({
+    sql: "SELECT * FROM article_messages WHERE message_id = ?",
+    args: [messageId],
+  });
+  return (result.rows[0] as unknown as ArticleMessage) || null;
+}
+
+/**
+ * Store a reaction; reacting again only refreshes its time
+ */
+export async function saveArticleFeedback(feedback: {
+  url: string;
+  user_id: string;
+  signal: FeedbackSignal;
+  message_id?: string;
+}) {
+  const db = await getDb();
+  await db.execute({
+    sql: `
+      INSERT INTO article_feedback (url, user_id, signal, message_id)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(url, user_id, signal) DO UPDATE SET
+        message_id = excluded.message_id,
+        created_at = CURRENT_TIMESTAMP
+    `,
+    args: [feedback.url, feedback.user_id, feedback.signal, feedback.message_id ?? null],
+  });
+}
+
+/**
+ * Delete a reaction that was taken back
+ */
+export async function removeArticleFeedback(feedback: {
+  url: string;
+  user_id: string;
+  signal: FeedbackSignal;
+}) {
+  const db = await getDb();
+  await db.execute({
+    sql: "DELETE FROM article_feedback WHERE url = ? AND user_id = ? AND signal = ?",
+    args: [feedback.url, feedback.user_id, feedback.signal],
+  });
+}
+
+export interface FeedbackFilters {
+  url?: string;
+  source?: string;
+  user_id?: string;
+}
+
+/**
+ * Reactions by article, source and/or user, newest first
+ */
+export async function getArticleFeedback(
+  filters: FeedbackFilters = {}
+): Promise<ArticleFeedback[]> {
+  const db = await getDb();
+  const conditions: string[] = [];
+  const args: string[] = [];
+
+  if (filters.url) {
+    conditions.push("f.url = ?");
+    args.push(filters.url);
+  }
+  if (filters.source) {
+    conditions.push("a.source = ?");
+    args.push(filters.source);
+  }
+  if (filters.user_id) {
+    conditions.push("f.user_id = ?");
+    args.push(filters.user_id);
+  }
+
+  const result = await db.execute({
+    sql: `
+      SELECT f.*, a.source AS source
+      FROM article_feedback f
+      LEFT JOIN articles a ON a.url = f.url
+      ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+      ORDER BY f.created_at DESC, f.id DESC
+    `,
+    args,
+  });
+  return result.rows as unknown as ArticleFeedback[];
+}
+
+/**
+ * Record a visit to an article's detail page
+ */
+export async function recordArticleClick(url: string) {
+  const db = await getDb();
+  await db.execute({
+    sql: "INSERT INTO article_clicks (url) VALUES (?)",
+    args: [url],
+  });
+}
+
+/**
+ * Reactions and clicks from the last N days on articles that are still stored
+ */
+export async function getRankingSignals(sinceDays: number): Promise<RankingSignal[]> {
+  const db = await getDb();
+  const result = await db.execute({
+    sql: `
+      SELECT f.url, a.source, a.category, f.signal AS kind, f.created_at
+      FROM article_feedback f
+      JOIN articles a ON a.url = f.url
+      WHERE f.created_at > datetime('now', '-' || ? || ' days')
+      UNION ALL
+      SELECT c.url, a.source, a.category, 'click' AS kind, c.clicked_at AS created_at
+      FROM article_clicks c
+      JOIN articles a ON a.url = c.url
+      WHERE c.clicked_at > datetime('now', '-' || ? || ' days')
+    `,
+    args: [sinceDays, sinceDays],
+  });
+  return result.rows as unknown as RankingSignal[];
+}
+
+/**
+ * Replace the stored ranking weights with a freshly learned set
+ */
+export async function saveRankingWeights(weights: Omit<RankingWeight, "updated_at">[]) {
+  const db = await getDb();
+  await db.batch(
+    [
+      "DELETE FROM ranking_weights",
+      ...weights.map((w) => ({
+        sql: `
+          INSERT INTO ranking_weights (dimension, key, weight, positive, negative)
+          VALUES (?, ?, ?, ?, ?)
+        `,
+        args: [w.dimension, w.key, w.weight, w.positive, w.negative],
+      })),
+    ],
+    "write"
+  );
+}
+
+export async function getRankingWeights(): Promise<RankingWeight[]> {
+  const db = await getDb();
+  const result = await db.execute(
+    "SELECT * FROM ranking_weights ORDER BY dimension, weight DESC, key"
+  );
+  return result.rows as unknown as RankingWeight[];
+}
+
+/**
+ * Record a search made in the web app
+ */
+export async function recordSearchQuery(query: string, resultCount: number) {
+  const db = await getDb();
+  await db.execute({
+    sql: "INSERT INTO search_queries (query, result_count) VALUES (?, ?)",
+    args: [query, resultCount],
+  });
+}
+
+/**
+ * Most frequent searches of the last N days (case-insensitive)
+ */
+export async function getRecentSearchQueries(
+  sinceDays: number,
+  limit: number = 20
+): Promise<SearchQueryStat[]> {
+  const db = await getDb();
+  const result = await db.execute({
+    sql: `
+      SELECT MIN(query) AS query, COUNT(*) AS searches
+      FROM search_queries
+      WHERE searched_at > datetime('now', '-' || ? || ' days')
+      GROUP BY lower(trim(query))
+      ORDER BY searches DESC, MAX(searched_at) DESC
+      LIMIT ?
+    `,
+    args: [sinceDays, limit],
+  });
+  return result.rows as unknown as SearchQueryStat[];
+}
+
+/**
+ * Stored articles that received reactions or clicks in the last N days,
+ * most engaged first
+ */
+export async function getEngagedArticles(
+  sinceDays: number,
+  limit: number = 50
+): Promise<EngagedArticle[]> {
+  const db = await getDb();
+  const result = await db.execute({
+    sql: `
+      SELECT a.url, a.title, a.source, a.category, a.summary,
+        SUM(s.kind = 'up') AS up, SUM(s.kind = 'down') AS down, SUM(s.kind = 'click') AS clicks
+      FROM (
+        SELECT url, signal AS kind FROM article_feedback
+        WHERE created_at > datetime('now', '-' || ? || ' days')
+        UNION ALL
+        SELECT url, 'click' AS kind FROM article_clicks
+        WHERE clicked_at > datetime('now', '-' || ? || ' days')
+      ) s
+      JOIN articles a ON a.url = s.url
+      GROUP BY a.url
+      ORDER BY up + down DESC, clicks DESC
+      LIMIT ?
+    `,
+    args: [sinceDays, sinceDays, limit],
+  });
+  return result.rows as unknown as EngagedArticle[];
+}
+
+// === Interest profile operations ===
+
+function rowToInterestVersion(row: Record<string, unknown>): InterestProfileVersion {
+  return {
+    ...(row as unknown as InterestProfileVersion),
+    interests: JSON.parse(row.interests as string),
+  };
+}
+
+function rowToInterestSuggestion(row: Record<string, unknown>): InterestSuggestion {
+  return {
+    ...(row as unknown as InterestSuggestion),
+    additions: JSON.parse(row.additions as string),
+    removals: JSON.parse(row.removals as string),
+  };
+}
+
+/**
+ * Latest approved interest list of a profile, or null if only the configured list exists
+ */
+export async function getLatestInterestVersion(
+  profile: string
+): Promise<InterestProfileVersion | null> {
+  const db = await getDb();
+  const result = await db.execute({
+    sql: "SELECT * FROM interest_profile_versions WHERE profile = ? ORDER BY version DESC LIMIT 1",
+    args: [profile],
+  });
+  return result.rows[0] ? rowToInterestVersion(result.rows[0]) : null;
+}
+
+export async function getInterestVersions(profile: string): Promise<InterestProfileVersion[]> {
+  const db = await getDb();
+  const result = await db.execute({
+    sql: "SELECT * FROM interest_profile_versions WHERE profile = ? ORDER BY version DESC",
+    args: [profile],
+  });
+  return result.rows.map(rowToInterestVersion);
+}
+
+export async function createInterestSuggestion(suggestion: {
+  profile: string;
+  base_version: number;
+  additions: string[];
+  removals: string[];
+  reason: string;
+}): Promise<number> {
+  const db = await getDb();
+  const result = await db.execute({
+    sql: `
+      INSERT INTO interest_suggestions (profile, base_version, additions, removals, reason)
+      VALUES (?, ?, ?, ?, ?)
+    `,
+    args: [
+      suggestion.profile,
+      suggestion.base_version,
+      JSON.stringify(suggestion.additions),
+      JSON.stringify(suggestion.removals),
+      suggestion.reason,
+    ],
+  });
+  return Number(result.lastInsertRowid);
+}
+
+/**
+ * Remember the Discord message a suggestion was posted as
+ */
+export async function setInterestSuggestionMessage(
+  id: number,
+  channelId: string,
+  messageId: string
+) {
+  const db = await getDb();
+  await db.execute({
+    sql: "UPDATE interest_suggestions SET channel_id = ?, message_id = ? WHERE id = ?",
+    args: [channelId, messageId, id],
+  });
+}
+
+export async function getInterestSuggestionByMessage(
+  messageId: string
+): Promise<InterestSuggestion | null> {
+  const db = await getDb();
+  const result = await db.execute({
+    sql: "SELECT * FROM interest_suggestions WHERE message_id = ?",
+    args: [messageId],
+  });
+  return result.rows[0] ? rowToInterestSuggestion(result.rows[0]) : null;
+}
+
+export async function getPendingInterestSuggestions(
+  profile?: string
+): Promise<InterestSuggestion[]> {
+  const db = await getDb();
+  const result = await db.execute({
+    sql: `
+      SELECT * FROM interest_suggestions
+      WHERE status = 'pending' ${profile ? "AND profile = ?" : ""}
+      ORDER BY created_at DESC, id DESC
+    `,
+    args: profile ? [profile] : [],
+  });
+  return result.rows.map(rowToInterestSuggestion);
+}
+
+/**
+ * Close a pending suggestion without creating a version
+ * @returns false if it was already decided
+ */
+export async function closeInterestSuggestion(
+  id: number,
+  status: Exclude<InterestSuggestionStatus, "pending" | "approved">,
+  decidedBy?: string
+): Promise<boolean> {
+  const db = await getDb();
+  const result = await db.execute({
+    sql: `
+      UPDATE interest_suggestions
+      SET status = ?, decided_by = ?, decided_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND status = 'pending'
+    `,
+    args: [status, decidedBy ?? null, id],
+  });
+  return result.rowsAffected > 0;
+}
+
+/**
+ * Approve a suggestion by storing the resulting interest list as the next version
+ * @returns the new version, or null if the suggestion was already decided or
+ *   another version was approved since it was made (it is then marked stale)
+ */
+export async function approveInterestSuggestion(
+  suggestion: InterestSuggestion,
+  interests: string[],
+  decidedBy: string
+): Promise<number | null> {
+  const latest = await getLatestInterestVersion(suggestion.profile);
+  if ((latest?.version ?? 0) !== suggestion.base_version) {
+    await closeInterestSuggestion(suggestion.id, "stale");
+    return null;
+  }
+
+  const db = await getDb();
+  const version = suggestion.base_version + 1;
+  const [update] = await db.batch(
+    [
+      {
+        sql: `
+          UPDATE interest_suggestions
+          SET status = 'approved', decided_by = ?, decided_at = CURRENT_TIMESTAMP
+          WHERE id = ? AND status = 'pending'
+        `,
+        args: [decidedBy, suggestion.id],
+      },
+      // Only inserted when the update above claimed the suggestion
+      {
+        sql: `
+          INSERT OR IGNORE INTO interest_profile_versions (profile, version, interests, suggestion_id)
+          SELECT ?, ?, ?, ? WHERE changes() > 0
+        `,
+        args: [suggestion.profile, version, JSON.stringify(interests), suggestion.id],
+      },
+    ],
+    "write"
+  );
+  return update && update.rowsAffected > 0 ? version : null;
+}
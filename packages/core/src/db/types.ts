@@ -1,6 +1,8 @@
 export interface Article {
   id?: number;
   url: string;
+  /** Normalized URL used for dedup (see canonicalizeUrl); the page's rel=canonical when known */
+  canonical_url?: string;
   title: string;
   source: string;
   category: string;
@@ -11,11 +13,47 @@ export interface Article {
   target_audience?: string;
   /** Open Graph image URL */
   og_image?: string;
+  /** Hacker News item id, for stories found on HN */
+  hn_id?: number;
+  /** Comment thread URL (e.g. the HN item page) */
+  discussion_url?: string;
+  /** Japanese summary of the comment thread ("community reaction") */
+  discussion_summary?: string;
+  /** "owner/repo" for GitHub release notes */
+  release_repo?: string;
+  /** Release tag (e.g. "v4.6.0") for GitHub release notes */
+  release_version?: string;
+  /** arXiv id without version (e.g. "2410.01234") */
+  arxiv_id?: string;
+  /** arXiv version number (2 for "2410.01234v2") */
+  arxiv_version?: number;
+  /** JSON array of author names, stored as string in database */
+  authors?: string;
+  pdf_url?: string;
+  /** JSON array of AlsoDiscussedLink (near-duplicates from other sources), stored as string */
+  also_discussed?: string;
+  /** Story (developing topic) this article belongs to */
+  story_id?: number;
+  /** Short label shown before the title (e.g. a GitHub Trending streak), latest one wins */
+  badge?: string;
   score?: number;
   published_at?: string;
   created_at?: string;
   /** Whether the article has been notified to Discord */
   notified: boolean;
+  /** Extracted full text from article_contents (set by getAllArticlesForIndexing) */
+  content?: string;
+}
+
+/**
+ * Another source's copy of the same story, kept when near-duplicates are clustered
+ */
+export interface AlsoDiscussedLink {
+  source: string;
+  url: string;
+  title: string;
+  /** Comment thread of that copy (e.g. the HN item page) */
+  discussion_url?: string;
 }
 
 /**
@@ -24,6 +62,7 @@ export interface Article {
 export interface ArticleRow {
   id?: number;
   url: string;
+  canonical_url?: string;
   title: string;
   source: string;
   category: string;
@@ -32,10 +71,22 @@ export interface ArticleRow {
   key_points?: string;
   target_audience?: string;
   og_image?: string;
+  hn_id?: number;
+  discussion_url?: string;
+  discussion_summary?: string;
+  release_repo?: string;
+  release_version?: string;
+  arxiv_id?: string;
+  arxiv_version?: number;
+  authors?: string;
+  pdf_url?: string;
+  also_discussed?: string;
+  story_id?: number;
   score?: number;
   published_at?: string;
   created_at?: string;
   notified: number;
+  content?: string;
 }
 
 /**
@@ -48,6 +99,76 @@ export function rowToArticle(row: ArticleRow): Article {
   };
 }
 
+/**
+ * A topic that develops over several days; its articles form a timeline
+ */
+export interface Story {
+  id: number;
+  /** Title of the article that started the story */
+  title: string;
+  created_at: string;
+  /** When the latest article was linked */
+  updated_at: string;
+}
+
+/**
+ * Discord message that shows a single article, so reactions on it can be
+ * traced back to the article
+ */
+export interface ArticleMessage {
+  message_id: string;
+  channel_id: string;
+  url: string;
+  /** Interest profile whose digest the message belongs to */
+  profile: string | null;
+  posted_at: string;
+}
+
+/** 👍 = "up", 👎 = "down" */
+export type FeedbackSignal = "up" | "down";
+
+/**
+ * A reader's reaction to an article. Removing the reaction deletes the row.
+ */
+export interface ArticleFeedback {
+  id: number;
+  url: string;
+  /** Discord user ID */
+  user_id: string;
+  signal: FeedbackSignal;
+  /** Message the reaction was added to */
+  message_id: string | null;
+  created_at: string;
+  /** Source of the article (joined from articles; null if the article row is gone) */
+  source: string | null;
+}
+
+/**
+ * A reaction or click on a stored article, with the article's source and category
+ */
+export interface RankingSignal {
+  url: string;
+  source: string;
+  category: string;
+  kind: FeedbackSignal | "click";
+  created_at: string;
+}
+
+export type RankingDimension = "source" | "category";
+
+/**
+ * Learned score multiplier for one source or category
+ * positive/negative are the time-decayed evidence the weight was computed from.
+ */
+export interface RankingWeight {
+  dimension: RankingDimension;
+  key: string;
+  weight: number;
+  positive: number;
+  negative: number;
+  updated_at: string;
+}
+
 export interface PendingTaskNotification {
   id?: number;
   task_id: string;
@@ -57,6 +178,79 @@ export interface PendingTaskNotification {
   notified_at?: string;
 }
 
+export interface FeedCacheEntry {
+  feed_url: string;
+  /** ETag response header from the last full fetch */
+  etag?: string | null;
+  /** Last-Modified response header from the last full fetch */
+  last_modified?: string | null;
+  /** SHA-256 of the last fetched feed body */
+  content_hash?: string | null;
+  /** When the feed was last requested */
+  checked_at?: string;
+  /** When the feed body last changed */
+  changed_at?: string | null;
+}
+
+export type ArticleContentStatus = "ok" | "empty" | "error";
+
+/**
+ * Extracted text of a fetched article page (or PDF), keyed by the fetched URL
+ */
+export interface ArticleContent {
+  url: string;
+  content: string | null;
+  /** SHA-256 of content */
+  content_hash: string | null;
+  og_image: string | null;
+  /** rel=canonical of the page (or the URL after redirects) */
+  canonical_url: string | null;
+  /** "empty" when the page loaded but no text could be extracted */
+  status: ArticleContentStatus;
+  /** HTTP status or exception message for failed fetches */
+  error: string | null;
+  fetched_at: string;
+}
+
+export type SourceFetchStatus = "ok" | "not_modified" | "error";
+
+/** "reset" marks a manual re-enable, which ends the failure streak without being an attempt */
+export type SourceFetchLogStatus = SourceFetchStatus | "reset";
+
+export interface SourceFetchLogEntry {
+  id?: number;
+  source: string;
+  source_type: string;
+  status: SourceFetchLogStatus;
+  latency_ms?: number | null;
+  item_count?: number | null;
+  error?: string | null;
+  fetched_at?: string;
+}
+
+/**
+ * Per-source health summary built from source_fetch_log
+ */
+export interface SourceHealth {
+  source: string;
+  source_type: string;
+  last_status: SourceFetchStatus;
+  last_error: string | null;
+  last_item_count: number | null;
+  last_fetched_at: string;
+  last_success_at: string | null;
+  /** Errors since the last successful fetch or re-enable */
+  consecutive_failures: number;
+  /** Attempts within the report window */
+  attempts: number;
+  /** Failed attempts within the report window */
+  failures: number;
+  avg_latency_ms: number | null;
+  /** Set when the source was auto-disabled */
+  disabled_at: string | null;
+  disabled_reason: string | null;
+}
+
 export interface DbConfig {
   /** Path to SQLite database file (used if Turso not configured) */
   dbPath?: string;
@@ -65,3 +259,57 @@ export interface DbConfig {
   /** Turso auth token */
   tursoToken?: string;
 }
+
+/**
+ * A stored article with the reactions and clicks it received
+ */
+export interface EngagedArticle {
+  url: string;
+  title: string;
+  source: string;
+  category: string;
+  summary: string | null;
+  up: number;
+  down: number;
+  clicks: number;
+}
+
+/** A search made in the web app, grouped by query */
+export interface SearchQueryStat {
+  query: string;
+  searches: number;
+}
+
+/**
+ * Approved interest list of a profile; version 0 is the list in sources.yaml
+ */
+export interface InterestProfileVersion {
+  profile: string;
+  version: number;
+  interests: string[];
+  /** Suggestion whose approval created this version */
+  suggestion_id: number | null;
+  created_at: string;
+}
+
+export type InterestSuggestionStatus = "pending" | "approved" | "rejected" | "stale";
+
+/**
+ * Proposed additions/removals to a profile's interests
+ * base_version is the version the diff was computed against; the suggestion
+ * goes stale if another version is approved first.
+ */
+export interface InterestSuggestion {
+  id: number;
+  profile: string;
+  base_version: number;
+  additions: string[];
+  removals: string[];
+  reason: string;
+  status: InterestSuggestionStatus;
+  channel_id: string | null;
+  message_id: string | null;
+  decided_by: string | null;
+  decided_at: string | null;
+  created_at: string;
+}
@@ -10,7 +10,12 @@ export type {
   Config,
   Source,
   RssSource,
+  JsonFeedSource,
   HackerNewsSource,
+  HackerNewsList,
   GitHubTrendingSource,
+  GitHubTrendingSince,
+  GitHubReleasesSource,
+  ArxivSource,
   CategoryConfig,
 } from "./config";
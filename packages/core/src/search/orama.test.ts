@@ -1,4 +1,6 @@
 import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { create, insert } from "@orama/orama";
+import { persist } from "@orama/plugin-data-persistence";
 import {
   initSearchIndex,
   getOramaDb,
@@ -284,6 +286,46 @@ describe("orama search module", () => {
 
       expect(results.length).toBeLessThanOrEqual(3);
     });
+
+    test("finds articles by stored full text", async () => {
+      const config = createMockConfig();
+      await initSearchIndex(config);
+
+      await addArticleToIndex(
+        createMockArticle({
+          url: "https://example.com/queue",
+          title: "Moving our queue",
+          summary: "A migration story",
+          content: "We replaced Redis with SELECT FOR UPDATE SKIP LOCKED in Postgres.",
+        })
+      );
+
+      const results = await searchIndex("SKIP LOCKED", 10);
+
+      expect(results.map((r) => r.article.url)).toContain("https://example.com/queue");
+    });
+
+    test("searches indexes persisted before full text was stored", async () => {
+      const oldIndex = await create({
+        schema: { url: "string", title: "string", summary: "string", detailed_summary: "string" },
+      });
+      await insert(oldIndex, {
+        url: "https://example.com/old",
+        title: "Old Article",
+        summary: "Indexed without content",
+        detailed_summary: "",
+      });
+      const data = (await persist(oldIndex, "binary")) as string;
+      const fs = createMockFs({
+        exists: true,
+        readData: Buffer.from(data) as unknown as ArrayBuffer,
+      });
+      await initSearchIndex(createMockConfig(fs));
+
+      const results = await searchIndex("Old", 10);
+
+      expect(results.map((r) => r.article.url)).toEqual(["https://example.com/old"]);
+    });
   });
 
   describe("resetSearchIndex", () => {
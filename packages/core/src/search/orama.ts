@@ -11,9 +11,13 @@ const ORAMA_SCHEMA = {
   category: "string" as const,
   source: "string" as const,
   created_at: "string" as const,
+  content: "string" as const,
   embeddings: "vector[512]" as const,
 } as const;
 
+/** Stored article text is truncated to keep the persisted index small */
+const MAX_INDEXED_CONTENT_LENGTH = 5000;
+
 type OramaDb = Orama<typeof ORAMA_SCHEMA>;
 
 let oramaDb: OramaDb | null = null;
@@ -93,6 +97,7 @@ export async function addArticleToIndex(article: Article): Promise<void> {
     category: article.category,
     source: article.source,
     created_at: article.created_at || new Date().toISOString(),
+    content: (article.content || "").slice(0, MAX_INDEXED_CONTENT_LENGTH),
   };
 
   try {
@@ -167,11 +172,23 @@ export async function deletePersistedIndex(config: SearchConfig): Promise<void>
   }
 }
 
+/**
+ * Text properties to search
+ * Indexes persisted before full text was stored have no "content" property.
+ */
+function getTextProperties(db: OramaDb): (keyof typeof ORAMA_SCHEMA)[] {
+  const searchable = db.index.getSearchableProperties(db.data.index);
+  return (["title", "summary", "detailed_summary", "content"] as const).filter((property) =>
+    searchable.includes(property)
+  );
+}
+
 /**
  * Search the index using hybrid search (FTS + Vector) with fulltext fallback
  */
 export async function searchIndex(query: string, limit: number = 20): Promise<SearchResult[]> {
   const db = await getOramaDb();
+  const properties = getTextProperties(db);
 
   // Helper function to convert results to SearchResult array
   const convertResults = (results: Results<any>): SearchResult[] => {
@@ -195,7 +212,7 @@ export async function searchIndex(query: string, limit: number = 20): Promise<Se
       term: query,
       mode: "hybrid",
       limit,
-      properties: ["title", "summary", "detailed_summary"],
+      properties,
     });
     return convertResults(results);
   } catch (hybridError) {
@@ -207,7 +224,7 @@ export async function searchIndex(query: string, limit: number = 20): Promise<Se
         term: query,
         mode: "fulltext",
         limit,
-        properties: ["title", "summary", "detailed_summary"],
+        properties,
       });
       return convertResults(results);
     } catch (fulltextError) {
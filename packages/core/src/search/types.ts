@@ -49,6 +49,8 @@ export interface OramaDocument {
   category: string;
   source: string;
   created_at: string;
+  /** Stored full text of the article (truncated) */
+  content: string;
 }
 
 export type { Article };
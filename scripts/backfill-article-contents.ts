@@ -0,0 +1,111 @@
+#!/usr/bin/env bun
+/**
+ * Backfill article_contents for existing articles
+ * Fetches and stores the extracted text of articles that have none yet (or whose
+ * stored text is stale), so summaries and search indexing can reuse it
+ *
+ * Usage: bun scripts/backfill-article-contents.ts [--limit N] [--refresh]
+ *   --refresh  Re-download every page, even if stored text is still fresh
+ */
+
+import { ensureDb, getDb } from "../packages/core/src/db";
+import { loadArticleContent } from "../apps/bot/src/summarize/detailed-summary";
+
+const CONCURRENCY = 3; // Limit concurrent requests
+const DELAY_MS = 500; // Delay between batches to be nice to servers
+
+interface ArticleToBackfill {
+  /** PDF URL for papers, otherwise the article URL */
+  fetch_url: string;
+  title: string;
+}
+
+async function getArticlesToBackfill(
+  limit: number,
+  refresh: boolean
+): Promise<ArticleToBackfill[]> {
+  const client = await getDb();
+  const result = await client.execute({
+    sql: `
+      SELECT COALESCE(articles.pdf_url, articles.url) AS fetch_url, articles.title FROM articles
+      LEFT JOIN article_contents
+        ON article_contents.url = COALESCE(articles.pdf_url, articles.url)
+      WHERE ? OR article_contents.url IS NULL OR article_contents.status != 'ok'
+      ORDER BY articles.created_at DESC
+      LIMIT ?
+    `,
+    args: [refresh ? 1 : 0, limit],
+  });
+  return result.rows as unknown as ArticleToBackfill[];
+}
+
+async function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function main() {
+  const refresh = process.argv.includes("--refresh");
+  const limitIndex = process.argv.indexOf("--limit");
+  const limit = limitIndex >= 0 ? parseInt(process.argv[limitIndex + 1] || "", 10) : 500;
+
+  console.log("📄 Article Content Backfill Script\n");
+
+  // Initialize database
+  await ensureDb({
+    tursoUrl: process.env.TURSO_DATABASE_URL,
+    tursoToken: process.env.TURSO_AUTH_TOKEN,
+    dbPath: process.env.DB_PATH,
+  });
+
+  const articles = await getArticlesToBackfill(Number.isNaN(limit) ? 500 : limit, refresh);
+  console.log(`Found ${articles.length} articles without stored content\n`);
+
+  if (articles.length === 0) {
+    console.log("✅ Nothing to backfill!");
+    return;
+  }
+
+  let processed = 0;
+  let success = 0;
+  let failed = 0;
+
+  // Process in batches
+  for (let i = 0; i < articles.length; i += CONCURRENCY) {
+    const batch = articles.slice(i, i + CONCURRENCY);
+
+    const promises = batch.map(async (article) => {
+      // Stale or missing entries are fetched; fresh ones (e.g. recent errors) are skipped
+      const { content, error } = await loadArticleContent(article.fetch_url, { refresh });
+      if (content) {
+        console.log(`  ✓ ${article.title.slice(0, 50)}... (${content.length} chars)`);
+        success++;
+      } else if (error) {
+        console.log(`  ✗ ${article.title.slice(0, 50)}... (${error})`);
+        failed++;
+      } else {
+        console.log(`  - ${article.title.slice(0, 50)}... (no content)`);
+      }
+      processed++;
+    });
+
+    await Promise.all(promises);
+
+    // Progress update
+    const progress = Math.round((processed / articles.length) * 100);
+    console.log(`\n[${progress}%] Processed ${processed}/${articles.length}\n`);
+
+    // Delay between batches
+    if (i + CONCURRENCY < articles.length) {
+      await sleep(DELAY_MS);
+    }
+  }
+
+  console.log("\n📊 Summary:");
+  console.log(`  Total: ${articles.length}`);
+  console.log(`  Stored: ${success}`);
+  console.log(`  No content: ${articles.length - success - failed}`);
+  console.log(`  Failed: ${failed}`);
+  console.log("\n✅ Backfill complete!");
+}
+
+main().catch(console.error);
@@ -2,12 +2,13 @@
 /**
  * Backfill OG images for existing articles
  * Run once to populate og_image for articles that don't have it
+ * Pages already stored in article_contents are not downloaded again
  *
  * Usage: bun scripts/backfill-og-images.ts
  */
 
 import { ensureDb, getDb } from "../packages/core/src/db";
-import { fetchArticleContentWithOgImage } from "../apps/bot/src/summarize/detailed-summary";
+import { loadArticleContent } from "../apps/bot/src/summarize/detailed-summary";
 
 const CONCURRENCY = 3; // Limit concurrent requests
 const DELAY_MS = 500; // Delay between batches to be nice to servers
@@ -66,7 +67,7 @@ async function main() {
 
     const promises = batch.map(async (article) => {
       try {
-        const { ogImage } = await fetchArticleContentWithOgImage(article.url);
+        const { ogImage } = await loadArticleContent(article.url);
         if (ogImage) {
           await updateOgImage(article.url, ogImage);
           console.log(`  ✓ ${article.title.slice(0, 50)}...`);
@@ -0,0 +1,47 @@
+#!/usr/bin/env bun
+/**
+ * Find the feeds of a site and print them as sources.yaml entries
+ *
+ * Usage: bun scripts/discover-feed.ts <homepage-url> [category]
+ */
+
+import { formatSourcesYaml } from "../packages/core/src/config";
+import { discoverFeeds } from "../apps/bot/src/sources/feed-discovery";
+
+async function main() {
+  const [pageUrl, category = "tech"] = process.argv.slice(2);
+  if (!pageUrl) {
+    console.error("Usage: bun scripts/discover-feed.ts <homepage-url> [category]");
+    process.exit(1);
+  }
+
+  console.log(`🔍 Discovering feeds for ${pageUrl}\n`);
+  const feeds = await discoverFeeds(pageUrl);
+
+  if (feeds.length === 0) {
+    console.log("No feeds found.");
+    return;
+  }
+
+  for (const feed of feeds) {
+    console.log(`  [${feed.format}] ${feed.title} — ${feed.url} (${feed.itemCount} items)`);
+  }
+
+  console.log("\n# Add to sources: in config/sources.yaml");
+  console.log(
+    formatSourcesYaml(
+      feeds.map((feed) => ({
+        name: feed.title,
+        type: feed.format === "json" ? "jsonfeed" : "rss",
+        url: feed.url,
+        category,
+        enabled: true,
+      }))
+    )
+  );
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,62 @@
+#!/usr/bin/env bun
+/**
+ * Import/export RSS sources as OPML 2.0
+ * Import adds feeds that are not configured yet to config/sources.yaml;
+ * export writes every RSS source, grouped by category.
+ *
+ * Usage:
+ *   bun scripts/opml.ts export [out.opml]
+ *   bun scripts/opml.ts import <subscriptions.opml> [--dry-run]
+ */
+
+import {
+  loadConfigFromYaml,
+  exportOpml,
+  importOpml,
+  insertSourcesYaml,
+} from "../packages/core/src/config";
+
+const CONFIG_PATH = process.env.CONFIG_PATH || "./config/sources.yaml";
+
+async function main() {
+  const [command, path, ...flags] = process.argv.slice(2);
+  const yamlContent = await Bun.file(CONFIG_PATH).text();
+  const config = loadConfigFromYaml(yamlContent, Bun.YAML.parse);
+
+  if (command === "export") {
+    const opml = exportOpml(config.sources, { categories: config.categories });
+    if (path) {
+      await Bun.write(path, opml);
+      const count = config.sources.filter((s) => s.type === "rss").length;
+      console.log(`📤 Exported ${count} RSS sources to ${path}`);
+    } else {
+      process.stdout.write(opml);
+    }
+    return;
+  }
+
+  if (command === "import" && path) {
+    const { sources, duplicates } = importOpml(await Bun.file(path).text(), {
+      existing: config.sources,
+      categories: config.categories,
+    });
+
+    console.log(`📥 ${sources.length} new feeds, ${duplicates.length} duplicates skipped`);
+    for (const source of sources) {
+      console.log(`  + [${source.category}] ${source.name} (${source.url})`);
+    }
+
+    if (sources.length === 0 || flags.includes("--dry-run")) return;
+    await Bun.write(CONFIG_PATH, insertSourcesYaml(yamlContent, sources));
+    console.log(`✅ Added to ${CONFIG_PATH}`);
+    return;
+  }
+
+  console.error("Usage: bun scripts/opml.ts export [out.opml] | import <file.opml> [--dry-run]");
+  process.exit(1);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
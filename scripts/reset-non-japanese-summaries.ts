@@ -3,6 +3,7 @@
  * Reset non-Japanese detailed summaries to allow regeneration
  * Finds articles with detailed_summary that doesn't contain Japanese characters
  * and sets detailed_summary to NULL so the background job can regenerate them
+ * (from the article text stored in article_contents, without re-downloading pages)
  *
  * Usage: bun scripts/reset-non-japanese-summaries.ts [--dry-run]
  */
@@ -109,6 +110,7 @@ async function main() {
   console.log(`  Reset: ${success}`);
   console.log("\n✅ Reset complete!");
   console.log("Run the bot or wait for background job to regenerate summaries in Japanese.");
+  console.log("Stored article text is reused; pages are only re-downloaded once it is stale.");
 }
 
 main().catch(console.error);